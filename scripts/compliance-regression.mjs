@@ -0,0 +1,80 @@
+// Runs the compliance analyzer over the labelled contracts in compliance-corpus/ and reports
+// precision and recall per rule and framework. Exits with 1 when either drops below the baseline.
+//
+//   npm run compliance:regression                        compare with compliance-corpus/baseline.json
+//   npm run compliance:regression -- --update-baseline   accept the current results as the baseline
+//   npm run compliance:regression -- --corpus <dir> --baseline <file>
+//
+// Each contract is a .txt file with a .json file of the same name next to it:
+//   { "frameworks": ["GDPR"], "jurisdiction": "EU", "expectedViolations": ["gdpr-data-retention"] }
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const corpusDir = path.resolve(option('--corpus') ?? 'compliance-corpus');
+const baselinePath = path.resolve(option('--baseline') ?? path.join(corpusDir, 'baseline.json'));
+const updateBaseline = args.includes('--update-baseline');
+
+function loadCorpus(dir) {
+  return readdirSync(dir, { recursive: true })
+    .filter((file) => file.endsWith('.txt'))
+    .sort()
+    .map((file) => {
+      const labelsPath = path.join(dir, file.replace(/\.txt$/, '.json'));
+      if (!existsSync(labelsPath)) {
+        throw new Error(`${file} has no labels (expected ${path.relative(dir, labelsPath)})`);
+      }
+      const labels = JSON.parse(readFileSync(labelsPath, 'utf8'));
+      return {
+        name: file.replace(/\.txt$/, '').split(path.sep).join('/'),
+        text: readFileSync(path.join(dir, file), 'utf8'),
+        frameworks: labels.frameworks,
+        jurisdiction: labels.jurisdiction ?? 'GLOBAL',
+        clientId: labels.clientId,
+        expectedViolations: labels.expectedViolations ?? []
+      };
+    });
+}
+
+// Vite resolves the "@/" imports in src/ the same way the app build does
+const server = await createServer({
+  mode: 'test',
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true }
+});
+
+try {
+  const { evaluateCorpus, findRegressions, formatReport } = await server.ssrLoadModule('/src/lib/compliance-regression.ts');
+  const report = evaluateCorpus(loadCorpus(corpusDir));
+  console.log(formatReport(report));
+
+  if (updateBaseline) {
+    const { rules, frameworks } = report;
+    writeFileSync(baselinePath, `${JSON.stringify({ rules, frameworks }, null, 2)}\n`);
+    console.log(`\nBaseline written to ${path.relative(process.cwd(), baselinePath)}`);
+  } else if (!existsSync(baselinePath)) {
+    console.error(`\nNo baseline at ${path.relative(process.cwd(), baselinePath)}. Run with --update-baseline to create one.`);
+    process.exitCode = 1;
+  } else {
+    const regressions = findRegressions(report, JSON.parse(readFileSync(baselinePath, 'utf8')));
+    if (regressions.length > 0) {
+      console.error('\nRegressions against the baseline:');
+      regressions.forEach((regression) => {
+        console.error(`  ${regression.scope.toLowerCase()} ${regression.id}: ${regression.metric} ${regression.baseline} -> ${regression.current}`);
+      });
+      process.exitCode = 1;
+    } else {
+      console.log('\nNo regressions against the baseline');
+    }
+  }
+} finally {
+  await server.close();
+}
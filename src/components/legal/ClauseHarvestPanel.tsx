@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, Copy, FileSearch, Trash2 } from 'lucide-react';
+import { ClauseHarvestResult, ClauseTemplate } from '@/types/clause-library';
+import { ClauseLibraryEngine } from '@/lib/clause-library-engine';
+
+interface ClauseHarvestPanelProps {
+  engine: ClauseLibraryEngine;
+  libraryId: string;
+  currentUser?: string;
+  contractText?: string;
+  contractName?: string;
+  onChange: (staged: ClauseTemplate[], accepted: ClauseTemplate[], discardedIds: string[]) => void; // called after clauses are staged, accepted or discarded
+}
+
+/**
+ * Harvest clauses from a contract into the library as drafts, then accept or discard them in bulk
+ */
+export function ClauseHarvestPanel({
+  engine,
+  libraryId,
+  currentUser,
+  contractText = '',
+  contractName = '',
+  onChange
+}: ClauseHarvestPanelProps) {
+  const [text, setText] = useState(contractText);
+  const [name, setName] = useState(contractName);
+  const [result, setResult] = useState<ClauseHarvestResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [handled, setHandled] = useState<Record<string, 'ACCEPTED' | 'DISCARDED'>>({});
+
+  const pending = result?.staged.filter(template => !handled[template.id]) ?? [];
+  const selectedPending = pending.filter(template => selected.has(template.id));
+
+  const handleHarvest = () => {
+    if (!currentUser) return;
+
+    try {
+      const harvest = engine.harvestClauses(libraryId, text, {
+        contractName: name.trim() || 'Untitled contract',
+        author: currentUser
+      });
+      setResult(harvest);
+      setSelected(new Set(harvest.staged.map(template => template.id)));
+      setHandled({});
+      onChange(harvest.staged, [], []);
+      toast.success(`Staged ${harvest.staged.length} clause(s) for review`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to harvest clauses');
+    }
+  };
+
+  const handleAccept = () => {
+    if (!currentUser) return;
+
+    try {
+      const accepted = engine.acceptClauseDrafts(libraryId, selectedPending.map(template => template.id), currentUser);
+      setHandled(prev => ({ ...prev, ...Object.fromEntries(accepted.map(template => [template.id, 'ACCEPTED'])) }));
+      onChange([], accepted, []);
+      toast.success(`Accepted ${accepted.length} clause(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept clauses');
+    }
+  };
+
+  const handleDiscard = () => {
+    try {
+      const discarded = engine.discardClauseDrafts(libraryId, selectedPending.map(template => template.id));
+      setHandled(prev => ({ ...prev, ...Object.fromEntries(discarded.map(template => [template.id, 'DISCARDED'])) }));
+      onChange([], [], discarded.map(template => template.id));
+      toast.success(`Discarded ${discarded.length} clause(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to discard clauses');
+    }
+  };
+
+  const toggle = (templateId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(templateId);
+      } else {
+        next.delete(templateId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5" />
+            Harvest Clauses
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="harvest-contract-name">Contract</Label>
+            <Input
+              id="harvest-contract-name"
+              placeholder="Contract name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <Textarea
+            rows={8}
+            placeholder="Paste the text of a signed contract..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <Button size="sm" disabled={!currentUser || !text.trim()} onClick={handleHarvest}>
+            Harvest
+          </Button>
+          {!currentUser && (
+            <p className="text-xs text-muted-foreground">Sign in to harvest clauses.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {result.clauses.length} clause(s) found, {result.staged.length} staged,{' '}
+              {result.clauses.length - result.staged.length} already in the library
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" disabled={selectedPending.length === 0} onClick={handleAccept}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Accept Selected
+              </Button>
+              <Button size="sm" variant="outline" disabled={selectedPending.length === 0} onClick={handleDiscard}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Discard Selected
+              </Button>
+            </div>
+          </div>
+
+          {result.clauses.map((clause, index) => {
+            const template = clause.template;
+            const status = template ? handled[template.id] : undefined;
+
+            return (
+              <Card key={index} className={clause.duplicateOf ? 'border-l-4 border-l-amber-500' : ''}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-start gap-2">
+                      {template && !status && (
+                        <Checkbox
+                          checked={selected.has(template.id)}
+                          onCheckedChange={(checked) => toggle(template.id, checked === true)}
+                        />
+                      )}
+                      <div>
+                        <h4 className="font-medium">{template?.title ?? clause.heading}</h4>
+                        <p className="text-xs text-muted-foreground">
+                          {clause.wordCount} words · {clause.complexity.toLowerCase()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      <Badge variant="secondary" className="text-xs">
+                        {clause.category.replace(/_/g, ' ')} · {Math.round(clause.categoryConfidence * 100)}%
+                      </Badge>
+                      {clause.complianceFrameworks.map((framework) => (
+                        <Badge key={framework} variant="outline" className="text-xs">{framework}</Badge>
+                      ))}
+                      {status && <Badge variant="outline" className="text-xs">{status}</Badge>}
+                    </div>
+                  </div>
+
+                  <p className="text-sm p-3 bg-muted rounded-md line-clamp-4">{clause.content}</p>
+
+                  {clause.duplicateOf && (
+                    <p className="flex items-center gap-1 text-xs text-amber-700">
+                      <Copy className="h-3 w-3" />
+                      Nearly repeats "{clause.duplicateOf.title}" ({Math.round(clause.duplicateOf.similarity * 100)}% similar); not staged
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
@@ -35,8 +35,12 @@ import {
   AlertTriangle,
   CheckCircle,
   Shield,
-  FileText
+  FileText,
+  GitFork,
+  History,
+  RefreshCw
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { 
   ClauseTemplate, 
   ClauseLibrary, 
@@ -44,53 +48,130 @@ import {
   ClauseCategory,
   ClauseStatus,
   ClauseSuggestion,
+  ClauseTemplateMatch,
+  ClauseVersion,
+  Firm,
+  FirmMember,
   SmartSuggestionRequest
 } from '@/types/clause-library';
 import { ClauseLibraryEngine } from '@/lib/clause-library-engine';
+import { ClauseLibraryStore } from '@/lib/clause-library-store';
+import { ClauseHarvestPanel } from './ClauseHarvestPanel';
+import { ClauseVersionHistory } from './ClauseVersionHistory';
 
 interface ClauseLibraryManagerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSelectClause?: (clause: ClauseTemplate) => void;
   onGenerateSuggestions?: (request: SmartSuggestionRequest) => void;
+  currentUser?: string; // user id that drafts, reviews and restores clause versions; read-only without one
+  userId?: string; // loads and saves libraries in Supabase; kept in memory only without one
+  contractText?: string; // offered for harvesting clauses into the library
+  contractName?: string;
 }
 
 export function ClauseLibraryManager({ 
   open, 
   onOpenChange, 
   onSelectClause,
-  onGenerateSuggestions 
+  onGenerateSuggestions,
+  currentUser,
+  userId,
+  contractText,
+  contractName
 }: ClauseLibraryManagerProps) {
   const [engine] = useState(() => new ClauseLibraryEngine());
-  const [libraries, setLibraries] = useState<ClauseLibrary[]>([]);
-  const [selectedLibrary, setSelectedLibrary] = useState<string>('');
+  const [store] = useState(() => new ClauseLibraryStore());
+  const [storedLibraryIds, setStoredLibraryIds] = useState<Set<string>>(new Set());
+  const [libraries, setLibraries] = useState<ClauseLibrary[]>(() => engine.getLibraries());
+  const [selectedLibrary, setSelectedLibrary] = useState<string>(() => engine.getLibraries()[0]?.id ?? '');
   const [clauses, setClauses] = useState<ClauseTemplate[]>([]);
+  const [matchingSections, setMatchingSections] = useState<Record<string, ClauseTemplateMatch['matchingSections']>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<ClauseSearchFilters>({});
   const [selectedClause, setSelectedClause] = useState<ClauseTemplate | null>(null);
   const [suggestions, setSuggestions] = useState<ClauseSuggestion[]>([]);
   const [showCreateClause, setShowCreateClause] = useState(false);
+  const [activeTab, setActiveTab] = useState('library');
+  const [members, setMembers] = useState<FirmMember[]>([]);
+  const [firms, setFirms] = useState<Firm[]>([]);
+  const [showCreateLibrary, setShowCreateLibrary] = useState(false);
+
+  // Create a library for the user, or for one of their firms, and store it
+  const createStoredLibrary = async (
+    ownerId: string,
+    name: string,
+    description: string,
+    teamId?: string
+  ): Promise<ClauseLibrary> => {
+    const library = engine.createLibrary(name, description, teamId ?? ownerId);
+    // A private library has no one else to review its versions
+    library.settings.requireApproval = !!teamId;
+    await store.createLibrary(ownerId, library, teamId);
+    return library;
+  };
 
   useEffect(() => {
-    // Initialize libraries
-    const defaultLibrary = engine.createLibrary(
-      'Default Library',
-      'Standard legal clauses',
-      'default',
-      true
-    );
-    setLibraries([defaultLibrary]);
-    setSelectedLibrary(defaultLibrary.id);
-  }, [engine]);
+    if (!open || !userId) return;
+
+    store.loadInto(engine)
+      .then(async stored => {
+        // The user's own library is created and stored the first time they open the manager
+        const own = stored.find(library => library.firmId === userId) ??
+          await store.createPersonalLibrary(userId, engine);
+        const storedIds = new Set([...stored.map(library => library.id), own.id]);
+        setStoredLibraryIds(storedIds);
+        setLibraries(engine.getLibraries());
+        setSelectedLibrary(prev => storedIds.has(prev) ? prev : own.id);
+      })
+      .catch(error => console.error('Error loading clause libraries:', error));
+
+    store.listFirms(userId)
+      .then(setFirms)
+      .catch(error => console.error('Error loading firms:', error));
+  }, [open, userId, engine, store]);
+
+  const currentLibrary = libraries.find(library => library.id === selectedLibrary);
+  // Another firm's public library can be forked once it is stored, so the fork can link to it
+  const canFork = !!userId && !!currentLibrary && storedLibraryIds.has(currentLibrary.id) &&
+    currentLibrary.isPublic && currentLibrary.firmId !== userId;
+  const firmId = currentLibrary?.firmId;
 
+  // Versions are reviewed by members of the firm that owns the library
   useEffect(() => {
-    if (selectedLibrary) {
-      const library = libraries.find(l => l.id === selectedLibrary);
-      if (library) {
-        const results = engine.searchClauses(selectedLibrary, searchQuery, filters);
-        setClauses(results);
-      }
+    if (!userId || !firmId) {
+      setMembers([]);
+      return;
     }
+
+    let cancelled = false;
+    store.listFirmMembers(firmId)
+      .then(firmMembers => {
+        if (!cancelled) setMembers(firmMembers);
+      })
+      .catch(error => console.error('Error loading firm members:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, firmId, store]);
+
+  useEffect(() => {
+    if (!selectedLibrary || !libraries.some(l => l.id === selectedLibrary)) return;
+
+    let cancelled = false;
+    engine.prepareSearch(searchQuery)
+      .catch(error => console.error('Error preparing clause search:', error))
+      .then(() => {
+        if (cancelled) return;
+        const matches = engine.searchClauseMatches(selectedLibrary, searchQuery, filters);
+        setClauses(matches.map(match => match.template));
+        setMatchingSections(Object.fromEntries(matches.map(match => [match.template.id, match.matchingSections])));
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [selectedLibrary, searchQuery, filters, engine, libraries]);
 
   const handleSearch = (query: string) => {
@@ -111,7 +192,92 @@ export function ClauseLibraryManager({
     }
   };
 
-  const handleGenerateSuggestions = (clause: ClauseTemplate) => {
+  const handleShowVersions = (clause: ClauseTemplate) => {
+    setSelectedClause(clause);
+    setActiveTab('versions');
+  };
+
+  // Versions change clauses in place; a new libraries array re-runs the search to pick them up
+  const handleVersionChange = (reviewed?: ClauseVersion) => {
+    setLibraries(prev => [...prev]);
+
+    const library = libraries.find(l => selectedClause && l.clauses.includes(selectedClause));
+    if (selectedClause && library && storedLibraryIds.has(library.id)) {
+      const saved = reviewed
+        ? store.saveReview(library, selectedClause, reviewed)
+        : store.saveClause(library.id, selectedClause);
+      saved.catch(error => {
+        console.error('Error saving clause:', error);
+        toast.error('Failed to save the clause');
+      });
+    }
+  };
+
+  const handleHarvestChange = (staged: ClauseTemplate[], accepted: ClauseTemplate[], discardedIds: string[]) => {
+    setLibraries(prev => [...prev]);
+    if (!currentLibrary || !storedLibraryIds.has(currentLibrary.id)) return;
+
+    // Accepting a staged clause approves it and its draft version, which is stored as a review
+    const saveAccepted = (clause: ClauseTemplate) =>
+      store.saveReview(currentLibrary, clause, clause.alternativeVersions.find(v => v.isActive));
+
+    Promise.all([
+      ...staged.map(clause => store.saveClause(currentLibrary.id, clause)),
+      ...accepted.map(saveAccepted),
+      store.deleteClauses(discardedIds)
+    ]).catch(error => {
+      console.error('Error saving harvested clauses:', error);
+      toast.error('Failed to save harvested clauses');
+    });
+  };
+
+  const handleCreateLibrary = async (name: string, description: string, teamId?: string) => {
+    if (!userId) return;
+
+    try {
+      const library = await createStoredLibrary(userId, name, description, teamId);
+      setStoredLibraryIds(prev => new Set(prev).add(library.id));
+      setLibraries(engine.getLibraries());
+      setSelectedLibrary(library.id);
+      setShowCreateLibrary(false);
+      toast.success(`Created ${library.name}`);
+    } catch (error) {
+      console.error('Error creating clause library:', error);
+      toast.error('Failed to create the library');
+    }
+  };
+
+  const handleForkLibrary = async () => {
+    if (!userId || !currentLibrary) return;
+
+    try {
+      const fork = await store.forkLibrary(userId, engine, currentLibrary.id);
+      setStoredLibraryIds(prev => new Set(prev).add(fork.id));
+      setLibraries(engine.getLibraries());
+      setSelectedLibrary(fork.id);
+      toast.success(`Forked ${currentLibrary.name}`);
+    } catch (error) {
+      console.error('Error forking clause library:', error);
+      toast.error('Failed to fork the library');
+    }
+  };
+
+  const handlePullUpstream = async () => {
+    if (!userId || !currentLibrary) return;
+
+    try {
+      const result = await store.pullUpstream(engine, currentLibrary.id, currentUser ?? userId);
+      setLibraries(engine.getLibraries());
+      toast.success(
+        `${result.updated.length} updated, ${result.added.length} added, ${result.drafted.length} drafted for review`
+      );
+    } catch (error) {
+      console.error('Error pulling upstream changes:', error);
+      toast.error('Failed to pull upstream changes');
+    }
+  };
+
+  const handleGenerateSuggestions = async (clause: ClauseTemplate) => {
     const request: SmartSuggestionRequest = {
       originalClause: clause.content,
       context: 'Contract review',
@@ -123,6 +289,7 @@ export function ClauseLibraryManager({
       maxSuggestions: 5
     };
 
+    await engine.prepareSearch(clause.content);
     const newSuggestions = engine.generateSmartSuggestions(request, selectedLibrary);
     setSuggestions(newSuggestions);
     
@@ -186,11 +353,13 @@ export function ClauseLibraryManager({
           </DialogTitle>
         </DialogHeader>
 
-        <Tabs defaultValue="library" className="flex-1 overflow-hidden">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 overflow-hidden">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="library">Library</TabsTrigger>
             <TabsTrigger value="search">Search & Filter</TabsTrigger>
             <TabsTrigger value="suggestions">Smart Suggestions</TabsTrigger>
+            <TabsTrigger value="versions">Versions</TabsTrigger>
+            <TabsTrigger value="harvest">Harvest</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -204,6 +373,36 @@ export function ClauseLibraryManager({
                   </p>
                 </div>
                 <div className="flex gap-2">
+                  <Select value={selectedLibrary} onValueChange={setSelectedLibrary}>
+                    <SelectTrigger className="w-56 h-9">
+                      <SelectValue placeholder="Select library" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {libraries.map((library) => (
+                        <SelectItem key={library.id} value={library.id}>
+                          {library.name}{library.isPublic ? ' (public)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {userId && (
+                    <Button variant="outline" size="sm" onClick={() => setShowCreateLibrary(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Library
+                    </Button>
+                  )}
+                  {canFork && (
+                    <Button variant="outline" size="sm" onClick={handleForkLibrary}>
+                      <GitFork className="h-4 w-4 mr-2" />
+                      Fork
+                    </Button>
+                  )}
+                  {userId && currentLibrary?.upstream && (
+                    <Button variant="outline" size="sm" onClick={handlePullUpstream}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Pull Upstream
+                    </Button>
+                  )}
                   <Button variant="outline" size="sm">
                     <Upload className="h-4 w-4 mr-2" />
                     Import
@@ -233,6 +432,13 @@ export function ClauseLibraryManager({
                           <p className="text-sm text-muted-foreground line-clamp-2">
                             {clause.description}
                           </p>
+                          {searchQuery && matchingSections[clause.id]?.length > 0 && (
+                            <p className="text-xs line-clamp-3">
+                              {matchingSections[clause.id].map((section, index) => (
+                                <mark key={index} className="bg-yellow-100 mr-1">{section.content}</mark>
+                              ))}
+                            </p>
+                          )}
                         </div>
                         <div className="flex flex-col gap-1">
                           <Badge className={getRiskColor(clause.riskLevel)}>
@@ -309,6 +515,16 @@ export function ClauseLibraryManager({
                           >
                             <Lightbulb className="h-3 w-3" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleShowVersions(clause);
+                            }}
+                          >
+                            <History className="h-3 w-3" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -550,6 +766,38 @@ export function ClauseLibraryManager({
               </Card>
             </TabsContent>
 
+            <TabsContent value="versions" className="space-y-4">
+              {selectedClause ? (
+                <ClauseVersionHistory
+                  key={selectedClause.id}
+                  engine={engine}
+                  clause={selectedClause}
+                  currentUser={currentUser}
+                  members={members}
+                  onChange={handleVersionChange}
+                />
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>Select a clause to see its versions.</p>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="harvest" className="space-y-4">
+              {selectedLibrary && (
+                <ClauseHarvestPanel
+                  key={`${selectedLibrary}:${contractName ?? ''}`}
+                  engine={engine}
+                  libraryId={selectedLibrary}
+                  currentUser={currentUser}
+                  contractText={contractText}
+                  contractName={contractName}
+                  onChange={handleHarvestChange}
+                />
+              )}
+            </TabsContent>
+
             <TabsContent value="analytics" className="space-y-4">
               <Card>
                 <CardHeader>
@@ -568,6 +816,92 @@ export function ClauseLibraryManager({
             </TabsContent>
           </ScrollArea>
         </Tabs>
+
+        {showCreateLibrary && (
+          <NewLibraryDialog
+            firms={firms}
+            onCreate={handleCreateLibrary}
+            onCancel={() => setShowCreateLibrary(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface NewLibraryDialogProps {
+  firms: Firm[];
+  onCreate: (name: string, description: string, teamId?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const PRIVATE_LIBRARY = 'private';
+
+function NewLibraryDialog({ firms, onCreate, onCancel }: NewLibraryDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [owner, setOwner] = useState(PRIVATE_LIBRARY);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      await onCreate(name.trim(), description.trim(), owner === PRIVATE_LIBRARY ? undefined : owner);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onCancel}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New Clause Library</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="library-name">Name</Label>
+            <Input id="library-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="library-description">Description</Label>
+            <Textarea
+              id="library-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Owner</Label>
+            <Select value={owner} onValueChange={setOwner}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRIVATE_LIBRARY}>Just me</SelectItem>
+                {firms.map((firm) => (
+                  <SelectItem key={firm.id} value={firm.id}>{firm.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {owner === PRIVATE_LIBRARY
+                ? 'Only you can see and edit this library. Its versions go live without review.'
+                : 'Every member of the firm can edit this library. Versions go live once another member approves them.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button disabled={!name.trim() || isSaving} onClick={handleCreate}>
+            Create Library
+          </Button>
+        </div>
       </DialogContent>
     </Dialog>
   );
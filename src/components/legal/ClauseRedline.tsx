@@ -0,0 +1,58 @@
+import { Badge } from '@/components/ui/badge';
+import { ClauseDifference, RedlineSegment } from '@/types/clause-library';
+
+interface ClauseRedlineProps {
+  redline: RedlineSegment[];
+  differences: ClauseDifference[];
+}
+
+const SEGMENT_STYLES: Record<RedlineSegment['type'], string> = {
+  UNCHANGED: '',
+  INSERTED: 'bg-green-50 text-green-800 underline decoration-green-600',
+  DELETED: 'bg-red-50 text-red-700 line-through decoration-red-600',
+  MOVED_FROM: 'text-blue-700 line-through decoration-double decoration-blue-600',
+  MOVED_TO: 'bg-blue-50 text-blue-800 underline decoration-double decoration-blue-600'
+};
+
+const IMPACT_COLORS: Record<ClauseDifference['impact'], string> = {
+  POSITIVE: 'text-green-600 bg-green-50 border-green-200',
+  NEGATIVE: 'text-red-600 bg-red-50 border-red-200',
+  NEUTRAL: 'text-gray-600 bg-gray-50 border-gray-200'
+};
+
+/**
+ * Redline of a suggested clause against the original: insertions underlined, deletions struck out,
+ * and moved sentences double-struck where they were and double-underlined where they went
+ */
+export function ClauseRedline({ redline, differences }: ClauseRedlineProps) {
+  return (
+    <div className="space-y-3">
+      <div className="p-3 border rounded-md text-sm leading-relaxed whitespace-pre-wrap">
+        {redline.map((segment, index) => (
+          <span key={index} className={SEGMENT_STYLES[segment.type]}>{segment.text}</span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span><span className={SEGMENT_STYLES.INSERTED}>Inserted</span></span>
+        <span><span className={SEGMENT_STYLES.DELETED}>Deleted</span></span>
+        <span><span className={SEGMENT_STYLES.MOVED_FROM}>Moved from</span></span>
+        <span><span className={SEGMENT_STYLES.MOVED_TO}>Moved to</span></span>
+      </div>
+
+      {differences.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The suggested clause is identical to the original.</p>
+      ) : (
+        <div className="space-y-1">
+          {differences.map((difference, index) => (
+            <div key={index} className="flex items-start gap-2 text-sm">
+              <Badge variant="outline" className="text-xs flex-shrink-0">{difference.type}</Badge>
+              <Badge className={`text-xs flex-shrink-0 ${IMPACT_COLORS[difference.impact]}`}>{difference.impact}</Badge>
+              <span>{difference.description}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, History, MessageSquare, RotateCcw, Send, XCircle } from 'lucide-react';
+import { ClauseTemplate, ClauseVersion, ClauseVersionStatus, FirmMember } from '@/types/clause-library';
+import { ClauseLibraryEngine } from '@/lib/clause-library-engine';
+
+interface ClauseVersionHistoryProps {
+  engine: ClauseLibraryEngine;
+  clause: ClauseTemplate;
+  currentUser?: string; // user id
+  members?: FirmMember[]; // the library's firm, whose members can be assigned to review versions
+  onChange: (reviewed?: ClauseVersion) => void; // called after any change, with the version if it was approved or rejected
+}
+
+const STATUS_COLORS: Record<ClauseVersionStatus, string> = {
+  DRAFT: 'text-blue-600 bg-blue-50',
+  PENDING: 'text-amber-600 bg-amber-50',
+  APPROVED: 'text-green-600 bg-green-50',
+  REJECTED: 'text-red-600 bg-red-50'
+};
+
+/**
+ * Versions of a clause, newest first, with the draft → review → approved workflow and restore
+ */
+export function ClauseVersionHistory({ engine, clause, currentUser, members = [], onChange }: ClauseVersionHistoryProps) {
+  const [draftContent, setDraftContent] = useState(clause.content);
+  const [draftChanges, setDraftChanges] = useState('');
+  const [approvers, setApprovers] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const versions = [...engine.getClauseVersions(clause.id)].reverse();
+  const nameOf = (userId: string) => members.find(member => member.userId === userId)?.name ?? userId;
+
+  const run = (action: () => ClauseVersion | void, success: string, review = false) => {
+    try {
+      const version = action();
+      toast.success(success);
+      onChange(review && version ? version : undefined);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update the clause version');
+    }
+  };
+
+  const handleCreateDraft = () => {
+    if (!currentUser) return;
+    run(() => {
+      engine.createClauseVersion(clause.id, draftContent, currentUser, draftChanges);
+      setDraftChanges('');
+    }, 'Draft version created');
+  };
+
+  const renderActions = (version: ClauseVersion) => {
+    if (!currentUser) return null;
+    const comment = comments[version.id] ?? '';
+    const reviewers = members.filter(member => member.userId !== version.author);
+
+    return (
+      <div className="space-y-2">
+        {version.approvalStatus === 'DRAFT' && version.author === currentUser && (
+          <div className="flex gap-2">
+            <Select
+              value={approvers[version.id] ?? ''}
+              onValueChange={(value) => setApprovers(prev => ({ ...prev, [version.id]: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Approver" />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewers.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => run(
+                () => engine.submitClauseVersion(clause.id, version.id, currentUser, approvers[version.id] || undefined, comment),
+                `Version ${version.version} submitted for review`
+              )}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Submit
+            </Button>
+          </div>
+        )}
+        {version.approvalStatus === 'DRAFT' && version.author === currentUser && reviewers.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Only other members of the library's firm can review its versions.
+          </p>
+        )}
+
+        <Textarea
+          placeholder="Comment"
+          rows={2}
+          value={comment}
+          onChange={(e) => setComments(prev => ({ ...prev, [version.id]: e.target.value }))}
+        />
+        <div className="flex flex-wrap gap-2">
+          {version.approvalStatus === 'PENDING' && version.approver === currentUser && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => run(
+                  () => engine.approveClauseVersion(clause.id, version.id, currentUser, comment),
+                  `Version ${version.version} approved`,
+                  true
+                )}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run(
+                  () => engine.rejectClauseVersion(clause.id, version.id, currentUser, comment),
+                  `Version ${version.version} rejected`,
+                  true
+                )}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={!comment.trim()}
+            onClick={() => run(() => {
+              engine.commentOnClauseVersion(clause.id, version.id, currentUser, comment);
+              setComments(prev => ({ ...prev, [version.id]: '' }));
+            }, 'Comment added')}
+          >
+            <MessageSquare className="h-4 w-4 mr-2" />
+            Comment
+          </Button>
+          {!version.isActive && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => run(
+                () => engine.restoreClauseVersion(clause.id, version.id, currentUser),
+                `Version ${version.version} restored`
+              )}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">New Version of {clause.title}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Textarea rows={5} value={draftContent} onChange={(e) => setDraftContent(e.target.value)} />
+          <Input
+            placeholder="What changed"
+            value={draftChanges}
+            onChange={(e) => setDraftChanges(e.target.value)}
+          />
+          <Button
+            size="sm"
+            disabled={!currentUser || !draftChanges.trim() || draftContent === clause.content}
+            onClick={handleCreateDraft}
+          >
+            Save Draft
+          </Button>
+          {!currentUser && (
+            <p className="text-xs text-muted-foreground">Sign in to draft, review or restore versions.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {versions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>This library does not keep versions of its clauses.</p>
+        </div>
+      ) : (
+        versions.map((version) => (
+          <Card key={version.id} className={version.isActive ? 'border-l-4 border-l-green-500' : ''}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h4 className="font-medium">
+                    Version {version.version}
+                    {version.isActive && <span className="ml-2 text-xs text-green-600">Current</span>}
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {version.changes} · {nameOf(version.author)} · {new Date(version.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Badge variant="outline" className={STATUS_COLORS[version.approvalStatus]}>
+                  {version.approvalStatus}
+                </Badge>
+              </div>
+
+              <p className="text-sm p-3 bg-muted rounded-md whitespace-pre-wrap">{version.content}</p>
+
+              {version.approver && version.approvalStatus === 'PENDING' && (
+                <p className="text-xs text-muted-foreground">Awaiting review by {nameOf(version.approver)}</p>
+              )}
+
+              {version.comments.length > 0 && (
+                <div className="space-y-1">
+                  {version.comments.map((entry) => (
+                    <div key={entry.id} className="flex items-start gap-2 text-xs">
+                      <Badge variant="secondary" className="text-xs flex-shrink-0">{entry.action}</Badge>
+                      <span>
+                        <span className="font-medium">{nameOf(entry.author)}</span>
+                        {entry.comment && `: ${entry.comment}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {renderActions(version)}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
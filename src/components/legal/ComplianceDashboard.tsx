@@ -18,26 +18,42 @@ import {
   AlertCircle,
   Clock,
   Users,
-  Globe
+  Globe,
+  MapPin
 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { 
   ContractComplianceAnalysis, 
+  ComplianceAnalysisRecord,
   ComplianceFramework, 
   RiskLevel,
   ComplianceViolation 
 } from '@/types/compliance';
 import { ComplianceAnalyzer } from '@/lib/compliance-analyzer';
+import { frameworkRegistry } from '@/lib/compliance-framework-registry';
+import { summarizePortfolio } from '@/lib/compliance-batch';
+import { formatRiskLevel, formatScore } from '@/lib/compliance-score';
+import { ComplianceObligations } from './ComplianceObligations';
+import { ComplianceScoreBreakdown } from './ComplianceScoreBreakdown';
+import { CompliancePortfolio } from './CompliancePortfolio';
 
 interface ComplianceDashboardProps {
   contracts: ContractComplianceAnalysis[];
   onViewContract: (contractId: string) => void;
   onConfigureFrameworks: () => void;
+  onViewViolation?: (contractId: string, violation: ComplianceViolation) => void;
+  history?: ComplianceAnalysisRecord[]; // every stored analysis, for the remediation timeline
 }
 
+const TIMELINE_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#0891b2'];
+
 export function ComplianceDashboard({ 
   contracts, 
   onViewContract, 
-  onConfigureFrameworks 
+  onConfigureFrameworks,
+  onViewViolation,
+  history
 }: ComplianceDashboardProps) {
   const [selectedFramework, setSelectedFramework] = useState<ComplianceFramework | 'ALL'>('ALL');
   const [selectedRiskLevel, setSelectedRiskLevel] = useState<RiskLevel | 'ALL'>('ALL');
@@ -57,11 +73,12 @@ export function ComplianceDashboard({
     })
     .sort((a, b) => {
       switch (sortBy) {
+        // Contracts that aren't scored go last
         case 'score':
-          return b.overallComplianceScore - a.overallComplianceScore;
+          return (b.overallComplianceScore ?? -1) - (a.overallComplianceScore ?? -1);
         case 'risk':
           const riskOrder = { 'LOW': 4, 'MEDIUM': 3, 'HIGH': 2, 'CRITICAL': 1 };
-          return riskOrder[b.overallRiskLevel] - riskOrder[a.overallRiskLevel];
+          return (b.overallRiskLevel ? riskOrder[b.overallRiskLevel] : 0) - (a.overallRiskLevel ? riskOrder[a.overallRiskLevel] : 0);
         case 'date':
           return new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime();
         case 'name':
@@ -72,16 +89,31 @@ export function ComplianceDashboard({
     });
 
   // Calculate dashboard statistics
+  const scores = contracts.map(c => c.overallComplianceScore).filter((score): score is number => score !== null);
   const stats = {
     totalContracts: contracts.length,
     compliantContracts: contracts.filter(c => c.overallRiskLevel === 'LOW').length,
     highRiskContracts: contracts.filter(c => c.overallRiskLevel === 'HIGH' || c.overallRiskLevel === 'CRITICAL').length,
-    averageScore: contracts.length > 0 ? Math.round(contracts.reduce((sum, c) => sum + c.overallComplianceScore, 0) / contracts.length) : 0,
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
     criticalIssues: contracts.reduce((sum, c) => sum + c.criticalIssues.length, 0),
     frameworks: [...new Set(contracts.flatMap(c => c.frameworks.map(f => f.framework)))]
   };
 
-  const getRiskColor = (riskLevel: RiskLevel) => {
+  // Remediation timeline: one line per contract, one point per analysis
+  const sortedHistory = [...(history ?? [])].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const latestByContract = new Map(sortedHistory.map(record => [record.contractKey, record]));
+  const timelineConfig: ChartConfig = Object.fromEntries(
+    [...latestByContract.values()].map((record, index) => [
+      record.contractKey,
+      { label: record.analysis.documentName, color: TIMELINE_COLORS[index % TIMELINE_COLORS.length] }
+    ])
+  );
+  const timelineData = sortedHistory.map(record => ({
+    time: record.createdAt.getTime(),
+    [record.contractKey]: record.analysis.overallComplianceScore
+  }));
+
+  const getRiskColor = (riskLevel: RiskLevel | null) => {
     switch (riskLevel) {
       case 'LOW':
         return 'text-green-600 bg-green-50 border-green-200';
@@ -96,7 +128,7 @@ export function ComplianceDashboard({
     }
   };
 
-  const getRiskIcon = (riskLevel: RiskLevel) => {
+  const getRiskIcon = (riskLevel: RiskLevel | null) => {
     switch (riskLevel) {
       case 'LOW':
         return <CheckCircle className="h-4 w-4" />;
@@ -112,19 +144,73 @@ export function ComplianceDashboard({
   };
 
   const getFrameworkColor = (framework: ComplianceFramework) => {
-    const colors = {
-      'GDPR': 'bg-blue-100 text-blue-800',
-      'HIPAA': 'bg-green-100 text-green-800',
-      'SOX': 'bg-purple-100 text-purple-800',
-      'CCPA': 'bg-orange-100 text-orange-800',
-      'PIPEDA': 'bg-indigo-100 text-indigo-800',
-      'LGPD': 'bg-pink-100 text-pink-800',
-      'ISO27001': 'bg-gray-100 text-gray-800',
-      'SOC2': 'bg-cyan-100 text-cyan-800',
-      'PCI-DSS': 'bg-red-100 text-red-800',
-      'CUSTOM': 'bg-yellow-100 text-yellow-800'
-    };
-    return colors[framework] || 'bg-gray-100 text-gray-800';
+    return frameworkRegistry.getBadgeClassName(framework);
+  };
+
+  const renderQualityBreakdown = (violation: ComplianceViolation) => {
+    if (!violation.qualityBreakdown) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        <span className="text-xs text-muted-foreground">
+          Quality {Math.round(violation.qualityBreakdown.score * 100)}%:
+        </span>
+        {violation.qualityBreakdown.indicators.map((result) => (
+          <Badge
+            key={result.indicator}
+            variant="outline"
+            className={`text-xs ${result.present ? 'text-green-700 border-green-200' : 'text-red-700 border-red-200'}`}
+            title={result.evidence}
+          >
+            {result.present ? <CheckCircle className="h-3 w-3 mr-1" /> : <AlertCircle className="h-3 w-3 mr-1" />}
+            {result.label}
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  const renderThreshold = (violation: ComplianceViolation) => {
+    if (!violation.threshold) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        <Badge variant="outline" className="text-xs text-red-700 border-red-200">
+          Found: {violation.threshold.found.length > 0
+            ? violation.threshold.found.map(quantity => quantity.text).join(', ')
+            : 'not stated'}
+        </Badge>
+        <Badge variant="outline" className="text-xs text-green-700 border-green-200">
+          Required: {violation.threshold.required}
+        </Badge>
+      </div>
+    );
+  };
+
+  const renderViolationLocation = (contractId: string, violation: ComplianceViolation) => {
+    if (!violation.location) return null;
+
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <div className="text-xs text-muted-foreground line-clamp-1">
+          <span className="font-medium">{violation.location.clauseHeading}</span>: "{violation.location.matchedText}"
+          {violation.contradiction && (
+            <span className="text-red-600"> ({violation.contradiction.kind.toLowerCase().replace('_', '-')}: "{violation.contradiction.trigger}")</span>
+          )}
+        </div>
+        {onViewViolation && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onViewViolation(contractId, violation)}
+          >
+            <MapPin className="h-3 w-3 mr-1" />
+            Locate
+          </Button>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -192,7 +278,7 @@ export function ComplianceDashboard({
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Avg Score</p>
-                <p className="text-2xl font-bold">{stats.averageScore}%</p>
+                <p className="text-2xl font-bold">{formatScore(stats.averageScore)}</p>
               </div>
               <TrendingUp className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -252,6 +338,10 @@ export function ComplianceDashboard({
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="detailed">Detailed View</TabsTrigger>
           <TabsTrigger value="violations">Violations</TabsTrigger>
+          <TabsTrigger value="obligations">Obligations</TabsTrigger>
+          <TabsTrigger value="scores">Score Breakdown</TabsTrigger>
+          <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
+          {history && <TabsTrigger value="remediation">Remediation</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="overview">
@@ -265,10 +355,10 @@ export function ComplianceDashboard({
                       <div className="flex items-center gap-2">
                         <Badge className={getRiskColor(contract.overallRiskLevel)}>
                           {getRiskIcon(contract.overallRiskLevel)}
-                          <span className="ml-1">{contract.overallRiskLevel}</span>
+                          <span className="ml-1">{formatRiskLevel(contract.overallRiskLevel)}</span>
                         </Badge>
                         <span className="text-sm text-muted-foreground">
-                          {contract.overallComplianceScore}%
+                          {formatScore(contract.overallComplianceScore)}
                         </span>
                       </div>
                     </div>
@@ -357,7 +447,7 @@ export function ComplianceDashboard({
                       <div className="flex items-center gap-2">
                         <Badge className={getRiskColor(contract.overallRiskLevel)}>
                           {getRiskIcon(contract.overallRiskLevel)}
-                          <span className="ml-1">{contract.overallRiskLevel}</span>
+                          <span className="ml-1">{formatRiskLevel(contract.overallRiskLevel)}</span>
                         </Badge>
                         <Button
                           variant="outline"
@@ -375,20 +465,23 @@ export function ComplianceDashboard({
                         <div key={framework.framework} className="space-y-2">
                           <div className="flex items-center justify-between">
                             <span className="font-medium">{framework.framework}</span>
-                            <Badge variant="outline">{framework.overallScore}%</Badge>
+                            <Badge variant="outline">{formatScore(framework.overallScore)}</Badge>
                           </div>
                           <div className="w-full bg-gray-200 rounded-full h-2">
                             <div
                               className={`h-2 rounded-full ${
+                                framework.overallScore === null ? '' :
                                 framework.overallScore >= 80 ? 'bg-green-500' :
                                 framework.overallScore >= 60 ? 'bg-yellow-500' :
                                 'bg-red-500'
                               }`}
-                              style={{ width: `${framework.overallScore}%` }}
+                              style={{ width: `${framework.overallScore ?? 0}%` }}
                             />
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            {framework.violations.length} violations
+                            {framework.rulesEvaluated === 0
+                              ? 'Not evaluated - no active rules'
+                              : `${framework.violations.length} violations`}
                           </div>
                         </div>
                       ))}
@@ -430,6 +523,9 @@ export function ComplianceDashboard({
                                 <div className="text-xs text-muted-foreground mt-1">
                                   {violation.explanation}
                                 </div>
+                                {renderQualityBreakdown(violation)}
+                                {renderThreshold(violation)}
+                                {renderViolationLocation(contract.contractId, violation)}
                               </div>
                             ))}
                           </div>
@@ -450,6 +546,9 @@ export function ComplianceDashboard({
                                 <div className="text-xs text-muted-foreground mt-1">
                                   {violation.explanation}
                                 </div>
+                                {renderQualityBreakdown(violation)}
+                                {renderThreshold(violation)}
+                                {renderViolationLocation(contract.contractId, violation)}
                               </div>
                             ))}
                           </div>
@@ -470,6 +569,9 @@ export function ComplianceDashboard({
                                 <div className="text-xs text-muted-foreground mt-1">
                                   {violation.explanation}
                                 </div>
+                                {renderQualityBreakdown(violation)}
+                                {renderThreshold(violation)}
+                                {renderViolationLocation(contract.contractId, violation)}
                               </div>
                             ))}
                           </div>
@@ -482,6 +584,144 @@ export function ComplianceDashboard({
             </div>
           </ScrollArea>
         </TabsContent>
+
+        <TabsContent value="obligations">
+          <ScrollArea className="h-[600px]">
+            <div className="space-y-4">
+              {filteredContracts.map((contract) => (
+                <Card key={contract.contractId}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{contract.documentName}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ComplianceObligations
+                      analysis={contract}
+                      onViewViolation={onViewViolation ? (violation) => onViewViolation(contract.contractId, violation) : undefined}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="scores">
+          <ScrollArea className="h-[600px]">
+            <div className="space-y-4">
+              {filteredContracts.map((contract) => (
+                <Card key={contract.contractId}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{contract.documentName}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ComplianceScoreBreakdown
+                      analysis={contract}
+                      riskThresholds={analyzer.getConfiguration(contract.clientId)?.riskThresholds}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="portfolio">
+          <Card>
+            <CardContent className="pt-6">
+              <CompliancePortfolio
+                summary={summarizePortfolio(filteredContracts.map(analysis => ({ contractKey: analysis.contractId, analysis })))}
+                onViewContract={onViewContract}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {history && (
+          <TabsContent value="remediation" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Remediation Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sortedHistory.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-8">
+                    No stored analyses yet. Scores appear here as contracts are analyzed and re-analyzed.
+                  </div>
+                ) : (
+                  <ChartContainer config={timelineConfig} className="h-[300px] w-full">
+                    <LineChart data={timelineData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={(time) => new Date(time).toLocaleDateString()}
+                      />
+                      <YAxis domain={[0, 100]} width={32} />
+                      <ChartTooltip
+                        content={<ChartTooltipContent labelFormatter={(_, payload) => 
+                          new Date(payload[0]?.payload.time).toLocaleString()
+                        } />}
+                      />
+                      {Object.keys(timelineConfig).map((contractKey) => (
+                        <Line
+                          key={contractKey}
+                          dataKey={contractKey}
+                          stroke={`var(--color-${contractKey})`}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {[...latestByContract.values()].map((record) => (
+                <Card key={record.contractKey}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium line-clamp-1">{record.analysis.documentName}</span>
+                      <Badge variant="outline">v{record.version}</Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-semibold">{formatScore(record.analysis.overallComplianceScore)}</span>
+                      {record.diff && record.diff.scoreChange !== null && (
+                        <span className={record.diff.scoreChange >= 0 ? 'text-green-600' : 'text-red-600'}>
+                          {record.diff.scoreChange >= 0 ? '+' : ''}{record.diff.scoreChange} since v{record.version - 1}
+                        </span>
+                      )}
+                    </div>
+                    {record.diff ? (
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline" className="text-green-700 border-green-200">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          {record.diff.resolvedViolations.length} resolved
+                        </Badge>
+                        <Badge variant="outline" className="text-red-700 border-red-200">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {record.diff.newViolations.length} new
+                        </Badge>
+                        <Badge variant="outline">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {record.diff.persistingViolations.length} persisting
+                        </Badge>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">First analysis</div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
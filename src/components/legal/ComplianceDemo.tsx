@@ -1,16 +1,50 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
 import { ComplianceAnalyzer } from '@/lib/compliance-analyzer';
-import { ContractComplianceAnalysis, ComplianceFramework } from '@/types/compliance';
+import { ComplianceBatchJob } from '@/lib/compliance-batch';
+import { formatScore } from '@/lib/compliance-score';
+import { buildHistory, toContractKey } from '@/lib/compliance-analysis-diff';
+import { ComplianceHistoryStore } from '@/lib/compliance-history';
+import {
+  BatchAnalysisCheckpoint,
+  BatchAnalysisProgress,
+  ContractComplianceAnalysis,
+  ComplianceAnalysisRecord,
+  ComplianceFramework,
+  ComplianceViolation,
+  PortfolioContract
+} from '@/types/compliance';
 import { ComplianceDashboard } from './ComplianceDashboard';
 import { ComplianceFrameworkConfig } from './ComplianceFrameworkConfig';
+import { ContractTextViewer } from './ContractTextViewer';
 
 export function ComplianceDemo() {
+  const { user } = useAuth();
   const [contracts, setContracts] = useState<ContractComplianceAnalysis[]>([]);
+  const [contractTexts, setContractTexts] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<ComplianceAnalysisRecord[]>([]);
+  const [locatedViolation, setLocatedViolation] = useState<{ contractId: string; violation: ComplianceViolation } | null>(null);
   const [showConfig, setShowConfig] = useState(false);
   const [analyzer] = useState(() => new ComplianceAnalyzer());
+  const [batchJob, setBatchJob] = useState<ComplianceBatchJob | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchAnalysisProgress | null>(null);
+  const [batchCheckpoint, setBatchCheckpoint] = useState<BatchAnalysisCheckpoint | null>(null);
+  const [historyStore] = useState(() => new ComplianceHistoryStore());
+
+  // A re-check paused in an earlier session can be resumed
+  useEffect(() => {
+    if (!user) return;
+
+    historyStore.getBatchCheckpoint(user.id)
+      .then(checkpoint => setBatchCheckpoint(checkpoint ?? null))
+      .catch(error => console.error('Error loading the paused re-check:', error));
+  }, [user, historyStore]);
 
   // Sample contract data for demonstration
   const sampleContracts = [
@@ -73,25 +107,132 @@ export function ComplianceDemo() {
     }
   ];
 
+  const getSampleFrameworks = (index: number): ComplianceFramework[] =>
+    index === 0 ? ['GDPR', 'CCPA'] : index === 1 ? ['HIPAA'] : ['SOX', 'PCI-DSS'];
+
   const analyzeSampleContracts = () => {
     const analyzedContracts: ContractComplianceAnalysis[] = [];
+    const texts: Record<string, string> = {};
     
     sampleContracts.forEach((contract, index) => {
-      const frameworks: ComplianceFramework[] = index === 0 ? ['GDPR', 'CCPA'] : 
-                                               index === 1 ? ['HIPAA'] : 
-                                               ['SOX', 'PCI-DSS'];
-      
       const analysis = analyzer.analyzeContract(
         contract.text,
         contract.name,
-        frameworks,
+        getSampleFrameworks(index),
         'US'
       );
       
       analyzedContracts.push(analysis);
+      texts[analysis.contractId] = contract.text;
     });
     
+    recordAnalyses(analyzedContracts, texts);
+  };
+
+  const getSamplePortfolio = (): PortfolioContract[] => sampleContracts.map((contract, index) => ({
+    contractKey: toContractKey(contract.name),
+    documentName: contract.name,
+    text: contract.text,
+    frameworks: getSampleFrameworks(index),
+    jurisdiction: 'US'
+  }));
+
+  // Forget the paused re-check, e.g. once it completes or the configuration it was scored with changes
+  const clearBatchCheckpoint = () => {
+    setBatchCheckpoint(null);
+    if (user) {
+      historyStore.clearBatchCheckpoint(user.id)
+        .catch(error => console.error('Error clearing the paused re-check:', error));
+    }
+  };
+
+  // Re-check the whole portfolio as a batch job that can be cancelled and resumed. Signed-in users
+  // re-check the latest version of each contract they have analyzed, and each re-check is saved as
+  // the contract's next version; the samples are re-checked otherwise.
+  const recheckPortfolio = async () => {
+    let portfolio: PortfolioContract[];
+    try {
+      portfolio = user ? await historyStore.getPortfolio(user.id) : getSamplePortfolio();
+    } catch (error) {
+      console.error('Error loading the portfolio:', error);
+      toast.error('Failed to load the portfolio');
+      return;
+    }
+    if (portfolio.length === 0) {
+      toast.info('There are no analyzed contracts to re-check yet');
+      return;
+    }
+
+    const createJob = (checkpoint?: BatchAnalysisCheckpoint) => new ComplianceBatchJob(analyzer, portfolio, {
+      checkpoint,
+      onProgress: setBatchProgress,
+      onAnalysis: user
+        ? async (contract, analysis) => {
+          await historyStore.saveAnalysis(user.id, contract.contractKey, analysis, contract.text);
+        }
+        : undefined,
+      onCheckpoint: user ? checkpoint => historyStore.saveBatchCheckpoint(user.id, checkpoint) : undefined
+    });
+
+    let job: ComplianceBatchJob;
+    try {
+      job = createJob(batchCheckpoint ?? undefined);
+    } catch (error) {
+      // The portfolio changed since the re-check was paused, so it starts over
+      clearBatchCheckpoint();
+      job = createJob();
+    }
+    setBatchJob(job);
+    setBatchProgress(job.getProgress());
+
+    try {
+      const result = await job.run();
+      const texts = Object.fromEntries(result.checkpoint.results.map(({ contractKey, analysis }) => [
+        analysis.contractId,
+        portfolio.find(contract => contract.contractKey === contractKey)?.text ?? ''
+      ]));
+
+      if (result.status === 'CANCELLED') {
+        setBatchCheckpoint(result.checkpoint);
+        toast.info(`Re-check paused after ${result.checkpoint.results.length} of ${portfolio.length} contracts`);
+        return;
+      }
+
+      clearBatchCheckpoint();
+      recordAnalyses(result.checkpoint.results.map(entry => entry.analysis), texts);
+      if (result.checkpoint.failures.length > 0) {
+        toast.error(`${result.checkpoint.failures.length} contract(s) could not be analyzed`);
+      } else {
+        toast.success(`Re-checked ${result.summary.contracts} contracts, average score ${formatScore(result.summary.averageScore)}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Portfolio re-check failed');
+    } finally {
+      setBatchJob(null);
+      setBatchProgress(null);
+    }
+  };
+
+  const recordAnalyses = (analyzedContracts: ContractComplianceAnalysis[], texts: Record<string, string>) => {
     setContracts(analyzedContracts);
+    setContractTexts(texts);
+
+    // Each run is kept as a new version so re-analyzing shows up on the remediation timeline
+    setHistory(prev => buildHistory([
+      ...prev,
+      ...analyzedContracts.map(analysis => {
+        const contractKey = toContractKey(analysis.documentName);
+        const version = prev.filter(record => record.contractKey === contractKey).length + 1;
+        return {
+          id: `${contractKey}_v${version}`,
+          contractKey,
+          version,
+          analysis,
+          analyzedBy: 'demo',
+          createdAt: analysis.analyzedAt
+        };
+      })
+    ]));
   };
 
   const getRiskColor = (riskLevel: string) => {
@@ -119,15 +260,41 @@ export function ComplianceDemo() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button onClick={analyzeSampleContracts}>
+          <Button onClick={analyzeSampleContracts} disabled={!!batchJob}>
             Analyze Sample Contracts
           </Button>
+          {batchJob ? (
+            <Button variant="outline" onClick={() => batchJob.cancel()}>
+              Cancel Re-check
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={recheckPortfolio}>
+              {batchCheckpoint ? 'Resume Re-check' : 'Re-check Portfolio'}
+            </Button>
+          )}
           <Button variant="outline" onClick={() => setShowConfig(true)}>
             Configure Frameworks
           </Button>
         </div>
       </div>
 
+      {batchProgress && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>
+                Re-checking portfolio{batchProgress.currentContract ? ` - ${batchProgress.currentContract}` : ''}
+              </span>
+              <span className="text-muted-foreground">
+                {batchProgress.analyzed + batchProgress.failed} of {batchProgress.total}
+                {batchProgress.failed > 0 && ` (${batchProgress.failed} failed)`}
+              </span>
+            </div>
+            <Progress value={((batchProgress.analyzed + batchProgress.failed) / batchProgress.total) * 100} />
+          </CardContent>
+        </Card>
+      )}
+
       {contracts.length === 0 ? (
         <Card>
           <CardContent className="p-8 text-center">
@@ -164,15 +331,42 @@ export function ComplianceDemo() {
             console.log('View contract:', contractId);
           }}
           onConfigureFrameworks={() => setShowConfig(true)}
+          onViewViolation={(contractId, violation) => setLocatedViolation({ contractId, violation })}
+          history={history}
         />
       )}
 
+      <Dialog open={!!locatedViolation} onOpenChange={(open) => !open && setLocatedViolation(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{locatedViolation?.violation.description}</DialogTitle>
+          </DialogHeader>
+          {locatedViolation && (
+            <ContractTextViewer
+              text={contractTexts[locatedViolation.contractId] ?? ''}
+              highlight={locatedViolation.violation.location && {
+                start: Math.min(locatedViolation.violation.location.start, locatedViolation.violation.contradiction?.start ?? Infinity),
+                end: Math.max(locatedViolation.violation.location.end, locatedViolation.violation.contradiction?.end ?? 0)
+              }}
+              className="h-[400px]"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <ComplianceFrameworkConfig
         open={showConfig}
         onOpenChange={setShowConfig}
+        initialConfig={analyzer.getConfiguration()}
         onSave={(config) => {
-          console.log('Configuration saved:', config);
+          // Sample contracts have no client, so only a configuration for all clients changes their scores
+          analyzer.applyConfiguration(config);
           setShowConfig(false);
+          // A paused re-check was scored with the old configuration
+          clearBatchCheckpoint();
+          if (contracts.length > 0) {
+            analyzeSampleContracts();
+          }
         }}
       />
     </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,62 +28,157 @@ import {
   CheckCircle,
   Settings,
   Globe,
-  Users
+  Users,
+  Upload,
+  Download,
+  RotateCcw
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { 
   ComplianceRule, 
   ComplianceFramework, 
   RiskLevel,
-  ComplianceConfiguration 
+  ComplianceConfiguration,
+  RuleDefinitionBody,
+  RuleValidationIssue,
+  StoredComplianceRule,
+  PortfolioContract,
+  RuleChange,
+  RuleChangeImpactReport
 } from '@/types/compliance';
 import { ClauseCategory } from '@/types/clause-library';
 import { ComplianceAnalyzer } from '@/lib/compliance-analyzer';
+import { frameworkRegistry } from '@/lib/compliance-framework-registry';
+import { getJurisdictionOptions } from '@/lib/jurisdiction-tree';
+import { createDefaultConfiguration, validateRiskThresholds } from '@/lib/compliance-configuration';
+import { ComplianceRuleStore } from '@/lib/compliance-rule-store';
+import { analyzeRuleChangeImpact } from '@/lib/compliance-rule-impact';
+import { formatRiskLevel, formatScore } from '@/lib/compliance-score';
+import {
+  compileRuleDefinition,
+  exportRulePack,
+  importRulePack,
+  toRuleDefinition,
+  RulePackFormat,
+  RuleValidationError
+} from '@/lib/compliance-rule-dsl';
 
 interface ComplianceFrameworkConfigProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (config: ComplianceConfiguration) => void;
+  onSave: (config: ComplianceConfiguration, webhookSecret?: string) => void; // webhookSecret: new signing secret, '' to remove it
   initialConfig?: ComplianceConfiguration;
+  ruleStore?: ComplianceRuleStore; // with currentUser, custom rules are stored and audited instead of kept in the configuration
+  currentUser?: string;
+  onRulesChange?: () => void; // called after a stored rule is created, changed, deleted or restored
+  impactAnalyzer?: ComplianceAnalyzer; // with loadPortfolio, stored rule changes are previewed against the portfolio before they are published
+  loadPortfolio?: () => Promise<PortfolioContract[]>;
+}
+
+// A rule in the editor's list, with its stored row when rules are stored
+interface RuleEntry {
+  rule: ComplianceRule;
+  stored?: StoredComplianceRule;
 }
 
 export function ComplianceFrameworkConfig({ 
   open, 
   onOpenChange, 
   onSave, 
-  initialConfig 
+  initialConfig,
+  ruleStore,
+  currentUser,
+  onRulesChange,
+  impactAnalyzer,
+  loadPortfolio
 }: ComplianceFrameworkConfigProps) {
   const [analyzer] = useState(() => new ComplianceAnalyzer());
-  const [config, setConfig] = useState<ComplianceConfiguration>({
-    id: '',
-    jurisdiction: 'US',
-    frameworks: ['GDPR', 'HIPAA', 'SOX'],
-    customRules: [],
-    riskThresholds: {
-      'LOW': 80,
-      'MEDIUM': 60,
-      'HIGH': 40,
-      'CRITICAL': 20
-    },
-    autoTaggingEnabled: true,
-    notificationSettings: {
-      email: true,
-      slack: false
-    },
-    createdAt: new Date(),
-    updatedAt: new Date()
-  });
+  const [config, setConfig] = useState<ComplianceConfiguration>(() => createDefaultConfiguration());
 
   const [editingRule, setEditingRule] = useState<ComplianceRule | null>(null);
+  const [editingStoredRule, setEditingStoredRule] = useState<StoredComplianceRule | null>(null);
   const [isCreatingRule, setIsCreatingRule] = useState(false);
+  const [storedRules, setStoredRules] = useState<StoredComplianceRule[]>([]);
+  const [pendingRule, setPendingRule] = useState<{ rule: ComplianceRule; report: RuleChangeImpactReport } | null>(null);
+  const [isCheckingImpact, setIsCheckingImpact] = useState(false);
+  const [importIssues, setImportIssues] = useState<RuleValidationIssue[]>([]);
+  // Stored server-side and never read back, so only a replacement is held here
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [removeWebhookSecret, setRemoveWebhookSecret] = useState(false);
+  const rulePackInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (initialConfig) {
       setConfig(initialConfig);
     }
+    setWebhookSecret('');
+    setRemoveWebhookSecret(false);
   }, [initialConfig]);
 
+  const storesRules = !!ruleStore && !!currentUser;
+  const ruleClientId = initialConfig?.clientId;
+
+  const loadStoredRules = async () => {
+    if (!ruleStore) return;
+    // Rules for every client and, when editing a client's settings, that client's rules
+    setStoredRules(await ruleStore.list({ clientId: ruleClientId, includeDeleted: true }));
+  };
+
+  useEffect(() => {
+    if (!open || !ruleStore || !currentUser) return;
+
+    ruleStore.list({ clientId: ruleClientId, includeDeleted: true })
+      .then(setStoredRules)
+      .catch(error => {
+        console.error('Error loading compliance rules:', error);
+        toast.error('Could not load stored rules');
+      });
+  }, [open, ruleStore, currentUser, ruleClientId]);
+
+  const ruleEntries: RuleEntry[] = storesRules
+    ? storedRules.map(stored => ({ rule: stored.rule, stored }))
+    : config.customRules.map(rule => ({ rule }));
+  const activeRules = ruleEntries.filter(entry => !entry.stored?.deletedAt).map(entry => entry.rule);
+
+  // Run a change to stored rules, then reload them here and in the caller
+  const changeStoredRules = async (change: (store: ComplianceRuleStore, userId: string) => Promise<unknown>, success: string) => {
+    if (!ruleStore || !currentUser) return false;
+
+    try {
+      await change(ruleStore, currentUser);
+      await loadStoredRules();
+      onRulesChange?.();
+      toast.success(success);
+      return true;
+    } catch (error) {
+      console.error('Error saving compliance rule:', error);
+      toast.error(error instanceof RuleValidationError
+        ? `Rule has ${error.issues.length} validation errors`
+        : error instanceof Error ? error.message : 'Could not save the rule');
+      return false;
+    }
+  };
+
+  const thresholdErrors = validateRiskThresholds(config.riskThresholds);
+
   const handleSave = () => {
-    onSave(config);
+    if (thresholdErrors.length > 0) {
+      toast.error('Fix the risk thresholds before saving');
+      return;
+    }
+    // Webhooks are only sent signed
+    if (removeWebhookSecret && config.notificationSettings.webhook) {
+      toast.error('Remove the webhook URL before its signing secret');
+      return;
+    }
+    onSave({
+      ...config,
+      clientId: config.clientId?.trim() || undefined,
+      notificationSettings: {
+        ...config.notificationSettings,
+        emailRecipients: config.notificationSettings.emailRecipients?.filter(Boolean)
+      }
+    }, removeWebhookSecret ? '' : webhookSecret.trim() || undefined);
     onOpenChange(false);
   };
 
@@ -106,7 +201,56 @@ export function ComplianceFrameworkConfig({
     setIsCreatingRule(true);
   };
 
-  const saveRule = (rule: ComplianceRule) => {
+  const closeRuleEditor = () => {
+    setEditingRule(null);
+    setEditingStoredRule(null);
+    setIsCreatingRule(false);
+  };
+
+  // The editor has no effective date, so an edit becomes a new version in effect from now
+  const toRuleChange = (rule: ComplianceRule): Extract<RuleChange, { type: 'ADD' | 'UPDATE' }> => {
+    if (editingStoredRule) {
+      const { effectiveFrom, createdAt, ...updates } = rule;
+      return { type: 'UPDATE', ruleId: editingStoredRule.rule.id, updates };
+    }
+    return { type: 'ADD', rule: { ...rule, clientId: config.clientId?.trim() || undefined } };
+  };
+
+  const publishRule = async (rule: ComplianceRule) => {
+    const change = toRuleChange(rule);
+    const saved = await changeStoredRules(
+      (store, userId) => change.type === 'ADD'
+        ? store.create(userId, change.rule)
+        : store.update(editingStoredRule!.id, change.updates),
+      change.type === 'ADD' ? `Rule "${rule.name}" created` : `Rule "${rule.name}" updated`
+    );
+    if (saved) {
+      setPendingRule(null);
+      closeRuleEditor();
+    }
+  };
+
+  const saveRule = async (rule: ComplianceRule) => {
+    if (storesRules) {
+      if (!impactAnalyzer || !loadPortfolio) {
+        await publishRule(rule);
+        return;
+      }
+
+      // Show which analyzed contracts the change would affect before publishing it
+      setIsCheckingImpact(true);
+      try {
+        const report = analyzeRuleChangeImpact(impactAnalyzer, toRuleChange(rule), await loadPortfolio());
+        setPendingRule({ rule, report });
+      } catch (error) {
+        console.error('Error checking rule impact:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not check the impact of the rule change');
+      } finally {
+        setIsCheckingImpact(false);
+      }
+      return;
+    }
+
     if (isCreatingRule) {
       setConfig(prev => ({
         ...prev,
@@ -118,17 +262,92 @@ export function ComplianceFrameworkConfig({
         customRules: prev.customRules.map(r => r.id === rule.id ? rule : r)
       }));
     }
-    setEditingRule(null);
-    setIsCreatingRule(false);
+    closeRuleEditor();
+  };
+
+  const editRule = (entry: RuleEntry) => {
+    setEditingRule(entry.rule);
+    setEditingStoredRule(entry.stored ?? null);
   };
 
-  const deleteRule = (ruleId: string) => {
+  const deleteRule = (entry: RuleEntry) => {
+    const stored = entry.stored;
+    if (stored) {
+      changeStoredRules((store, userId) => store.delete(userId, stored.id), `Rule "${entry.rule.name}" deleted`);
+      return;
+    }
+
     setConfig(prev => ({
       ...prev,
-      customRules: prev.customRules.filter(r => r.id !== ruleId)
+      customRules: prev.customRules.filter(r => r.id !== entry.rule.id)
     }));
   };
 
+  const restoreRule = (stored: StoredComplianceRule) => {
+    changeStoredRules(store => store.restore(stored.id), `Rule "${stored.rule.name}" restored`);
+  };
+
+  const handleRulePackImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const format: RulePackFormat = /\.ya?ml$/i.test(file.name) ? 'yaml' : 'json';
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { pack, rules } = importRulePack(e.target?.result as string, format);
+        const importedIds = new Set(rules.map(rule => rule.id));
+        setImportIssues([]);
+        if (storesRules) {
+          // Rules already stored get a new version; deleted ones must be restored first
+          changeStoredRules(async (store, userId) => {
+            for (const rule of rules) {
+              const existing = storedRules.find(stored => stored.rule.id === rule.id && !stored.deletedAt);
+              await (existing
+                ? store.update(existing.id, rule)
+                : store.create(userId, { ...rule, clientId: config.clientId?.trim() || undefined }));
+            }
+          }, `Imported ${rules.length} rules from "${pack.name}" v${pack.version}`);
+          return;
+        }
+        setConfig(prev => ({
+          ...prev,
+          customRules: [...prev.customRules.filter(rule => !importedIds.has(rule.id)), ...rules]
+        }));
+        toast.success(`Imported ${rules.length} rules from "${pack.name}" v${pack.version}`);
+      } catch (error) {
+        if (error instanceof RuleValidationError) {
+          setImportIssues(error.issues);
+          toast.error(`Rule pack has ${error.issues.length} validation errors`);
+        } else {
+          toast.error('Could not import rule pack');
+        }
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleRulePackExport = (format: RulePackFormat) => {
+    const content = exportRulePack(
+      activeRules,
+      { name: 'Custom compliance rules', version: '1.0.0' },
+      format
+    );
+    const blob = new Blob([content], {
+      type: format === 'yaml' ? 'application/yaml' : 'application/json'
+    });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `compliance-rules.${format === 'yaml' ? 'yaml' : 'json'}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const updateRiskThreshold = (riskLevel: RiskLevel, value: number) => {
     setConfig(prev => ({
       ...prev,
@@ -139,6 +358,16 @@ export function ComplianceFrameworkConfig({
     }));
   };
 
+  const updateNotificationSettings = (settings: Partial<ComplianceConfiguration['notificationSettings']>) => {
+    setConfig(prev => ({
+      ...prev,
+      notificationSettings: {
+        ...prev.notificationSettings,
+        ...settings
+      }
+    }));
+  };
+
   const toggleFramework = (framework: ComplianceFramework) => {
     setConfig(prev => ({
       ...prev,
@@ -178,16 +407,17 @@ export function ComplianceFrameworkConfig({
     }
   };
 
-  const availableFrameworks: ComplianceFramework[] = [
-    'GDPR', 'HIPAA', 'SOX', 'CCPA', 'PIPEDA', 'LGPD', 'ISO27001', 'SOC2', 'PCI-DSS'
-  ];
+  const availableFrameworks: ComplianceFramework[] = frameworkRegistry
+    .getSelectableFrameworks()
+    .map(definition => definition.id);
 
-  const clauseCategories: ClauseCategory[] = [
+  const clauseCategories: ClauseCategory[] = [...new Set<ClauseCategory>([
     'DATA_PROTECTION', 'FINANCIAL_REPORTING', 'HEALTHCARE_PRIVACY', 'CONSUMER_RIGHTS',
     'SECURITY_REQUIREMENTS', 'AUDIT_COMPLIANCE', 'TERMINATION_RIGHTS', 'LIABILITY_LIMITATION',
     'INTELLECTUAL_PROPERTY', 'CONFIDENTIALITY', 'DATA_RETENTION', 'CROSS_BORDER_TRANSFER',
-    'CONSENT_MANAGEMENT', 'BREACH_NOTIFICATION', 'THIRD_PARTY_SHARING'
-  ];
+    'CONSENT_MANAGEMENT', 'BREACH_NOTIFICATION', 'THIRD_PARTY_SHARING',
+    ...frameworkRegistry.getCategories()
+  ])];
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -218,6 +448,15 @@ export function ComplianceFrameworkConfig({
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="client-id">Client</Label>
+                      <Input
+                        id="client-id"
+                        placeholder="All clients"
+                        value={config.clientId ?? ''}
+                        onChange={(e) => setConfig(prev => ({ ...prev, clientId: e.target.value }))}
+                      />
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="jurisdiction">Jurisdiction</Label>
                       <Select
@@ -228,13 +467,11 @@ export function ComplianceFrameworkConfig({
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="US">United States</SelectItem>
-                          <SelectItem value="EU">European Union</SelectItem>
-                          <SelectItem value="CA">Canada</SelectItem>
-                          <SelectItem value="BR">Brazil</SelectItem>
-                          <SelectItem value="AU">Australia</SelectItem>
-                          <SelectItem value="UK">United Kingdom</SelectItem>
-                          <SelectItem value="GLOBAL">Global</SelectItem>
+                          {getJurisdictionOptions().map(option => (
+                            <SelectItem key={option.code} value={option.code}>
+                              {'\u00A0\u00A0'.repeat(option.depth)}{option.name}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -260,7 +497,7 @@ export function ComplianceFrameworkConfig({
                               onChange={() => toggleFramework(framework)}
                               className="rounded"
                             />
-                            <span className="font-medium">{framework}</span>
+                            <span className="font-medium">{frameworkRegistry.get(framework)?.name ?? framework}</span>
                           </div>
                         </div>
                       ))}
@@ -278,54 +515,113 @@ export function ComplianceFrameworkConfig({
                       <Shield className="h-5 w-5" />
                       Custom Compliance Rules
                     </CardTitle>
-                    <Button onClick={addCustomRule} size="sm">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Rule
-                    </Button>
+                    <div className="flex items-center gap-2">
+                      <input
+                        ref={rulePackInputRef}
+                        type="file"
+                        accept=".json,.yaml,.yml"
+                        onChange={handleRulePackImport}
+                        className="hidden"
+                      />
+                      <Button variant="outline" size="sm" onClick={() => rulePackInputRef.current?.click()}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Pack
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRulePackExport('json')}
+                        disabled={activeRules.length === 0}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        JSON
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRulePackExport('yaml')}
+                        disabled={activeRules.length === 0}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        YAML
+                      </Button>
+                      <Button onClick={addCustomRule} size="sm">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Rule
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {config.customRules.map((rule) => (
-                      <div key={rule.id} className="p-4 border rounded-lg">
-                        <div className="flex items-center justify-between">
-                          <div className="space-y-1">
-                            <div className="flex items-center gap-2">
-                              <span className="font-medium">{rule.name}</span>
-                              <Badge className={getRiskColor(rule.riskLevel)}>
-                                {getRiskIcon(rule.riskLevel)}
-                                <span className="ml-1">{rule.riskLevel}</span>
-                              </Badge>
+                    {importIssues.length > 0 && (
+                      <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm">
+                        <div className="font-medium text-red-700 mb-1">Rule pack could not be imported</div>
+                        <ul className="space-y-1 text-xs text-red-700">
+                          {importIssues.map((issue, index) => (
+                            <li key={index}>
+                              <code>{issue.path || '(root)'}</code>: {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {ruleEntries.map((entry) => {
+                      const { rule, stored } = entry;
+                      return (
+                        <div key={stored?.id ?? rule.id} className={`p-4 border rounded-lg ${stored?.deletedAt ? 'opacity-60' : ''}`}>
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">{rule.name}</span>
+                                {stored?.deletedAt && <Badge variant="outline">Deleted</Badge>}
+                                <Badge className={getRiskColor(rule.riskLevel)}>
+                                  {getRiskIcon(rule.riskLevel)}
+                                  <span className="ml-1">{rule.riskLevel}</span>
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-muted-foreground">{rule.description}</p>
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">{rule.framework}</Badge>
+                                <Badge variant="outline">{rule.category}</Badge>
+                                <span className="text-xs text-muted-foreground">
+                                  Weight: {rule.weight}
+                                </span>
+                              </div>
                             </div>
-                            <p className="text-sm text-muted-foreground">{rule.description}</p>
                             <div className="flex items-center gap-2">
-                              <Badge variant="outline">{rule.framework}</Badge>
-                              <Badge variant="outline">{rule.category}</Badge>
-                              <span className="text-xs text-muted-foreground">
-                                Weight: {rule.weight}
-                              </span>
+                              {stored?.deletedAt ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => restoreRule(stored)}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => editRule(entry)}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => deleteRule(entry)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
                             </div>
                           </div>
-                          <div className="flex items-center gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setEditingRule(rule)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => deleteRule(rule.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
                         </div>
-                      </div>
-                    ))}
-                    {config.customRules.length === 0 && (
+                      );
+                    })}
+                    {ruleEntries.length === 0 && (
                       <div className="text-center py-8 text-muted-foreground">
                         No custom rules defined. Click "Add Rule" to create one.
                       </div>
@@ -342,7 +638,7 @@ export function ComplianceFrameworkConfig({
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-sm text-muted-foreground">
-                    Set the minimum compliance scores for each risk level. Contracts scoring below these thresholds will be categorized accordingly.
+                    Set the minimum compliance scores for each risk level. Contracts scoring below the HIGH threshold are CRITICAL.
                   </p>
                   <div className="space-y-4">
                     {(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as RiskLevel[]).map((riskLevel) => (
@@ -358,6 +654,7 @@ export function ComplianceFrameworkConfig({
                             max="100"
                             value={config.riskThresholds[riskLevel]}
                             onChange={(e) => updateRiskThreshold(riskLevel, parseInt(e.target.value) || 0)}
+                            disabled={riskLevel === 'CRITICAL'}
                             className="w-20"
                           />
                           <span className="text-sm text-muted-foreground">%</span>
@@ -365,6 +662,13 @@ export function ComplianceFrameworkConfig({
                       </div>
                     ))}
                   </div>
+                  {thresholdErrors.length > 0 && (
+                    <ul className="text-sm text-red-600 space-y-1">
+                      {thresholdErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -432,6 +736,83 @@ export function ComplianceFrameworkConfig({
                         </div>
                       </div>
                     </div>
+
+                    <Separator />
+
+                    <div className="space-y-3">
+                      <Label>Delivery</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Notifications are sent when a contract's risk rises to the minimum level below or it gains new critical violations
+                      </p>
+                      <div className="space-y-2">
+                        <Label htmlFor="minimum-risk-level">Minimum risk level</Label>
+                        <Select
+                          value={config.notificationSettings.minimumRiskLevel ?? 'HIGH'}
+                          onValueChange={(value) => updateNotificationSettings({ minimumRiskLevel: value as RiskLevel })}
+                        >
+                          <SelectTrigger id="minimum-risk-level">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as RiskLevel[]).map(level => (
+                              <SelectItem key={level} value={level}>{level}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="email-recipients">Email recipients</Label>
+                        <Input
+                          id="email-recipients"
+                          placeholder="legal@example.com, compliance@example.com"
+                          value={(config.notificationSettings.emailRecipients || []).join(', ')}
+                          onChange={(e) => updateNotificationSettings({
+                            emailRecipients: e.target.value.split(',').map(recipient => recipient.trim())
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="slack-webhook-url">Slack webhook URL</Label>
+                        <Input
+                          id="slack-webhook-url"
+                          placeholder="https://hooks.slack.com/services/..."
+                          value={config.notificationSettings.slackWebhookUrl ?? ''}
+                          onChange={(e) => updateNotificationSettings({ slackWebhookUrl: e.target.value || undefined })}
+                        />
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="webhook-url">Webhook URL</Label>
+                          <Input
+                            id="webhook-url"
+                            placeholder="https://example.com/compliance-events"
+                            value={config.notificationSettings.webhook ?? ''}
+                            onChange={(e) => updateNotificationSettings({ webhook: e.target.value || undefined })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="webhook-secret">Signing secret</Label>
+                          <Input
+                            id="webhook-secret"
+                            type="password"
+                            placeholder="Required for a webhook; leave blank to keep the current one"
+                            value={webhookSecret}
+                            disabled={removeWebhookSecret}
+                            onChange={(e) => setWebhookSecret(e.target.value)}
+                          />
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              id="remove-webhook-secret"
+                              checked={removeWebhookSecret}
+                              onCheckedChange={setRemoveWebhookSecret}
+                            />
+                            <Label htmlFor="remove-webhook-secret" className="text-sm font-normal">
+                              Remove the signing secret
+                            </Label>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -455,11 +836,17 @@ export function ComplianceFrameworkConfig({
         <RuleEditorDialog
           rule={editingRule}
           onSave={saveRule}
-          onCancel={() => {
-            setEditingRule(null);
-            setIsCreatingRule(false);
-          }}
+          onCancel={closeRuleEditor}
           clauseCategories={clauseCategories}
+          isSaving={isCheckingImpact}
+        />
+      )}
+
+      {pendingRule && (
+        <RuleImpactDialog
+          report={pendingRule.report}
+          onPublish={() => publishRule(pendingRule.rule)}
+          onCancel={() => setPendingRule(null)}
         />
       )}
     </Dialog>
@@ -472,13 +859,41 @@ interface RuleEditorDialogProps {
   onSave: (rule: ComplianceRule) => void;
   onCancel: () => void;
   clauseCategories: ClauseCategory[];
+  isSaving?: boolean;
 }
 
-function RuleEditorDialog({ rule, onSave, onCancel, clauseCategories }: RuleEditorDialogProps) {
+function RuleEditorDialog({ rule, onSave, onCancel, clauseCategories, isSaving = false }: RuleEditorDialogProps) {
   const [editedRule, setEditedRule] = useState<ComplianceRule>(rule);
+  const [conditionsText, setConditionsText] = useState(
+    rule.definition ? JSON.stringify(rule.definition, null, 2) : ''
+  );
+  const [conditionIssues, setConditionIssues] = useState<RuleValidationIssue[]>([]);
 
   const handleSave = () => {
-    onSave(editedRule);
+    if (!conditionsText.trim()) {
+      onSave({ ...editedRule, definition: undefined });
+      return;
+    }
+
+    let body: RuleDefinitionBody;
+    try {
+      body = JSON.parse(conditionsText);
+    } catch (error) {
+      setConditionIssues([{ path: '', message: error instanceof Error ? error.message : 'Invalid JSON' }]);
+      return;
+    }
+
+    const { requires, forbids, ...metadata } = toRuleDefinition({ ...editedRule, definition: undefined });
+    try {
+      const compiled = compileRuleDefinition({ ...metadata, ...body });
+      onSave({ ...compiled, createdAt: rule.createdAt });
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        setConditionIssues(error.issues);
+      } else {
+        throw error;
+      }
+    }
   };
 
   const addKeyword = () => {
@@ -606,14 +1021,117 @@ function RuleEditorDialog({ rule, onSave, onCancel, clauseCategories }: RuleEdit
               </Button>
             </div>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-conditions">Conditions (JSON)</Label>
+            <p className="text-xs text-muted-foreground">
+              Optional. Use <code>requires</code> and <code>forbids</code> with phrase, regex, near, numeric, all, any and not conditions. When set, conditions replace the keywords above.
+            </p>
+            <Textarea
+              id="rule-conditions"
+              value={conditionsText}
+              onChange={(e) => {
+                setConditionsText(e.target.value);
+                setConditionIssues([]);
+              }}
+              placeholder={'{\n  "requires": { "all": [{ "phrase": "breach" }, { "near": { "a": "notify", "b": "authority", "within": 20 } }] }\n}'}
+              rows={6}
+              className="font-mono text-xs"
+            />
+            {conditionIssues.length > 0 && (
+              <ul className="space-y-1 text-xs text-red-600">
+                {conditionIssues.map((issue, index) => (
+                  <li key={index}>
+                    <code>{issue.path || '(root)'}</code>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
 
         <div className="flex justify-end gap-2 pt-4 border-t">
           <Button variant="outline" onClick={onCancel}>
             Cancel
           </Button>
-          <Button onClick={handleSave}>
-            Save Rule
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Checking impact...' : 'Save Rule'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Rule Impact Dialog Component
+interface RuleImpactDialogProps {
+  report: RuleChangeImpactReport;
+  onPublish: () => Promise<void>;
+  onCancel: () => void;
+}
+
+function RuleImpactDialog({ report, onPublish, onCancel }: RuleImpactDialogProps) {
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await onPublish();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onCancel}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Impact of {report.ruleName || report.ruleId}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {report.affectedContracts.length} of {report.contractsEvaluated} analyzed contracts would be affected
+            {report.evaluatedAt.getTime() > Date.now() && ` from ${report.evaluatedAt.toLocaleDateString()}`}
+            {report.affectedClients.length > 0 && `, for ${report.affectedClients.join(', ')}`}.
+          </p>
+
+          <ScrollArea className="max-h-[320px]">
+            <div className="space-y-2">
+              {report.affectedContracts.map((impact) => (
+                <div key={impact.contractKey} className="p-3 border rounded-lg text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{impact.documentName}</span>
+                    <span className="text-muted-foreground">
+                      {formatScore(impact.scoreBefore)} → {formatScore(impact.scoreAfter)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1">
+                    {impact.riskLevelBefore !== impact.riskLevelAfter && (
+                      <Badge variant="outline">{formatRiskLevel(impact.riskLevelBefore)} → {formatRiskLevel(impact.riskLevelAfter)}</Badge>
+                    )}
+                    {impact.ruleViolatedBefore !== impact.ruleViolatedAfter && (
+                      <Badge variant="outline">{impact.ruleViolatedAfter ? 'Now violated' : 'No longer violated'}</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {report.failures.length > 0 && (
+            <p className="text-xs text-red-600">
+              {report.failures.length} contract(s) could not be analyzed: {report.failures.map(failure => failure.documentName).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onCancel}>
+            Back
+          </Button>
+          <Button onClick={handlePublish} disabled={isPublishing}>
+            Publish Rule
           </Button>
         </div>
       </DialogContent>
@@ -0,0 +1,113 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, AlertTriangle, AlertCircle, MapPin } from 'lucide-react';
+import {
+  ComplianceObligation,
+  ComplianceViolation,
+  ContractComplianceAnalysis,
+  ViolationType
+} from '@/types/compliance';
+import { controlRegistry } from '@/lib/compliance-controls';
+import { frameworkRegistry } from '@/lib/compliance-framework-registry';
+
+interface ComplianceObligationsProps {
+  analysis: ContractComplianceAnalysis;
+  onViewViolation?: (violation: ComplianceViolation) => void;
+}
+
+const STATUS_ORDER: ComplianceObligation['status'][] = ['UNMET', 'PARTIAL', 'MET'];
+
+const VIOLATION_TYPE_LABELS: Record<ViolationType, string> = {
+  MISSING: 'Missing',
+  INSUFFICIENT: 'Insufficient',
+  CONTRADICTED: 'Contradicted',
+  FORBIDDEN: 'Prohibited language',
+  THRESHOLD: 'Outside the required limit'
+};
+
+/**
+ * Violations grouped into obligations shared across frameworks, so equivalent rules
+ * (e.g. GDPR, HIPAA and NIS2 incident notification) appear once with their framework-specific gaps
+ */
+export function ComplianceObligations({ analysis, onViewViolation }: ComplianceObligationsProps) {
+  const { obligations, unmappedViolations } = controlRegistry.summarize(analysis);
+  const sorted = [...obligations].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  const getFrameworkName = (framework: string) => frameworkRegistry.get(framework)?.name ?? framework;
+
+  const getStatusIcon = (status: ComplianceObligation['status']) => {
+    switch (status) {
+      case 'MET': return <CheckCircle className="h-4 w-4 text-green-600" />;
+      case 'PARTIAL': return <AlertTriangle className="h-4 w-4 text-orange-600" />;
+      case 'UNMET': return <AlertCircle className="h-4 w-4 text-red-600" />;
+    }
+  };
+
+  if (obligations.length === 0) {
+    return <p className="text-sm text-muted-foreground">No shared controls apply to the selected frameworks.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sorted.map(obligation => (
+        <div key={obligation.control.id} className="p-3 border rounded-md space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-medium text-sm flex items-center gap-2">
+                {getStatusIcon(obligation.status)}
+                {obligation.control.name}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">{obligation.control.description}</div>
+            </div>
+            <div className="flex flex-wrap justify-end gap-1">
+              {obligation.satisfiedFrameworks.map(framework => (
+                <Badge key={framework} variant="outline" className="text-xs border-green-300 text-green-700">
+                  {getFrameworkName(framework)}
+                </Badge>
+              ))}
+              {obligation.gaps.map(gap => (
+                <Badge key={`${gap.framework}-${gap.ruleId}`} variant="outline" className="text-xs border-red-300 text-red-700">
+                  {getFrameworkName(gap.framework)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {obligation.sharedViolationType ? (
+            <div className="text-xs text-red-700">
+              {VIOLATION_TYPE_LABELS[obligation.sharedViolationType]} for {obligation.gaps.map(gap => getFrameworkName(gap.framework)).join(', ')}
+            </div>
+          ) : (
+            obligation.gaps.flatMap(gap => gap.violations.map(violation => (
+              <div key={violation.id} className="flex items-center justify-between gap-2 text-xs">
+                <div>
+                  <span className="font-medium">{getFrameworkName(gap.framework)}:</span> {violation.description}
+                  {violation.threshold && (
+                    <span className="text-muted-foreground"> (requires {violation.threshold.required})</span>
+                  )}
+                </div>
+                {onViewViolation && violation.location && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onViewViolation(violation)}
+                  >
+                    <MapPin className="h-3 w-3 mr-1" />
+                    Locate
+                  </Button>
+                )}
+              </div>
+            )))
+          )}
+        </div>
+      ))}
+
+      {unmappedViolations.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {unmappedViolations.length} framework-specific issue{unmappedViolations.length === 1 ? '' : 's'} not covered by a shared control
+        </p>
+      )}
+    </div>
+  );
+}
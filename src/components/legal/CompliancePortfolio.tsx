@@ -0,0 +1,135 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ComplianceFramework, PortfolioSummary, RiskLevel } from '@/types/compliance';
+import { frameworkRegistry } from '@/lib/compliance-framework-registry';
+import { formatScore } from '@/lib/compliance-score';
+
+interface CompliancePortfolioProps {
+  summary: PortfolioSummary;
+  onViewContract?: (contractKey: string) => void;
+}
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  LOW: 'text-green-600 bg-green-50 border-green-200',
+  MEDIUM: 'text-amber-600 bg-amber-50 border-amber-200',
+  HIGH: 'text-orange-600 bg-orange-50 border-orange-200',
+  CRITICAL: 'text-red-600 bg-red-50 border-red-200'
+};
+
+/**
+ * Portfolio-level results: the worst contracts, the most frequently violated rules and
+ * a heatmap of average framework scores per client
+ */
+export function CompliancePortfolio({ summary, onViewContract }: CompliancePortfolioProps) {
+  const frameworks = [...new Set(summary.clientHeatmaps.flatMap(heatmap => heatmap.cells.map(cell => cell.framework)))].sort();
+
+  const getFrameworkName = (framework: ComplianceFramework) => frameworkRegistry.get(framework)?.name ?? framework;
+
+  if (summary.contracts === 0) {
+    return <p className="text-sm text-muted-foreground">No analyzed contracts in the portfolio.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="p-3 border rounded-md">
+          <div className="text-xs text-muted-foreground">Average score</div>
+          <div className="text-xl font-bold">{formatScore(summary.averageScore)}</div>
+          {summary.notScored > 0 && (
+            <div className="text-xs text-muted-foreground">{summary.notScored} not scored</div>
+          )}
+        </div>
+        {(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as RiskLevel[]).map(level => (
+          <div key={level} className={`p-3 border rounded-md ${RISK_COLORS[level]}`}>
+            <div className="text-xs">{level}</div>
+            <div className="text-xl font-bold">{summary.riskDistribution[level]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Worst Contracts</h4>
+          {summary.worstContracts.map(contract => (
+            <div
+              key={contract.contractKey}
+              className={`flex items-center justify-between p-2 border rounded-md text-sm ${onViewContract ? 'cursor-pointer hover:bg-muted/50' : ''}`}
+              onClick={() => onViewContract?.(contract.contractKey)}
+            >
+              <div>
+                <div className="font-medium">{contract.documentName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {contract.clientId ?? 'No client'} · {contract.criticalIssues} critical issue{contract.criticalIssues === 1 ? '' : 's'}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{contract.score}%</span>
+                <Badge className={RISK_COLORS[contract.riskLevel]}>{contract.riskLevel}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Most Violated Rules</h4>
+          {summary.mostViolatedRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No violations across the portfolio.</p>
+          ) : (
+            summary.mostViolatedRules.map(rule => (
+              <div key={rule.ruleId} className="flex items-center justify-between p-2 border rounded-md text-sm">
+                <div>
+                  <div className="font-medium">{rule.ruleName}</div>
+                  <div className="text-xs text-muted-foreground">{getFrameworkName(rule.framework)}</div>
+                </div>
+                <div className="text-xs text-right">
+                  <div className="font-medium">{rule.contracts} of {summary.contracts} contracts</div>
+                  <div className="text-muted-foreground">{rule.violations} violation{rule.violations === 1 ? '' : 's'}</div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-sm">Client Heatmap</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead>Overall</TableHead>
+              {frameworks.map(framework => (
+                <TableHead key={framework}>{getFrameworkName(framework)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.clientHeatmaps.map(heatmap => (
+              <TableRow key={heatmap.clientId ?? 'none'}>
+                <TableCell>
+                  <div className="font-medium">{heatmap.clientId ?? 'No client'}</div>
+                  <div className="text-xs text-muted-foreground">{heatmap.contracts} contract{heatmap.contracts === 1 ? '' : 's'}</div>
+                </TableCell>
+                <TableCell className="font-medium">{formatScore(heatmap.averageScore)}</TableCell>
+                {frameworks.map(framework => {
+                  const cell = heatmap.cells.find(entry => entry.framework === framework);
+                  return cell ? (
+                    <TableCell
+                      key={framework}
+                      className={`border ${RISK_COLORS[cell.worstRiskLevel]}`}
+                      title={`${cell.contracts} contract${cell.contracts === 1 ? '' : 's'}, ${cell.violations} violation${cell.violations === 1 ? '' : 's'}, worst ${cell.worstRiskLevel}`}
+                    >
+                      {cell.averageScore}%
+                    </TableCell>
+                  ) : (
+                    <TableCell key={framework} className="text-muted-foreground">-</TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
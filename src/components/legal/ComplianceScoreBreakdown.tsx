@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowRight, RotateCcw } from 'lucide-react';
+import { ComplianceScore, ContractComplianceAnalysis, RiskLevel, ScoreExplanation } from '@/types/compliance';
+import { explainFrameworkScore, formatRiskLevel, formatScore, simulateFixes } from '@/lib/compliance-score';
+import { frameworkRegistry } from '@/lib/compliance-framework-registry';
+
+interface ComplianceScoreBreakdownProps {
+  analysis: ContractComplianceAnalysis;
+  riskThresholds?: Record<RiskLevel, number>; // the client's thresholds, when configured
+}
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  LOW: 'text-green-600 bg-green-50 border-green-200',
+  MEDIUM: 'text-amber-600 bg-amber-50 border-amber-200',
+  HIGH: 'text-orange-600 bg-orange-50 border-orange-200',
+  CRITICAL: 'text-red-600 bg-red-50 border-red-200'
+};
+
+// A contract without scored frameworks has no risk level
+const NOT_SCORED_COLOR = 'text-gray-600 bg-gray-50 border-gray-200';
+
+/**
+ * How each framework score was reached, rule by rule, with a what-if view: tick violations
+ * to see the score the contract would get once they are fixed
+ */
+export function ComplianceScoreBreakdown({ analysis, riskThresholds }: ComplianceScoreBreakdownProps) {
+  const [fixedViolationIds, setFixedViolationIds] = useState<string[]>([]);
+  const simulation = simulateFixes(analysis, fixedViolationIds, riskThresholds);
+
+  const toggleFix = (violationId: string, fixed: boolean) => {
+    setFixedViolationIds(prev => fixed ? [...prev, violationId] : prev.filter(id => id !== violationId));
+  };
+
+  // Analyses saved before explanations were recorded are explained with the current weights
+  const getExplanation = (score: ComplianceScore): ScoreExplanation =>
+    score.explanation ?? explainFrameworkScore(score.violations, score.rulesEvaluated, frameworkRegistry.getWeight(score.framework));
+
+  const formatPoints = (points: number) => Number(points.toFixed(1)).toString();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 p-3 bg-muted/50 rounded-md">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">Overall {formatScore(simulation.currentScore)}</span>
+          <Badge className={simulation.currentRiskLevel ? RISK_COLORS[simulation.currentRiskLevel] : NOT_SCORED_COLOR}>
+            {formatRiskLevel(simulation.currentRiskLevel)}
+          </Badge>
+          {fixedViolationIds.length > 0 && (
+            <>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium">{formatScore(simulation.simulatedScore)}</span>
+              <Badge className={simulation.simulatedRiskLevel ? RISK_COLORS[simulation.simulatedRiskLevel] : NOT_SCORED_COLOR}>
+                {formatRiskLevel(simulation.simulatedRiskLevel)}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                if {fixedViolationIds.length} violation{fixedViolationIds.length === 1 ? ' is' : 's are'} fixed
+              </span>
+            </>
+          )}
+        </div>
+        {fixedViolationIds.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setFixedViolationIds([])}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {analysis.frameworks.map((score, index) => {
+        const frameworkName = frameworkRegistry.get(score.framework)?.name ?? score.framework;
+        const frameworkSimulation = simulation.frameworks[index];
+
+        if (score.rulesEvaluated === 0) {
+          return (
+            <div key={score.framework} className="p-3 border rounded-md text-sm">
+              <span className="font-medium">{frameworkName}</span>
+              <span className="text-muted-foreground"> - not scored: no rules evaluated, left out of the overall score</span>
+            </div>
+          );
+        }
+
+        const explanation = getExplanation(score);
+        const violatedRules = explanation.rules.length;
+
+        return (
+          <div key={score.framework} className="p-3 border rounded-md space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-medium text-sm">{frameworkName}</div>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{formatScore(score.overallScore)}</span>
+                {frameworkSimulation.simulatedScore !== frameworkSimulation.currentScore && (
+                  <>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-medium text-green-700">{formatScore(frameworkSimulation.simulatedScore)}</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground font-mono">
+              100 − {formatPoints(100 - explanation.baseScore)} ratio − {formatPoints(explanation.severityPenalty)} severity
+              {' '}= {formatPoints(explanation.unweightedScore)} × {explanation.frameworkWeight} weight = {formatPoints(explanation.weightedScore)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {violatedRules} of {explanation.rulesEvaluated} rules violated; the other {explanation.rulesEvaluated - violatedRules} cost nothing
+            </div>
+
+            {explanation.rules.map(rule => (
+              <div key={rule.ruleId} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{rule.ruleName}</span>
+                  <span className="text-xs text-red-700">−{formatPoints(rule.points)} pts</span>
+                </div>
+                {explanation.penalties
+                  .filter(penalty => penalty.ruleId === rule.ruleId)
+                  .map(penalty => {
+                    const violation = score.violations.find(v => v.id === penalty.violationId);
+                    return (
+                      <label key={penalty.violationId} className="flex items-center gap-2 pl-2 text-xs cursor-pointer">
+                        <Checkbox
+                          checked={fixedViolationIds.includes(penalty.violationId)}
+                          onCheckedChange={(checked) => toggleFix(penalty.violationId, checked === true)}
+                        />
+                        <Badge variant="outline" className="text-xs">{penalty.severity}</Badge>
+                        <span className="flex-1">{violation?.description}</span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {formatPoints(penalty.ratioPoints)} + {formatPoints(penalty.severityPoints)} pts
+                        </span>
+                      </label>
+                    );
+                  })}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {analysis.scoreExplanation && analysis.scoreExplanation.frameworks.length > 1 && (
+        <div className="text-xs text-muted-foreground">
+          Overall score is the weighted average:{' '}
+          {analysis.scoreExplanation.frameworks
+            .map(share => `${share.score} × ${share.weight}`)
+            .join(' + ')}
+          {' '}÷ {formatPoints(analysis.scoreExplanation.totalWeight)}
+        </div>
+      )}
+    </div>
+  );
+}
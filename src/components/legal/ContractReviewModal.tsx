@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -9,16 +9,46 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { AlertTriangle, Shield, CheckCircle, FileText, Download, Upload, Settings, Globe, BookOpen, Lightbulb } from "lucide-react";
+import { AlertTriangle, Shield, CheckCircle, FileText, Download, Upload, Settings, Globe, BookOpen, Lightbulb, Wrench } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 import { ComplianceAnalyzer } from "@/lib/compliance-analyzer";
-import { ContractComplianceAnalysis, ComplianceFramework } from "@/types/compliance";
+import { frameworkRegistry } from "@/lib/compliance-framework-registry";
+import { getJurisdictionOptions } from "@/lib/jurisdiction-tree";
+import { ComplianceHistoryStore } from "@/lib/compliance-history";
+import { formatRiskLevel, formatScore } from "@/lib/compliance-score";
+import { carryForwardDetectionDates, diffAnalyses, toContractKey } from "@/lib/compliance-analysis-diff";
+import { ComplianceConfigurationStore } from "@/lib/compliance-configuration-store";
+import { ComplianceRuleStore } from "@/lib/compliance-rule-store";
+import { createDefaultConfiguration } from "@/lib/compliance-configuration";
+import { buildEvidencePack } from "@/lib/compliance-evidence-pack";
+import { remediateViolation } from "@/lib/compliance-remediation";
+import { ClauseLibraryEngine } from "@/lib/clause-library-engine";
+import { ClauseLibraryStore } from "@/lib/clause-library-store";
+import { ComplianceNotificationDispatcher, detectNotificationEvents } from "@/lib/compliance-notifications";
+import { EMAIL_NOTIFICATION_ROUTE, createRelayNotificationTransport } from "@/lib/compliance-notification-store";
+import { ContractComplianceAnalysis, ComplianceAnalysisDiff, ComplianceConfiguration, ComplianceFramework, ComplianceViolation, JurisdictionSource, SkippedStoredRule } from "@/types/compliance";
 import { ClauseLibraryManager } from './ClauseLibraryManager';
+import { ComplianceFrameworkConfig } from './ComplianceFrameworkConfig';
+import { ComplianceObligations } from './ComplianceObligations';
+import { ContractTextViewer } from './ContractTextViewer';
 import { SmartSuggestionsPanel } from './SmartSuggestionsPanel';
 import { ClauseTemplate, ClauseSuggestion, ClauseComparison } from '@/types/clause-library';
 
+const JURISDICTION_SOURCE_LABELS: Record<JurisdictionSource, string> = {
+  SELECTED: 'selected',
+  GOVERNING_LAW: 'governing law',
+  DATA_LOCATION: 'data location'
+};
+
+// Stored rules the analyzer couldn't take are left out of analyses, so the user is told
+function reportSkippedRules(skipped: SkippedStoredRule[]) {
+  if (skipped.length === 0) return;
+  skipped.forEach(rule => console.warn(`Skipped stored compliance rule ${rule.ruleId}: ${rule.reason}`));
+  toast.error(`${skipped.length} stored compliance rule${skipped.length === 1 ? '' : 's'} could not be loaded`);
+}
+
 interface ContractReviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -64,15 +94,129 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
   const [analysis, setAnalysis] = useState<ContractAnalysis | null>(initialAnalysis || null);
   const [executiveSummary, setExecutiveSummary] = useState(initialExecutiveSummary || "");
   const [complianceAnalysis, setComplianceAnalysis] = useState<ContractComplianceAnalysis | null>(null);
+  const [highlightedViolation, setHighlightedViolation] = useState<ComplianceViolation | null>(null);
   const [selectedFrameworks, setSelectedFrameworks] = useState<ComplianceFramework[]>(['GDPR', 'HIPAA', 'SOX']);
   const [jurisdiction, setJurisdiction] = useState('US');
   const [analyzer] = useState(() => new ComplianceAnalyzer());
+  const [historyStore] = useState(() => new ComplianceHistoryStore());
+  const [configurationStore] = useState(() => new ComplianceConfigurationStore());
+  const [ruleStore] = useState(() => new ComplianceRuleStore());
+  const [clauseEngine] = useState(() => new ClauseLibraryEngine());
+  const [clauseLibraryStore] = useState(() => new ClauseLibraryStore());
+  const [storedClauseIds, setStoredClauseIds] = useState<Set<string>>(new Set());
+  const [clauseFirmIds, setClauseFirmIds] = useState<Set<string>>(new Set());
+  const [remediationChoices, setRemediationChoices] = useState<Record<string, string>>({});
+  const [clientId, setClientId] = useState("");
+  const [configurations, setConfigurations] = useState<ComplianceConfiguration[]>([]);
+  const [editingConfiguration, setEditingConfiguration] = useState<ComplianceConfiguration | null>(null);
+  const [complianceDiff, setComplianceDiff] = useState<ComplianceAnalysisDiff | null>(null);
   const [showClauseLibrary, setShowClauseLibrary] = useState(false);
   const [selectedClauseForSuggestions, setSelectedClauseForSuggestions] = useState<string | null>(null);
   const [clauseSuggestions, setClauseSuggestions] = useState<ClauseSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Saved configurations set thresholds and custom rules for their client's contracts; stored
+  // rules and overrides of built-in rules apply to everything the user can see
+  useEffect(() => {
+    if (!open || !user) return;
+
+    configurationStore.list(user.id)
+      .then(stored => {
+        stored.forEach(configuration => analyzer.applyConfiguration(configuration));
+        setConfigurations(stored);
+      })
+      .catch(error => console.error('Error loading compliance configurations:', error));
+    ruleStore.loadInto(analyzer)
+      .then(reportSkippedRules)
+      .catch(error => console.error('Error loading compliance rules:', error));
+  }, [open, user, analyzer, configurationStore, ruleStore]);
+
+  // Clauses from the user's, their firms' and public libraries are offered as remediations too
+  useEffect(() => {
+    if (!open || !user) return;
+
+    clauseLibraryStore.loadInto(clauseEngine)
+      .then(libraries => setStoredClauseIds(new Set(libraries.flatMap(library => library.clauses.map(clause => clause.id)))))
+      .catch(error => console.error('Error loading clause libraries:', error));
+    clauseLibraryStore.listFirms(user.id)
+      .then(firms => setClauseFirmIds(new Set(firms.map(firm => firm.id))))
+      .catch(error => console.error('Error loading firms:', error));
+  }, [open, user, clauseEngine, clauseLibraryStore]);
+
+  // The configuration saved for this exact client, if any
+  const clientConfiguration = clientId.trim()
+    ? configurations.find(configuration => configuration.clientId === clientId.trim())
+    : undefined;
+
+  // Start from the client's configured frameworks and jurisdiction as soon as the client is entered,
+  // and again when its configuration loads or is saved
+  useEffect(() => {
+    if (!clientConfiguration) return;
+
+    setSelectedFrameworks(clientConfiguration.frameworks);
+    setJurisdiction(clientConfiguration.jurisdiction);
+    toast.success(`Applied compliance settings for ${clientConfiguration.clientId}`);
+  }, [clientConfiguration]);
+
+  // Edit the client's settings, starting from the defaults when the client has none yet
+  const openComplianceSettings = () => {
+    const client = clientId.trim() || undefined;
+    const base = analyzer.getConfiguration() ?? createDefaultConfiguration();
+    setEditingConfiguration(clientConfiguration ?? { ...base, id: '', clientId: client });
+  };
+
+  // Alert the configured channels when risk rises or new critical violations appear
+  const sendComplianceNotifications = async (compliance: ContractComplianceAnalysis, diff?: ComplianceAnalysisDiff) => {
+    const configuration = analyzer.getConfiguration(compliance.clientId);
+    if (!configuration || !user) return;
+    const events = detectNotificationEvents(compliance, diff, configuration.notificationSettings.minimumRiskLevel);
+    if (events.length === 0) return;
+
+    // The relay logs the deliveries
+    const dispatcher = new ComplianceNotificationDispatcher({
+      transport: createRelayNotificationTransport(compliance.clientId),
+      emailEndpoint: EMAIL_NOTIFICATION_ROUTE
+    });
+    const deliveries = await dispatcher.dispatch(events, configuration.notificationSettings);
+    const failed = deliveries.filter(delivery => delivery.status === 'FAILED');
+    if (failed.length > 0) {
+      toast.error(`${failed.length} compliance notification${failed.length === 1 ? '' : 's'} could not be delivered`);
+    } else if (deliveries.length > 0) {
+      toast.success("Compliance alerts sent");
+    }
+  };
+
+  const saveComplianceConfiguration = async (configuration: ComplianceConfiguration, webhookSecret?: string) => {
+    if (!user) {
+      toast.error("Please log in to save compliance settings");
+      return;
+    }
+
+    try {
+      // A webhook can only be enabled once its signing secret is stored, and keeps it until it is removed
+      if (webhookSecret) {
+        await configurationStore.saveWebhookSecret(configuration.clientId, webhookSecret);
+      }
+      const saved = await configurationStore.save(user.id, configuration);
+      if (webhookSecret === '') {
+        await configurationStore.saveWebhookSecret(saved.clientId, webhookSecret);
+      }
+      analyzer.applyConfiguration(saved);
+      setConfigurations(prev => [...prev.filter(configuration => configuration.clientId !== saved.clientId), saved]);
+      toast.success(saved.clientId ? `Compliance settings saved for ${saved.clientId}` : "Default compliance settings saved");
+    } catch (error) {
+      console.error('Error saving compliance configuration:', error);
+      toast.error(error instanceof Error ? error.message : "Could not save compliance settings");
+    }
+  };
+
+  const suggestedFrameworks = complianceAnalysis
+    ? frameworkRegistry
+        .getFrameworksForJurisdictions(complianceAnalysis.applicableJurisdictions.map(applicable => applicable.code))
+        .filter(definition => !selectedFrameworks.includes(definition.id))
+    : [];
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -134,9 +278,23 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
           contractText,
           documentName,
           selectedFrameworks,
-          jurisdiction
+          jurisdiction,
+          clientId.trim() || undefined
         );
         setComplianceAnalysis(compliance);
+        setHighlightedViolation(null);
+        setComplianceDiff(null);
+
+        // Keep the analysis as the next version of this contract and compare with the last one
+        try {
+          const record = await historyStore.saveAnalysis(user.id, toContractKey(documentName), compliance, contractText);
+          setComplianceDiff(record.diff ?? null);
+          sendComplianceNotifications(compliance, record.diff)
+            .catch(error => console.error('Error sending compliance notifications:', error));
+        } catch (error) {
+          console.error('Error saving compliance history:', error);
+          toast.error("Compliance analysis couldn't be saved to history");
+        }
         
         toast.success("Contract analysis completed!");
       } else {
@@ -151,7 +309,7 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
     }
   };
 
-  const getRiskColor = (riskLevel: string) => {
+  const getRiskColor = (riskLevel: string | null) => {
     switch (riskLevel) {
       case 'red':
         return 'text-red-600 bg-red-50 border-red-200';
@@ -164,7 +322,7 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
     }
   };
 
-  const getRiskIcon = (riskLevel: string) => {
+  const getRiskIcon = (riskLevel: string | null) => {
     switch (riskLevel) {
       case 'red':
         return <AlertTriangle className="h-4 w-4" />;
@@ -202,12 +360,98 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
     toast.success("Analysis exported successfully");
   };
 
+  const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Audit package: a PDF report and a JSON bundle whose manifest hashes every file
+  const exportEvidencePack = async () => {
+    if (!complianceAnalysis) return;
+
+    try {
+      const contractKey = toContractKey(complianceAnalysis.documentName);
+      const history = user ? await historyStore.getContractHistory(user.id, contractKey) : [];
+      const pack = buildEvidencePack(complianceAnalysis, {
+        generatedBy: user?.email ?? 'anonymous',
+        history,
+        rules: [
+          ...complianceAnalysis.frameworks.flatMap(score => analyzer.getRulesByFramework(score.framework)),
+          ...(analyzer.getConfiguration(complianceAnalysis.clientId)?.customRules ?? [])
+        ]
+      });
+
+      downloadFile(`${contractKey}_evidence.pdf`, pack.pdf, 'application/pdf');
+      downloadFile(`${contractKey}_evidence.json`, JSON.stringify({ manifest: pack.manifest, files: pack.files }, null, 2), 'application/json');
+      toast.success("Evidence pack exported");
+    } catch (error) {
+      console.error('Error exporting evidence pack:', error);
+      toast.error("Could not export the evidence pack");
+    }
+  };
+
+  // Approved clauses that would fix each open violation, best jurisdiction match first
+  const remediationOptions = complianceAnalysis
+    ? complianceAnalysis.frameworks
+        .flatMap(score => score.violations)
+        .map(violation => ({
+          violation,
+          templates: clauseEngine.getRemediationTemplates(
+            violation.ruleId,
+            complianceAnalysis.applicableJurisdictions.map(applicable => applicable.code)
+          )
+        }))
+        .filter(option => option.templates.length > 0)
+    : [];
+
+  // Insert or rewrite the clause, then re-analyze to confirm the violation is gone
+  const applyRemediation = (violation: ComplianceViolation, template: ClauseTemplate) => {
+    if (!complianceAnalysis) return;
+
+    const result = remediateViolation(analyzer, complianceAnalysis, contractText, violation, template);
+    const diff = diffAnalyses(complianceAnalysis, result.analysis, user?.id);
+    setContractText(result.contractText);
+    setComplianceAnalysis(carryForwardDetectionDates(result.analysis, diff));
+    setComplianceDiff(diff);
+    setHighlightedViolation(null);
+    const usage = clauseEngine.trackUsage(
+      template.id,
+      result.analysis.contractId,
+      complianceAnalysis.documentName,
+      user?.email ?? 'anonymous',
+      `Remediation of ${violation.ruleId}`
+    );
+    if (user && storedClauseIds.has(template.id)) {
+      // Usage is shared with the firm when the clause comes from one of the user's firms' libraries
+      const library = clauseEngine.getLibraries().find(l => l.clauses.some(clause => clause.id === template.id));
+      const teamId = library && clauseFirmIds.has(library.firmId) ? library.firmId : undefined;
+      clauseLibraryStore.recordUsage(user.id, usage, teamId)
+        .catch(error => console.error('Error recording clause usage:', error));
+    }
+
+    if (!result.resolved) {
+      toast.error(`Added "${template.title}" but ${violation.rule.name} is still flagged`);
+    } else if (result.introducedViolations.length > 0) {
+      toast.warning(`${violation.rule.name} is fixed, but ${result.introducedViolations.length} new issue(s) were found`);
+    } else {
+      toast.success(`${violation.rule.name} is now satisfied`);
+    }
+  };
+
   const resetForm = () => {
     setContractText("");
     setDocumentName("");
     setAnalysis(initialAnalysis || null);
     setExecutiveSummary(initialExecutiveSummary || "");
     setComplianceAnalysis(null);
+    setHighlightedViolation(null);
+    setRemediationChoices({});
     setClauseSuggestions([]);
     setShowSuggestions(false);
     setSelectedClauseForSuggestions(null);
@@ -310,9 +554,15 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
               {/* Compliance Framework Selection */}
               <div className="space-y-4">
                 <div className="space-y-2">
-                  <Label>Compliance Frameworks</Label>
+                  <div className="flex items-center justify-between">
+                    <Label>Compliance Frameworks</Label>
+                    <Button variant="ghost" size="sm" onClick={openComplianceSettings}>
+                      <Settings className="h-4 w-4 mr-2" />
+                      Compliance Settings
+                    </Button>
+                  </div>
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                    {(['GDPR', 'HIPAA', 'SOX', 'CCPA', 'ISO27001', 'SOC2'] as ComplianceFramework[]).map((framework) => (
+                    {frameworkRegistry.getSelectableFrameworks().map(({ id: framework, name }) => (
                       <div
                         key={framework}
                         className={`p-2 border rounded-lg cursor-pointer transition-colors ${
@@ -335,7 +585,7 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                             onChange={() => {}}
                             className="rounded"
                           />
-                          <span className="text-sm font-medium">{framework}</span>
+                          <span className="text-sm font-medium">{name}</span>
                         </div>
                       </div>
                     ))}
@@ -351,15 +601,22 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                       onChange={(e) => setJurisdiction(e.target.value)}
                       className="w-full px-3 py-2 border rounded-md"
                     >
-                      <option value="US">United States</option>
-                      <option value="EU">European Union</option>
-                      <option value="CA">Canada</option>
-                      <option value="BR">Brazil</option>
-                      <option value="AU">Australia</option>
-                      <option value="UK">United Kingdom</option>
-                      <option value="GLOBAL">Global</option>
+                      {getJurisdictionOptions().map(option => (
+                        <option key={option.code} value={option.code}>
+                          {'\u00A0\u00A0'.repeat(option.depth)}{option.name}
+                        </option>
+                      ))}
                     </select>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="client-id">Client</Label>
+                    <Input
+                      id="client-id"
+                      placeholder="Optional - applies the client's saved settings"
+                      value={clientId}
+                      onChange={(e) => setClientId(e.target.value)}
+                    />
+                  </div>
                 </div>
               </div>
               
@@ -595,7 +852,7 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                                 {getRiskIcon(complianceAnalysis.overallRiskLevel)}
                               </div>
                               <div className="text-2xl font-bold">
-                                {complianceAnalysis.overallRiskLevel}
+                                {formatRiskLevel(complianceAnalysis.overallRiskLevel)}
                               </div>
                               <div className="text-sm">Overall Risk</div>
                             </CardContent>
@@ -604,7 +861,7 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                           <Card>
                             <CardContent className="p-4 text-center">
                               <div className="text-2xl font-bold text-blue-600">
-                                {complianceAnalysis.overallComplianceScore}%
+                                {formatScore(complianceAnalysis.overallComplianceScore)}
                               </div>
                               <div className="text-sm text-muted-foreground">Compliance Score</div>
                             </CardContent>
@@ -620,6 +877,95 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                           </Card>
                         </div>
 
+                        <div className="flex justify-end">
+                          <Button variant="outline" size="sm" onClick={exportEvidencePack}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Export Evidence Pack
+                          </Button>
+                        </div>
+
+                        {/* Changes Since Last Analysis */}
+                        {complianceDiff && (
+                          <Card>
+                            <CardHeader>
+                              <CardTitle className="flex items-center gap-2">
+                                <CheckCircle className="h-5 w-5" />
+                                Changes Since Last Analysis
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                              <div className="flex flex-wrap items-center gap-2 text-sm">
+                                {complianceDiff.scoreChange !== null && (
+                                  <span className={complianceDiff.scoreChange >= 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                                    Score {complianceDiff.scoreChange >= 0 ? '+' : ''}{complianceDiff.scoreChange}
+                                  </span>
+                                )}
+                                <Badge variant="outline" className="text-green-700 border-green-200">
+                                  {complianceDiff.resolvedViolations.length} resolved
+                                </Badge>
+                                <Badge variant="outline" className="text-red-700 border-red-200">
+                                  {complianceDiff.newViolations.length} new
+                                </Badge>
+                                <Badge variant="outline">
+                                  {complianceDiff.persistingViolations.length} persisting
+                                </Badge>
+                              </div>
+                              {complianceDiff.resolvedViolations.length > 0 && (
+                                <ul className="text-sm text-muted-foreground space-y-1">
+                                  {complianceDiff.resolvedViolations.map((violation) => (
+                                    <li key={violation.id} className="line-through">
+                                      {violation.rule.framework}: {violation.description}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </CardContent>
+                          </Card>
+                        )}
+
+                        {/* Applicable Jurisdictions */}
+                        {complianceAnalysis.applicableJurisdictions.length > 0 && (
+                          <Card>
+                            <CardHeader>
+                              <CardTitle className="flex items-center gap-2">
+                                <Globe className="h-5 w-5" />
+                                Applicable Jurisdictions
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                              <div className="flex flex-wrap gap-2">
+                                {complianceAnalysis.applicableJurisdictions.map((applicable) => (
+                                  <Badge
+                                    key={applicable.code}
+                                    variant="outline"
+                                    title={applicable.evidence?.text}
+                                  >
+                                    {applicable.name}
+                                    <span className="ml-1 text-muted-foreground">
+                                      ({JURISDICTION_SOURCE_LABELS[applicable.source]})
+                                    </span>
+                                  </Badge>
+                                ))}
+                              </div>
+                              {suggestedFrameworks.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2 text-sm">
+                                  <span className="text-muted-foreground">Frameworks that may also apply:</span>
+                                  {suggestedFrameworks.map((definition) => (
+                                    <Button
+                                      key={definition.id}
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => setSelectedFrameworks(prev => [...prev, definition.id])}
+                                    >
+                                      + {definition.name}
+                                    </Button>
+                                  ))}
+                                </div>
+                              )}
+                            </CardContent>
+                          </Card>
+                        )}
+
                         {/* Framework Scores */}
                         <Card>
                           <CardHeader>
@@ -637,22 +983,27 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                                     <div className="flex items-center gap-2">
                                       <div className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors ${getRiskColor(framework.riskLevel)}`}>
                                         {getRiskIcon(framework.riskLevel)}
-                                        <span className="ml-1">{framework.riskLevel}</span>
+                                        <span className="ml-1">{formatRiskLevel(framework.riskLevel)}</span>
                                       </div>
-                                      <span className="text-sm font-medium">{framework.overallScore}%</span>
+                                      <span className="text-sm font-medium">{formatScore(framework.overallScore)}</span>
                                     </div>
                                   </div>
                                   <div className="w-full bg-gray-200 rounded-full h-2">
                                     <div
                                       className={`h-2 rounded-full ${
+                                        framework.overallScore === null ? '' :
                                         framework.overallScore >= 80 ? 'bg-green-500' :
                                         framework.overallScore >= 60 ? 'bg-yellow-500' :
                                         'bg-red-500'
                                       }`}
-                                      style={{ width: `${framework.overallScore}%` }}
+                                      style={{ width: `${framework.overallScore ?? 0}%` }}
                                     />
                                   </div>
-                                  {framework.violations.length > 0 && (
+                                  {framework.rulesEvaluated === 0 ? (
+                                    <div className="text-sm text-muted-foreground">
+                                      Not evaluated - no active rules apply
+                                    </div>
+                                  ) : framework.violations.length > 0 && (
                                     <div className="text-sm text-muted-foreground">
                                       {framework.violations.length} violations found
                                     </div>
@@ -663,6 +1014,22 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                           </CardContent>
                         </Card>
 
+                        {/* Shared Obligations */}
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                              <Shield className="h-5 w-5" />
+                              Obligations Across Frameworks
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <ComplianceObligations
+                              analysis={complianceAnalysis}
+                              onViewViolation={setHighlightedViolation}
+                            />
+                          </CardContent>
+                        </Card>
+
                         {/* Auto Tags */}
                         {complianceAnalysis.autoTags.length > 0 && (
                           <Card>
@@ -707,6 +1074,131 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
                             </CardContent>
                           </Card>
                         )}
+
+                        {/* Suggested Fixes */}
+                        {remediationOptions.length > 0 && (
+                          <Card>
+                            <CardHeader>
+                              <CardTitle className="flex items-center gap-2">
+                                <Wrench className="h-5 w-5" />
+                                Suggested Fixes
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                              <div className="space-y-3">
+                                {remediationOptions.map(({ violation, templates }) => {
+                                  const template = templates.find(t => t.id === remediationChoices[violation.id]) ?? templates[0];
+                                  return (
+                                    <div key={violation.id} className="p-3 border rounded-md space-y-2">
+                                      <div className="flex items-center justify-between gap-2">
+                                        <div className="font-medium text-sm">{violation.description}</div>
+                                        <Badge variant="outline" className="text-xs">{violation.rule.framework}</Badge>
+                                      </div>
+                                      <div className="flex flex-wrap items-center gap-2">
+                                        {templates.length > 1 ? (
+                                          <select
+                                            value={template.id}
+                                            onChange={(e) => setRemediationChoices(prev => ({ ...prev, [violation.id]: e.target.value }))}
+                                            className="px-2 py-1 border rounded-md text-xs"
+                                          >
+                                            {templates.map(option => (
+                                              <option key={option.id} value={option.id}>
+                                                {option.title} ({option.jurisdiction})
+                                              </option>
+                                            ))}
+                                          </select>
+                                        ) : (
+                                          <span className="text-xs text-muted-foreground">{template.title}</span>
+                                        )}
+                                        <Button variant="outline" size="sm" onClick={() => applyRemediation(violation, template)}>
+                                          <Wrench className="h-4 w-4 mr-2" />
+                                          {violation.location ? 'Rewrite Clause' : 'Insert Clause'}
+                                        </Button>
+                                      </div>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </CardContent>
+                          </Card>
+                        )}
+
+                        {/* Violation Locations */}
+                        {complianceAnalysis.frameworks.some(f => f.violations.some(v => v.location)) && (
+                          <Card>
+                            <CardHeader>
+                              <CardTitle className="flex items-center gap-2">
+                                <FileText className="h-5 w-5" />
+                                Violations in Contract Text
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                              <div className="space-y-2">
+                                {complianceAnalysis.frameworks
+                                  .flatMap(f => f.violations)
+                                  .filter(v => v.location)
+                                  .map((violation) => (
+                                  <div
+                                    key={violation.id}
+                                    className={`p-3 border rounded-md cursor-pointer transition-colors ${
+                                      highlightedViolation?.id === violation.id
+                                        ? 'border-yellow-400 bg-yellow-50'
+                                        : 'hover:border-gray-300'
+                                    }`}
+                                    onClick={() => setHighlightedViolation(violation)}
+                                  >
+                                    <div className="flex items-center justify-between gap-2">
+                                      <div className="font-medium text-sm">{violation.description}</div>
+                                      <div className="flex items-center gap-1">
+                                        {violation.violationType === 'CONTRADICTED' && (
+                                          <Badge variant="outline" className="text-xs text-red-700 border-red-200">
+                                            Contradicted: "{violation.contradiction?.trigger}"
+                                          </Badge>
+                                        )}
+                                        <Badge variant="outline" className="text-xs">{violation.severity}</Badge>
+                                      </div>
+                                    </div>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                      {violation.location!.clauseHeading}: "{violation.location!.matchedText}"
+                                    </div>
+                                    {violation.qualityBreakdown && (
+                                      <div className="flex flex-wrap gap-1 mt-2">
+                                        {violation.qualityBreakdown.indicators.map((result) => (
+                                          <Badge
+                                            key={result.indicator}
+                                            variant="outline"
+                                            className={`text-xs ${result.present ? 'text-green-700 border-green-200' : 'text-red-700 border-red-200'}`}
+                                          >
+                                            {result.present ? '✓' : '✗'} {result.label}
+                                          </Badge>
+                                        ))}
+                                      </div>
+                                    )}
+                                    {violation.threshold && (
+                                      <div className="flex flex-wrap gap-1 mt-2">
+                                        <Badge variant="outline" className="text-xs text-red-700 border-red-200">
+                                          Found: {violation.threshold.found.length > 0
+                                            ? violation.threshold.found.map(quantity => quantity.text).join(', ')
+                                            : 'not stated'}
+                                        </Badge>
+                                        <Badge variant="outline" className="text-xs text-green-700 border-green-200">
+                                          Required: {violation.threshold.required}
+                                        </Badge>
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                              <ContractTextViewer
+                                text={contractText}
+                                highlight={highlightedViolation?.location && {
+                                  start: Math.min(highlightedViolation.location.start, highlightedViolation.contradiction?.start ?? Infinity),
+                                  end: Math.max(highlightedViolation.location.end, highlightedViolation.contradiction?.end ?? 0)
+                                }}
+                              />
+                            </CardContent>
+                          </Card>
+                        )}
                       </>
                     ) : (
                       <div className="text-center py-8 text-muted-foreground">
@@ -824,6 +1316,10 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
         open={showClauseLibrary}
         onOpenChange={setShowClauseLibrary}
         onSelectClause={handleClauseSelect}
+        currentUser={user?.id}
+        userId={user?.id}
+        contractText={contractText}
+        contractName={documentName}
       />
 
       {/* Smart Suggestions Modal */}
@@ -850,6 +1346,20 @@ export function ContractReviewModal({ open, onOpenChange, initialAnalysis, initi
           </DialogContent>
         </Dialog>
       )}
+
+      <ComplianceFrameworkConfig
+        open={!!editingConfiguration}
+        onOpenChange={(isOpen) => !isOpen && setEditingConfiguration(null)}
+        initialConfig={editingConfiguration ?? undefined}
+        onSave={saveComplianceConfiguration}
+        ruleStore={ruleStore}
+        currentUser={user?.id}
+        onRulesChange={() => ruleStore.loadInto(analyzer)
+          .then(reportSkippedRules)
+          .catch(error => console.error('Error loading compliance rules:', error))}
+        impactAnalyzer={analyzer}
+        loadPortfolio={user ? () => historyStore.getPortfolio(user.id) : undefined}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
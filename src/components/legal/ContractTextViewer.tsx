@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+
+interface ContractTextViewerProps {
+  text: string;
+  highlight?: {
+    start: number;
+    end: number;
+  } | null;
+  className?: string;
+}
+
+export function ContractTextViewer({ text, highlight, className }: ContractTextViewerProps) {
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight?.start, highlight?.end]);
+
+  const hasHighlight = highlight && highlight.start >= 0 && highlight.end <= text.length && highlight.start < highlight.end;
+
+  return (
+    <ScrollArea className={cn('h-[300px] rounded-md border bg-muted/30', className)}>
+      <pre className="whitespace-pre-wrap p-4 font-mono text-sm">
+        {hasHighlight ? (
+          <>
+            {text.slice(0, highlight.start)}
+            <mark ref={markRef} className="rounded bg-yellow-200 px-0.5">
+              {text.slice(highlight.start, highlight.end)}
+            </mark>
+            {text.slice(highlight.end)}
+          </>
+        ) : (
+          text
+        )}
+      </pre>
+    </ScrollArea>
+  );
+}
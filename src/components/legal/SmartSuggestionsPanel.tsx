@@ -25,6 +25,7 @@ import {
   ClauseComparison
 } from '@/types/clause-library';
 import { ClauseLibraryEngine } from '@/lib/clause-library-engine';
+import { ClauseRedline } from './ClauseRedline';
 
 interface SmartSuggestionsPanelProps {
   originalClause: string;
@@ -74,6 +75,7 @@ export function SmartSuggestionsPanel({
         maxSuggestions: 5
       };
 
+      await engine.prepareSearch(originalClause);
       const newSuggestions = engine.generateSmartSuggestions(request, 'default');
       setSuggestions(newSuggestions);
     } catch (error) {
@@ -338,19 +340,9 @@ export function SmartSuggestionsPanel({
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <h4 className="font-medium mb-2">Original Clause</h4>
-                  <div className="bg-red-50 p-3 rounded-md">
-                    <p className="text-sm font-mono">{originalClause}</p>
-                  </div>
-                </div>
-                <div>
-                  <h4 className="font-medium mb-2">Suggested Clause</h4>
-                  <div className="bg-green-50 p-3 rounded-md">
-                    <p className="text-sm font-mono">{selectedSuggestion.suggestedClause}</p>
-                  </div>
-                </div>
+              <div>
+                <h4 className="font-medium mb-2">Changes</h4>
+                <ClauseRedline redline={comparison.redline} differences={comparison.differences} />
               </div>
 
               <div className="space-y-2">
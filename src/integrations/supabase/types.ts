@@ -56,6 +56,470 @@ export type Database = {
         }
         Relationships: []
       }
+      clause_libraries: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          is_personal: boolean
+          is_public: boolean
+          name: string
+          settings: Json
+          team_id: string | null
+          updated_at: string
+          upstream_library_id: string | null
+          upstream_synced_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          is_personal?: boolean
+          is_public?: boolean
+          name: string
+          settings: Json
+          team_id?: string | null
+          updated_at?: string
+          upstream_library_id?: string | null
+          upstream_synced_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          is_personal?: boolean
+          is_public?: boolean
+          name?: string
+          settings?: Json
+          team_id?: string | null
+          updated_at?: string
+          upstream_library_id?: string | null
+          upstream_synced_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clause_libraries_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clause_libraries_upstream_library_id_fkey"
+            columns: ["upstream_library_id"]
+            isOneToOne: false
+            referencedRelation: "clause_libraries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clause_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          library_id: string
+          template: Json
+          updated_at: string
+          upstream_content: string | null
+          upstream_template_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id: string
+          library_id: string
+          template: Json
+          updated_at?: string
+          upstream_content?: string | null
+          upstream_template_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          library_id?: string
+          template?: Json
+          updated_at?: string
+          upstream_content?: string | null
+          upstream_template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clause_templates_library_id_fkey"
+            columns: ["library_id"]
+            isOneToOne: false
+            referencedRelation: "clause_libraries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clause_templates_upstream_template_id_fkey"
+            columns: ["upstream_template_id"]
+            isOneToOne: false
+            referencedRelation: "clause_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clause_usage: {
+        Row: {
+          id: string
+          team_id: string | null
+          template_id: string
+          usage: Json
+          used_at: string
+          user_id: string
+        }
+        Insert: {
+          id: string
+          team_id?: string | null
+          template_id: string
+          usage: Json
+          used_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          team_id?: string | null
+          template_id?: string
+          usage?: Json
+          used_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clause_usage_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clause_usage_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "clause_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clause_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          library_id: string
+          template_id: string
+          updated_at: string
+          version: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id: string
+          library_id: string
+          template_id: string
+          updated_at?: string
+          version: Json
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          library_id?: string
+          template_id?: string
+          updated_at?: string
+          version?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clause_versions_library_id_fkey"
+            columns: ["library_id"]
+            isOneToOne: false
+            referencedRelation: "clause_libraries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clause_versions_template_id_library_id_fkey"
+            columns: ["template_id", "library_id"]
+            isOneToOne: false
+            referencedRelation: "clause_templates"
+            referencedColumns: ["id", "library_id"]
+          },
+        ]
+      }
+      compliance_analyses: {
+        Row: {
+          analysis: Json
+          contract_key: string
+          contract_text: string | null
+          created_at: string
+          document_name: string
+          id: string
+          overall_score: number | null
+          risk_level: string | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          analysis: Json
+          contract_key: string
+          contract_text?: string | null
+          created_at?: string
+          document_name: string
+          id?: string
+          overall_score?: number | null
+          risk_level?: string | null
+          user_id: string
+          version?: number
+        }
+        Update: {
+          analysis?: Json
+          contract_key?: string
+          contract_text?: string | null
+          created_at?: string
+          document_name?: string
+          id?: string
+          overall_score?: number | null
+          risk_level?: string | null
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      compliance_batch_checkpoints: {
+        Row: {
+          checkpoint: Json
+          created_at: string
+          id: string
+          job_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          checkpoint: Json
+          created_at?: string
+          id?: string
+          job_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          checkpoint?: Json
+          created_at?: string
+          id?: string
+          job_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_built_in_rules: {
+        Row: {
+          rule_id: string
+        }
+        Insert: {
+          rule_id: string
+        }
+        Update: {
+          rule_id?: string
+        }
+        Relationships: []
+      }
+      compliance_configurations: {
+        Row: {
+          client_id: string
+          configuration: Json
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_id?: string
+          configuration: Json
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string
+          configuration?: Json
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          delivery_id: string
+          error: string | null
+          event_ids: string[]
+          id: string
+          sent_at: string
+          status: string
+          status_code: number | null
+          target: string
+          user_id: string
+        }
+        Insert: {
+          attempts: number
+          channel: string
+          created_at?: string
+          delivery_id: string
+          error?: string | null
+          event_ids?: string[]
+          id?: string
+          sent_at: string
+          status: string
+          status_code?: number | null
+          target: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          delivery_id?: string
+          error?: string | null
+          event_ids?: string[]
+          id?: string
+          sent_at?: string
+          status?: string
+          status_code?: number | null
+          target?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_notification_secrets: {
+        Row: {
+          client_id: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+          webhook_secret: string
+        }
+        Insert: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+          webhook_secret: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+          webhook_secret?: string
+        }
+        Relationships: []
+      }
+      compliance_rule_audit: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string
+          changes: Json
+          id: string
+          rule_id: string
+          rule_row_id: string
+          snapshot: Json
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by: string
+          changes?: Json
+          id?: string
+          rule_id: string
+          rule_row_id: string
+          snapshot: Json
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string
+          changes?: Json
+          id?: string
+          rule_id?: string
+          rule_row_id?: string
+          snapshot?: Json
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_rules: {
+        Row: {
+          client_id: string
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          id: string
+          overridden_rule: Json | null
+          overrides_rule_id: string | null
+          rule: Json
+          rule_id: string
+          team_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          overridden_rule?: Json | null
+          overrides_rule_id?: string | null
+          rule: Json
+          rule_id: string
+          team_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          id?: string
+          overridden_rule?: Json | null
+          overrides_rule_id?: string | null
+          rule?: Json
+          rule_id?: string
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_rules_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contract_reviews: {
         Row: {
           analysis_results: Json
@@ -234,6 +698,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_clause_draft: {
+        Args: { _template: Json }
+        Returns: undefined
+      }
+      can_edit_clause_library: {
+        Args: { _library_id: string; _user_id: string }
+        Returns: boolean
+      }
+      clause_library_requires_approval: {
+        Args: { _library_id: string }
+        Returns: boolean
+      }
+      clause_review_unchanged: {
+        Args: { _reviewed: Json; _reviewed_fields: string[]; _stored: Json }
+        Returns: boolean
+      }
+      diff_compliance_rules: {
+        Args: { _after: Json; _before: Json }
+        Returns: Json
+      }
       get_user_team_ids: {
         Args: { _user_id: string }
         Returns: string[]
@@ -242,6 +726,29 @@ export type Database = {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
       }
+      latest_compliance_analyses: {
+        Args: { _user_id: string }
+        Returns: {
+          analysis: Json
+          contract_key: string
+          contract_text: string | null
+          created_at: string
+          document_name: string
+          id: string
+          overall_score: number | null
+          risk_level: string | null
+          user_id: string
+          version: number
+        }[]
+      }
+      review_clause_version: {
+        Args: { _template: Json; _version: Json }
+        Returns: undefined
+      }
+      set_compliance_webhook_secret: {
+        Args: { _client_id: string; _secret: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
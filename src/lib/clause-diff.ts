@@ -0,0 +1,448 @@
+import { ClauseDifference, RedlineSegment } from '@/types/clause-library';
+
+// Shorter sentences (e.g. "Yes.") repeat too often to be reported as moved
+const MIN_MOVED_SENTENCE_WORDS = 3;
+// Share of words two sentences must have in common, in order, to be the same sentence edited
+const MIN_SENTENCE_SIMILARITY = 0.8;
+const EXCERPT_LENGTH = 60;
+
+// Language that protects the party receiving the clause, and language that exposes it
+const PROTECTIVE_TERMS = [
+  'subject to', 'reasonable', 'written notice', 'notify', 'consent', 'in accordance with',
+  'comply', 'confidential', 'limited to', 'right to', 'within'
+];
+const RISK_TERMS = [
+  'sole discretion', 'unlimited', 'irrevocable', 'without notice', 'without limitation',
+  'perpetual', 'waive', 'at any time', 'for any reason', 'unilateral'
+];
+const OBLIGATION_TERMS = ['shall', 'must', 'will'];
+const PERMISSIVE_TERMS = ['may'];
+
+export interface ClauseTextDiff {
+  differences: ClauseDifference[];
+  redline: RedlineSegment[];
+  retainedRatio: number; // share of the original text kept, including moved sentences
+}
+
+interface Token {
+  text: string; // with the whitespace that follows it
+  key: string;
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+interface Sentence {
+  tokens: Token[];
+  words: string[];
+  key: string; // its words, so a sentence matches wherever its punctuation was aligned
+}
+
+type EditKind = 'UNCHANGED' | 'INSERTED' | 'DELETED';
+
+// One step of the alignment, with where it falls in each text
+interface Edit {
+  kind: EditKind;
+  original?: Token;
+  suggested?: Token;
+  originalOffset: number;
+  suggestedOffset: number;
+}
+
+interface MovedSentence {
+  from: Sentence;
+  to: Sentence;
+  edits: Edit[]; // word alignment of the sentence where it was and where it went; all UNCHANGED unless it was edited
+}
+
+type RedlineItem =
+  | { kind: EditKind; edit: Edit }
+  | { kind: 'MOVED_FROM' | 'MOVED_TO'; move: MovedSentence };
+
+/**
+ * Word-level diff of two versions of a clause. Sentences are matched first: one that appears in both
+ * texts but out of order, unchanged or slightly edited, is reported as REORDERING, along with any
+ * edits made to it. The remaining words and punctuation are aligned by longest common subsequence.
+ * Each difference is rated by whether it adds or removes protective or risky language.
+ */
+export function diffClauseText(original: string, suggested: string): ClauseTextDiff {
+  const originalTokens = tokenize(original);
+  const suggestedTokens = tokenize(suggested);
+  const moves = findMovedSentences(splitSentences(originalTokens), splitSentences(suggestedTokens));
+  const movedTokens = new Set(moves.flatMap(move => [...move.from.tokens, ...move.to.tokens]));
+  const edits = alignTokens(
+    originalTokens.filter(token => !movedTokens.has(token)),
+    suggestedTokens.filter(token => !movedTokens.has(token)),
+    original.length,
+    suggested.length
+  );
+  const items = toRedlineItems(edits, moves);
+
+  const keptTokens = items.reduce((count, item) =>
+    count + (item.kind === 'UNCHANGED' ? 1 : item.kind === 'MOVED_FROM' ? countUnchanged(item.move.edits) : 0), 0);
+  return {
+    differences: collectDifferences(items, original, suggested),
+    redline: buildRedline(items),
+    retainedRatio: originalTokens.length === 0 ? 1 : keptTokens / originalTokens.length
+  };
+}
+
+// Words and punctuation marks, each with the whitespace that follows it
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[^\s\p{P}\p{S}]+\s*|[\p{P}\p{S}]\s*/gu), match => {
+    const key = match[0].trimEnd();
+    return {
+      text: match[0],
+      key,
+      start: match.index!,
+      end: match.index! + key.length,
+      isWord: !/^[\p{P}\p{S}]$/u.test(key)
+    };
+  });
+}
+
+// A sentence ends at terminal punctuation or a line break
+function splitSentences(tokens: Token[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  let current: Token[] = [];
+
+  tokens.forEach((token, index) => {
+    current.push(token);
+    if (['.', '!', '?'].includes(token.key) || token.text.includes('\n') || index === tokens.length - 1) {
+      const words = current.filter(t => t.isWord).map(t => t.key);
+      sentences.push({ tokens: current, words, key: words.join(' ') });
+      current = [];
+    }
+  });
+
+  return sentences;
+}
+
+/**
+ * Longest-common-subsequence alignment of two token lists. Each edit also records where it falls
+ * in the other text: a deleted token at the next token of the suggestion, an inserted token at the
+ * next token of the original.
+ */
+function alignTokens(original: Token[], suggested: Token[], originalLength: number, suggestedLength: number): Edit[] {
+  let prefix = 0;
+  while (prefix < original.length && prefix < suggested.length && original[prefix].key === suggested[prefix].key) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < suggested.length - prefix &&
+    original[original.length - 1 - suffix].key === suggested[suggested.length - 1 - suffix].key
+  ) {
+    suffix++;
+  }
+
+  const a = original.slice(prefix, original.length - suffix);
+  const b = suggested.slice(prefix, suggested.length - suffix);
+  const width = b.length + 1;
+  // lcs[i * width + j] is the length of the common subsequence of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i].key === b[j].key
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const steps: Pick<Edit, 'kind' | 'original' | 'suggested'>[] = [];
+  for (let k = 0; k < prefix; k++) steps.push({ kind: 'UNCHANGED', original: original[k], suggested: suggested[k] });
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].key === b[j].key) {
+      steps.push({ kind: 'UNCHANGED', original: a[i++], suggested: b[j++] });
+    } else if (j === b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Deletions before insertions, so a replacement reads struck-out then new
+      steps.push({ kind: 'DELETED', original: a[i++] });
+    } else {
+      steps.push({ kind: 'INSERTED', suggested: b[j++] });
+    }
+  }
+  for (let k = suffix; k > 0; k--) {
+    steps.push({ kind: 'UNCHANGED', original: original[original.length - k], suggested: suggested[suggested.length - k] });
+  }
+
+  const edits: Edit[] = new Array(steps.length);
+  let nextOriginal = originalLength;
+  let nextSuggested = suggestedLength;
+  for (let k = steps.length - 1; k >= 0; k--) {
+    const step = steps[k];
+    if (step.original) nextOriginal = step.original.start;
+    if (step.suggested) nextSuggested = step.suggested.start;
+    edits[k] = { ...step, originalOffset: nextOriginal, suggestedOffset: nextSuggested };
+  }
+  return edits;
+}
+
+/**
+ * Sentences that appear in both texts but out of order, paired in order. The sentences that kept
+ * their order are the longest common subsequence of the two sentence lists, where a sentence edited
+ * in place still counts as in order but unchanged sentences are preferred. Any other sentence found
+ * in the other text, unchanged or else slightly edited, has moved.
+ */
+function findMovedSentences(originalSentences: Sentence[], suggestedSentences: Sentence[]): MovedSentence[] {
+  const a = originalSentences;
+  const b = suggestedSentences;
+  // One unchanged sentence outweighs any number of edited ones
+  const exactWeight = a.length + b.length + 1;
+  const weight = (x: Sentence, y: Sentence) => x.key === y.key ? exactWeight : isSimilar(x, y) ? 1 : 0;
+
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const match = weight(a[i], b[j]);
+      lcs[i * width + j] = Math.max(
+        match > 0 ? lcs[(i + 1) * width + j + 1] + match : 0,
+        lcs[(i + 1) * width + j],
+        lcs[i * width + j + 1]
+      );
+    }
+  }
+
+  const inOrder = new Set<Sentence>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const match = weight(a[i], b[j]);
+    if (match > 0 && lcs[i * width + j] === lcs[(i + 1) * width + j + 1] + match) {
+      inOrder.add(a[i++]);
+      inOrder.add(b[j++]);
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const isMovable = (sentence: Sentence) => !inOrder.has(sentence) && sentence.words.length >= MIN_MOVED_SENTENCE_WORDS;
+  const sources = a.filter(isMovable);
+  const candidates = b.filter(isMovable);
+  const pairs: { from: Sentence; to: Sentence }[] = [];
+  const pair = (findIndex: (from: Sentence) => number) => {
+    for (const from of [...sources]) {
+      const index = findIndex(from);
+      if (index === -1) continue;
+      pairs.push({ from, to: candidates[index] });
+      sources.splice(sources.indexOf(from), 1);
+      candidates.splice(index, 1);
+    }
+  };
+
+  // Unchanged sentences first, so an edited copy doesn't take the match of an exact one
+  pair(from => candidates.findIndex(sentence => sentence.key === from.key));
+  pair(from => {
+    const similarities = candidates.map(sentence => isSimilar(from, sentence) ? similarity(from, sentence) : 0);
+    const best = Math.max(0, ...similarities);
+    return best > 0 ? similarities.indexOf(best) : -1;
+  });
+
+  return pairs.map(({ from, to }) => {
+    const lastFrom = from.tokens[from.tokens.length - 1];
+    const lastTo = to.tokens[to.tokens.length - 1];
+    return { from, to, edits: alignTokens(from.tokens, to.tokens, lastFrom.start + lastFrom.text.length, lastTo.start + lastTo.text.length) };
+  });
+}
+
+function isSimilar(x: Sentence, y: Sentence): boolean {
+  return similarity(x, y) >= MIN_SENTENCE_SIMILARITY;
+}
+
+// Dice coefficient of the words two sentences have in common, in order: 1 for the same words, 0 for none
+function similarity(x: Sentence, y: Sentence): number {
+  if (x.words.length + y.words.length === 0) return 1;
+  const previous = new Uint32Array(y.words.length + 1);
+  const current = new Uint32Array(y.words.length + 1);
+  for (let i = x.words.length - 1; i >= 0; i--) {
+    for (let j = y.words.length - 1; j >= 0; j--) {
+      current[j] = x.words[i] === y.words[j] ? previous[j + 1] + 1 : Math.max(previous[j], current[j + 1]);
+    }
+    previous.set(current);
+  }
+  return (2 * previous[0]) / (x.words.length + y.words.length);
+}
+
+function countUnchanged(edits: Edit[]): number {
+  return edits.filter(edit => edit.kind === 'UNCHANGED').length;
+}
+
+/**
+ * Interleave the word alignment with one item where each moved sentence was and one where it went
+ */
+function toRedlineItems(edits: Edit[], moves: MovedSentence[]): RedlineItem[] {
+  const movedFrom = [...moves].sort((x, y) => x.from.tokens[0].start - y.from.tokens[0].start);
+  const movedTo = [...moves].sort((x, y) => x.to.tokens[0].start - y.to.tokens[0].start);
+  const items: RedlineItem[] = [];
+
+  const placeMoves = (originalOffset: number, suggestedOffset: number) => {
+    while (movedFrom.length > 0 && movedFrom[0].from.tokens[0].start < originalOffset) {
+      items.push({ kind: 'MOVED_FROM', move: movedFrom.shift()! });
+    }
+    while (movedTo.length > 0 && movedTo[0].to.tokens[0].start < suggestedOffset) {
+      items.push({ kind: 'MOVED_TO', move: movedTo.shift()! });
+    }
+  };
+
+  for (const edit of edits) {
+    placeMoves(edit.originalOffset, edit.suggestedOffset);
+    items.push({ kind: edit.kind, edit });
+  }
+  placeMoves(Infinity, Infinity);
+
+  return items;
+}
+
+// Where a moved sentence went, edits made to it are marked within it
+function buildRedline(items: RedlineItem[]): RedlineSegment[] {
+  const segments: RedlineSegment[] = [];
+  const append = (type: RedlineSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  for (const item of items) {
+    if ('edit' in item) {
+      append(item.kind, (item.edit.suggested ?? item.edit.original)!.text);
+    } else if (item.kind === 'MOVED_FROM') {
+      append(item.kind, sentenceText(item.move.from));
+    } else {
+      item.move.edits.forEach(edit =>
+        append(edit.kind === 'UNCHANGED' ? 'MOVED_TO' : edit.kind, (edit.suggested ?? edit.original)!.text)
+      );
+    }
+  }
+
+  return segments;
+}
+
+function collectDifferences(items: RedlineItem[], original: string, suggested: string): ClauseDifference[] {
+  const differences: ClauseDifference[] = [];
+  const movedAway = new Set<MovedSentence>();
+  let run: Edit[] = [];
+
+  const flush = () => {
+    // Punctuation changed on its own, such as a dropped comma, isn't reported
+    if (run.some(edit => (edit.original ?? edit.suggested)!.isWord)) {
+      differences.push(describeEdits(run, original, suggested));
+    }
+    run = [];
+  };
+  const add = (edit: Edit) => {
+    if (edit.kind === 'UNCHANGED') {
+      flush();
+    } else {
+      run.push(edit);
+    }
+  };
+
+  for (const item of items) {
+    if ('edit' in item) {
+      add(item.edit);
+      continue;
+    }
+    flush();
+    if (item.kind === 'MOVED_FROM') {
+      movedAway.add(item.move);
+    } else {
+      // The redline follows both texts in step, so a sentence already struck out has moved later
+      differences.push(describeMove(item.move, movedAway.has(item.move) ? 'later' : 'earlier'));
+      item.move.edits.forEach(add);
+      flush();
+    }
+  }
+  flush();
+
+  return differences;
+}
+
+function describeEdits(run: Edit[], original: string, suggested: string): ClauseDifference {
+  const deleted = run.flatMap(edit => edit.kind === 'DELETED' ? [edit.original!] : []);
+  const inserted = run.flatMap(edit => edit.kind === 'INSERTED' ? [edit.suggested!] : []);
+
+  const position = deleted.length > 0
+    ? { start: deleted[0].start, end: deleted[deleted.length - 1].end }
+    : { start: run[0].originalOffset, end: run[0].originalOffset };
+  const suggestedPosition = inserted.length > 0
+    ? { start: inserted[0].start, end: inserted[inserted.length - 1].end }
+    : { start: run[0].suggestedOffset, end: run[0].suggestedOffset };
+
+  const originalText = original.slice(position.start, position.end);
+  const modifiedText = suggested.slice(suggestedPosition.start, suggestedPosition.end);
+  const { impact, reasons } = assessImpact(originalText, modifiedText);
+
+  const type: ClauseDifference['type'] = deleted.length === 0 ? 'ADDITION' : inserted.length === 0 ? 'DELETION' : 'MODIFICATION';
+  const change = type === 'ADDITION' ? `Adds "${excerpt(modifiedText)}"`
+    : type === 'DELETION' ? `Removes "${excerpt(originalText)}"`
+    : `Replaces "${excerpt(originalText)}" with "${excerpt(modifiedText)}"`;
+
+  return {
+    type,
+    originalText,
+    modifiedText,
+    position,
+    suggestedPosition,
+    impact,
+    description: reasons.length > 0 ? `${change}: ${reasons.join(', ')}` : change
+  };
+}
+
+function describeMove(move: MovedSentence, direction: 'earlier' | 'later'): ClauseDifference {
+  const originalText = sentenceText(move.from).trimEnd();
+
+  return {
+    type: 'REORDERING',
+    originalText,
+    modifiedText: sentenceText(move.to).trimEnd(),
+    position: { start: move.from.tokens[0].start, end: move.from.tokens[move.from.tokens.length - 1].end },
+    suggestedPosition: { start: move.to.tokens[0].start, end: move.to.tokens[move.to.tokens.length - 1].end },
+    impact: 'NEUTRAL',
+    description: `Moves "${excerpt(originalText)}" ${direction} in the clause`
+  };
+}
+
+/**
+ * Whether a change helps the party receiving the clause: adding protective language or an obligation
+ * helps, removing them or adding risky or permissive language hurts
+ */
+function assessImpact(removed: string, added: string): { impact: ClauseDifference['impact']; reasons: string[] } {
+  const reasons: string[] = [];
+  let balance = 0;
+
+  const compare = (terms: string[], weight: number, addedReason: string, removedReason: string) => {
+    const delta = countTerms(added, terms) - countTerms(removed, terms);
+    if (delta > 0) reasons.push(addedReason);
+    if (delta < 0) reasons.push(removedReason);
+    balance += Math.sign(delta) * weight;
+  };
+
+  compare(PROTECTIVE_TERMS, 1, 'adds protective language', 'removes protective language');
+  compare(RISK_TERMS, -1, 'adds risky language', 'removes risky language');
+  compare(OBLIGATION_TERMS, 1, 'adds an obligation', 'removes an obligation');
+  compare(PERMISSIVE_TERMS, -1, 'makes an obligation optional', 'makes an option binding');
+
+  return { impact: balance > 0 ? 'POSITIVE' : balance < 0 ? 'NEGATIVE' : 'NEUTRAL', reasons };
+}
+
+function countTerms(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.reduce((count, term) => count + (lower.match(new RegExp(`\\b${term}\\b`, 'g'))?.length ?? 0), 0);
+}
+
+function sentenceText(sentence: Sentence): string {
+  return sentence.tokens.map(token => token.text).join('');
+}
+
+function excerpt(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > EXCERPT_LENGTH ? `${normalized.slice(0, EXCERPT_LENGTH - 1)}…` : normalized;
+}
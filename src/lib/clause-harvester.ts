@@ -0,0 +1,165 @@
+import { ClauseCategory, HarvestedClause } from '@/types/clause-library';
+import { ContractClause } from '@/types/compliance';
+import { frameworkRegistry } from './compliance-framework-registry';
+import { findRuleMatches } from './compliance-matcher';
+import { segmentContract } from './contract-segmenter';
+
+// Sections shorter than this are headings, cross-references or boilerplate fragments, not reusable clauses
+const MIN_CLAUSE_WORDS = 15;
+
+// A heading naming the category counts for more than the body mentioning it, and a compliance
+// rule the clause satisfies counts in between
+const HEADING_WEIGHT = 3;
+const RULE_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+
+// Drafting that makes a clause harder to read: qualifications and cross-references
+const QUALIFIERS = /\b(notwithstanding|subject to|provided that|provided, however|except|unless|in accordance with|pursuant to|to the extent)\b/gi;
+
+// The first line of a signature block, which may run on from the last clause without a heading
+const SIGNATURE_BLOCK = /^[ \t]*(in witness whereof|signed (by|for and on behalf)|signature\b|executed (by|as of))/im;
+
+// Terms that identify a category, matched as word prefixes ("indemn" matches "indemnify" and "indemnification")
+const CATEGORY_TERMS: Partial<Record<ClauseCategory, string[]>> = {
+  DATA_PROTECTION: ['data protection', 'personal data', 'personal information', 'processor', 'controller', 'privacy'],
+  HEALTHCARE_PRIVACY: ['protected health information', 'phi', 'hipaa', 'business associate'],
+  SECURITY_REQUIREMENTS: ['security measure', 'information security', 'encrypt', 'access control', 'technical and organisational', 'technical and organizational'],
+  AUDIT_COMPLIANCE: ['audit', 'inspection', 'records'],
+  BREACH_NOTIFICATION: ['breach notification', 'security incident', 'personal data breach', 'notify'],
+  DATA_RETENTION: ['retention', 'retain', 'deletion', 'return or destroy'],
+  CROSS_BORDER_TRANSFER: ['international transfer', 'cross-border', 'standard contractual clauses', 'third country', 'adequacy'],
+  CONSENT_MANAGEMENT: ['consent', 'opt-out', 'opt out', 'lawful basis'],
+  THIRD_PARTY_SHARING: ['subprocessor', 'sub-processor', 'third part', 'subcontract'],
+  CONFIDENTIALITY: ['confidential', 'non-disclosure', 'proprietary information', 'trade secret'],
+  INTELLECTUAL_PROPERTY: ['intellectual property', 'copyright', 'patent', 'trademark', 'licen', 'ownership of'],
+  PAYMENT_TERMS: ['payment', 'fees', 'invoice', 'price', 'late payment', 'interest'],
+  SERVICE_LEVEL_AGREEMENTS: ['service level', 'uptime', 'availability', 'service credit', 'response time'],
+  LIMITATION_OF_LIABILITY: ['limitation of liability', 'in no event', 'aggregate liability', 'consequential', 'indirect'],
+  INDEMNIFICATION: ['indemn', 'hold harmless', 'defend'],
+  WARRANTIES: ['warrant', 'as is', 'merchantability', 'fitness for a particular purpose'],
+  REPRESENTATIONS: ['represent'],
+  TERMINATION: ['terminat', 'expir', 'term of this agreement'],
+  SURVIVAL: ['surviv'],
+  FORCE_MAJEURE: ['force majeure', 'act of god', 'beyond its reasonable control'],
+  GOVERNING_LAW: ['governing law', 'governed by', 'laws of'],
+  DISPUTE_RESOLUTION: ['dispute', 'arbitrat', 'mediat', 'jurisdiction of the courts'],
+  REMEDIES: ['remed', 'injunctive relief', 'specific performance'],
+  ASSIGNMENT: ['assign', 'change of control'],
+  AMENDMENT: ['amend', 'modif', 'variation'],
+  SEVERABILITY: ['severab', 'invalid or unenforceable'],
+  ENTIRE_AGREEMENT: ['entire agreement', 'supersedes all prior'],
+  NOTICES: ['notices', 'notice shall be', 'in writing and delivered'],
+  COUNTERPARTS: ['counterpart'],
+  CONDITIONS_PRECEDENT: ['condition precedent', 'conditions precedent'],
+  COVENANTS: ['covenant', 'non-compete', 'non-solicit'],
+  AI_GOVERNANCE: ['artificial intelligence', 'ai system', 'machine learning', 'training data'],
+  OPERATIONAL_RESILIENCE: ['business continuity', 'disaster recovery', 'operational resilience', 'exit strategy'],
+  SUPPLY_CHAIN_SECURITY: ['supply chain', 'software bill of materials', 'vulnerability']
+};
+
+/**
+ * Split a contract into the clauses worth keeping in a library, each categorized by its heading,
+ * its wording and the compliance rules it satisfies, with the frameworks those rules belong to.
+ * Preambles, signature blocks and fragments too short to reuse are left out.
+ */
+export function extractHarvestCandidates(contractText: string): HarvestedClause[] {
+  const rules = frameworkRegistry.getRules().filter(rule => rule.isActive);
+
+  return segmentContract(contractText)
+    .filter(section => section.heading !== 'Preamble')
+    .map(section => ({ section, content: withoutSignatureBlock(contractText.slice(section.bodyStart, section.end)) }))
+    .filter(({ content }) => countWords(content) >= MIN_CLAUSE_WORDS)
+    .map(({ section, content }) => {
+      const satisfied = rules.filter(rule => findRuleMatches([section], rule).some(match => !match.contradiction));
+      const { category, confidence } = categorize(section, content, satisfied.map(rule => rule.category));
+      const start = contractText.indexOf(content, section.bodyStart);
+      const wordCount = countWords(content);
+
+      return {
+        heading: section.heading,
+        content,
+        start,
+        end: start + content.length,
+        category,
+        categoryConfidence: confidence,
+        complianceFrameworks: [...new Set(satisfied.map(rule => rule.framework))].sort(),
+        complianceRuleIds: satisfied.map(rule => rule.id),
+        wordCount,
+        complexity: assessComplexity(content, wordCount)
+      };
+    });
+}
+
+/**
+ * Library title for a harvested clause: its heading without numbering, or its category for
+ * sections that had no heading
+ */
+export function toHarvestedTitle(clause: HarvestedClause): string {
+  const heading = clause.heading
+    .replace(/^(article|section|clause|part)\s+[\dIVXLC]+[A-Za-z]?(\.\d+)*\s*[.:)-]?\s*/i, '')
+    .replace(/^\d+(\.\d+)*\.?\s+/, '')
+    .trim();
+
+  if (!heading || /^Paragraph \d+$/.test(clause.heading)) {
+    return toTitleCase(clause.category.replace(/_/g, ' '));
+  }
+  return heading === heading.toUpperCase() ? toTitleCase(heading) : heading;
+}
+
+function categorize(
+  section: ContractClause,
+  content: string,
+  ruleCategories: ClauseCategory[]
+): { category: ClauseCategory; confidence: number } {
+  const heading = section.heading.toLowerCase();
+  const body = content.toLowerCase();
+  const scores = new Map<ClauseCategory, number>();
+  const addScore = (category: ClauseCategory, score: number) => scores.set(category, (scores.get(category) ?? 0) + score);
+
+  (Object.entries(CATEGORY_TERMS) as [ClauseCategory, string[]][]).forEach(([category, terms]) => {
+    terms.forEach(term => {
+      const pattern = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+      if (pattern.test(heading)) addScore(category, HEADING_WEIGHT);
+      if (pattern.test(body)) addScore(category, BODY_WEIGHT);
+    });
+  });
+  ruleCategories.forEach(category => addScore(category, RULE_WEIGHT));
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) {
+    return { category: 'CUSTOM', confidence: 0 };
+  }
+
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  return { category: ranked[0][0], confidence: Math.round((ranked[0][1] / total) * 100) / 100 };
+}
+
+function assessComplexity(content: string, wordCount: number): 'SIMPLE' | 'MODERATE' | 'COMPLEX' {
+  const sentences = Math.max(1, (content.match(/[^.;!?]+[.;!?]?/g) ?? []).filter(sentence => sentence.trim()).length);
+  const wordsPerSentence = wordCount / sentences;
+  const qualifiers = (content.match(QUALIFIERS) ?? []).length;
+
+  if (wordCount > 150 || wordsPerSentence > 40 || qualifiers >= 3) return 'COMPLEX';
+  if (wordCount < 50 && wordsPerSentence <= 25 && qualifiers === 0) return 'SIMPLE';
+  return 'MODERATE';
+}
+
+// Cut a clause body at the start of a signature block
+function withoutSignatureBlock(body: string): string {
+  const index = body.search(SIGNATURE_BLOCK);
+  return (index === -1 ? body : body.slice(0, index)).trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function toTitleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word, index) => index > 0 && ['of', 'and', 'or', 'the', 'to', 'in', 'for'].includes(word)
+      ? word
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
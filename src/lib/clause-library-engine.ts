@@ -1,8 +1,12 @@
 import {
   ClauseTemplate,
   ClauseVersion,
+  ClauseVersionAction,
+  ClauseVersionComment,
   ClauseSuggestion,
   ClauseLibrary,
+  ClauseLibrarySyncResult,
+  ClauseHarvestResult,
   ClauseSearchFilters,
   ClauseComparison,
   ClauseDifference,
@@ -13,13 +17,37 @@ import {
   ClauseCategory,
   SuggestionType
 } from '@/types/clause-library';
+import { appliesToJurisdictions, getJurisdictionPath } from './jurisdiction-tree';
+import { COMPLIANCE_CLAUSE_TEMPLATES } from './compliance-clause-templates';
+import { ClauseTextDiff, diffClauseText } from './clause-diff';
+import { Bm25SimilarityBackend, ClauseSimilarityBackend, findMatchingSections } from './clause-similarity';
+import { extractHarvestCandidates, toHarvestedTitle } from './clause-harvester';
+
+// Minimum similarity for a library clause to be suggested, and for a search result that doesn't contain every search term
+const MIN_SUGGESTION_SIMILARITY = 0.3;
+const MIN_SEARCH_SIMILARITY = 0.1;
+// A harvested clause this similar to a library clause repeats it and is not staged
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+export interface ClauseLibraryEngineOptions {
+  similarityBackend?: ClauseSimilarityBackend; // defaults to BM25 over the clause text
+}
+
+export interface ClauseHarvestOptions {
+  contractName: string;
+  author: string; // who harvested the clauses; with approval required, someone else accepts them
+  jurisdiction?: string; // defaults to GLOBAL
+  language?: string; // defaults to en
+}
 
 export class ClauseLibraryEngine {
   private libraries: Map<string, ClauseLibrary> = new Map();
   private suggestions: Map<string, ClauseSuggestion> = new Map();
   private usage: Map<string, ClauseUsage> = new Map();
+  private similarity: ClauseSimilarityBackend;
 
-  constructor() {
+  constructor(options: ClauseLibraryEngineOptions = {}) {
+    this.similarity = options.similarityBackend ?? new Bm25SimilarityBackend();
     this.initializeDefaultLibraries();
   }
 
@@ -55,6 +83,109 @@ export class ClauseLibraryEngine {
     return library;
   }
 
+  /**
+   * Remove a library and its clauses from the engine
+   */
+  removeLibrary(libraryId: string): void {
+    this.libraries.get(libraryId)?.clauses.forEach(clause => this.similarity.remove(clause.id));
+    this.libraries.delete(libraryId);
+  }
+
+  getLibrary(libraryId: string): ClauseLibrary | undefined {
+    return this.libraries.get(libraryId);
+  }
+
+  getLibraries(): ClauseLibrary[] {
+    return Array.from(this.libraries.values());
+  }
+
+  /**
+   * Load a library kept outside the engine, e.g. in Supabase, with its clauses' usage. Replaces any copy already loaded.
+   */
+  restoreLibrary(library: ClauseLibrary, usage: ClauseUsage[] = []): void {
+    this.libraries.get(library.id)?.clauses.forEach(clause => this.similarity.remove(clause.id));
+    this.libraries.set(library.id, library);
+    library.clauses.forEach(clause => this.similarity.add(clause.id, clause.content));
+    usage.forEach(entry => this.usage.set(entry.id, entry));
+  }
+
+  /**
+   * Copy a library's approved clauses into a new library for a firm. The fork links to the library
+   * and each clause to the one it was copied from, so later upstream changes can be pulled. A fork
+   * that requires approval gets the clauses as drafts, for whoever forked it to submit for review.
+   */
+  forkLibrary(sourceLibraryId: string, firmId: string, name?: string, forkedBy?: string): ClauseLibrary {
+    const source = this.libraries.get(sourceLibraryId);
+    if (!source) {
+      throw new Error('Library not found');
+    }
+    if (!source.isPublic && source.firmId !== firmId) {
+      throw new Error('Only public libraries can be forked by another firm');
+    }
+
+    const fork = this.createLibrary(name ?? source.name, source.description, firmId);
+    fork.settings = { ...source.settings, allowPublicSharing: false };
+    fork.upstream = { libraryId: source.id, syncedAt: new Date() };
+    source.clauses
+      .filter(clause => clause.status === 'APPROVED')
+      .forEach(clause => this.copyUpstreamClause(fork, clause, forkedBy));
+
+    return fork;
+  }
+
+  /**
+   * Pull changes to the upstream library's approved clauses into a fork. A clause the fork hasn't
+   * changed takes the upstream content as a new approved version, unless the fork requires
+   * approval; otherwise it gets it as a draft to review. Clauses new upstream are copied in, as
+   * drafts when the fork requires approval; ones removed upstream are kept.
+   */
+  pullUpstream(libraryId: string, pulledBy: string): ClauseLibrarySyncResult {
+    const library = this.libraries.get(libraryId);
+    if (!library) {
+      throw new Error('Library not found');
+    }
+    if (!library.upstream) {
+      throw new Error('Library is not a fork');
+    }
+    const upstream = this.libraries.get(library.upstream.libraryId);
+    if (!upstream) {
+      throw new Error('Upstream library not found');
+    }
+
+    const result: ClauseLibrarySyncResult = {
+      libraryId,
+      upstreamLibraryId: upstream.id,
+      added: [],
+      updated: [],
+      drafted: [],
+      syncedAt: new Date()
+    };
+
+    for (const source of upstream.clauses.filter(clause => clause.status === 'APPROVED')) {
+      const clause = library.clauses.find(c => c.upstream?.templateId === source.id);
+      if (!clause) {
+        result.added.push(this.copyUpstreamClause(library, source, pulledBy));
+        continue;
+      }
+      if (source.content === clause.upstream!.syncedContent) {
+        continue;
+      }
+
+      const version = this.newVersion(clause, source.content, pulledBy, `Upstream change from ${upstream.name}`);
+      clause.alternativeVersions.push(version);
+      if (!library.settings.requireApproval && clause.content === clause.upstream!.syncedContent) {
+        this.activateVersion(library, clause, version, pulledBy);
+        result.updated.push(clause);
+      } else {
+        result.drafted.push({ template: clause, version });
+      }
+      clause.upstream = { templateId: source.id, syncedContent: source.content };
+    }
+
+    library.upstream = { libraryId: upstream.id, syncedAt: result.syncedAt };
+    return result;
+  }
+
   /**
    * Add a clause template to a library
    */
@@ -75,8 +206,14 @@ export class ClauseLibraryEngine {
       usageCount: 0
     };
 
+    // A template added without a history starts at version 1.0 of its content
+    if (library.settings.versionControl && clauseTemplate.alternativeVersions.length === 0) {
+      clauseTemplate.alternativeVersions = [this.createInitialVersion(clauseTemplate)];
+    }
+
     library.clauses.push(clauseTemplate);
     library.totalClauses = library.clauses.length;
+    this.similarity.add(clauseTemplate.id, clauseTemplate.content);
     library.lastUpdated = new Date();
 
     // Update categories
@@ -88,89 +225,358 @@ export class ClauseLibraryEngine {
   }
 
   /**
-   * Search clauses with filters
+   * Find the reusable clauses in a contract and stage them in a library as DRAFT templates for
+   * review. Clauses that nearly repeat one already in the library, including earlier drafts, are
+   * flagged instead of staged.
+   */
+  harvestClauses(libraryId: string, contractText: string, options: ClauseHarvestOptions): ClauseHarvestResult {
+    const library = this.libraries.get(libraryId);
+    if (!library) {
+      throw new Error('Library not found');
+    }
+
+    const clauses = extractHarvestCandidates(contractText);
+    const staged: ClauseTemplate[] = [];
+
+    for (const clause of clauses) {
+      const scores = this.similarity.score(clause.content, library.clauses.map(template => template.id));
+      const closest = library.clauses
+        .map(template => ({ template, similarity: scores.get(template.id) ?? 0 }))
+        .sort((a, b) => b.similarity - a.similarity)[0];
+
+      if (closest && closest.similarity >= NEAR_DUPLICATE_SIMILARITY) {
+        clause.duplicateOf = {
+          templateId: closest.template.id,
+          title: closest.template.title,
+          similarity: Math.round(closest.similarity * 100) / 100
+        };
+        continue;
+      }
+
+      clause.template = this.addClauseTemplate(libraryId, {
+        title: toHarvestedTitle(clause),
+        description: `Harvested from ${options.contractName}`,
+        category: clause.category,
+        content: clause.content,
+        alternativeVersions: [],
+        tags: ['harvested'],
+        status: 'DRAFT',
+        riskLevel: 'MEDIUM',
+        complianceFrameworks: clause.complianceFrameworks,
+        complianceRuleIds: clause.complianceRuleIds,
+        jurisdiction: options.jurisdiction ?? 'GLOBAL',
+        language: options.language ?? 'en',
+        author: options.author,
+        isPublic: false,
+        firmId: library.firmId,
+        metadata: {
+          wordCount: clause.wordCount,
+          complexity: clause.complexity,
+          harvestedFrom: { contractName: options.contractName, heading: clause.heading }
+        }
+      });
+      staged.push(clause.template);
+    }
+
+    return { libraryId, contractName: options.contractName, clauses, staged };
+  }
+
+  /**
+   * Accept staged draft templates in bulk: the reviewer approves each one's draft version. Nothing
+   * is accepted unless every template can be.
+   */
+  acceptClauseDrafts(libraryId: string, templateIds: string[], reviewer: string, comment?: string): ClauseTemplate[] {
+    const drafts = this.findDrafts(libraryId, templateIds);
+    const library = this.libraries.get(libraryId)!;
+    const reviews = drafts.map(template => ({
+      template,
+      version: template.alternativeVersions.find(v => v.approvalStatus === 'DRAFT' || v.approvalStatus === 'PENDING')
+    }));
+
+    const authored = reviews.find(({ template, version }) => (version?.author ?? template.author) === reviewer);
+    if (library.settings.requireApproval && authored) {
+      throw new Error(`${authored.template.title} cannot be accepted by its author`);
+    }
+
+    reviews.forEach(({ template, version }) => {
+      // Libraries without version control have no draft version to approve
+      if (!version) {
+        template.status = 'APPROVED';
+        template.lastModified = new Date();
+        return;
+      }
+      if (version.approvalStatus === 'DRAFT') {
+        this.submitClauseVersion(template.id, version.id, version.author, reviewer, comment);
+      } else if (version.approver !== reviewer) {
+        this.assignClauseVersionApprover(template.id, version.id, reviewer);
+      }
+      if (version.approvalStatus === 'PENDING') {
+        this.approveClauseVersion(template.id, version.id, reviewer, comment);
+      }
+    });
+
+    return drafts;
+  }
+
+  /**
+   * Remove staged draft templates, e.g. harvested clauses a reviewer doesn't want to keep
+   */
+  discardClauseDrafts(libraryId: string, templateIds: string[]): ClauseTemplate[] {
+    const drafts = this.findDrafts(libraryId, templateIds);
+    const library = this.libraries.get(libraryId)!;
+
+    library.clauses = library.clauses.filter(clause => !drafts.includes(clause));
+    library.totalClauses = library.clauses.length;
+    library.lastUpdated = new Date();
+    drafts.forEach(template => this.similarity.remove(template.id));
+
+    return drafts;
+  }
+
+  /**
+   * Search clauses with filters, most relevant first
    */
   searchClauses(
     libraryId: string,
     query: string,
     filters: ClauseSearchFilters = {}
   ): ClauseTemplate[] {
+    return this.searchClauseMatches(libraryId, query, filters).map(match => match.template);
+  }
+
+  /**
+   * Search clauses with filters. Clauses containing every search term come first, then clauses
+   * the similarity backend rates as related, e.g. "hold harmless" for "reimburse losses". Each
+   * match highlights the sentences that matched.
+   */
+  searchClauseMatches(
+    libraryId: string,
+    query: string,
+    filters: ClauseSearchFilters = {}
+  ): ClauseTemplateMatch[] {
     const library = this.libraries.get(libraryId);
     if (!library) {
       return [];
     }
 
-    let results = library.clauses;
+    const results = this.applyFilters(library.clauses, filters);
+    const byUsage = (a: ClauseTemplate, b: ClauseTemplate) =>
+      b.usageCount - a.usageCount || b.lastModified.getTime() - a.lastModified.getTime();
 
-    // Text search
-    if (query) {
-      const searchTerms = query.toLowerCase().split(' ');
-      results = results.filter(clause =>
-        searchTerms.every(term =>
-          clause.title.toLowerCase().includes(term) ||
-          clause.description.toLowerCase().includes(term) ||
-          clause.content.toLowerCase().includes(term) ||
-          clause.tags.some(tag => tag.toLowerCase().includes(term))
-        )
-      );
+    if (!query.trim()) {
+      return [...results]
+        .sort(byUsage)
+        .map(template => ({ template, similarity: 0, matchingSections: [], suggestedReplacements: [] }));
     }
 
-    // Apply filters
-    if (filters.categories && filters.categories.length > 0) {
-      results = results.filter(clause => filters.categories!.includes(clause.category));
-    }
+    const searchTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const containsTerms = (clause: ClauseTemplate) => searchTerms.every(term =>
+      clause.title.toLowerCase().includes(term) ||
+      clause.description.toLowerCase().includes(term) ||
+      clause.content.toLowerCase().includes(term) ||
+      clause.tags.some(tag => tag.toLowerCase().includes(term))
+    );
+    const scores = this.similarity.score(query, results.map(clause => clause.id));
+
+    return results
+      .map(template => ({ template, similarity: scores.get(template.id) ?? 0, exact: containsTerms(template) }))
+      .filter(result => result.exact || result.similarity >= MIN_SEARCH_SIMILARITY)
+      .sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity || byUsage(a.template, b.template))
+      .map(({ template, similarity }) => ({
+        template,
+        similarity,
+        matchingSections: findMatchingSections(query, template.content),
+        suggestedReplacements: []
+      }));
+  }
 
-    if (filters.status && filters.status.length > 0) {
-      results = results.filter(clause => filters.status!.includes(clause.status));
-    }
+  /**
+   * Finish any asynchronous indexing the similarity backend needs before searching for or
+   * suggesting clauses similar to `query`, e.g. embedding it with a local model
+   */
+  async prepareSearch(query: string): Promise<void> {
+    await this.similarity.prepare?.(query);
+  }
 
-    if (filters.riskLevel && filters.riskLevel.length > 0) {
-      results = results.filter(clause => filters.riskLevel!.includes(clause.riskLevel));
+  /**
+   * Link a clause template to a compliance rule it satisfies, so it is offered as a fix for the rule's violations
+   */
+  linkTemplateToRule(templateId: string, ruleId: string): void {
+    const template = this.findTemplate(templateId);
+    if (!template) {
+      throw new Error('Clause template not found');
     }
 
-    if (filters.complianceFrameworks && filters.complianceFrameworks.length > 0) {
-      results = results.filter(clause =>
-        filters.complianceFrameworks!.some(framework =>
-          clause.complianceFrameworks.includes(framework)
-        )
+    template.complianceRuleIds = [...new Set([...(template.complianceRuleIds ?? []), ruleId])];
+    template.lastModified = new Date();
+  }
+
+  /**
+   * Approved templates that satisfy a compliance rule and apply in the contract's jurisdictions.
+   * The most specific jurisdiction comes first (a Quebec variant before a Canada-wide one), then the most used.
+   */
+  getRemediationTemplates(ruleId: string, jurisdictions: string[]): ClauseTemplate[] {
+    const templates = Array.from(this.libraries.values())
+      .flatMap(library => library.clauses)
+      .filter(clause =>
+        clause.status === 'APPROVED' &&
+        clause.complianceRuleIds?.includes(ruleId) &&
+        appliesToJurisdictions(clause.jurisdiction, jurisdictions)
       );
+
+    return templates.sort((a, b) =>
+      getJurisdictionPath(b.jurisdiction).length - getJurisdictionPath(a.jurisdiction).length ||
+      b.usageCount - a.usageCount
+    );
+  }
+
+  /**
+   * Versions of a clause template, oldest first
+   */
+  getClauseVersions(templateId: string): ClauseVersion[] {
+    return this.findTemplateWithLibrary(templateId).template.alternativeVersions;
+  }
+
+  /**
+   * Versions in review, optionally only those assigned to one approver
+   */
+  getPendingClauseVersions(approver?: string): { template: ClauseTemplate; version: ClauseVersion }[] {
+    return Array.from(this.libraries.values())
+      .flatMap(library => library.clauses)
+      .flatMap(template => template.alternativeVersions
+        .filter(version => version.approvalStatus === 'PENDING' && (!approver || version.approver === approver))
+        .map(version => ({ template, version })));
+  }
+
+  /**
+   * Start a draft of a new version. The template keeps its current content until the draft is approved.
+   */
+  createClauseVersion(templateId: string, content: string, author: string, changes: string): ClauseVersion {
+    const { library, template } = this.findTemplateWithLibrary(templateId);
+    if (!library.settings.versionControl) {
+      throw new Error('Version control is disabled for this library');
     }
 
-    if (filters.jurisdiction) {
-      results = results.filter(clause => clause.jurisdiction === filters.jurisdiction);
+    const version = this.newVersion(template, content, author, changes);
+    template.alternativeVersions.push(version);
+    return version;
+  }
+
+  /**
+   * Edit a draft, or a rejected version to turn it back into a draft
+   */
+  updateClauseVersion(templateId: string, versionId: string, content: string, changes: string): ClauseVersion {
+    const { version } = this.findVersion(templateId, versionId);
+    if (version.approvalStatus !== 'DRAFT' && version.approvalStatus !== 'REJECTED') {
+      throw new Error(`Version ${version.version} is ${version.approvalStatus.toLowerCase()} and can no longer be edited`);
     }
 
-    if (filters.language) {
-      results = results.filter(clause => clause.language === filters.language);
+    Object.assign(version, {
+      content,
+      changes,
+      approvalStatus: 'DRAFT',
+      approver: undefined,
+      submittedAt: undefined,
+      rejectedBy: undefined,
+      rejectedAt: undefined
+    });
+    return version;
+  }
+
+  /**
+   * Submit a draft for review by an approver other than its author. In libraries that don't
+   * require approval the draft is approved straight away and no approver is needed.
+   */
+  submitClauseVersion(
+    templateId: string,
+    versionId: string,
+    submittedBy: string,
+    approver?: string,
+    comment?: string
+  ): ClauseVersion {
+    const { library, template, version } = this.findVersion(templateId, versionId);
+    if (version.approvalStatus !== 'DRAFT') {
+      throw new Error(`Version ${version.version} is not a draft`);
+    }
+    if (library.settings.requireApproval) {
+      this.checkApprover(version, approver);
     }
 
-    if (filters.author) {
-      results = results.filter(clause => clause.author === filters.author);
+    Object.assign(version, { approvalStatus: 'PENDING', approver, submittedAt: new Date() });
+    this.addVersionComment(version, submittedBy, 'SUBMIT', comment);
+
+    if (!library.settings.requireApproval) {
+      this.activateVersion(library, template, version, submittedBy);
     }
+    return version;
+  }
 
-    if (filters.tags && filters.tags.length > 0) {
-      results = results.filter(clause =>
-        filters.tags!.some(tag => clause.tags.includes(tag))
-      );
+  /**
+   * Hand a version in review to a different approver
+   */
+  assignClauseVersionApprover(templateId: string, versionId: string, approver: string): ClauseVersion {
+    const { version } = this.findVersion(templateId, versionId);
+    if (version.approvalStatus !== 'PENDING') {
+      throw new Error(`Version ${version.version} is not awaiting review`);
     }
+    this.checkApprover(version, approver);
 
-    if (filters.isPublic !== undefined) {
-      results = results.filter(clause => clause.isPublic === filters.isPublic);
+    version.approver = approver;
+    return version;
+  }
+
+  /**
+   * Approve a version in review. It becomes the template's content and the version suggestions use.
+   */
+  approveClauseVersion(templateId: string, versionId: string, approver: string, comment?: string): ClauseVersion {
+    const { library, template, version } = this.findVersion(templateId, versionId);
+    this.checkReviewer(version, approver);
+
+    this.addVersionComment(version, approver, 'APPROVE', comment);
+    this.activateVersion(library, template, version, approver);
+    return version;
+  }
+
+  /**
+   * Reject a version in review. The author can edit it and submit it again.
+   */
+  rejectClauseVersion(templateId: string, versionId: string, approver: string, comment: string): ClauseVersion {
+    const { version } = this.findVersion(templateId, versionId);
+    this.checkReviewer(version, approver);
+    if (!comment.trim()) {
+      throw new Error('Explain why the version is rejected');
     }
 
-    if (filters.firmId) {
-      results = results.filter(clause => clause.firmId === filters.firmId);
+    Object.assign(version, { approvalStatus: 'REJECTED', rejectedBy: approver, rejectedAt: new Date() });
+    this.addVersionComment(version, approver, 'REJECT', comment);
+    return version;
+  }
+
+  commentOnClauseVersion(templateId: string, versionId: string, author: string, comment: string): ClauseVersionComment {
+    const { version } = this.findVersion(templateId, versionId);
+    return this.addVersionComment(version, author, 'COMMENT', comment);
+  }
+
+  /**
+   * Restore a prior version's content as a new version. In libraries that require approval the
+   * restored version is a draft that goes through review like any other; otherwise content that
+   * was approved before goes live again straight away.
+   */
+  restoreClauseVersion(templateId: string, versionId: string, restoredBy: string): ClauseVersion {
+    const { library, template, version: source } = this.findVersion(templateId, versionId);
+    if (source.isActive) {
+      throw new Error(`Version ${source.version} is already the current version`);
     }
 
-    // Sort by relevance and usage
-    return results.sort((a, b) => {
-      // First by usage count (descending)
-      if (a.usageCount !== b.usageCount) {
-        return b.usageCount - a.usageCount;
-      }
-      // Then by last modified (descending)
-      return b.lastModified.getTime() - a.lastModified.getTime();
-    });
+    const restored = this.newVersion(template, source.content, restoredBy, `Restored version ${source.version}`);
+    restored.restoredFrom = source.version;
+    template.alternativeVersions.push(restored);
+    this.addVersionComment(restored, restoredBy, 'RESTORE', `Restored from version ${source.version}`);
+
+    if (!library.settings.requireApproval && source.approvalStatus === 'APPROVED') {
+      this.activateVersion(library, template, restored, restoredBy);
+    }
+    return restored;
   }
 
   /**
@@ -221,14 +627,18 @@ export class ClauseLibraryEngine {
     library: ClauseLibrary,
     request: SmartSuggestionRequest
   ): ClauseTemplateMatch[] {
-    const matches: ClauseTemplateMatch[] = [];
-    const originalWords = this.extractKeywords(originalClause);
+    const candidates: ClauseTemplate[] = [];
 
     for (const clause of library.clauses) {
       if (request.excludeTemplates?.includes(clause.id)) {
         continue;
       }
 
+      // Only approved content is suggested; a template's content is always its active approved version
+      if (clause.status !== 'APPROVED') {
+        continue;
+      }
+
       // Check category match
       if (clause.category !== request.category) {
         continue;
@@ -243,23 +653,21 @@ export class ClauseLibraryEngine {
         continue;
       }
 
-      // Calculate similarity
-      const similarity = this.calculateSimilarity(originalClause, clause.content);
-      
-      if (similarity > 0.3) { // Minimum similarity threshold
-        const matchingSections = this.findMatchingSections(originalClause, clause.content);
-        const suggestedReplacements = this.generateReplacements(originalClause, clause.content);
-
-        matches.push({
-          template: clause,
-          similarity,
-          matchingSections,
-          suggestedReplacements
-        });
-      }
+      candidates.push(clause);
     }
 
-    return matches.sort((a, b) => b.similarity - a.similarity);
+    const scores = this.similarity.score(originalClause, candidates.map(clause => clause.id));
+
+    return candidates
+      .map(clause => ({ clause, similarity: scores.get(clause.id) ?? 0 }))
+      .filter(({ similarity }) => similarity > MIN_SUGGESTION_SIMILARITY)
+      .map(({ clause, similarity }) => ({
+        template: clause,
+        similarity,
+        matchingSections: findMatchingSections(originalClause, clause.content),
+        suggestedReplacements: this.generateReplacements(originalClause, clause.content)
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
   }
 
   /**
@@ -270,7 +678,7 @@ export class ClauseLibraryEngine {
     match: ClauseTemplateMatch,
     request: SmartSuggestionRequest
   ): ClauseSuggestion | null {
-    if (match.similarity < 0.5) {
+    if (match.similarity <= MIN_SUGGESTION_SIMILARITY) {
       return null;
     }
 
@@ -429,23 +837,24 @@ export class ClauseLibraryEngine {
   }
 
   /**
-   * Compare two clauses
+   * Compare two clauses word by word, with a redline of the suggested changes
    */
   compareClauses(originalClause: string, suggestedClause: string): ClauseComparison {
-    const differences = this.findDifferences(originalClause, suggestedClause);
-    const overallScore = this.calculateOverallScore(originalClause, suggestedClause, differences);
-    const improvements = this.identifyImprovements(differences);
-    const concerns = this.identifyConcerns(differences);
+    const diff = diffClauseText(originalClause, suggestedClause);
+    const overallScore = this.calculateOverallScore(diff);
+    const improvements = this.identifyImprovements(diff.differences);
+    const concerns = this.identifyConcerns(diff);
 
     return {
       id: this.generateId(),
       originalClause,
       suggestedClause,
-      differences,
+      differences: diff.differences,
       overallScore,
       improvements,
       concerns,
       recommendation: this.makeRecommendation(overallScore, improvements, concerns),
+      redline: diff.redline,
       createdAt: new Date()
     };
   }
@@ -460,7 +869,7 @@ export class ClauseLibraryEngine {
     usedBy: string,
     context: string,
     modifications?: string
-  ): void {
+  ): ClauseUsage {
     const usage: ClauseUsage = {
       id: this.generateId(),
       clauseId,
@@ -485,6 +894,8 @@ export class ClauseLibraryEngine {
         break;
       }
     }
+
+    return usage;
   }
 
   /**
@@ -520,36 +931,206 @@ export class ClauseLibraryEngine {
   }
 
   // Helper methods
-  private generateId(): string {
-    return `clause_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private applyFilters(clauses: ClauseTemplate[], filters: ClauseSearchFilters): ClauseTemplate[] {
+    let results = clauses;
+
+    if (filters.categories && filters.categories.length > 0) {
+      results = results.filter(clause => filters.categories!.includes(clause.category));
+    }
+
+    if (filters.status && filters.status.length > 0) {
+      results = results.filter(clause => filters.status!.includes(clause.status));
+    }
+
+    if (filters.riskLevel && filters.riskLevel.length > 0) {
+      results = results.filter(clause => filters.riskLevel!.includes(clause.riskLevel));
+    }
+
+    if (filters.complianceFrameworks && filters.complianceFrameworks.length > 0) {
+      results = results.filter(clause =>
+        filters.complianceFrameworks!.some(framework =>
+          clause.complianceFrameworks.includes(framework)
+        )
+      );
+    }
+
+    if (filters.jurisdiction) {
+      results = results.filter(clause => clause.jurisdiction === filters.jurisdiction);
+    }
+
+    if (filters.language) {
+      results = results.filter(clause => clause.language === filters.language);
+    }
+
+    if (filters.author) {
+      results = results.filter(clause => clause.author === filters.author);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      results = results.filter(clause =>
+        filters.tags!.some(tag => clause.tags.includes(tag))
+      );
+    }
+
+    if (filters.isPublic !== undefined) {
+      results = results.filter(clause => clause.isPublic === filters.isPublic);
+    }
+
+    if (filters.firmId) {
+      results = results.filter(clause => clause.firmId === filters.firmId);
+    }
+
+    return results;
   }
 
-  private extractKeywords(text: string): string[] {
-    return text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 3)
-      .filter(word => !this.isStopWord(word));
+  private findTemplate(templateId: string): ClauseTemplate | undefined {
+    for (const library of this.libraries.values()) {
+      const clause = library.clauses.find(c => c.id === templateId);
+      if (clause) return clause;
+    }
+    return undefined;
   }
 
-  private isStopWord(word: string): boolean {
-    const stopWords = ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
-    return stopWords.includes(word);
+  private findDrafts(libraryId: string, templateIds: string[]): ClauseTemplate[] {
+    const library = this.libraries.get(libraryId);
+    if (!library) {
+      throw new Error('Library not found');
+    }
+
+    return templateIds.map(templateId => {
+      const template = library.clauses.find(clause => clause.id === templateId);
+      if (!template) {
+        throw new Error('Clause template not found');
+      }
+      if (template.status !== 'DRAFT') {
+        throw new Error(`${template.title} is not a draft`);
+      }
+      return template;
+    });
   }
 
-  private calculateSimilarity(text1: string, text2: string): number {
-    const words1 = this.extractKeywords(text1);
-    const words2 = this.extractKeywords(text2);
-    
-    const intersection = words1.filter(word => words2.includes(word));
-    const union = [...new Set([...words1, ...words2])];
-    
-    return intersection.length / union.length;
+  // Copies into a library that requires approval are drafts, whose first version is submitted for
+  // review by whoever copied them
+  private copyUpstreamClause(library: ClauseLibrary, clause: ClauseTemplate, copiedBy?: string): ClauseTemplate {
+    const { id, createdAt, lastModified, usageCount, alternativeVersions, upstream, ...template } = clause;
+    const copy = this.addClauseTemplate(library.id, {
+      ...template,
+      status: library.settings.requireApproval ? 'DRAFT' : template.status,
+      isPublic: false,
+      firmId: library.firmId,
+      alternativeVersions: [],
+      upstream: { templateId: clause.id, syncedContent: clause.content }
+    });
+
+    if (copy.status === 'DRAFT' && copiedBy) {
+      copy.alternativeVersions.forEach(version => {
+        version.author = copiedBy;
+      });
+    }
+    return copy;
   }
 
-  private findMatchingSections(original: string, template: string): any[] {
-    // Simplified implementation - would use more sophisticated text matching
-    return [];
+  private findTemplateWithLibrary(templateId: string): { library: ClauseLibrary; template: ClauseTemplate } {
+    for (const library of this.libraries.values()) {
+      const template = library.clauses.find(c => c.id === templateId);
+      if (template) return { library, template };
+    }
+    throw new Error('Clause template not found');
+  }
+
+  private findVersion(
+    templateId: string,
+    versionId: string
+  ): { library: ClauseLibrary; template: ClauseTemplate; version: ClauseVersion } {
+    const { library, template } = this.findTemplateWithLibrary(templateId);
+    const version = template.alternativeVersions.find(v => v.id === versionId);
+    if (!version) {
+      throw new Error('Clause version not found');
+    }
+    return { library, template, version };
+  }
+
+  private createInitialVersion(template: ClauseTemplate): ClauseVersion {
+    const version = this.newVersion(template, template.content, template.author, 'Initial version');
+    // Content added as anything but a draft is taken as approved by its author
+    if (template.status !== 'DRAFT') {
+      Object.assign(version, {
+        isActive: true,
+        approvalStatus: 'APPROVED',
+        approvedBy: template.author,
+        approvedAt: template.createdAt
+      });
+    }
+    return version;
+  }
+
+  private newVersion(template: ClauseTemplate, content: string, author: string, changes: string): ClauseVersion {
+    const latest = template.alternativeVersions[template.alternativeVersions.length - 1];
+    const match = latest?.version.match(/^(\d+)\.(\d+)$/);
+
+    return {
+      id: this.generateId(),
+      version: !latest ? '1.0' : match ? `${match[1]}.${Number(match[2]) + 1}` : `${template.alternativeVersions.length + 1}.0`,
+      content,
+      changes,
+      author,
+      createdAt: new Date(),
+      isActive: false,
+      approvalStatus: 'DRAFT',
+      comments: []
+    };
+  }
+
+  private checkApprover(version: ClauseVersion, approver: string | undefined): void {
+    if (!approver) {
+      throw new Error('Assign an approver to review the version');
+    }
+    if (approver === version.author) {
+      throw new Error('A version cannot be approved by its author');
+    }
+  }
+
+  private checkReviewer(version: ClauseVersion, approver: string): void {
+    if (version.approvalStatus !== 'PENDING') {
+      throw new Error(`Version ${version.version} is not awaiting review`);
+    }
+    if (version.approver !== approver) {
+      throw new Error(`Version ${version.version} is assigned to ${version.approver} for review`);
+    }
+  }
+
+  private addVersionComment(
+    version: ClauseVersion,
+    author: string,
+    action: ClauseVersionAction,
+    comment: string = ''
+  ): ClauseVersionComment {
+    const entry: ClauseVersionComment = { id: this.generateId(), author, action, comment, createdAt: new Date() };
+    version.comments.push(entry);
+    return entry;
+  }
+
+  // Make an approved version the template's content, replacing the active one
+  private activateVersion(library: ClauseLibrary, template: ClauseTemplate, version: ClauseVersion, approvedBy: string): void {
+    const now = new Date();
+    template.alternativeVersions.forEach(other => {
+      other.isActive = other === version;
+    });
+    Object.assign(version, { approvalStatus: 'APPROVED', approvedBy, approvedAt: now });
+
+    template.content = version.content;
+    template.metadata = { ...template.metadata, wordCount: version.content.split(/\s+/).filter(Boolean).length };
+    if (template.status === 'DRAFT') {
+      template.status = 'APPROVED';
+    }
+    template.lastModified = now;
+    library.lastUpdated = now;
+    this.similarity.add(template.id, template.content);
+  }
+
+  private generateId(): string {
+    // UUIDs, so libraries, clauses and versions keep their ids when stored in Supabase
+    return crypto.randomUUID();
   }
 
   private generateReplacements(original: string, template: string): any[] {
@@ -605,22 +1186,29 @@ export class ClauseLibraryEngine {
     return clause + '\n\nThis provision is subject to applicable law and may be limited by statute.';
   }
 
-  private findDifferences(original: string, suggested: string): ClauseDifference[] {
-    // Simplified implementation - would use proper diff algorithm
-    return [];
-  }
+  // 60% for the balance of helpful and harmful changes, 40% for how much of the original is kept.
+  // Moving a sentence doesn't change its wording, so reorderings are left out of the balance.
+  private calculateOverallScore(diff: ClauseTextDiff): number {
+    const changes = diff.differences.filter(d => d.type !== 'REORDERING');
+    if (changes.length === 0) return 1;
 
-  private calculateOverallScore(original: string, suggested: string, differences: ClauseDifference[]): number {
-    // Simplified scoring - would use more sophisticated analysis
-    return 0.8;
+    const positive = changes.filter(d => d.impact === 'POSITIVE').length;
+    const negative = changes.filter(d => d.impact === 'NEGATIVE').length;
+    const balance = (positive - negative) / changes.length;
+
+    return Math.round((0.6 * (0.5 + balance / 2) + 0.4 * diff.retainedRatio) * 100) / 100;
   }
 
   private identifyImprovements(differences: ClauseDifference[]): string[] {
-    return ['Improved clarity', 'Better legal protection', 'Enhanced compliance'];
+    return differences.filter(d => d.impact === 'POSITIVE').map(d => d.description);
   }
 
-  private identifyConcerns(differences: ClauseDifference[]): string[] {
-    return ['Requires legal review', 'May affect existing agreements'];
+  private identifyConcerns(diff: ClauseTextDiff): string[] {
+    const concerns = diff.differences.filter(d => d.impact === 'NEGATIVE').map(d => d.description);
+    if (diff.retainedRatio < 0.5) {
+      concerns.push('Rewrites most of the clause; review it in full');
+    }
+    return concerns;
   }
 
   private makeRecommendation(score: number, improvements: string[], concerns: string[]): 'ACCEPT' | 'REJECT' | 'MODIFY' {
@@ -699,7 +1287,7 @@ export class ClauseLibraryEngine {
       }
     ];
 
-    sampleClauses.forEach(clause => {
+    [...sampleClauses, ...COMPLIANCE_CLAUSE_TEMPLATES].forEach(clause => {
       this.addClauseTemplate(libraryId, clause);
     });
   }
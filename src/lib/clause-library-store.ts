@@ -0,0 +1,404 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  ClauseLibrary,
+  ClauseLibrarySyncResult,
+  ClauseTemplate,
+  ClauseUsage,
+  ClauseVersion,
+  Firm,
+  FirmMember
+} from '@/types/clause-library';
+import { ClauseLibraryEngine } from './clause-library-engine';
+import { fromStoredJson, toStoredJson } from './compliance-serialization';
+
+type ClauseLibraryRow = Tables<'clause_libraries'>;
+type ClauseTemplateRow = Tables<'clause_templates'>;
+type ClauseVersionRow = Tables<'clause_versions'>;
+type ClauseUsageRow = Tables<'clause_usage'>;
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Stores clause libraries with their clauses, versions and usage in Supabase. A library is private
+ * to a user or owned by their firm; public libraries are readable by every firm, which can fork
+ * them and later pull upstream changes. Usage stays within the firm that used the clause.
+ */
+export class ClauseLibraryStore {
+  /**
+   * Store a library created in the engine, with its clauses
+   */
+  async createLibrary(userId: string, library: ClauseLibrary, teamId?: string): Promise<void> {
+    const { error } = await supabase
+      .from('clause_libraries')
+      .insert({
+        id: library.id,
+        user_id: userId,
+        team_id: teamId ?? null,
+        ...toLibraryFields(library),
+        created_at: library.createdAt.toISOString()
+      });
+
+    if (error) throw error;
+    for (const clause of library.clauses) {
+      await this.saveClause(library.id, clause);
+    }
+  }
+
+  /**
+   * Create and store the user's own private library. The database keeps one per user, so when
+   * another session stored it first, that library is loaded instead.
+   */
+  async createPersonalLibrary(userId: string, engine: ClauseLibraryEngine): Promise<ClauseLibrary> {
+    const library = engine.createLibrary('My Clauses', 'Your private clause library', userId);
+    // A private library has no one else to review its versions
+    library.settings.requireApproval = false;
+
+    const { error } = await supabase
+      .from('clause_libraries')
+      .insert({
+        id: library.id,
+        user_id: userId,
+        is_personal: true,
+        ...toLibraryFields(library),
+        created_at: library.createdAt.toISOString()
+      });
+
+    if (!error) return library;
+    engine.removeLibrary(library.id);
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    const { data: personalRows, error: personalError } = await supabase
+      .from('clause_libraries')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_personal', true);
+
+    if (personalError) throw personalError;
+    const { libraries, usage } = await this.loadLibraries(personalRows || []);
+    if (libraries.length === 0) {
+      throw new Error('Personal library not found');
+    }
+    engine.restoreLibrary(libraries[0], usage);
+    return libraries[0];
+  }
+
+  /**
+   * Save changes to a library's details and all of its clauses
+   */
+  async saveLibrary(library: ClauseLibrary): Promise<void> {
+    const { error } = await supabase
+      .from('clause_libraries')
+      .update(toLibraryFields(library))
+      .eq('id', library.id);
+
+    if (error) throw error;
+    for (const clause of library.clauses) {
+      await this.saveClause(library.id, clause);
+    }
+  }
+
+  /**
+   * Save a clause and its versions, e.g. after adding it or after a version was drafted, reviewed or restored
+   */
+  async saveClause(libraryId: string, clause: ClauseTemplate): Promise<void> {
+    const { alternativeVersions, upstream, usageCount, ...template } = clause;
+
+    const { error } = await supabase
+      .from('clause_templates')
+      .upsert({
+        id: clause.id,
+        library_id: libraryId,
+        template: toStoredJson(template),
+        upstream_template_id: upstream?.templateId ?? null,
+        upstream_content: upstream?.syncedContent ?? null,
+        created_at: clause.createdAt.toISOString()
+      });
+
+    if (error) throw error;
+    if (alternativeVersions.length === 0) return;
+
+    const { error: versionsError } = await supabase
+      .from('clause_versions')
+      .upsert(alternativeVersions.map(version => ({
+        id: version.id,
+        template_id: clause.id,
+        library_id: libraryId,
+        version: toStoredJson(version),
+        created_at: version.createdAt.toISOString()
+      })));
+
+    if (versionsError) throw versionsError;
+  }
+
+  /**
+   * Save a version the engine just approved or rejected, with its clause, or a draft clause accepted
+   * without a version in a library without version control. In libraries that require approval the
+   * database checks the review was made by someone other than the author, and only a review can
+   * make a clause or version live, so it is stored through review_clause_version or accept_clause_draft.
+   */
+  async saveReview(library: ClauseLibrary, clause: ClauseTemplate, version?: ClauseVersion): Promise<void> {
+    if (!library.settings.requireApproval) {
+      return this.saveClause(library.id, clause);
+    }
+
+    const { alternativeVersions, upstream, usageCount, ...template } = clause;
+    const { error } = version
+      ? await supabase.rpc('review_clause_version', {
+        _version: toStoredJson(version),
+        _template: toStoredJson(template)
+      })
+      : await supabase.rpc('accept_clause_draft', { _template: toStoredJson(template) });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Delete clauses with their versions and usage, e.g. discarded harvested drafts
+   */
+  async deleteClauses(templateIds: string[]): Promise<void> {
+    if (templateIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('clause_templates')
+      .delete()
+      .in('id', templateIds);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record a use of a clause, visible to the user and their firm
+   */
+  async recordUsage(userId: string, usage: ClauseUsage, teamId?: string): Promise<void> {
+    const { error } = await supabase
+      .from('clause_usage')
+      .insert({
+        id: usage.id,
+        template_id: usage.clauseId,
+        user_id: userId,
+        team_id: teamId ?? null,
+        usage: toStoredJson(usage),
+        used_at: usage.usedAt.toISOString()
+      });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Firms (teams) the user belongs to, which can own their libraries
+   */
+  async listFirms(userId: string): Promise<Firm[]> {
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('teams (id, name)')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || [])
+      .flatMap(row => row.teams ? [{ id: row.teams.id, name: row.teams.name }] : [])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Members of a firm (team), who can review the clause versions of its libraries. A private
+   * library's firm is its owner, who has no one to review their versions.
+   */
+  async listFirmMembers(firmId: string): Promise<FirmMember[]> {
+    const { data: memberRows, error } = await supabase
+      .from('team_members')
+      .select('user_id')
+      .eq('team_id', firmId);
+
+    if (error) throw error;
+    const userIds = (memberRows || []).map(row => row.user_id);
+    if (userIds.length === 0) return [];
+
+    const { data: profileRows, error: profilesError } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', userIds);
+
+    if (profilesError) throw profilesError;
+    return userIds
+      .map(userId => ({
+        userId,
+        name: profileRows?.find(profile => profile.user_id === userId)?.full_name || 'Unknown User'
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Libraries the user can see: their private libraries, their firms' libraries and public libraries.
+   * Clause usage counts only the usage the user can see.
+   */
+  async list(): Promise<{ libraries: ClauseLibrary[]; usage: ClauseUsage[] }> {
+    const { data: libraryRows, error } = await supabase
+      .from('clause_libraries')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return this.loadLibraries(libraryRows || []);
+  }
+
+  /**
+   * Load every library the user can see into an engine. Safe to call again to pick up changes.
+   */
+  async loadInto(engine: ClauseLibraryEngine): Promise<ClauseLibrary[]> {
+    const { libraries, usage } = await this.list();
+    libraries.forEach(library => {
+      const clauseIds = new Set(library.clauses.map(clause => clause.id));
+      engine.restoreLibrary(library, usage.filter(entry => clauseIds.has(entry.clauseId)));
+    });
+    return libraries;
+  }
+
+  /**
+   * Fork a stored library into a new library for the user or their firm, and store the fork
+   */
+  async forkLibrary(
+    userId: string,
+    engine: ClauseLibraryEngine,
+    sourceLibraryId: string,
+    teamId?: string,
+    name?: string
+  ): Promise<ClauseLibrary> {
+    const fork = engine.forkLibrary(sourceLibraryId, teamId ?? userId, name, userId);
+    await this.createLibrary(userId, fork, teamId);
+    return fork;
+  }
+
+  /**
+   * Reload a fork's upstream library, pull its changes into the fork and store what changed
+   */
+  async pullUpstream(engine: ClauseLibraryEngine, libraryId: string, pulledBy: string): Promise<ClauseLibrarySyncResult> {
+    const library = engine.getLibrary(libraryId);
+    if (!library?.upstream) {
+      throw new Error('Library is not a fork');
+    }
+
+    const { data: upstreamRows, error } = await supabase
+      .from('clause_libraries')
+      .select('*')
+      .eq('id', library.upstream.libraryId);
+
+    if (error) throw error;
+    if (!upstreamRows || upstreamRows.length === 0) {
+      throw new Error('Upstream library not found');
+    }
+    const { libraries } = await this.loadLibraries(upstreamRows);
+    engine.restoreLibrary(libraries[0]);
+
+    const result = engine.pullUpstream(libraryId, pulledBy);
+    const changed = new Set([
+      ...result.added,
+      ...result.updated,
+      ...result.drafted.map(({ template }) => template)
+    ]);
+
+    const { error: updateError } = await supabase
+      .from('clause_libraries')
+      .update(toLibraryFields(library))
+      .eq('id', libraryId);
+
+    if (updateError) throw updateError;
+    for (const clause of changed) {
+      await this.saveClause(libraryId, clause);
+    }
+    return result;
+  }
+
+  private async loadLibraries(libraryRows: ClauseLibraryRow[]): Promise<{ libraries: ClauseLibrary[]; usage: ClauseUsage[] }> {
+    if (libraryRows.length === 0) {
+      return { libraries: [], usage: [] };
+    }
+    const libraryIds = libraryRows.map(row => row.id);
+
+    const { data: templateRows, error: templatesError } = await supabase
+      .from('clause_templates')
+      .select('*')
+      .in('library_id', libraryIds)
+      .order('created_at', { ascending: true });
+
+    if (templatesError) throw templatesError;
+
+    const { data: versionRows, error: versionsError } = await supabase
+      .from('clause_versions')
+      .select('*')
+      .in('library_id', libraryIds)
+      .order('created_at', { ascending: true });
+
+    if (versionsError) throw versionsError;
+
+    const templateIds = (templateRows || []).map(row => row.id);
+    const { data: usageRows, error: usageError } = templateIds.length === 0 ? { data: [], error: null } : await supabase
+      .from('clause_usage')
+      .select('*')
+      .in('template_id', templateIds)
+      .order('used_at', { ascending: true });
+
+    if (usageError) throw usageError;
+
+    const usage = (usageRows || []).map(toUsage);
+    const libraries = libraryRows.map(row => toLibrary(
+      row,
+      (templateRows || [])
+        .filter(template => template.library_id === row.id)
+        .map(template => toTemplate(
+          template,
+          (versionRows || []).filter(version => version.template_id === template.id),
+          usage.filter(entry => entry.clauseId === template.id).length
+        ))
+    ));
+
+    return { libraries, usage };
+  }
+}
+
+// Library columns the engine can change
+function toLibraryFields(library: ClauseLibrary) {
+  return {
+    name: library.name,
+    description: library.description,
+    is_public: library.isPublic,
+    settings: toStoredJson(library.settings),
+    upstream_library_id: library.upstream?.libraryId ?? null,
+    upstream_synced_at: library.upstream?.syncedAt.toISOString() ?? null
+  };
+}
+
+function toLibrary(row: ClauseLibraryRow, clauses: ClauseTemplate[]): ClauseLibrary {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    firmId: row.team_id ?? row.user_id,
+    isPublic: row.is_public,
+    categories: [...new Set(clauses.map(clause => clause.category))],
+    clauses,
+    totalClauses: clauses.length,
+    lastUpdated: new Date(row.updated_at),
+    createdAt: new Date(row.created_at),
+    settings: fromStoredJson<ClauseLibrary['settings']>(row.settings),
+    upstream: row.upstream_library_id
+      ? { libraryId: row.upstream_library_id, syncedAt: new Date(row.upstream_synced_at ?? row.created_at) }
+      : undefined
+  };
+}
+
+function toTemplate(row: ClauseTemplateRow, versionRows: ClauseVersionRow[], usageCount: number): ClauseTemplate {
+  return {
+    ...fromStoredJson<Omit<ClauseTemplate, 'alternativeVersions' | 'upstream' | 'usageCount'>>(row.template),
+    id: row.id,
+    alternativeVersions: versionRows.map(version => fromStoredJson<ClauseVersion>(version.version)),
+    upstream: row.upstream_template_id
+      ? { templateId: row.upstream_template_id, syncedContent: row.upstream_content ?? '' }
+      : undefined,
+    usageCount
+  };
+}
+
+function toUsage(row: ClauseUsageRow): ClauseUsage {
+  return fromStoredJson<ClauseUsage>(row.usage);
+}
@@ -0,0 +1,298 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+// BM25 term-frequency saturation and document-length normalization
+const K1 = 1.2;
+const B = 0.75;
+const MAX_CACHED_QUERIES = 100;
+// Quantized MiniLM sentence embeddings, small enough to download and run in the browser
+const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+// A shared legal concept says more about two clauses than a shared word, so concept terms weigh more
+const CONCEPT_WEIGHT = 2;
+// A sentence is a matching section when it shares this many terms with the query (or all of a shorter query's)
+const MIN_SECTION_TERMS = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'has', 'have',
+  'herein', 'hereby', 'hereof', 'hereto', 'hereunder', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on',
+  'or', 'other', 'shall', 'such', 'that', 'the', 'their', 'then', 'there', 'thereof', 'these', 'this',
+  'those', 'to', 'under', 'upon', 'was', 'were', 'which', 'will', 'with', 'within'
+]);
+
+// Phrasings of the same legal concept; a text using any of them also gets the concept as a term,
+// so "indemnify and hold harmless" matches "defend and reimburse"
+const LEGAL_CONCEPTS: Record<string, string[]> = {
+  indemnity: ['indemnify', 'indemnification', 'indemnity', 'hold harmless', 'defend', 'reimburse', 'make whole', 'compensate'],
+  liability: ['liability', 'liable', 'damages', 'losses', 'loss', 'claims'],
+  limitation: ['limitation', 'limit', 'cap', 'exceed', 'in no event', 'aggregate'],
+  confidentiality: ['confidential', 'confidentiality', 'non-disclosure', 'proprietary', 'trade secret', 'disclose'],
+  termination: ['terminate', 'termination', 'cancel', 'cancellation', 'expire', 'expiry', 'end this agreement'],
+  personal_data: ['personal data', 'personal information', 'data subject', 'pii', 'protected health information'],
+  breach_notice: ['breach notification', 'notify', 'notification', 'security incident', 'unauthorized access'],
+  payment: ['payment', 'pay', 'fees', 'invoice', 'remit', 'compensation'],
+  governing_law: ['governing law', 'governed by', 'jurisdiction', 'venue', 'courts of'],
+  dispute: ['dispute', 'arbitration', 'mediation', 'litigation'],
+  intellectual_property: ['intellectual property', 'copyright', 'patent', 'trademark', 'license', 'ownership'],
+  force_majeure: ['force majeure', 'act of god', 'beyond its reasonable control'],
+  warranty: ['warrant', 'warranty', 'represent', 'representation', 'guarantee']
+};
+
+/**
+ * Scores how similar indexed clauses are to a query text. The clause library adds each template
+ * as it is created, so implementations can index incrementally.
+ */
+export interface ClauseSimilarityBackend {
+  add(id: string, text: string): void; // replaces the text of an id already indexed
+  remove(id: string): void;
+  score(query: string, ids: string[]): Map<string, number>; // 0 (unrelated) to 1 (same text)
+  prepare?(query: string): Promise<void>; // finish any asynchronous work `score` needs for this query
+}
+
+/**
+ * Runs a sentence-embedding model locally, e.g. a quantized MiniLM in the browser
+ */
+export interface EmbeddingModel {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeds texts with transformers.js. The library and the model are loaded on the first call, so
+ * creating the model costs nothing until a search needs it.
+ */
+export class TransformersEmbeddingModel implements EmbeddingModel {
+  private modelId: string;
+  private extractor?: Promise<FeatureExtractionPipeline>;
+
+  constructor(modelId: string = DEFAULT_EMBEDDING_MODEL) {
+    this.modelId = modelId;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    this.extractor ??= import('@huggingface/transformers').then(({ pipeline }) =>
+      pipeline('feature-extraction', this.modelId, { dtype: 'q8' })
+    );
+    const output = await (await this.extractor)(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
+
+/**
+ * Lexical similarity out of the box: texts are stemmed and expanded with legal concepts, weighted
+ * by BM25 and compared by cosine similarity. Adding or removing a text only updates its own
+ * postings and the document frequencies.
+ */
+export class Bm25SimilarityBackend implements ClauseSimilarityBackend {
+  private documents: Map<string, Map<string, number>> = new Map(); // term frequencies by id
+  private documentLengths: Map<string, number> = new Map();
+  private documentFrequencies: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = analyzeText(text);
+    const frequencies = countTerms(terms);
+    this.documents.set(id, frequencies);
+    this.documentLengths.set(id, terms.length);
+    this.totalLength += terms.length;
+    frequencies.forEach((_, term) => this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1));
+  }
+
+  remove(id: string): void {
+    const frequencies = this.documents.get(id);
+    if (!frequencies) return;
+
+    frequencies.forEach((_, term) => {
+      const remaining = this.documentFrequencies.get(term)! - 1;
+      if (remaining === 0) {
+        this.documentFrequencies.delete(term);
+      } else {
+        this.documentFrequencies.set(term, remaining);
+      }
+    });
+    this.totalLength -= this.documentLengths.get(id)!;
+    this.documents.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  score(query: string, ids: string[]): Map<string, number> {
+    const queryTerms = analyzeText(query);
+    const queryVector = this.weigh(countTerms(queryTerms), queryTerms.length);
+    const scores = new Map<string, number>();
+
+    for (const id of ids) {
+      const frequencies = this.documents.get(id);
+      if (!frequencies) continue;
+      scores.set(id, cosine(queryVector, this.weigh(frequencies, this.documentLengths.get(id)!)));
+    }
+
+    return scores;
+  }
+
+  private weigh(frequencies: Map<string, number>, length: number): Map<string, number> {
+    const documents = Math.max(1, this.documents.size);
+    const averageLength = this.documents.size === 0 ? length : this.totalLength / this.documents.size;
+    const lengthNorm = averageLength === 0 ? 1 : 1 - B + B * (length / averageLength);
+    const weights = new Map<string, number>();
+
+    frequencies.forEach((frequency, term) => {
+      const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (documents - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const weight = idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+      weights.set(term, term.startsWith(CONCEPT_PREFIX) ? weight * CONCEPT_WEIGHT : weight);
+    });
+
+    return weights;
+  }
+}
+
+/**
+ * Semantic similarity from a local embedding model. Embedding is asynchronous, so `score` uses the
+ * fallback backend until `prepare` has embedded the query and every clause being compared.
+ */
+export class EmbeddingSimilarityBackend implements ClauseSimilarityBackend {
+  private model: EmbeddingModel;
+  private fallback: ClauseSimilarityBackend;
+  private texts: Map<string, string> = new Map();
+  private vectors: Map<string, number[]> = new Map();
+  private queryVectors: Map<string, number[]> = new Map();
+
+  constructor(model: EmbeddingModel, fallback: ClauseSimilarityBackend = new Bm25SimilarityBackend()) {
+    this.model = model;
+    this.fallback = fallback;
+  }
+
+  add(id: string, text: string): void {
+    this.texts.set(id, text);
+    this.vectors.delete(id);
+    this.fallback.add(id, text);
+  }
+
+  remove(id: string): void {
+    this.texts.delete(id);
+    this.vectors.delete(id);
+    this.fallback.remove(id);
+  }
+
+  async prepare(query: string): Promise<void> {
+    const pending = Array.from(this.texts.entries()).filter(([id]) => !this.vectors.has(id));
+    const needsQuery = !this.queryVectors.has(query);
+    if (pending.length === 0 && !needsQuery) return;
+
+    const texts = [...(needsQuery ? [query] : []), ...pending.map(([, text]) => text)];
+    const embeddings = await this.model.embed(texts);
+
+    if (needsQuery) {
+      this.queryVectors.set(query, embeddings.shift()!);
+      // Oldest queries are dropped first
+      if (this.queryVectors.size > MAX_CACHED_QUERIES) {
+        this.queryVectors.delete(this.queryVectors.keys().next().value!);
+      }
+    }
+    pending.forEach(([id, text], index) => {
+      // Skip texts replaced while the model was running
+      if (this.texts.get(id) === text) this.vectors.set(id, embeddings[index]);
+    });
+  }
+
+  score(query: string, ids: string[]): Map<string, number> {
+    const queryVector = this.queryVectors.get(query);
+    const indexed = ids.filter(id => this.texts.has(id));
+    if (!queryVector || indexed.some(id => !this.vectors.has(id))) {
+      return this.fallback.score(query, ids);
+    }
+
+    return new Map(indexed.map(id => [id, Math.max(0, cosineOfArrays(queryVector, this.vectors.get(id)!))]));
+  }
+}
+
+/**
+ * Sentences of `text` that share terms with the query, as offsets into `text`, for highlighting
+ */
+export function findMatchingSections(query: string, text: string): { start: number; end: number; content: string }[] {
+  const queryTerms = new Set(analyzeText(query));
+  const required = Math.min(MIN_SECTION_TERMS, queryTerms.size);
+  if (required === 0) return [];
+
+  return Array.from(text.matchAll(/[^.!?\n]+[.!?]*/g))
+    .map(match => {
+      const content = match[0].trim();
+      const start = match.index! + match[0].indexOf(content);
+      return { start, end: start + content.length, content };
+    })
+    .filter(section => section.content.length > 0)
+    .filter(section => new Set(analyzeText(section.content).filter(term => queryTerms.has(term))).size >= required);
+}
+
+/**
+ * Stemmed content words of a text, followed by the legal concepts it mentions
+ */
+export function analyzeText(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? [];
+  const stems = words.map(stem);
+  const concepts = Object.entries(CONCEPT_PHRASES)
+    .filter(([, phrases]) => phrases.some(phrase => containsSequence(stems, phrase)))
+    .map(([concept]) => `${CONCEPT_PREFIX}${concept}`);
+
+  return [...words.filter(word => !STOP_WORDS.has(word)).map(stem), ...concepts];
+}
+
+const CONCEPT_PREFIX = '~';
+
+const CONCEPT_PHRASES: Record<string, string[][]> = Object.fromEntries(
+  Object.entries(LEGAL_CONCEPTS).map(([concept, phrases]) => [
+    concept,
+    phrases.map(phrase => phrase.split(/\s+/).map(stem))
+  ])
+);
+
+// Strips common English inflections so "reimburses", "reimbursed" and "reimbursing" share a stem
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies') || word.endsWith('ied')) return `${word.slice(0, -3)}y`;
+  for (const suffix of ['ments', 'ment', 'ings', 'ing', 'ed', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function containsSequence(words: string[], sequence: string[]): boolean {
+  for (let i = 0; i + sequence.length <= words.length; i++) {
+    if (sequence.every((word, offset) => words[i + offset] === word)) return true;
+  }
+  return false;
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => { dot += weight * (b.get(term) ?? 0); });
+  const norm = Math.sqrt(squaredNorm(a) * squaredNorm(b));
+  return norm === 0 ? 0 : dot / norm;
+}
+
+function squaredNorm(vector: Map<string, number>): number {
+  let total = 0;
+  vector.forEach(weight => { total += weight * weight; });
+  return total;
+}
+
+function cosineOfArrays(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
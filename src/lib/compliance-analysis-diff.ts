@@ -0,0 +1,116 @@
+import {
+  ComplianceAnalysisDiff,
+  ComplianceAnalysisRecord,
+  ComplianceViolation,
+  ContractComplianceAnalysis
+} from '@/types/compliance';
+
+/**
+ * Key that identifies a contract across versions, derived from its document name
+ */
+export function toContractKey(documentName: string): string {
+  return documentName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * All violations in an analysis, across frameworks
+ */
+export function getViolations(analysis: ContractComplianceAnalysis): ComplianceViolation[] {
+  return analysis.frameworks.flatMap(score => score.violations);
+}
+
+/**
+ * Match the violations of a new analysis against the previous analysis of the same contract.
+ * Violations match when they come from the same rule with the same violation type; matches on
+ * unchanged text are paired first. Neither analysis is changed: persisting violations are copies
+ * that keep the date they were first detected. `resolvedBy` is the id of the user who re-analyzed.
+ */
+export function diffAnalyses(
+  previous: ContractComplianceAnalysis,
+  current: ContractComplianceAnalysis,
+  resolvedBy?: string
+): ComplianceAnalysisDiff {
+  const unmatched = getViolations(previous);
+  const currentViolations = getViolations(current);
+  const matched = new Map<ComplianceViolation, ComplianceViolation>();
+
+  const take = (violation: ComplianceViolation, sameText: boolean) => {
+    const index = unmatched.findIndex(candidate =>
+      candidate.ruleId === violation.ruleId &&
+      candidate.violationType === violation.violationType &&
+      (!sameText || normalizeText(candidate.location?.matchedText) === normalizeText(violation.location?.matchedText))
+    );
+    if (index !== -1) matched.set(violation, unmatched.splice(index, 1)[0]);
+  };
+
+  // Exact text first, so an edited clause doesn't take the match of an unchanged one
+  currentViolations.forEach(violation => take(violation, true));
+  currentViolations.filter(violation => !matched.has(violation)).forEach(violation => take(violation, false));
+
+  const persistingViolations = currentViolations
+    .filter(violation => matched.has(violation))
+    .map(violation => {
+      const earlier = matched.get(violation)!;
+      return { ...violation, firstDetectedAt: earlier.firstDetectedAt ?? earlier.detectedAt };
+    });
+
+  return {
+    previousAnalyzedAt: previous.analyzedAt,
+    previousRiskLevel: previous.overallRiskLevel ?? undefined,
+    scoreChange: current.overallComplianceScore === null || previous.overallComplianceScore === null
+      ? null
+      : current.overallComplianceScore - previous.overallComplianceScore,
+    newViolations: currentViolations.filter(violation => !matched.has(violation)),
+    persistingViolations,
+    resolvedViolations: unmatched.map(violation => ({
+      ...violation,
+      isResolved: true,
+      resolvedAt: current.analyzedAt,
+      resolvedBy
+    }))
+  };
+}
+
+/**
+ * A copy of the new analysis in which the violations that persist from the previous analysis keep
+ * the date they were first detected
+ */
+export function carryForwardDetectionDates(
+  current: ContractComplianceAnalysis,
+  diff: ComplianceAnalysisDiff
+): ContractComplianceAnalysis {
+  const persisting = new Map(diff.persistingViolations.map(violation => [violation.id, violation]));
+  const carry = (violations: ComplianceViolation[]) => violations.map(violation => persisting.get(violation.id) ?? violation);
+
+  return {
+    ...current,
+    frameworks: current.frameworks.map(score => ({ ...score, violations: carry(score.violations) })),
+    criticalIssues: carry(current.criticalIssues),
+    mediumIssues: carry(current.mediumIssues),
+    lowIssues: carry(current.lowIssues)
+  };
+}
+
+/**
+ * Attach a diff against the previous version to each record.
+ * Records must be ordered by version within each contract.
+ */
+export function buildHistory(records: ComplianceAnalysisRecord[]): ComplianceAnalysisRecord[] {
+  const latestByContract = new Map<string, ComplianceAnalysisRecord>();
+
+  return records.map(record => {
+    const previous = latestByContract.get(record.contractKey);
+    const diff = previous && diffAnalyses(previous.analysis, record.analysis, record.analyzedBy);
+    const withDiff = {
+      ...record,
+      analysis: diff ? carryForwardDetectionDates(record.analysis, diff) : record.analysis,
+      diff
+    };
+    latestByContract.set(record.contractKey, withDiff);
+    return withDiff;
+  });
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
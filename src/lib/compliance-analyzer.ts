@@ -2,48 +2,229 @@ import {
   ComplianceRule, 
   ComplianceViolation, 
   ComplianceScore, 
+  ComplianceConfiguration,
   ContractComplianceAnalysis,
   ComplianceFramework,
-  RiskLevel
+  RiskLevel,
+  ContractClause,
+  RuleMatch,
+  ViolationLocation,
+  ImplementationQuality,
+  QualityIndicator,
+  QualityIndicatorResult,
+  RuleEvidence,
+  ThresholdFinding
 } from '@/types/compliance';
 import { ClauseCategory } from '@/types/clause-library';
-import { ALL_COMPLIANCE_RULES, RISK_LEVEL_WEIGHTS, FRAMEWORK_WEIGHTS } from './compliance-frameworks';
+import { DEFAULT_RISK_THRESHOLDS } from './compliance-frameworks';
+import { validateRiskThresholds } from './compliance-configuration';
+import { frameworkRegistry } from './compliance-framework-registry';
+import { segmentContract } from './contract-segmenter';
+import { findRuleMatches } from './compliance-matcher';
+import { evaluateCondition, describeCondition } from './compliance-rule-dsl';
+import { checkNumericConstraint, formatConstraint } from './compliance-numeric-extractor';
+import { appliesToJurisdictions, detectJurisdictions, resolveApplicableJurisdictions } from './jurisdiction-tree';
+import { getRuleVersion } from './compliance-serialization';
+import { sha256 } from './sha256';
+import { determineRiskLevel, explainFrameworkScore, explainOverallScore } from './compliance-score';
+
+// Characters either side of a rule match that are inspected for implementation quality
+const QUALITY_WINDOW_RADIUS = 250;
+
+// Hex characters of the SHA-256 kept in contract and violation IDs (64 bits)
+const ID_HASH_LENGTH = 16;
+
+// A violation before it is given its ID and detection time
+type ViolationDraft = Omit<ComplianceViolation, 'id' | 'detectedAt'>;
+
+const QUALITY_INDICATORS: {
+  indicator: QualityIndicator;
+  label: string;
+  weight: number;
+  patterns: RegExp[];
+  remedy: string;
+}[] = [
+  {
+    indicator: 'OBLIGATION',
+    label: 'Obligation verb',
+    weight: 0.4,
+    patterns: [
+      /\b(shall|must)\b/i,
+      /\b(agrees?|undertakes?|covenants?) to\b/i,
+      /\b(is|are) (required|obligated|obliged) to\b/i,
+      /\bwill (ensure|provide|notify|maintain|implement|comply)\b/i
+    ],
+    remedy: 'state the obligation with binding language ("shall", "must")'
+  },
+  {
+    indicator: 'RESPONSIBLE_PARTY',
+    label: 'Named responsible party',
+    weight: 0.3,
+    patterns: [
+      /\b(processor|controller|sub-?processor|vendor|supplier|service provider|provider|customer|client|company|contractor|licensee|licensor|business associate|covered entity|data protection officer|each party|either party)\b/i,
+      /\bthe "[A-Z][A-Za-z ]+"/
+    ],
+    remedy: 'name the party responsible for performing it'
+  },
+  {
+    indicator: 'TIMEFRAME',
+    label: 'Concrete timeframe',
+    weight: 0.2,
+    patterns: [
+      /\b(within|no later than|not later than|at least|for a period of|up to)\s+(\w+[\s-]+)?(\(\d+\)\s+)?(\d+\s+)?(business |calendar |working )?(hours?|days?|weeks?|months?|years?)\b/i,
+      /\b\d+\s*(business |calendar |working )?(hours?|days?|weeks?|months?|years?)\b/i,
+      /\bwithout undue delay\b/i,
+      /\b(annually|quarterly|monthly|weekly)\b/i
+    ],
+    remedy: 'add a concrete timeframe (e.g. "within 72 hours")'
+  },
+  {
+    indicator: 'CROSS_REFERENCE',
+    label: 'Cross-reference',
+    weight: 0.1,
+    patterns: [
+      /\b(section|article|clause|schedule|annex|exhibit|appendix)\s+[\dIVX]+/i,
+      /\b(pursuant to|in accordance with|as (set out|described|defined) in)\b/i
+    ],
+    remedy: 'cross-reference the governing section, schedule or regulation'
+  }
+];
+
+// Key of the configuration used for contracts whose client has none of its own
+const DEFAULT_CONFIGURATION_KEY = '';
 
 export class ComplianceAnalyzer {
-  private rules: ComplianceRule[];
+  private rules: ComplianceRule[]; // latest version of each rule
+  private ruleVersions: Map<string, ComplianceRule[]> = new Map(); // every version, earliest effective first
+  private builtInRuleIds: Set<string>;
+  private configurations: Map<string, ComplianceConfiguration> = new Map();
+
+  // Rules come from frameworks registered at construction time, and can't be changed here
+  constructor(customRules: ComplianceRule[] = [], configurations: ComplianceConfiguration[] = []) {
+    const builtInRules = frameworkRegistry.getRules();
+    this.builtInRuleIds = new Set(builtInRules.map(rule => rule.id));
+    this.rules = [...builtInRules, ...customRules];
+    this.rules.forEach(rule => this.recordVersion(rule));
+    configurations.forEach(configuration => this.applyConfiguration(configuration));
+  }
+
+  /**
+   * A copy with the same rule versions and configurations, e.g. to preview a rule change
+   */
+  clone(): ComplianceAnalyzer {
+    const copy = new ComplianceAnalyzer();
+    copy.rules = [...this.rules];
+    copy.ruleVersions = new Map([...this.ruleVersions].map(([ruleId, versions]) => [ruleId, [...versions]]));
+    copy.builtInRuleIds = new Set(this.builtInRuleIds);
+    copy.configurations = new Map(this.configurations);
+    return copy;
+  }
+
+  /**
+   * Use a configuration's risk thresholds, custom rules and auto-tagging setting for its client's contracts.
+   * A configuration without a client applies to contracts whose client has no configuration.
+   */
+  applyConfiguration(configuration: ComplianceConfiguration): void {
+    const errors = validateRiskThresholds(configuration.riskThresholds);
+    if (errors.length > 0) {
+      throw new Error(`Invalid risk thresholds: ${errors.join('; ')}`);
+    }
+
+    this.configurations.set(configuration.clientId || DEFAULT_CONFIGURATION_KEY, configuration);
+  }
+
+  /**
+   * The configuration used for a client's contracts, if any
+   */
+  getConfiguration(clientId?: string): ComplianceConfiguration | undefined {
+    return (clientId && this.configurations.get(clientId)) || this.configurations.get(DEFAULT_CONFIGURATION_KEY);
+  }
+
+  /**
+   * Analyze a contract with the frameworks and jurisdiction configured for its client
+   */
+  analyzeForClient(
+    contractText: string,
+    documentName: string,
+    clientId: string,
+    analyzedAt: Date = new Date()
+  ): ContractComplianceAnalysis {
+    const configuration = this.getConfiguration(clientId);
+    if (!configuration) {
+      throw new Error(`No compliance configuration for client ${clientId}`);
+    }
 
-  constructor(customRules: ComplianceRule[] = []) {
-    this.rules = [...ALL_COMPLIANCE_RULES, ...customRules];
+    return this.analyzeContract(
+      contractText,
+      documentName,
+      configuration.frameworks,
+      configuration.jurisdiction,
+      clientId,
+      analyzedAt
+    );
   }
 
   /**
-   * Analyze contract text against compliance frameworks
+   * Analyze contract text against compliance frameworks.
+   * The governing law and data locations found in the text are analyzed alongside the given jurisdictions.
+   * IDs are derived from the contract text, so the same text, rules and `analyzedAt` give an identical analysis.
+   * The client's configuration, if one has been applied, sets the risk thresholds and adds its custom rules.
+   * Each rule is evaluated in the version in effect at `analyzedAt`.
    */
   analyzeContract(
     contractText: string,
     documentName: string,
     frameworks: ComplianceFramework[],
-    jurisdiction: string = 'US',
-    clientId?: string
+    jurisdiction: string | string[] = 'US',
+    clientId?: string,
+    analyzedAt: Date = new Date()
   ): ContractComplianceAnalysis {
+    const configuration = this.getConfiguration(clientId);
+    const riskThresholds = configuration?.riskThresholds ?? DEFAULT_RISK_THRESHOLDS;
+    const rules = [
+      ...this.getRulesInEffect(analyzedAt),
+      ...(configuration?.customRules ?? []).filter(rule => isInEffect(rule, analyzedAt))
+    ];
+    const contractId = this.generateContractId(contractText);
+    const violationIds = new Set<string>();
     const violations: ComplianceViolation[] = [];
     const frameworkScores: ComplianceScore[] = [];
     const autoTags: string[] = [];
+    const clauses = segmentContract(contractText);
+    const selectedJurisdictions = Array.isArray(jurisdiction) ? jurisdiction : [jurisdiction];
+    const applicableJurisdictions = resolveApplicableJurisdictions(selectedJurisdictions, detectJurisdictions(contractText));
+    const jurisdictionCodes = applicableJurisdictions.map(applicable => applicable.code);
+
+    // An override replaces its built-in rule wherever it applies, even when the override is disabled
+    const overriddenRuleIds = new Set(rules
+      .filter(rule =>
+        rule.overridesRuleId &&
+        appliesToJurisdictions(rule.jurisdiction, jurisdictionCodes) &&
+        (!rule.clientId || rule.clientId === clientId)
+      )
+      .map(rule => rule.overridesRuleId));
 
     // Analyze each framework
     for (const framework of frameworks) {
-      const frameworkRules = this.rules.filter(rule => 
+      const frameworkRules = rules.filter(rule => 
         rule.framework === framework && 
         rule.isActive &&
-        (!rule.jurisdiction || rule.jurisdiction === jurisdiction) &&
+        !overriddenRuleIds.has(rule.id) &&
+        appliesToJurisdictions(rule.jurisdiction, jurisdictionCodes) &&
         (!rule.clientId || rule.clientId === clientId)
       );
 
-      const frameworkViolations = this.analyzeFramework(contractText, frameworkRules, framework);
+      const evidence: RuleEvidence[] = [];
+      const frameworkViolations = this.identifyViolations(
+        this.analyzeFramework(contractText, clauses, frameworkRules, framework, evidence),
+        contractId,
+        analyzedAt,
+        violationIds
+      );
       violations.push(...frameworkViolations);
 
-      const score = this.calculateFrameworkScore(frameworkViolations, framework);
-      frameworkScores.push(score);
+      const score = this.calculateFrameworkScore(frameworkViolations, framework, frameworkRules.length, analyzedAt, riskThresholds);
+      frameworkScores.push({ ...score, evidence });
 
       // Generate auto-tags based on violations
       const tags = this.generateAutoTags(frameworkViolations, framework);
@@ -51,8 +232,9 @@ export class ComplianceAnalyzer {
     }
 
     // Calculate overall compliance score
-    const overallScore = this.calculateOverallScore(frameworkScores);
-    const overallRiskLevel = this.determineRiskLevel(overallScore);
+    const scoreExplanation = explainOverallScore(frameworkScores);
+    const overallScore = scoreExplanation.score;
+    const overallRiskLevel = determineRiskLevel(overallScore, riskThresholds);
 
     // Categorize violations by severity
     const criticalIssues = violations.filter(v => v.severity === 'CRITICAL');
@@ -60,7 +242,7 @@ export class ComplianceAnalyzer {
     const lowIssues = violations.filter(v => v.severity === 'MEDIUM' || v.severity === 'LOW');
 
     return {
-      contractId: this.generateContractId(documentName),
+      contractId,
       documentName,
       frameworks: frameworkScores,
       overallRiskLevel,
@@ -68,38 +250,65 @@ export class ComplianceAnalyzer {
       criticalIssues,
       mediumIssues,
       lowIssues,
-      autoTags: [...new Set(autoTags)], // Remove duplicates
-      jurisdiction,
+      autoTags: configuration?.autoTaggingEnabled === false ? [] : [...new Set(autoTags)], // Remove duplicates
+      jurisdiction: selectedJurisdictions[0] ?? 'GLOBAL',
+      applicableJurisdictions,
+      scoreExplanation,
       clientId,
-      analyzedAt: new Date()
+      analyzedAt
     };
   }
 
   /**
-   * Analyze contract against specific framework rules
+   * Analyze contract against specific framework rules, recording where each rule is addressed in `evidence`
    */
   private analyzeFramework(
     contractText: string, 
+    clauses: ContractClause[],
     rules: ComplianceRule[], 
-    framework: ComplianceFramework
-  ): ComplianceViolation[] {
-    const violations: ComplianceViolation[] = [];
-    const text = contractText.toLowerCase();
+    framework: ComplianceFramework,
+    evidence: RuleEvidence[]
+  ): ViolationDraft[] {
+    const violations: ViolationDraft[] = [];
 
     for (const rule of rules) {
-      const matches = this.findRuleMatches(text, rule);
+      const matches = findRuleMatches(clauses, rule);
+      evidence.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        ruleVersion: getRuleVersion(rule),
+        matches: matches.map(match => this.toViolationLocation(match))
+      });
+      const affirmativeMatches = matches.filter(match => !match.contradiction);
+      const contradictedMatch = matches.find(match => match.contradiction);
+
+      // Language that negates or carves out the provision is worse than leaving it out, unless the
+      // contract also provides for it elsewhere
+      if (contradictedMatch && affirmativeMatches.length === 0) {
+        violations.push(this.createContradictionViolation(rule, framework, contradictedMatch));
+      }
+
+      // Numeric limits are checked wherever the rule is addressed
+      if (rule.thresholds?.length && affirmativeMatches.length > 0) {
+        violations.push(...this.checkThresholds(rule, framework, affirmativeMatches));
+      }
+
+      if (rule.definition) {
+        violations.push(...this.analyzeDefinedRule(contractText, clauses, rule, framework, affirmativeMatches, !!contradictedMatch));
+        continue;
+      }
       
       if (matches.length === 0) {
         // Check if this is a required rule (high weight)
         if (rule.weight > 0.7) {
           violations.push(this.createMissingRuleViolation(rule, framework));
         }
-      } else {
+      } else if (affirmativeMatches.length > 0) {
         // Check if the rule is properly implemented
-        const implementationQuality = this.assessImplementationQuality(contractText, rule, matches);
+        const { quality, match } = this.assessImplementationQuality(contractText, affirmativeMatches);
         
-        if (implementationQuality < 0.7) {
-          violations.push(this.createImplementationViolation(rule, framework, implementationQuality));
+        if (quality.score < 0.7) {
+          violations.push(this.createImplementationViolation(rule, framework, quality, match));
         }
       }
     }
@@ -108,76 +317,173 @@ export class ComplianceAnalyzer {
   }
 
   /**
-   * Find matches for a rule in the contract text
+   * Evaluate a rule compiled from the declarative rule format
    */
-  private findRuleMatches(text: string, rule: ComplianceRule): RegExpMatchArray[] {
-    const matches: RegExpMatchArray[] = [];
-    
-    for (const pattern of rule.patterns) {
-      const patternMatches = text.match(pattern);
-      if (patternMatches) {
-        matches.push(patternMatches);
+  private analyzeDefinedRule(
+    contractText: string,
+    clauses: ContractClause[],
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    affirmativeMatches: RuleMatch[],
+    isContradicted: boolean
+  ): ViolationDraft[] {
+    const violations: ViolationDraft[] = [];
+    const { requires, forbids = [] } = rule.definition!;
+
+    for (const condition of forbids) {
+      for (const clause of clauses) {
+        const result = evaluateCondition(condition, clause);
+        if (result.satisfied) {
+          const evidence = result.evidence[0] ?? { start: clause.start, end: clause.end };
+          const match: RuleMatch = {
+            clause,
+            start: evidence.start,
+            end: evidence.end,
+            matchedText: contractText.slice(evidence.start, evidence.end)
+          };
+          violations.push(this.createForbiddenViolation(rule, framework, match, describeCondition(condition)));
+          break;
+        }
       }
     }
 
-    // Also check for keyword matches
-    for (const keyword of rule.keywords) {
-      if (text.includes(keyword.toLowerCase())) {
-        matches.push([keyword] as RegExpMatchArray);
+    if (!requires) return violations;
+
+    const results = clauses.map(clause => ({ clause, result: evaluateCondition(requires, clause) }));
+    const satisfying = results.filter(({ result }) => result.satisfied);
+
+    if (satisfying.length === 0) {
+      // Mentioned but the conditions aren't met, e.g. a notification period that is too long
+      const partial = affirmativeMatches[0];
+      if (partial) {
+        const { failures, thresholds } = results.find(({ clause }) => clause.id === partial.clause.id)!.result;
+        violations.push(this.createUnmetConditionViolation(rule, framework, partial, failures, thresholds?.[0]));
+      } else if (!isContradicted && rule.weight > 0.7) {
+        violations.push(this.createMissingRuleViolation(rule, framework));
       }
+      return violations;
     }
 
-    return matches;
+    // Judge implementation quality where the conditions were met
+    const satisfiedMatches = affirmativeMatches.filter(match =>
+      satisfying.some(({ clause }) => clause.id === match.clause.id)
+    );
+    const candidates = satisfiedMatches.length > 0 ? satisfiedMatches : satisfying.flatMap(({ clause, result }) =>
+      result.evidence.map(evidence => ({
+        clause,
+        start: evidence.start,
+        end: evidence.end,
+        matchedText: contractText.slice(evidence.start, evidence.end)
+      }))
+    );
+
+    if (candidates.length > 0) {
+      const { quality, match } = this.assessImplementationQuality(contractText, candidates);
+      if (quality.score < 0.7) {
+        violations.push(this.createImplementationViolation(rule, framework, quality, match));
+      }
+    }
+
+    return violations;
   }
 
   /**
-   * Assess the quality of rule implementation
+   * Check a rule's numeric thresholds in the clauses that address it
    */
-  private assessImplementationQuality(
-    contractText: string, 
-    rule: ComplianceRule, 
-    matches: RegExpMatchArray[]
-  ): number {
-    let quality = 0.5; // Base quality
-
-    // Check for specific implementation indicators
-    const implementationIndicators = [
-      'shall', 'must', 'will', 'required', 'obligation', 'responsibility',
-      'procedure', 'process', 'policy', 'standard', 'guideline'
-    ];
+  private checkThresholds(
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    matches: RuleMatch[]
+  ): ViolationDraft[] {
+    const violations: ViolationDraft[] = [];
+    const clauses = [...new Map(matches.map(match => [match.clause.id, match.clause])).values()];
+
+    for (const constraint of rule.thresholds ?? []) {
+      const checks = clauses.map(clause => ({ clause, check: checkNumericConstraint(clause.text, clause.start, constraint) }));
+      if (checks.some(({ check }) => check.satisfied)) continue;
+
+      const stated = checks.find(({ check }) => check.found.length > 0);
+      const finding: ThresholdFinding = {
+        constraint,
+        required: formatConstraint(constraint),
+        found: stated?.check.found ?? []
+      };
+      const quantity = finding.found[0];
+      const match: RuleMatch = quantity
+        ? { clause: stated!.clause, start: quantity.start, end: quantity.end, matchedText: quantity.text }
+        : matches[0];
+
+      violations.push(this.createThresholdViolation(rule, framework, match, finding));
+    }
 
-    const text = contractText.toLowerCase();
-    const hasImplementationLanguage = implementationIndicators.some(indicator => 
-      text.includes(indicator)
-    );
+    return violations;
+  }
 
-    if (hasImplementationLanguage) quality += 0.2;
+  /**
+   * Assess implementation quality in the text window around each match and keep the best one
+   */
+  private assessImplementationQuality(
+    contractText: string, 
+    matches: RuleMatch[]
+  ): { quality: ImplementationQuality; match: RuleMatch } {
+    let best: { quality: ImplementationQuality; match: RuleMatch } | null = null;
+
+    for (const match of matches) {
+      const quality = this.assessMatchWindow(contractText, match);
+      if (!best || quality.score > best.quality.score) {
+        best = { quality, match };
+      }
+    }
 
-    // Check for specific details (dates, timeframes, procedures)
-    const hasSpecificDetails = /\d+|\b(day|month|year|hour|minute)\b|procedure|process/i.test(contractText);
-    if (hasSpecificDetails) quality += 0.2;
+    return best!;
+  }
 
-    // Check for legal language
-    const hasLegalLanguage = /\b(hereby|whereas|therefore|notwithstanding|pursuant)\b/i.test(contractText);
-    if (hasLegalLanguage) quality += 0.1;
+  private assessMatchWindow(contractText: string, match: RuleMatch): ImplementationQuality {
+    // Stay inside the clause body so neighbouring clauses and the heading can't lend quality
+    const { clause } = match;
+    const windowStart = Math.max(clause.bodyStart, match.start - QUALITY_WINDOW_RADIUS);
+    const windowEnd = Math.min(clause.end, Math.max(match.end, clause.bodyStart) + QUALITY_WINDOW_RADIUS);
+    const windowText = contractText.slice(windowStart, windowEnd);
+
+    const indicators: QualityIndicatorResult[] = QUALITY_INDICATORS.map(({ indicator, label, weight, patterns }) => {
+      const evidence = patterns
+        .map(pattern => windowText.match(pattern))
+        .find(result => result !== null);
+
+      return {
+        indicator,
+        label,
+        present: !!evidence,
+        weight,
+        evidence: evidence?.[0]
+      };
+    });
+
+    const score = indicators
+      .filter(result => result.present)
+      .reduce((sum, result) => sum + result.weight, 0);
 
-    return Math.min(quality, 1.0);
+    return {
+      score: Math.round(Math.min(score, 1.0) * 100) / 100,
+      windowStart,
+      windowEnd,
+      indicators
+    };
   }
 
   /**
    * Create violation for missing required rule
    */
-  private createMissingRuleViolation(rule: ComplianceRule, framework: ComplianceFramework): ComplianceViolation {
+  private createMissingRuleViolation(rule: ComplianceRule, framework: ComplianceFramework): ViolationDraft {
     return {
-      id: this.generateViolationId(rule.id),
       ruleId: rule.id,
       rule,
+      violationType: 'MISSING',
       clauseId: 'missing',
       severity: rule.riskLevel,
       description: `Missing required ${rule.name} provision`,
       explanation: `${rule.description}. This is a critical requirement for ${framework} compliance.`,
       suggestedAction: `Add a clause that ${rule.description.toLowerCase()}`,
-      detectedAt: new Date(),
       isResolved: false
     };
   }
@@ -188,82 +494,195 @@ export class ComplianceAnalyzer {
   private createImplementationViolation(
     rule: ComplianceRule, 
     framework: ComplianceFramework, 
-    quality: number
-  ): ComplianceViolation {
-    const severity: RiskLevel = quality < 0.3 ? 'HIGH' : 'MEDIUM';
+    quality: ImplementationQuality,
+    match: RuleMatch
+  ): ViolationDraft {
+    const severity: RiskLevel = quality.score < 0.3 ? 'HIGH' : 'MEDIUM';
+    const missing = quality.indicators.filter(result => !result.present);
+    const remedies = QUALITY_INDICATORS
+      .filter(definition => missing.some(result => result.indicator === definition.indicator))
+      .map(definition => definition.remedy);
     
     return {
-      id: this.generateViolationId(rule.id),
       ruleId: rule.id,
       rule,
-      clauseId: 'implementation',
+      violationType: 'INSUFFICIENT',
+      clauseId: match.clause.id,
+      location: this.toViolationLocation(match),
+      qualityBreakdown: quality,
       severity,
       description: `Insufficient implementation of ${rule.name}`,
-      explanation: `The ${rule.name} provision exists but lacks sufficient detail or specificity for ${framework} compliance.`,
-      suggestedAction: `Enhance the clause with specific procedures, timeframes, and responsibilities.`,
-      detectedAt: new Date(),
+      explanation: `The ${rule.name} provision in "${match.clause.heading}" exists but lacks sufficient detail or specificity for ${framework} compliance. Missing: ${missing.map(result => result.label.toLowerCase()).join(', ')}.`,
+      suggestedAction: `Enhance the clause: ${remedies.join('; ')}.`,
       isResolved: false
     };
   }
 
   /**
-   * Calculate framework-specific compliance score
+   * Create violation for a provision that is negated, carved out or disclaimed
    */
-  private calculateFrameworkScore(violations: ComplianceViolation[], framework: ComplianceFramework): ComplianceScore {
-    const totalRules = this.rules.filter(rule => rule.framework === framework).length;
-    const violationCount = violations.length;
-    
-    // Base score (100 - percentage of violations)
-    let score = Math.max(0, 100 - (violationCount / totalRules) * 100);
-    
-    // Adjust for violation severity
-    const severityPenalty = violations.reduce((penalty, violation) => {
-      return penalty + (RISK_LEVEL_WEIGHTS[violation.severity] * 10);
-    }, 0);
-    
-    score = Math.max(0, score - severityPenalty);
-    
-    // Apply framework weight
-    score = score * FRAMEWORK_WEIGHTS[framework];
-    
-    const riskLevel = this.determineRiskLevel(score);
-    const recommendations = this.generateRecommendations(violations, framework);
+  private createContradictionViolation(
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    match: RuleMatch
+  ): ViolationDraft {
+    const contradiction = match.contradiction!;
+    // A carve-out narrows the provision; a negation or disclaimer removes it
+    const severity = contradiction.kind === 'CARVE_OUT' ? rule.riskLevel : this.escalateRiskLevel(rule.riskLevel);
+    const kindLabel = {
+      'NEGATION': 'negated',
+      'CARVE_OUT': 'carved out',
+      'DISCLAIMER': 'disclaimed'
+    }[contradiction.kind];
 
     return {
-      framework,
-      overallScore: Math.round(score),
-      riskLevel,
-      violations,
-      recommendations,
-      lastUpdated: new Date()
+      ruleId: rule.id,
+      rule,
+      violationType: 'CONTRADICTED',
+      clauseId: match.clause.id,
+      location: this.toViolationLocation(match),
+      contradiction,
+      severity,
+      description: `Contradicted ${rule.name} provision`,
+      explanation: `"${match.clause.heading}" mentions ${rule.name.toLowerCase()} but the provision is ${kindLabel} by "${contradiction.trigger}", which undermines ${framework} compliance.`,
+      suggestedAction: `Remove or narrow the "${contradiction.trigger}" language so that the clause ${rule.description.replace(/^contract must /i, '').toLowerCase()}.`,
+      isResolved: false
     };
   }
 
   /**
-   * Calculate overall compliance score across all frameworks
+   * Create violation for a numeric limit that is exceeded or not stated
    */
-  private calculateOverallScore(frameworkScores: ComplianceScore[]): number {
-    if (frameworkScores.length === 0) return 0;
-    
-    const totalScore = frameworkScores.reduce((sum, score) => {
-      return sum + (score.overallScore * FRAMEWORK_WEIGHTS[score.framework]);
-    }, 0);
-    
-    const totalWeight = frameworkScores.reduce((sum, score) => {
-      return sum + FRAMEWORK_WEIGHTS[score.framework];
-    }, 0);
-    
-    return Math.round(totalScore / totalWeight);
+  private createThresholdViolation(
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    match: RuleMatch,
+    finding: ThresholdFinding
+  ): ViolationDraft {
+    const { quantity: kind } = finding.constraint;
+    const found = finding.found.map(quantity => quantity.text).join(', ');
+    // A limit that is too loose is as serious as the rule; one that is merely unstated is a drafting gap
+    const severity: RiskLevel = found ? rule.riskLevel : rule.riskLevel === 'LOW' ? 'LOW' : 'MEDIUM';
+
+    return {
+      ruleId: rule.id,
+      rule,
+      violationType: 'THRESHOLD',
+      clauseId: match.clause.id,
+      location: this.toViolationLocation(match),
+      threshold: finding,
+      severity,
+      description: found
+        ? `${rule.name} ${kind} outside required limit`
+        : `${rule.name} ${kind} not stated`,
+      explanation: found
+        ? `"${match.clause.heading}" states ${found} for ${rule.name.toLowerCase()}, but ${framework} requires ${finding.required}.`
+        : `"${match.clause.heading}" addresses ${rule.name.toLowerCase()} but states no ${kind}; ${framework} requires ${finding.required}.`,
+      suggestedAction: `Amend "${match.clause.heading}" so that the stated ${kind} is ${finding.required}.`,
+      isResolved: false
+    };
+  }
+
+  /**
+   * Create violation for a rule whose declarative conditions are only partly met
+   */
+  private createUnmetConditionViolation(
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    match: RuleMatch,
+    failures: string[],
+    threshold?: ThresholdFinding
+  ): ViolationDraft {
+    return {
+      ruleId: rule.id,
+      rule,
+      violationType: 'INSUFFICIENT',
+      clauseId: match.clause.id,
+      location: this.toViolationLocation(match),
+      threshold,
+      severity: rule.riskLevel,
+      description: `${rule.name} requirements not met`,
+      explanation: `"${match.clause.heading}" addresses ${rule.name.toLowerCase()} but does not satisfy: ${failures.join('; ')}.`,
+      suggestedAction: `Amend the clause so that it meets ${framework} requirements: ${failures.join('; ')}.`,
+      isResolved: false
+    };
+  }
+
+  /**
+   * Create violation for language a rule forbids
+   */
+  private createForbiddenViolation(
+    rule: ComplianceRule,
+    framework: ComplianceFramework,
+    match: RuleMatch,
+    condition: string
+  ): ViolationDraft {
+    return {
+      ruleId: rule.id,
+      rule,
+      violationType: 'FORBIDDEN',
+      clauseId: match.clause.id,
+      location: this.toViolationLocation(match),
+      severity: rule.riskLevel,
+      description: `Prohibited language for ${rule.name}`,
+      explanation: `"${match.clause.heading}" contains ${condition}, which is not permitted under ${framework}.`,
+      suggestedAction: `Remove or rewrite the language matching ${condition}.`,
+      isResolved: false
+    };
+  }
+
+  private escalateRiskLevel(riskLevel: RiskLevel): RiskLevel {
+    const order: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+    return order[Math.min(order.indexOf(riskLevel) + 1, order.length - 1)];
+  }
+
+  private toViolationLocation(match: RuleMatch): ViolationLocation {
+    return {
+      clauseId: match.clause.id,
+      clauseHeading: match.clause.heading,
+      start: match.start,
+      end: match.end,
+      matchedText: match.matchedText
+    };
   }
 
   /**
-   * Determine risk level based on score
+   * Calculate framework-specific compliance score
    */
-  private determineRiskLevel(score: number): RiskLevel {
-    if (score >= 90) return 'LOW';
-    if (score >= 70) return 'MEDIUM';
-    if (score >= 50) return 'HIGH';
-    return 'CRITICAL';
+  private calculateFrameworkScore(
+    violations: ComplianceViolation[],
+    framework: ComplianceFramework,
+    rulesEvaluated: number,
+    analyzedAt: Date,
+    riskThresholds: Record<RiskLevel, number>
+  ): ComplianceScore {
+    // Nothing was checked, so there is nothing to score
+    if (rulesEvaluated === 0) {
+      return {
+        framework,
+        overallScore: null,
+        riskLevel: null,
+        violations,
+        recommendations: [`No active ${framework} rules apply to this contract - add or enable rules before relying on this framework`],
+        rulesEvaluated,
+        lastUpdated: analyzedAt
+      };
+    }
+
+    const explanation = explainFrameworkScore(violations, rulesEvaluated, frameworkRegistry.getWeight(framework));
+    const riskLevel = determineRiskLevel(explanation.weightedScore, riskThresholds);
+    const recommendations = this.generateRecommendations(violations, framework);
+
+    return {
+      framework,
+      overallScore: explanation.score,
+      riskLevel,
+      violations,
+      recommendations,
+      rulesEvaluated,
+      explanation,
+      lastUpdated: analyzedAt
+    };
   }
 
   /**
@@ -341,14 +760,36 @@ export class ComplianceAnalyzer {
   }
 
   /**
-   * Generate unique IDs
+   * Give violations IDs derived from the contract version, rule and location.
+   * Violations of the same rule, type and location are numbered so IDs never collide.
    */
-  private generateContractId(documentName: string): string {
-    return `contract_${Date.now()}_${documentName.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  private identifyViolations(
+    drafts: ViolationDraft[],
+    contractId: string,
+    detectedAt: Date,
+    usedIds: Set<string>
+  ): ComplianceViolation[] {
+    return drafts.map(draft => {
+      const key = [contractId, draft.ruleId, draft.violationType, draft.location?.start ?? '', draft.location?.end ?? ''].join('|');
+      let id = this.generateViolationId(key);
+      for (let occurrence = 2; usedIds.has(id); occurrence++) {
+        id = this.generateViolationId(`${key}|${occurrence}`);
+      }
+      usedIds.add(id);
+
+      return { id, ...draft, detectedAt };
+    });
   }
 
-  private generateViolationId(ruleId: string): string {
-    return `violation_${ruleId}_${Date.now()}`;
+  /**
+   * Content-hash IDs: the contract ID identifies the document version
+   */
+  private generateContractId(contractText: string): string {
+    return `contract_${sha256(contractText).slice(0, ID_HASH_LENGTH)}`;
+  }
+
+  private generateViolationId(key: string): string {
+    return `violation_${sha256(key).slice(0, ID_HASH_LENGTH)}`;
   }
 
   /**
@@ -366,31 +807,145 @@ export class ComplianceAnalyzer {
   }
 
   /**
-   * Add custom rule
+   * The version of each rule in effect at a date
+   */
+  getRulesInEffect(at: Date = new Date()): ComplianceRule[] {
+    return [...this.ruleVersions.values()]
+      .map(versions => versions.filter(rule => isInEffect(rule, at)).pop())
+      .filter((rule): rule is ComplianceRule => rule !== undefined);
+  }
+
+  /**
+   * Every recorded version of a rule, earliest effective first
+   */
+  getRuleVersions(ruleId: string): ComplianceRule[] {
+    return [...(this.ruleVersions.get(ruleId) ?? [])];
+  }
+
+  /**
+   * Whether a rule ships with a registered framework. Built-in rules can't be updated or deleted;
+   * use `overrideRule` instead.
+   */
+  isBuiltInRule(ruleId: string): boolean {
+    return this.builtInRuleIds.has(ruleId);
+  }
+
+  /**
+   * Add custom rule. Without an `effectiveFrom` date it applies to every analysis.
    */
   addCustomRule(rule: ComplianceRule): void {
+    if (this.ruleVersions.has(rule.id)) {
+      throw new Error(`Rule ${rule.id} already exists; use updateRule to change it`);
+    }
     this.rules.push(rule);
+    this.recordVersion(rule);
   }
 
   /**
-   * Update rule
+   * Update rule by recording a new version, in effect from `updates.effectiveFrom` or from now.
+   * Analyses dated before then keep using the previous version.
    */
   updateRule(ruleId: string, updates: Partial<ComplianceRule>): boolean {
+    this.assertMutable(ruleId);
     const index = this.rules.findIndex(rule => rule.id === ruleId);
     if (index === -1) return false;
     
-    this.rules[index] = { ...this.rules[index], ...updates, updatedAt: new Date() };
+    const updatedAt = new Date();
+    this.rules[index] = {
+      ...this.rules[index],
+      ...updates,
+      id: ruleId,
+      effectiveFrom: updates.effectiveFrom ?? updatedAt,
+      updatedAt
+    };
+    this.recordVersion(this.rules[index]);
     return true;
   }
 
   /**
-   * Delete rule
+   * Delete rule and all of its versions
    */
   deleteRule(ruleId: string): boolean {
+    this.assertMutable(ruleId);
     const index = this.rules.findIndex(rule => rule.id === ruleId);
     if (index === -1) return false;
     
     this.rules.splice(index, 1);
+    this.ruleVersions.delete(ruleId);
     return true;
   }
+
+  /**
+   * Override a built-in rule with an edited copy. The copy replaces the built-in rule for the
+   * contracts it applies to, e.g. only one client's when `changes.clientId` is set.
+   */
+  overrideRule(ruleId: string, changes: Partial<ComplianceRule> = {}): ComplianceRule {
+    const builtIn = this.rules.find(rule => rule.id === ruleId);
+    if (!builtIn || !this.isBuiltInRule(ruleId)) {
+      throw new Error(`Built-in rule ${ruleId} not found`);
+    }
+
+    const override = createRuleOverride(builtIn, changes);
+    this.addCustomRule(override);
+    return override;
+  }
+
+  /**
+   * Replace every version of a custom rule, e.g. with the versions loaded from storage
+   */
+  restoreRuleVersions(ruleId: string, versions: ComplianceRule[]): void {
+    this.assertMutable(ruleId);
+    if (versions.length === 0 || versions.some(version => version.id !== ruleId)) {
+      throw new Error(`Versions of rule ${ruleId} must all have its id`);
+    }
+
+    this.ruleVersions.delete(ruleId);
+    versions.forEach(version => this.recordVersion(version));
+    const latest = versions[versions.length - 1];
+    const index = this.rules.findIndex(rule => rule.id === ruleId);
+    if (index === -1) {
+      this.rules.push(latest);
+    } else {
+      this.rules[index] = latest;
+    }
+  }
+
+  private assertMutable(ruleId: string): void {
+    if (this.isBuiltInRule(ruleId)) {
+      throw new Error(`Built-in rule ${ruleId} can't be changed; override it with a copy instead`);
+    }
+  }
+
+  private recordVersion(rule: ComplianceRule): void {
+    const versions = [...(this.ruleVersions.get(rule.id) ?? []), rule];
+    // Stable, so of two versions effective at the same time the one recorded later wins
+    versions.sort((a, b) => getEffectiveTime(a) - getEffectiveTime(b));
+    this.ruleVersions.set(rule.id, versions);
+  }
+}
+
+/**
+ * An edited copy of a built-in rule that replaces it, with the id `<rule id>-override` unless `changes` sets one
+ */
+export function createRuleOverride(
+  builtIn: ComplianceRule,
+  changes: Partial<ComplianceRule> = {},
+  createdAt: Date = new Date()
+): ComplianceRule {
+  return {
+    ...builtIn,
+    ...changes,
+    id: changes.id ?? `${builtIn.id}-override`,
+    overridesRuleId: builtIn.id,
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+function isInEffect(rule: ComplianceRule, at: Date): boolean {
+  return !rule.effectiveFrom || rule.effectiveFrom.getTime() <= at.getTime();
+}
+
+function getEffectiveTime(rule: ComplianceRule): number {
+  return rule.effectiveFrom?.getTime() ?? Number.MIN_SAFE_INTEGER;
 }
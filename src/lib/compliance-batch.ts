@@ -0,0 +1,267 @@
+import {
+  BatchAnalysisCheckpoint,
+  BatchAnalysisProgress,
+  BatchAnalysisResult,
+  BatchContractResult,
+  ClientComplianceHeatmap,
+  ComplianceHeatmapCell,
+  ComplianceScore,
+  ContractComplianceAnalysis,
+  PortfolioContract,
+  PortfolioSummary,
+  RiskLevel,
+  RuleViolationFrequency
+} from '@/types/compliance';
+import { ComplianceAnalyzer } from './compliance-analyzer';
+import { sha256 } from './sha256';
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const ID_HASH_LENGTH = 16;
+const DEFAULT_SUMMARY_LIMIT = 10;
+
+type ScoredAnalysis = ContractComplianceAnalysis & { overallComplianceScore: number; overallRiskLevel: RiskLevel };
+type ScoredFramework = ComplianceScore & { overallScore: number; riskLevel: RiskLevel };
+
+export interface BatchAnalysisOptions {
+  checkpoint?: BatchAnalysisCheckpoint; // from a cancelled or interrupted run of the same contracts
+  analyzedAt?: Date; // ignored when resuming from a checkpoint
+  summaryLimit?: number; // worst contracts and most violated rules to report
+  onProgress?: (progress: BatchAnalysisProgress) => void;
+  onAnalysis?: (contract: PortfolioContract, analysis: ContractComplianceAnalysis) => void | Promise<void>; // e.g. save to the history store
+  onCheckpoint?: (checkpoint: BatchAnalysisCheckpoint) => void | Promise<void>; // called after each contract, to persist progress
+}
+
+/**
+ * Re-analyzes a portfolio of contracts one at a time, e.g. after a regulation changes.
+ * The job can be cancelled between contracts and resumed later from its checkpoint; contracts
+ * already analyzed are skipped and failed contracts are retried.
+ */
+export class ComplianceBatchJob {
+  private analyzer: ComplianceAnalyzer;
+  private contracts: PortfolioContract[];
+  private options: BatchAnalysisOptions;
+  private checkpoint: BatchAnalysisCheckpoint;
+  private running = false;
+  private cancelRequested = false;
+
+  constructor(analyzer: ComplianceAnalyzer, contracts: PortfolioContract[], options: BatchAnalysisOptions = {}) {
+    const duplicate = contracts.find((contract, index) =>
+      contracts.findIndex(other => other.contractKey === contract.contractKey) !== index
+    );
+    if (duplicate) {
+      throw new Error(`Duplicate contract key ${duplicate.contractKey}`);
+    }
+
+    const analyzedAt = options.checkpoint?.analyzedAt ?? options.analyzedAt ?? new Date();
+    const jobId = createJobId(contracts, analyzedAt);
+    if (options.checkpoint && options.checkpoint.jobId !== jobId) {
+      throw new Error('Checkpoint belongs to a different set of contracts');
+    }
+
+    this.analyzer = analyzer;
+    this.contracts = contracts;
+    this.options = options;
+    this.checkpoint = options.checkpoint
+      ? { ...options.checkpoint, results: [...options.checkpoint.results], failures: [] }
+      : { jobId, analyzedAt, results: [], failures: [] };
+  }
+
+  /**
+   * Analyze every contract not yet in the checkpoint. Resolves when all are done or the job is cancelled.
+   */
+  async run(): Promise<BatchAnalysisResult> {
+    if (this.running) {
+      throw new Error('Batch job is already running');
+    }
+    this.running = true;
+    this.cancelRequested = false;
+
+    try {
+      const done = new Set(this.checkpoint.results.map(result => result.contractKey));
+      const pending = this.contracts.filter(contract => !done.has(contract.contractKey));
+
+      for (const contract of pending) {
+        if (this.cancelRequested) break;
+
+        try {
+          const analysis = analyzePortfolioContract(this.analyzer, contract, this.checkpoint.analyzedAt);
+          await this.options.onAnalysis?.(contract, analysis);
+          this.checkpoint.results.push({ contractKey: contract.contractKey, analysis });
+        } catch (error) {
+          this.checkpoint.failures.push({
+            contractKey: contract.contractKey,
+            documentName: contract.documentName,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+
+        await this.options.onCheckpoint?.(this.getCheckpoint());
+        this.options.onProgress?.({ ...this.getProgress(), currentContract: contract.documentName });
+
+        // Analysis is synchronous; yield so the UI can repaint and a cancel can land
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      const completed = this.checkpoint.results.length + this.checkpoint.failures.length === this.contracts.length;
+      return {
+        status: completed ? 'COMPLETED' : 'CANCELLED',
+        checkpoint: this.getCheckpoint(),
+        summary: summarizePortfolio(this.checkpoint.results, this.options.summaryLimit)
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Stop after the contract being analyzed; `run` then resolves as CANCELLED
+   */
+  cancel(): void {
+    this.cancelRequested = true;
+  }
+
+  getProgress(): BatchAnalysisProgress {
+    return {
+      total: this.contracts.length,
+      analyzed: this.checkpoint.results.length,
+      failed: this.checkpoint.failures.length
+    };
+  }
+
+  getCheckpoint(): BatchAnalysisCheckpoint {
+    return {
+      ...this.checkpoint,
+      results: [...this.checkpoint.results],
+      failures: [...this.checkpoint.failures]
+    };
+  }
+}
+
+/**
+ * Analyze one portfolio contract, falling back to its client's configured frameworks and jurisdiction
+ */
+export function analyzePortfolioContract(
+  analyzer: ComplianceAnalyzer,
+  contract: PortfolioContract,
+  analyzedAt: Date
+): ContractComplianceAnalysis {
+  const configuration = analyzer.getConfiguration(contract.clientId);
+  const frameworks = contract.frameworks ?? configuration?.frameworks ?? [];
+  if (frameworks.length === 0) {
+    throw new Error(contract.clientId
+      ? `No frameworks selected and no compliance configuration for client ${contract.clientId}`
+      : 'No frameworks selected');
+  }
+
+  return analyzer.analyzeContract(
+    contract.text,
+    contract.documentName,
+    frameworks,
+    contract.jurisdiction ?? configuration?.jurisdiction ?? 'US',
+    contract.clientId,
+    analyzedAt
+  );
+}
+
+/**
+ * Portfolio-level view of a set of analyses: the worst contracts, the rules violated in the most
+ * contracts, and a per-client heatmap of average scores by framework
+ */
+export function summarizePortfolio(
+  results: BatchContractResult[],
+  limit: number = DEFAULT_SUMMARY_LIMIT
+): PortfolioSummary {
+  const scored = results.filter((result): result is BatchContractResult & { analysis: ScoredAnalysis } => isScored(result.analysis));
+  const riskDistribution: Record<RiskLevel, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+  scored.forEach(({ analysis }) => riskDistribution[analysis.overallRiskLevel]++);
+
+  const worstContracts = scored
+    .map(({ contractKey, analysis }) => ({
+      contractKey,
+      documentName: analysis.documentName,
+      clientId: analysis.clientId,
+      score: analysis.overallComplianceScore,
+      riskLevel: analysis.overallRiskLevel,
+      criticalIssues: analysis.criticalIssues.length
+    }))
+    .sort((a, b) => a.score - b.score || b.criticalIssues - a.criticalIssues)
+    .slice(0, limit);
+
+  const rules = new Map<string, RuleViolationFrequency>();
+  for (const { analysis } of results) {
+    const violations = analysis.frameworks.flatMap(score => score.violations);
+    for (const ruleId of new Set(violations.map(violation => violation.ruleId))) {
+      const ruleViolations = violations.filter(violation => violation.ruleId === ruleId);
+      const frequency = rules.get(ruleId) ?? {
+        ruleId,
+        ruleName: ruleViolations[0].rule.name,
+        framework: ruleViolations[0].rule.framework,
+        contracts: 0,
+        violations: 0
+      };
+      frequency.contracts++;
+      frequency.violations += ruleViolations.length;
+      rules.set(ruleId, frequency);
+    }
+  }
+
+  return {
+    contracts: results.length,
+    notScored: results.length - scored.length,
+    averageScore: average(scored.map(({ analysis }) => analysis.overallComplianceScore)),
+    riskDistribution,
+    worstContracts,
+    mostViolatedRules: [...rules.values()]
+      .sort((a, b) => b.contracts - a.contracts || b.violations - a.violations || a.ruleId.localeCompare(b.ruleId))
+      .slice(0, limit),
+    clientHeatmaps: buildClientHeatmaps(results.map(result => result.analysis))
+  };
+}
+
+function buildClientHeatmaps(analyses: ContractComplianceAnalysis[]): ClientComplianceHeatmap[] {
+  const clientIds = [...new Set(analyses.map(analysis => analysis.clientId))]
+    // Contracts without a client come last
+    .sort((a, b) => a === undefined ? 1 : b === undefined ? -1 : a.localeCompare(b));
+
+  return clientIds.map(clientId => {
+    const clientAnalyses = analyses.filter(analysis => analysis.clientId === clientId);
+    const scores = clientAnalyses.flatMap(analysis => analysis.frameworks)
+      .filter((score): score is ScoredFramework => score.rulesEvaluated > 0 && score.overallScore !== null && score.riskLevel !== null);
+    const frameworks = [...new Set(scores.map(score => score.framework))].sort();
+
+    const cells: ComplianceHeatmapCell[] = frameworks.map(framework => {
+      const frameworkScores = scores.filter(score => score.framework === framework);
+      return {
+        framework,
+        contracts: frameworkScores.length,
+        averageScore: average(frameworkScores.map(score => score.overallScore))!, // a cell has at least one score
+        worstRiskLevel: frameworkScores
+          .map(score => score.riskLevel)
+          .reduce<RiskLevel>((worst, level) => RISK_LEVEL_ORDER.indexOf(level) > RISK_LEVEL_ORDER.indexOf(worst) ? level : worst, 'LOW'),
+        violations: frameworkScores.reduce((sum, score) => sum + score.violations.length, 0)
+      };
+    });
+
+    return {
+      clientId,
+      contracts: clientAnalyses.length,
+      averageScore: average(clientAnalyses.filter(isScored).map(analysis => analysis.overallComplianceScore)),
+      cells
+    };
+  });
+}
+
+// Identifies a run over these exact contract versions, so a checkpoint can't resume a different portfolio
+function createJobId(contracts: PortfolioContract[], analyzedAt: Date): string {
+  const contents = contracts.map(contract => `${contract.contractKey}|${sha256(contract.text)}`).sort().join('\n');
+  return `batch_${sha256(`${contents}\n${analyzedAt.toISOString()}`).slice(0, ID_HASH_LENGTH)}`;
+}
+
+function isScored(analysis: ContractComplianceAnalysis): analysis is ScoredAnalysis {
+  return analysis.overallComplianceScore !== null && analysis.overallRiskLevel !== null;
+}
+
+// null when there is nothing to average, so an empty set doesn't read as a score of 0
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
@@ -0,0 +1,556 @@
+import { ClauseCategory, ClauseTemplate } from '@/types/clause-library';
+
+interface RemediationClauseDefinition {
+  title: string;
+  category: ClauseCategory;
+  jurisdiction: string; // GLOBAL unless the wording is specific to a jurisdiction
+  frameworks: string[];
+  ruleIds: string[];
+  content: string;
+  references: string[];
+}
+
+function remediationClause(
+  definition: RemediationClauseDefinition
+): Omit<ClauseTemplate, 'id' | 'createdAt' | 'lastModified' | 'usageCount'> {
+  return {
+    title: definition.title,
+    description: `Satisfies ${definition.ruleIds.join(', ')}`,
+    category: definition.category,
+    content: definition.content,
+    alternativeVersions: [],
+    tags: [...definition.frameworks, 'remediation'],
+    status: 'APPROVED',
+    riskLevel: 'LOW',
+    complianceFrameworks: definition.frameworks,
+    complianceRuleIds: definition.ruleIds,
+    jurisdiction: definition.jurisdiction,
+    language: 'en',
+    author: 'System',
+    isPublic: true,
+    metadata: {
+      wordCount: definition.content.split(/\s+/).length,
+      complexity: 'MODERATE',
+      regulatoryReferences: definition.references
+    }
+  };
+}
+
+const PROCESSOR_OBLIGATIONS = "The Processor shall follow the Controller's instructions for processing, shall impose a duty of confidentiality on each person processing personal data, shall delete or return all personal data within 30 days after the services end, shall allow and cooperate with reasonable assessments by the Controller, and shall enter into a written contract with any subcontractor imposing the same obligations";
+
+const REMEDIATION_CLAUSES: RemediationClauseDefinition[] = [
+  // GDPR
+  {
+    title: 'Data Subject Rights (GDPR)',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-data-subject-rights'],
+    content: 'The Processor shall assist the Controller in responding to requests to exercise data subject rights, including the right to access, right to rectification, right to erasure and data portability, and shall forward any request it receives to the Controller within 5 business days, in accordance with Chapter III GDPR.',
+    references: ['GDPR Articles 12-22']
+  },
+  {
+    title: 'Lawful Basis (GDPR)',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-lawful-basis'],
+    content: 'The Controller shall document the lawful basis under Article 6 GDPR for each processing activity before it starts and shall provide that record to the Processor within 10 days of a request. The Processor shall process personal data only on documented instructions consistent with that lawful basis.',
+    references: ['GDPR Article 6']
+  },
+  {
+    title: 'Data Retention (GDPR)',
+    category: 'DATA_RETENTION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-data-retention'],
+    content: "The Processor shall keep personal data only for the retention period set out in the Controller's retention policy and shall complete data deletion, including deletion of copies, within 30 days after the end of that period or of the services, in accordance with Article 5(1)(e) GDPR.",
+    references: ['GDPR Article 5(1)(e)']
+  },
+  {
+    title: 'International Transfers (GDPR)',
+    category: 'CROSS_BORDER_TRANSFER',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-cross-border'],
+    content: 'The Processor shall make an international transfer of personal data only to a country covered by an adequacy decision or under standard contractual clauses, shall carry out a transfer impact assessment before each new transfer, and shall inform the Controller within 10 days of any new transfer, in accordance with Chapter V GDPR.',
+    references: ['GDPR Articles 44-49']
+  },
+  {
+    title: 'International Transfers (UK GDPR)',
+    category: 'CROSS_BORDER_TRANSFER',
+    jurisdiction: 'UK',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-cross-border'],
+    content: 'The Processor shall make an international transfer of personal data only to a country covered by UK adequacy regulations, or under the International Data Transfer Agreement or the UK Addendum to the standard contractual clauses, and shall inform the Controller within 10 days of any new transfer, in accordance with Chapter V UK GDPR.',
+    references: ['UK GDPR Articles 44-49', 'Data Protection Act 2018 s.119A']
+  },
+  {
+    title: 'Breach Notification (GDPR)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['GDPR'],
+    ruleIds: ['gdpr-breach-notification'],
+    content: 'The Processor shall notify the Controller of any personal data breach without undue delay and in any event within 24 hours of becoming aware of it, and shall provide the information the Controller needs to notify the supervisory authority within 72 hours, in accordance with Article 33 GDPR.',
+    references: ['GDPR Articles 33-34']
+  },
+  // HIPAA
+  {
+    title: 'Protection of PHI',
+    category: 'HEALTHCARE_PRIVACY',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['HIPAA'],
+    ruleIds: ['hipaa-phi-protection'],
+    content: 'The Business Associate shall protect all protected health information it creates, receives, maintains or transmits with administrative, physical and technical safeguards that comply with the HIPAA Security Rule, and shall review those safeguards at least annually, in accordance with 45 CFR Part 164, Subpart C.',
+    references: ['45 CFR Part 164, Subpart C']
+  },
+  {
+    title: 'Business Associate Obligations',
+    category: 'HEALTHCARE_PRIVACY',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['HIPAA'],
+    ruleIds: ['hipaa-baa-requirement'],
+    content: 'The Business Associate shall comply with the obligations of a business associate under HIPAA, shall use and disclose protected health information only as permitted by this Agreement, and shall return or destroy it within 30 days after termination, in accordance with 45 CFR 164.504(e).',
+    references: ['45 CFR 164.504(e)']
+  },
+  {
+    title: 'Minimum Necessary (HIPAA)',
+    category: 'HEALTHCARE_PRIVACY',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['HIPAA'],
+    ruleIds: ['hipaa-minimum-necessary'],
+    content: 'The Business Associate shall limit each use, disclosure and request of protected health information to the minimum necessary to perform the services and shall review workforce access rights every 90 days, in accordance with 45 CFR 164.502(b).',
+    references: ['45 CFR 164.502(b)']
+  },
+  {
+    title: 'Breach Notification (HIPAA)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['HIPAA'],
+    ruleIds: ['hipaa-breach-notification'],
+    content: 'The Business Associate shall report any breach of unsecured protected health information to the Covered Entity without unreasonable delay and in any event within 30 days after discovery of the breach, with the information required by 45 CFR 164.410.',
+    references: ['45 CFR 164.410']
+  },
+  // SOX
+  {
+    title: 'Internal Controls (SOX)',
+    category: 'FINANCIAL_REPORTING',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['SOX'],
+    ruleIds: ['sox-financial-reporting'],
+    content: 'The Service Provider shall maintain internal controls over financial reporting for the services, shall test them at least quarterly, and shall provide its SOC 1 Type II report to the Company annually, in accordance with Section 404 of the Sarbanes-Oxley Act.',
+    references: ['Sarbanes-Oxley Act Section 404']
+  },
+  {
+    title: 'Audit Requirements (SOX)',
+    category: 'AUDIT_COMPLIANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['SOX'],
+    ruleIds: ['sox-audit-requirements'],
+    content: "The Service Provider shall support internal audit and external audit of the services, shall give the Company and its auditors access to relevant records and personnel within 10 business days of a request, and shall maintain an audit trail of all transactions processed for the Company.",
+    references: ['Sarbanes-Oxley Act Sections 302 and 404']
+  },
+  {
+    title: 'Record Keeping (SOX)',
+    category: 'AUDIT_COMPLIANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['SOX'],
+    ruleIds: ['sox-documentation'],
+    content: "The Service Provider shall keep supporting documents and other evidence for each transaction processed for the Company, shall meet the record keeping requirements of the Company's internal controls, and shall retain those records for at least 7 years.",
+    references: ['Sarbanes-Oxley Act Section 802']
+  },
+  // CCPA
+  {
+    title: 'Consumer Rights (CCPA)',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['CCPA'],
+    ruleIds: ['ccpa-consumer-rights'],
+    content: 'The Service Provider shall help the Business respond to verifiable consumer requests to know, delete and correct personal information and to opt-out of its sale or sharing within 10 business days of a request, and shall process personal information only for the business purposes in this Agreement, in accordance with the CCPA.',
+    references: ['Cal. Civ. Code 1798.100-1798.135']
+  },
+  {
+    title: 'Information Practices Disclosure (CCPA)',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['CCPA'],
+    ruleIds: ['ccpa-disclosure'],
+    content: 'The Service Provider shall give the Business a written disclosure of its data collection and information practices for the services within 30 days of the Effective Date and shall update it within 30 days of any material change, so that the Business can keep its privacy notice accurate.',
+    references: ['Cal. Civ. Code 1798.100']
+  },
+  // PIPEDA
+  {
+    title: 'Meaningful Consent (PIPEDA)',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-meaningful-consent'],
+    content: 'The Organization shall obtain meaningful consent before collecting, using or disclosing personal information, shall obtain express consent for sensitive information, and shall let individuals withdraw their consent on reasonable notice, giving effect to the withdrawal within 30 days, in accordance with Principle 4.3 of PIPEDA.',
+    references: ['PIPEDA Schedule 1, Principle 4.3']
+  },
+  {
+    title: 'Meaningful Consent (Quebec)',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'CA-QC',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-meaningful-consent'],
+    content: 'The Organization shall obtain express consent, requested separately from any other information, before using sensitive personal information, shall obtain meaningful consent for every other collection, use or disclosure of personal information, and shall act on a withdrawal of consent within 30 days, in accordance with Principle 4.3 of PIPEDA and sections 12 and 14 of the Quebec Private Sector Act.',
+    references: ['PIPEDA Schedule 1, Principle 4.3', 'Act respecting the protection of personal information in the private sector, ss. 12 and 14']
+  },
+  {
+    title: 'Privacy Officer (PIPEDA)',
+    category: 'AUDIT_COMPLIANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-accountability-officer'],
+    content: "The Organization shall designate a privacy officer who is accountable for compliance with the fair information principles and shall give the officer's name and contact details to the other party within 10 days of the Effective Date, in accordance with Principle 4.1 of PIPEDA.",
+    references: ['PIPEDA Schedule 1, Principle 4.1']
+  },
+  {
+    title: 'Breach Reporting (PIPEDA)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-breach-reporting'],
+    content: 'The Organization shall report any breach of security safeguards that creates a real risk of significant harm to the Privacy Commissioner and to affected individuals as soon as feasible after determining that the breach occurred, and shall keep a breach record of every breach for at least 24 months, in accordance with section 10.1 of PIPEDA.',
+    references: ['PIPEDA ss. 10.1-10.3', 'Breach of Security Safeguards Regulations']
+  },
+  {
+    title: 'Transfers for Processing (PIPEDA)',
+    category: 'CROSS_BORDER_TRANSFER',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-cross-border-processing'],
+    content: 'The Service Provider shall process personal information transferred to it for processing, including any processing outside Canada, only under contractual protections that provide a comparable level of protection, and shall notify the Organization within 10 days of any change in the location of processing, in accordance with Principle 4.1.3 of PIPEDA.',
+    references: ['PIPEDA Schedule 1, Principle 4.1.3']
+  },
+  {
+    title: 'Individual Access (PIPEDA)',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PIPEDA'],
+    ruleIds: ['pipeda-individual-access'],
+    content: 'The Organization shall respond to requests for individual access and correction of personal information within 30 days of receipt, and shall maintain a process for individuals to challenge compliance and file privacy complaints, in accordance with Principles 4.9 and 4.10 of PIPEDA.',
+    references: ['PIPEDA Schedule 1, Principles 4.9 and 4.10']
+  },
+  // LGPD
+  {
+    title: 'Legal Basis and Consent (LGPD)',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['LGPD'],
+    ruleIds: ['lgpd-legal-basis-consent'],
+    content: 'The Controller shall identify the legal basis under Article 7 of the LGPD for each processing activity and, where processing relies on consent, shall obtain free, informed and unambiguous consent before processing starts and shall keep a record of it for at least 5 years.',
+    references: ['LGPD Articles 7-8']
+  },
+  {
+    title: 'Encarregado (LGPD)',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['LGPD'],
+    ruleIds: ['lgpd-encarregado'],
+    content: "The Controller shall appoint an encarregado (data protection officer) responsible for communication with data subjects and the ANPD, and shall publish the encarregado's identity and contact details within 10 days of the Effective Date, in accordance with Article 41 of the LGPD.",
+    references: ['LGPD Article 41']
+  },
+  {
+    title: 'Security Incidents (LGPD)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['LGPD'],
+    ruleIds: ['lgpd-anpd-breach-reporting'],
+    content: 'The Processor shall notify the Controller of any security incident that may cause relevant risk or damage to data subjects within 1 business day, so that the Controller can report it to the ANPD and the affected data subjects within 3 business days, in accordance with Article 48 of the LGPD and CD/ANPD Resolution 15/2024.',
+    references: ['LGPD Article 48', 'CD/ANPD Resolution 15/2024']
+  },
+  {
+    title: 'International Transfers (LGPD)',
+    category: 'CROSS_BORDER_TRANSFER',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['LGPD'],
+    ruleIds: ['lgpd-international-transfer'],
+    content: 'The Processor shall carry out an international data transfer only to a country with an adequate level of data protection recognised by the ANPD or under the ANPD standard contractual clauses, and shall inform the Controller within 5 days of any new transfer, in accordance with Article 33 of the LGPD.',
+    references: ['LGPD Article 33', 'CD/ANPD Resolution 19/2024']
+  },
+  {
+    title: 'Data Subject Rights (LGPD)',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['LGPD'],
+    ruleIds: ['lgpd-data-subject-rights'],
+    content: 'The Processor shall assist the Controller with data subject rights requests, including confirmation of the existence of processing, access, correction, anonymization, blocking or deletion, portability and information about sharing, within 15 days of a request, in accordance with Article 18 of the LGPD.',
+    references: ['LGPD Article 18']
+  },
+  // ISO 27001
+  {
+    title: 'Information Security Policy',
+    category: 'SECURITY_REQUIREMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['ISO27001'],
+    ruleIds: ['iso27001-security-policy'],
+    content: 'The Supplier shall maintain an information security management system certified to ISO 27001, shall review its information security policy and security controls at least annually, and shall provide its current certificate to the Customer within 30 days of each renewal.',
+    references: ['ISO/IEC 27001:2022 clause 5.2', 'Annex A 5.1']
+  },
+  {
+    title: 'Risk Assessment (ISO 27001)',
+    category: 'SECURITY_REQUIREMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['ISO27001'],
+    ruleIds: ['iso27001-risk-assessment'],
+    content: 'The Supplier shall perform an information security risk assessment of the services at least annually and after any significant change, shall treat the risks identified, and shall share a summary of the results with the Customer within 15 days, in accordance with ISO 27001 clause 6.1.',
+    references: ['ISO/IEC 27001:2022 clauses 6.1 and 8.2']
+  },
+  {
+    title: 'Incident Management (ISO 27001)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['ISO27001'],
+    ruleIds: ['iso27001-incident-management'],
+    content: 'The Supplier shall report any information security incident affecting the Customer within 24 hours of detection, shall manage it under a documented incident management procedure, and shall share the root cause and lessons learned within 30 days, in accordance with ISO 27001 Annex A 5.24 to 5.28.',
+    references: ['ISO/IEC 27001:2022 Annex A 5.24-5.28']
+  },
+  // SOC 2
+  {
+    title: 'Service Availability',
+    category: 'SERVICE_LEVEL_AGREEMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['SOC2'],
+    ruleIds: ['soc2-availability'],
+    content: 'The Provider shall maintain service availability of at least 99.9% in each calendar month, measured as uptime of the production service, and shall report availability to the Customer within 5 business days after each month end.',
+    references: ['SOC 2 Trust Services Criteria A1']
+  },
+  {
+    title: 'Confidentiality Controls',
+    category: 'CONFIDENTIALITY',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['SOC2'],
+    ruleIds: ['soc2-confidentiality'],
+    content: 'The Provider shall protect Customer Data with encryption in transit and at rest and with role-based access controls, and shall deliver its current SOC 2 Type II report to the Customer annually.',
+    references: ['SOC 2 Trust Services Criteria C1']
+  },
+  // PCI DSS
+  {
+    title: 'Cardholder Data Protection',
+    category: 'SECURITY_REQUIREMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PCI-DSS'],
+    ruleIds: ['pci-dss-card-data'],
+    content: 'The Processor shall protect all cardholder data it stores, processes or transmits in accordance with the current version of PCI DSS and shall deliver its attestation of compliance to the Merchant within 30 days of each annual assessment.',
+    references: ['PCI DSS v4.0 Requirement 12.8']
+  },
+  {
+    title: 'Encryption of Card Data',
+    category: 'SECURITY_REQUIREMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['PCI-DSS'],
+    ruleIds: ['pci-dss-encryption'],
+    content: 'The Processor shall keep stored cardholder data encrypted with strong cryptographic algorithms, shall use secure transmission protocols over public networks, and shall rotate its encryption keys at least every 12 months, in accordance with PCI DSS Requirements 3 and 4.',
+    references: ['PCI DSS v4.0 Requirements 3 and 4']
+  },
+  // EU AI Act
+  {
+    title: 'AI Risk Classification',
+    category: 'AI_GOVERNANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['EU_AI_ACT'],
+    ruleIds: ['ai-act-risk-classification'],
+    content: 'The Provider shall document the risk classification of the AI system, including whether it is a high-risk AI system under Annex III, shall confirm in writing that the system involves none of the prohibited AI practices in Article 5, and shall notify the Deployer within 10 days of any change to the classification.',
+    references: ['AI Act Articles 5-6', 'Annex III']
+  },
+  {
+    title: 'Human Oversight',
+    category: 'AI_GOVERNANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['EU_AI_ACT'],
+    ruleIds: ['ai-act-human-oversight'],
+    content: "The Provider shall design the AI system for effective human oversight, so that the Deployer's staff can monitor its operation, override the output and interrupt the system at any time, and shall train the Deployer's staff within 30 days of delivery, in accordance with Article 14 of the AI Act.",
+    references: ['AI Act Article 14']
+  },
+  {
+    title: 'Data Governance and Logging',
+    category: 'AI_GOVERNANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['EU_AI_ACT'],
+    ruleIds: ['ai-act-data-governance'],
+    content: 'The Provider shall apply data governance practices to training, validation and testing data, including examination for possible biases, shall enable automatic logging of events, and shall deliver up-to-date technical documentation within 15 days of the Effective Date, in accordance with Articles 10 to 12 of the AI Act.',
+    references: ['AI Act Articles 10-12']
+  },
+  {
+    title: 'AI Transparency',
+    category: 'AI_GOVERNANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['EU_AI_ACT'],
+    ruleIds: ['ai-act-transparency'],
+    content: 'The Provider shall supply instructions for use with each release, shall inform people when they are interacting with an AI system, and shall mark AI-generated content in a machine-readable format within 5 days of release, in accordance with Articles 13 and 50 of the AI Act.',
+    references: ['AI Act Articles 13 and 50']
+  },
+  {
+    title: 'Serious Incidents (AI Act)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['EU_AI_ACT'],
+    ruleIds: ['ai-act-serious-incidents'],
+    content: 'The Provider shall operate post-market monitoring of the AI system, shall report any serious incident to the market surveillance authority within 15 days of becoming aware of it, and shall take any corrective action required, in accordance with Articles 72 and 73 of the AI Act.',
+    references: ['AI Act Articles 72-73']
+  },
+  // DORA
+  {
+    title: 'ICT Services and Service Levels',
+    category: 'OPERATIONAL_RESILIENCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-ict-service-description'],
+    content: 'The ICT third-party service provider shall describe each of the ICT services and the functions they support in a schedule, shall meet the quantitative service levels stated there, shall identify the locations where data is processed, and shall notify the Financial Entity at least 30 days before any change to those locations, in accordance with Article 30 of DORA.',
+    references: ['DORA Article 30(2)(a)-(e)']
+  },
+  {
+    title: 'ICT Incident Assistance',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-incident-assistance'],
+    content: 'The Provider shall assist the Financial Entity with any ICT-related incident affecting the services within 4 hours of a request and shall deliver an incident report within 5 business days, in accordance with Article 30(2)(g) of DORA.',
+    references: ['DORA Article 30(2)(g)']
+  },
+  {
+    title: 'Access, Inspection and Audit',
+    category: 'AUDIT_COMPLIANCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-audit-access'],
+    content: 'The Provider shall grant the Financial Entity, its auditors and any competent authority unrestricted rights of access, inspection and audit, including on-site inspections on 10 business days\' notice, in accordance with Article 30(3)(e) of DORA.',
+    references: ['DORA Article 30(3)(e)']
+  },
+  {
+    title: 'Exit Strategy',
+    category: 'TERMINATION_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-exit-strategy'],
+    content: 'The Provider shall maintain a tested exit plan, shall support an orderly transfer of the services to the Financial Entity or a new provider during a transition period of at least 12 months after termination, and shall continue to perform the services during that period, in accordance with Article 30(3)(f) of DORA.',
+    references: ['DORA Articles 28(8) and 30(3)(f)']
+  },
+  {
+    title: 'Subcontracting of ICT Services',
+    category: 'THIRD_PARTY_SHARING',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-subcontracting'],
+    content: "The Provider shall subcontract critical or important functions only with the Financial Entity's prior written approval, shall remain responsible for each subcontractor, and shall notify the Financial Entity at least 30 days before any change to the chain of subcontractors, in accordance with Article 30(2)(a) of DORA.",
+    references: ['DORA Article 30(2)(a)', 'Commission Delegated Regulation (EU) 2025/532']
+  },
+  {
+    title: 'Resilience Testing',
+    category: 'OPERATIONAL_RESILIENCE',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['DORA'],
+    ruleIds: ['dora-resilience-testing'],
+    content: "The Provider shall take part in the Financial Entity's digital operational resilience testing, including threat-led penetration testing, and shall test its business continuity plans at least annually, sharing the results within 30 days, in accordance with Articles 24 to 26 of DORA.",
+    references: ['DORA Articles 24-26']
+  },
+  // NIS2
+  {
+    title: 'Incident Reporting (NIS2)',
+    category: 'BREACH_NOTIFICATION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['NIS2'],
+    ruleIds: ['nis2-incident-reporting'],
+    content: 'The Supplier shall notify the Customer of any significant incident within 12 hours of becoming aware of it, so that the Customer can send an early warning to the CSIRT within 24 hours, and shall provide the information the Customer needs for its incident notification and final report, in accordance with Article 23 of NIS2.',
+    references: ['NIS2 Article 23']
+  },
+  {
+    title: 'Supply Chain Security',
+    category: 'SUPPLY_CHAIN_SECURITY',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['NIS2'],
+    ruleIds: ['nis2-supply-chain-security'],
+    content: 'The Supplier shall follow secure development practices, shall maintain vulnerability handling and coordinated vulnerability disclosure procedures, and shall inform the Customer of any vulnerability affecting the services within 5 days, as part of the supply chain security measures required by Article 21 of NIS2.',
+    references: ['NIS2 Article 21(2)(d)-(e)']
+  },
+  {
+    title: 'Cybersecurity Risk-Management Measures',
+    category: 'SECURITY_REQUIREMENTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['NIS2'],
+    ruleIds: ['nis2-risk-management-measures'],
+    content: 'The Supplier shall implement appropriate cybersecurity risk-management measures, including multi-factor authentication, encryption, cyber hygiene training, business continuity and crisis management, and shall review them at least annually, in accordance with Article 21 of NIS2.',
+    references: ['NIS2 Article 21']
+  },
+  // US state privacy laws
+  {
+    title: 'Processor Obligations',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['VCDPA', 'CPA', 'TDPSA'],
+    ruleIds: ['vcdpa-processor-contract', 'cpa-processor-contract', 'tdpsa-processor-contract'],
+    content: `${PROCESSOR_OBLIGATIONS}.`,
+    references: ['Va. Code § 59.1-579', 'C.R.S. 6-1-1305', 'Tex. Bus. & Com. Code § 541.104']
+  },
+  {
+    title: 'Processor Obligations (Virginia)',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'US-VA',
+    frameworks: ['VCDPA'],
+    ruleIds: ['vcdpa-processor-contract'],
+    content: `${PROCESSOR_OBLIGATIONS}, in accordance with Va. Code § 59.1-579.`,
+    references: ['Va. Code § 59.1-579']
+  },
+  {
+    title: 'Processor Obligations (Colorado)',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'US-CO',
+    frameworks: ['CPA'],
+    ruleIds: ['cpa-processor-contract'],
+    content: `${PROCESSOR_OBLIGATIONS}, in accordance with C.R.S. 6-1-1305.`,
+    references: ['C.R.S. 6-1-1305']
+  },
+  {
+    title: 'Processor Obligations (Texas)',
+    category: 'DATA_PROTECTION',
+    jurisdiction: 'US-TX',
+    frameworks: ['TDPSA'],
+    ruleIds: ['tdpsa-processor-contract'],
+    content: `${PROCESSOR_OBLIGATIONS}, in accordance with Tex. Bus. & Com. Code § 541.104.`,
+    references: ['Tex. Bus. & Com. Code § 541.104']
+  },
+  {
+    title: 'Consumer Rights Requests',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['VCDPA', 'CPA', 'TDPSA'],
+    ruleIds: ['vcdpa-consumer-rights', 'cpa-consumer-rights', 'tdpsa-consumer-rights'],
+    content: 'The Processor shall help the Controller respond to consumer requests to access, correct, delete and obtain a portable copy of personal data and to opt out of targeted advertising, the sale of personal data and profiling in furtherance of decisions with legal effects, and shall support the appeal process within 45 days of a request.',
+    references: ['Va. Code § 59.1-577', 'C.R.S. 6-1-1306', 'Tex. Bus. & Com. Code § 541.051']
+  },
+  {
+    title: 'Sensitive Data Consent',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['VCDPA', 'CPA', 'TDPSA'],
+    ruleIds: ['vcdpa-sensitive-data', 'cpa-sensitive-data', 'tdpsa-sensitive-data'],
+    content: "The Processor shall process sensitive data only with the consumer's consent obtained by the Controller, shall process personal data of a known child only in accordance with COPPA, and shall provide the consent records to the Controller within 10 days of a request.",
+    references: ['Va. Code § 59.1-578(A)(5)', 'C.R.S. 6-1-1308(7)', 'Tex. Bus. & Com. Code § 541.101(b)(4)']
+  },
+  {
+    title: 'Universal Opt-Out Mechanisms',
+    category: 'CONSUMER_RIGHTS',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['CPA'],
+    ruleIds: ['cpa-universal-opt-out'],
+    content: 'The Controller shall honor any universal opt-out mechanism that meets the Colorado Privacy Act rules, such as the Global Privacy Control, as a request to opt out of targeted advertising and the sale of personal data, and shall apply it within 15 days of its recognition, in accordance with C.R.S. 6-1-1306(1)(a)(IV).',
+    references: ['C.R.S. 6-1-1306(1)(a)(IV)', '4 CCR 904-3, Part 5']
+  },
+  {
+    title: 'Sensitive Data Sale Notice (Texas)',
+    category: 'CONSENT_MANAGEMENT',
+    jurisdiction: 'GLOBAL',
+    frameworks: ['TDPSA'],
+    ruleIds: ['tdpsa-sensitive-data-sale-notice'],
+    content: 'Where the Controller sells sensitive personal data, the Controller shall post the notice "NOTICE: We may sell your sensitive personal data." in its privacy notice within 10 days of the first sale, in accordance with Tex. Bus. & Com. Code § 541.102.',
+    references: ['Tex. Bus. & Com. Code § 541.102']
+  }
+];
+
+/**
+ * Approved clauses that satisfy the built-in compliance rules. Each rule has at least one;
+ * jurisdiction-specific variants are preferred where they apply.
+ */
+export const COMPLIANCE_CLAUSE_TEMPLATES = REMEDIATION_CLAUSES.map(remediationClause);
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { ComplianceConfiguration } from '@/types/compliance';
+import { validateRiskThresholds } from './compliance-configuration';
+import { fromStoredJson, toStoredJson } from './compliance-serialization';
+
+type ComplianceConfigurationRow = Tables<'compliance_configurations'>;
+
+// client_id of the configuration used for contracts without a client of their own
+const DEFAULT_CLIENT_ID = '';
+
+/**
+ * Stores compliance configurations in Supabase, one per client plus a default
+ */
+export class ComplianceConfigurationStore {
+  /**
+   * Save a configuration, replacing the one stored for the same client
+   */
+  async save(userId: string, configuration: ComplianceConfiguration): Promise<ComplianceConfiguration> {
+    const errors = validateRiskThresholds(configuration.riskThresholds);
+    if (errors.length > 0) {
+      throw new Error(`Invalid risk thresholds: ${errors.join('; ')}`);
+    }
+
+    const { data, error } = await supabase
+      .from('compliance_configurations')
+      .upsert(
+        {
+          user_id: userId,
+          client_id: configuration.clientId?.trim() || DEFAULT_CLIENT_ID,
+          configuration: toStoredJson({ ...configuration, updatedAt: new Date() })
+        },
+        { onConflict: 'user_id,client_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toConfiguration(data);
+  }
+
+  /**
+   * Set the secret that webhook notifications for a client are signed with, or remove it with an
+   * empty secret. It is kept out of the configuration and can't be read back.
+   */
+  async saveWebhookSecret(clientId: string | undefined, secret: string): Promise<void> {
+    const { error } = await supabase.rpc('set_compliance_webhook_secret', {
+      _client_id: clientId?.trim() || DEFAULT_CLIENT_ID,
+      _secret: secret
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * The configuration saved for a client, or the default one when no client is given
+   */
+  async load(userId: string, clientId?: string): Promise<ComplianceConfiguration | undefined> {
+    const { data, error } = await supabase
+      .from('compliance_configurations')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('client_id', clientId?.trim() || DEFAULT_CLIENT_ID)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toConfiguration(data) : undefined;
+  }
+
+  /**
+   * Every configuration the user has saved
+   */
+  async list(userId: string): Promise<ComplianceConfiguration[]> {
+    const { data, error } = await supabase
+      .from('compliance_configurations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('client_id', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toConfiguration);
+  }
+}
+
+function toConfiguration(row: ComplianceConfigurationRow): ComplianceConfiguration {
+  return {
+    ...fromStoredJson<ComplianceConfiguration>(row.configuration),
+    id: row.id,
+    clientId: row.client_id || undefined
+  };
+}
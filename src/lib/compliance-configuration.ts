@@ -0,0 +1,51 @@
+import { ComplianceConfiguration, RiskLevel } from '@/types/compliance';
+import { DEFAULT_RISK_THRESHOLDS } from './compliance-frameworks';
+
+/**
+ * Configuration used until one is saved, optionally for a specific client
+ */
+export function createDefaultConfiguration(clientId?: string): ComplianceConfiguration {
+  const now = new Date();
+
+  return {
+    id: '',
+    clientId,
+    jurisdiction: 'US',
+    frameworks: ['GDPR', 'HIPAA', 'SOX'],
+    customRules: [],
+    riskThresholds: { ...DEFAULT_RISK_THRESHOLDS },
+    autoTaggingEnabled: true,
+    notificationSettings: {
+      email: true,
+      slack: false,
+      minimumRiskLevel: 'HIGH'
+    },
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Problems with a set of risk thresholds, empty when they can be used.
+ * Thresholds are minimum scores, so they must fall from LOW to HIGH; CRITICAL is whatever is below HIGH.
+ */
+export function validateRiskThresholds(thresholds: Record<RiskLevel, number>): string[] {
+  const errors: string[] = [];
+
+  for (const level of ['LOW', 'MEDIUM', 'HIGH'] as RiskLevel[]) {
+    const value = thresholds[level];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+      errors.push(`${level} threshold must be between 0 and 100`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  if (thresholds.LOW <= thresholds.MEDIUM) {
+    errors.push('LOW threshold must be higher than MEDIUM');
+  }
+  if (thresholds.MEDIUM <= thresholds.HIGH) {
+    errors.push('MEDIUM threshold must be higher than HIGH');
+  }
+
+  return errors;
+}
@@ -0,0 +1,224 @@
+import {
+  ComplianceControl,
+  ComplianceFramework,
+  ComplianceObligation,
+  ContractComplianceAnalysis,
+  FrameworkGap,
+  ObligationSummary
+} from '@/types/compliance';
+
+/**
+ * Registry of controls: obligations that several frameworks require in equivalent rules.
+ * Each rule belongs to at most one control.
+ */
+export class ComplianceControlRegistry {
+  private controls: Map<string, ComplianceControl> = new Map();
+  private controlByRule: Map<string, string> = new Map();
+
+  /**
+   * Register a control, replacing any existing control with the same id
+   */
+  register(control: ComplianceControl): void {
+    if (!control.id.trim()) {
+      throw new Error('Control id is required');
+    }
+    const mappedRule = control.ruleIds.find(ruleId => {
+      const owner = this.controlByRule.get(ruleId);
+      return owner !== undefined && owner !== control.id;
+    });
+    if (mappedRule) {
+      throw new Error(`Rule ${mappedRule} is already mapped to control ${this.controlByRule.get(mappedRule)}`);
+    }
+
+    this.controls.get(control.id)?.ruleIds.forEach(ruleId => this.controlByRule.delete(ruleId));
+    this.controls.set(control.id, control);
+    control.ruleIds.forEach(ruleId => this.controlByRule.set(ruleId, control.id));
+  }
+
+  get(id: string): ComplianceControl | undefined {
+    return this.controls.get(id);
+  }
+
+  list(): ComplianceControl[] {
+    return Array.from(this.controls.values());
+  }
+
+  getControlForRule(ruleId: string): ComplianceControl | undefined {
+    const controlId = this.controlByRule.get(ruleId);
+    return controlId ? this.controls.get(controlId) : undefined;
+  }
+
+  /**
+   * Group an analysis by control: one obligation per control with the frameworks it satisfies and
+   * the framework-specific gaps that remain. Violations of unmapped rules are returned separately.
+   */
+  summarize(analysis: ContractComplianceAnalysis): ObligationSummary {
+    const obligations = new Map<string, ComplianceObligation>();
+
+    for (const score of analysis.frameworks) {
+      // Analyses saved before evidence was recorded only show the rules that were violated
+      const evaluatedRuleIds = score.evidence
+        ? score.evidence.map(entry => entry.ruleId)
+        : [...new Set(score.violations.map(violation => violation.ruleId))];
+
+      for (const ruleId of evaluatedRuleIds) {
+        const control = this.getControlForRule(ruleId);
+        if (!control) continue;
+
+        const obligation = obligations.get(control.id) ?? {
+          control,
+          frameworks: [],
+          satisfiedFrameworks: [],
+          gaps: [],
+          status: 'MET'
+        };
+        const violations = score.violations.filter(violation => violation.ruleId === ruleId);
+
+        addOnce(obligation.frameworks, score.framework);
+        if (violations.length === 0) {
+          addOnce(obligation.satisfiedFrameworks, score.framework);
+        } else {
+          obligation.gaps.push({ framework: score.framework, ruleId, violations });
+        }
+        obligations.set(control.id, obligation);
+      }
+    }
+
+    const summarized = [...obligations.values()].map(obligation => {
+      // A framework with two mapped rules may satisfy one and not the other
+      const satisfiedFrameworks = obligation.satisfiedFrameworks.filter(framework =>
+        !obligation.gaps.some(gap => gap.framework === framework)
+      );
+      return {
+        ...obligation,
+        satisfiedFrameworks,
+        sharedViolationType: getSharedViolationType(obligation.gaps),
+        status: obligation.gaps.length === 0 ? 'MET' : satisfiedFrameworks.length > 0 ? 'PARTIAL' : 'UNMET'
+      } as ComplianceObligation;
+    });
+
+    return {
+      obligations: summarized,
+      unmappedViolations: analysis.frameworks
+        .flatMap(score => score.violations)
+        .filter(violation => !this.controlByRule.has(violation.ruleId))
+    };
+  }
+}
+
+function addOnce(frameworks: ComplianceFramework[], framework: ComplianceFramework): void {
+  if (!frameworks.includes(framework)) frameworks.push(framework);
+}
+
+function getSharedViolationType(gaps: FrameworkGap[]): ComplianceObligation['sharedViolationType'] {
+  const violations = gaps.flatMap(gap => gap.violations);
+  const types = new Set(violations.map(violation => violation.violationType));
+  return gaps.length > 1 && violations.length === gaps.length && types.size === 1 ? violations[0].violationType : undefined;
+}
+
+export const controlRegistry = new ComplianceControlRegistry();
+
+[
+  {
+    id: 'incident-notification',
+    name: 'Incident and Breach Notification',
+    description: 'Report security incidents and personal data breaches to the other party and the regulator within a set time',
+    ruleIds: [
+      'gdpr-breach-notification',
+      'hipaa-breach-notification',
+      'iso27001-incident-management',
+      'pipeda-breach-reporting',
+      'lgpd-anpd-breach-reporting',
+      'nis2-incident-reporting',
+      'dora-incident-assistance',
+      'ai-act-serious-incidents'
+    ]
+  },
+  {
+    id: 'individual-rights',
+    name: 'Individual Rights Requests',
+    description: 'Support access, correction, deletion, portability and opt-out requests from individuals',
+    ruleIds: [
+      'gdpr-data-subject-rights',
+      'lgpd-data-subject-rights',
+      'pipeda-individual-access',
+      'ccpa-consumer-rights',
+      'vcdpa-consumer-rights',
+      'cpa-consumer-rights',
+      'tdpsa-consumer-rights'
+    ]
+  },
+  {
+    id: 'lawful-basis-consent',
+    name: 'Lawful Basis and Consent',
+    description: 'Establish a legal basis for processing and obtain valid consent where it is required',
+    ruleIds: ['gdpr-lawful-basis', 'lgpd-legal-basis-consent', 'pipeda-meaningful-consent']
+  },
+  {
+    id: 'sensitive-data-consent',
+    name: 'Sensitive Data Consent',
+    description: 'Process sensitive personal data only with the individual\'s consent',
+    ruleIds: ['vcdpa-sensitive-data', 'cpa-sensitive-data', 'tdpsa-sensitive-data']
+  },
+  {
+    id: 'processor-terms',
+    name: 'Processor Contract Terms',
+    description: 'Bind the processor to instructions, confidentiality, deletion or return, assessments and flow-down to subcontractors',
+    ruleIds: ['vcdpa-processor-contract', 'cpa-processor-contract', 'tdpsa-processor-contract']
+  },
+  {
+    id: 'international-transfers',
+    name: 'International Data Transfers',
+    description: 'Protect personal data transferred or processed outside the jurisdiction',
+    ruleIds: ['gdpr-cross-border', 'lgpd-international-transfer', 'pipeda-cross-border-processing']
+  },
+  {
+    id: 'privacy-officer',
+    name: 'Privacy Officer',
+    description: 'Name a person accountable for data protection compliance',
+    ruleIds: ['pipeda-accountability-officer', 'lgpd-encarregado']
+  },
+  {
+    id: 'security-program',
+    name: 'Security Program',
+    description: 'Maintain a documented information security and cyber risk-management program',
+    ruleIds: ['iso27001-security-policy', 'nis2-risk-management-measures']
+  },
+  {
+    id: 'regulated-data-protection',
+    name: 'Regulated Data Protection',
+    description: 'Safeguard regulated data such as health records and cardholder data',
+    ruleIds: ['hipaa-phi-protection', 'pci-dss-card-data']
+  },
+  {
+    id: 'encryption-access-control',
+    name: 'Encryption and Access Control',
+    description: 'Encrypt data and restrict access to it',
+    ruleIds: ['pci-dss-encryption', 'soc2-confidentiality']
+  },
+  {
+    id: 'risk-assessment-testing',
+    name: 'Risk Assessment and Testing',
+    description: 'Assess risks and test resilience on a regular schedule',
+    ruleIds: ['iso27001-risk-assessment', 'dora-resilience-testing']
+  },
+  {
+    id: 'audit-rights',
+    name: 'Audit Rights',
+    description: 'Allow the customer, its auditors and regulators to audit the services',
+    ruleIds: ['sox-audit-requirements', 'dora-audit-access']
+  },
+  {
+    id: 'supply-chain',
+    name: 'Subcontractors and Supply Chain',
+    description: 'Control subcontracting and the security of the supply chain',
+    ruleIds: ['dora-subcontracting', 'nis2-supply-chain-security']
+  }
+].forEach(control => controlRegistry.register(control));
+
+/**
+ * Register an additional control with the shared registry, e.g. to map a custom rule
+ */
+export function registerControl(control: ComplianceControl): void {
+  controlRegistry.register(control);
+}
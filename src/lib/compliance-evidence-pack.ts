@@ -0,0 +1,307 @@
+import {
+  ComplianceAnalysisRecord,
+  ComplianceEvidencePack,
+  ComplianceFramework,
+  ComplianceRule,
+  ComplianceViolation,
+  ContractComplianceAnalysis,
+  EvidencePackFile,
+  EvidencePackManifest,
+  RuleEvidence,
+  ViolationLocation
+} from '@/types/compliance';
+import { getRuleVersion, toStoredJson } from './compliance-serialization';
+import { PdfWriter } from './pdf-writer';
+import { sha256 } from './sha256';
+
+const FORMAT_VERSION = 1;
+const REPORT_PATH = 'report.pdf';
+// Evidence quotes in the PDF are cut to this length; the JSON bundle keeps the full text
+const MAX_QUOTE_LENGTH = 300;
+
+type EvidenceStatus = 'SATISFIED' | 'VIOLATED' | 'NOT_ADDRESSED';
+
+interface RuleEvidenceEntry extends RuleEvidence {
+  framework: ComplianceFramework;
+  status: EvidenceStatus;
+  violationIds: string[];
+}
+
+interface ReviewEntry {
+  version?: number;
+  analyzedAt: Date;
+  analyzedBy?: string;
+  overallComplianceScore: number | null;
+  overallRiskLevel: string | null;
+}
+
+export interface EvidencePackOptions {
+  generatedBy: string;
+  generatedAt?: Date;
+  rules?: ComplianceRule[]; // current rule definitions, to report rules changed since the analysis
+  history?: ComplianceAnalysisRecord[]; // this contract's versions, oldest first, with diffs
+}
+
+/**
+ * Build an audit package for an analysis: the rules evaluated and their versions, the contract text
+ * matched for each rule, open and resolved violations, and who reviewed the contract and when.
+ * The JSON files are listed in a manifest with their SHA-256 hashes; the PDF report prints the same hashes.
+ */
+export function buildEvidencePack(
+  analysis: ContractComplianceAnalysis,
+  options: EvidencePackOptions
+): ComplianceEvidencePack {
+  const generatedAt = options.generatedAt ?? new Date();
+  // Only versions up to this analysis count; later ones didn't exist when it ran
+  const history = (options.history ?? []).filter(record => record.analysis.analyzedAt <= analysis.analyzedAt);
+  const openViolations = analysis.frameworks.flatMap(score => score.violations);
+  const resolvedViolations = history.flatMap(record => record.diff?.resolvedViolations ?? []);
+  const evidence = collectEvidence(analysis);
+  const reviews: ReviewEntry[] = history.length > 0
+    ? history.map(record => ({
+        version: record.version,
+        analyzedAt: record.analysis.analyzedAt,
+        analyzedBy: record.analyzedBy,
+        overallComplianceScore: record.analysis.overallComplianceScore,
+        overallRiskLevel: record.analysis.overallRiskLevel
+      }))
+    : [{
+        analyzedAt: analysis.analyzedAt,
+        overallComplianceScore: analysis.overallComplianceScore,
+        overallRiskLevel: analysis.overallRiskLevel
+      }];
+
+  const files: Record<string, string> = {
+    'analysis.json': toFileContent(analysis),
+    'rules.json': toFileContent(describeRules(evidence, openViolations, options.rules ?? [])),
+    'evidence.json': toFileContent(evidence.map(entry => ({
+      ...entry,
+      matches: entry.matches.map(describeLocation)
+    }))),
+    'violations.json': toFileContent({
+      open: openViolations.map(violation => describeViolation(violation)),
+      resolved: resolvedViolations.map(violation => describeViolation(violation))
+    }),
+    'reviews.json': toFileContent(reviews)
+  };
+
+  const fileEntries = Object.entries(files).map(([path, content]) => describeFile(path, content));
+  const packHash = hashFileList(fileEntries);
+  const pdf = renderReport(analysis, evidence, openViolations, resolvedViolations, reviews, fileEntries, packHash, options.generatedBy, generatedAt);
+
+  const manifest: EvidencePackManifest = {
+    format: 'compliance-evidence-pack',
+    formatVersion: FORMAT_VERSION,
+    contractId: analysis.contractId,
+    documentName: analysis.documentName,
+    clientId: analysis.clientId,
+    frameworks: analysis.frameworks.map(score => score.framework),
+    analyzedAt: analysis.analyzedAt.toISOString(),
+    generatedAt: generatedAt.toISOString(),
+    generatedBy: options.generatedBy,
+    files: fileEntries,
+    packHash,
+    report: describeFile(REPORT_PATH, pdf)
+  };
+
+  return { manifest, files, pdf };
+}
+
+/**
+ * Check an exported bundle (and optionally its PDF report) against the manifest.
+ * Returns the problems found; an empty list means nothing was altered.
+ */
+export function verifyEvidencePack(
+  bundle: Pick<ComplianceEvidencePack, 'manifest' | 'files'>,
+  pdf?: string
+): string[] {
+  const problems: string[] = [];
+  const { manifest, files } = bundle;
+
+  if (manifest?.format !== 'compliance-evidence-pack') {
+    return ['Not a compliance evidence pack'];
+  }
+
+  for (const entry of manifest.files) {
+    const content = files[entry.path];
+    if (content === undefined) {
+      problems.push(`${entry.path} is missing`);
+    } else if (sha256(content) !== entry.sha256) {
+      problems.push(`${entry.path} does not match its hash`);
+    }
+  }
+  Object.keys(files)
+    .filter(path => !manifest.files.some(entry => entry.path === path))
+    .forEach(path => problems.push(`${path} is not listed in the manifest`));
+
+  if (hashFileList(manifest.files) !== manifest.packHash) {
+    problems.push('The manifest file list does not match the pack hash');
+  }
+  if (pdf !== undefined && sha256(pdf) !== manifest.report.sha256) {
+    problems.push(`${REPORT_PATH} does not match its hash`);
+  }
+
+  return problems;
+}
+
+/**
+ * Evidence per evaluated rule, with its outcome. Analyses saved before evidence was recorded
+ * only have the rules that were violated.
+ */
+function collectEvidence(analysis: ContractComplianceAnalysis): RuleEvidenceEntry[] {
+  return analysis.frameworks.flatMap(score => {
+    const recorded = score.evidence ?? [];
+    const unrecorded = [...new Map(score.violations
+      .filter(violation => !recorded.some(entry => entry.ruleId === violation.ruleId))
+      .map(violation => [violation.ruleId, violation])).values()]
+      .map(violation => ({
+        ruleId: violation.ruleId,
+        ruleName: violation.rule.name,
+        ruleVersion: getRuleVersion(violation.rule),
+        matches: violation.location ? [violation.location] : []
+      }));
+
+    return [...recorded, ...unrecorded].map(entry => {
+      const violationIds = score.violations.filter(violation => violation.ruleId === entry.ruleId).map(violation => violation.id);
+      const status: EvidenceStatus = violationIds.length > 0 ? 'VIOLATED' : entry.matches.length > 0 ? 'SATISFIED' : 'NOT_ADDRESSED';
+      return { ...entry, framework: score.framework, status, violationIds };
+    });
+  });
+}
+
+/**
+ * Rule definitions as evaluated. Violations carry the rule they were checked against; other rules
+ * come from the current definitions, flagged when they have changed since the analysis.
+ */
+function describeRules(evidence: RuleEvidenceEntry[], violations: ComplianceViolation[], currentRules: ComplianceRule[]) {
+  return evidence.map(entry => {
+    const current = currentRules.find(rule => rule.id === entry.ruleId);
+    const evaluated = violations.find(violation => violation.ruleId === entry.ruleId)?.rule ??
+      (current && getRuleVersion(current) === entry.ruleVersion ? current : undefined);
+    const { createdAt, updatedAt, isActive, ...definition } = evaluated ?? ({} as Partial<ComplianceRule>);
+
+    return {
+      id: entry.ruleId,
+      framework: entry.framework,
+      name: entry.ruleName,
+      version: entry.ruleVersion,
+      currentVersion: current ? getRuleVersion(current) : undefined,
+      definition: evaluated ? definition : undefined
+    };
+  });
+}
+
+function describeViolation(violation: ComplianceViolation) {
+  return {
+    id: violation.id,
+    ruleId: violation.ruleId,
+    framework: violation.rule.framework,
+    violationType: violation.violationType,
+    severity: violation.severity,
+    description: violation.description,
+    explanation: violation.explanation,
+    suggestedAction: violation.suggestedAction,
+    location: violation.location && describeLocation(violation.location),
+    detectedAt: violation.firstDetectedAt ?? violation.detectedAt,
+    isResolved: violation.isResolved,
+    resolvedAt: violation.resolvedAt,
+    resolvedBy: violation.resolvedBy
+  };
+}
+
+function describeLocation(location: ViolationLocation) {
+  return {
+    clauseHeading: location.clauseHeading,
+    start: location.start,
+    end: location.end,
+    text: location.matchedText
+  };
+}
+
+function toFileContent(value: unknown): string {
+  return `${JSON.stringify(toStoredJson(value), null, 2)}\n`;
+}
+
+function describeFile(path: string, content: string): EvidencePackFile {
+  return { path, sha256: sha256(content), bytes: new TextEncoder().encode(content).length };
+}
+
+// Same layout as `sha256sum` output, so the list can be checked with standard tools
+function hashFileList(files: EvidencePackFile[]): string {
+  return sha256(files.map(file => `${file.sha256}  ${file.path}\n`).join(''));
+}
+
+function renderReport(
+  analysis: ContractComplianceAnalysis,
+  evidence: RuleEvidenceEntry[],
+  openViolations: ComplianceViolation[],
+  resolvedViolations: ComplianceViolation[],
+  reviews: ReviewEntry[],
+  files: EvidencePackFile[],
+  packHash: string,
+  generatedBy: string,
+  generatedAt: Date
+): string {
+  const pdf = new PdfWriter()
+    .text('Compliance Evidence Pack', { size: 18, bold: true })
+    .text(analysis.documentName, { size: 12, spaceBefore: 4 })
+    .space(8)
+    .text(`Contract ID: ${analysis.contractId}`)
+    .text(`Client: ${analysis.clientId ?? 'None'}`)
+    .text(`Jurisdictions: ${analysis.applicableJurisdictions.map(jurisdiction => jurisdiction.code).join(', ') || analysis.jurisdiction}`)
+    .text(`Analyzed: ${analysis.analyzedAt.toISOString()}`)
+    .text(`Generated: ${generatedAt.toISOString()} by ${generatedBy}`)
+    .text(analysis.overallComplianceScore === null
+      ? 'Overall compliance score: not scored, no rules evaluated'
+      : `Overall compliance score: ${analysis.overallComplianceScore} (${analysis.overallRiskLevel} risk)`, { bold: true, spaceBefore: 4 });
+
+  pdf.heading('Frameworks');
+  analysis.frameworks.forEach(score => {
+    pdf.text(score.overallScore === null
+      ? `${score.framework}: not scored, no rules evaluated`
+      : `${score.framework}: score ${score.overallScore}, ${score.riskLevel} risk, ${score.rulesEvaluated} rules evaluated, ${score.violations.length} violations`);
+  });
+
+  pdf.heading('Rules Evaluated');
+  evidence.forEach(entry => {
+    pdf.text(`[${entry.status}] ${entry.framework} ${entry.ruleId}: ${entry.ruleName} (version ${entry.ruleVersion})`, { bold: true, spaceBefore: 4 });
+    if (entry.matches.length === 0) {
+      pdf.text('No matching contract text', { indent: 12, size: 9 });
+    }
+    entry.matches.forEach(match => {
+      pdf.text(`${match.clauseHeading} [${match.start}-${match.end}]: "${truncate(match.matchedText)}"`, { indent: 12, size: 9 });
+    });
+  });
+
+  pdf.heading('Open Violations');
+  if (openViolations.length === 0) pdf.text('None');
+  openViolations.forEach(violation => {
+    pdf.text(`${violation.severity} ${violation.rule.framework} ${violation.id}: ${violation.description}`, { bold: true, spaceBefore: 4 });
+    pdf.text(violation.explanation, { indent: 12, size: 9 });
+    pdf.text(`Detected ${(violation.firstDetectedAt ?? violation.detectedAt).toISOString()}. Action: ${violation.suggestedAction}`, { indent: 12, size: 9 });
+  });
+
+  pdf.heading('Resolved Violations');
+  if (resolvedViolations.length === 0) pdf.text('None');
+  resolvedViolations.forEach(violation => {
+    pdf.text(`${violation.severity} ${violation.rule.framework} ${violation.id}: ${violation.description}`, { bold: true, spaceBefore: 4 });
+    pdf.text(`Resolved ${violation.resolvedAt?.toISOString() ?? 'at an unknown time'} by ${violation.resolvedBy ?? 'unknown reviewer'}`, { indent: 12, size: 9 });
+  });
+
+  pdf.heading('Review History');
+  reviews.forEach(review => {
+    pdf.text(`${review.version ? `Version ${review.version}: ` : ''}${review.analyzedAt.toISOString()} by ${review.analyzedBy ?? 'unknown reviewer'}, ${review.overallComplianceScore === null ? 'not scored' : `score ${review.overallComplianceScore} (${review.overallRiskLevel} risk)`}`);
+  });
+
+  pdf.heading('Integrity');
+  pdf.text('SHA-256 of each file in the JSON bundle:', { size: 9 });
+  files.forEach(file => pdf.text(`${file.sha256}  ${file.path}`, { size: 8 }));
+  pdf.text(`Pack hash: ${packHash}`, { size: 9, bold: true, spaceBefore: 4 });
+
+  return pdf.build({ title: `Compliance Evidence Pack - ${analysis.documentName}`, createdAt: generatedAt });
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_QUOTE_LENGTH ? `${singleLine.slice(0, MAX_QUOTE_LENGTH)}…` : singleLine;
+}
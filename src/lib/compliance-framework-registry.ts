@@ -0,0 +1,156 @@
+import {
+  ComplianceFramework,
+  ComplianceFrameworkDefinition,
+  ComplianceRule
+} from '@/types/compliance';
+import { ClauseCategory } from '@/types/clause-library';
+import {
+  GDPR_RULES,
+  HIPAA_RULES,
+  SOX_RULES,
+  CCPA_RULES,
+  PIPEDA_RULES,
+  LGPD_RULES,
+  ISO27001_RULES,
+  SOC2_RULES,
+  PCI_DSS_RULES,
+  EU_AI_ACT_RULES,
+  DORA_RULES,
+  NIS2_RULES,
+  VCDPA_RULES,
+  CPA_RULES,
+  TDPSA_RULES,
+  FRAMEWORK_WEIGHTS
+} from './compliance-frameworks';
+import { isWithinJurisdiction } from './jurisdiction-tree';
+
+const DEFAULT_BADGE_CLASS = 'bg-gray-100 text-gray-800';
+
+/**
+ * Registry of compliance frameworks, their weights, categories and rule sets.
+ * The analyzer and configuration UI read frameworks from here, so a new framework
+ * only needs to be registered.
+ */
+export class ComplianceFrameworkRegistry {
+  private frameworks: Map<ComplianceFramework, ComplianceFrameworkDefinition> = new Map();
+
+  /**
+   * Register a framework, replacing any existing definition with the same id
+   */
+  register(definition: ComplianceFrameworkDefinition): void {
+    if (!definition.id.trim()) {
+      throw new Error('Framework id is required');
+    }
+    if (definition.weight < 0 || definition.weight > 1) {
+      throw new Error(`Framework ${definition.id} weight must be between 0 and 1`);
+    }
+    const foreignRule = definition.rules.find(rule => rule.framework !== definition.id);
+    if (foreignRule) {
+      throw new Error(`Rule ${foreignRule.id} belongs to ${foreignRule.framework}, not ${definition.id}`);
+    }
+
+    this.frameworks.set(definition.id, definition);
+  }
+
+  get(id: ComplianceFramework): ComplianceFrameworkDefinition | undefined {
+    return this.frameworks.get(id);
+  }
+
+  has(id: ComplianceFramework): boolean {
+    return this.frameworks.has(id);
+  }
+
+  /**
+   * All registered frameworks in registration order
+   */
+  list(): ComplianceFrameworkDefinition[] {
+    return Array.from(this.frameworks.values());
+  }
+
+  /**
+   * Frameworks a contract can be checked against. CUSTOM only holds client-specific rules.
+   */
+  getSelectableFrameworks(): ComplianceFrameworkDefinition[] {
+    return this.list().filter(definition => definition.id !== 'CUSTOM');
+  }
+
+  /**
+   * Weight of a framework in the overall score; unregistered frameworks get the CUSTOM weight
+   */
+  getWeight(id: ComplianceFramework): number {
+    return this.frameworks.get(id)?.weight ?? FRAMEWORK_WEIGHTS.CUSTOM;
+  }
+
+  getBadgeClassName(id: ComplianceFramework): string {
+    return this.frameworks.get(id)?.badgeClassName ?? DEFAULT_BADGE_CLASS;
+  }
+
+  getRules(): ComplianceRule[] {
+    return this.list().flatMap(definition => definition.rules);
+  }
+
+  /**
+   * Selectable frameworks that apply in any of the given jurisdictions.
+   * Frameworks without jurisdictions (ISO 27001, SOC 2, ...) are not suggested.
+   */
+  getFrameworksForJurisdictions(jurisdictions: string[]): ComplianceFrameworkDefinition[] {
+    return this.getSelectableFrameworks().filter(definition =>
+      definition.jurisdictions?.some(scope => jurisdictions.some(code => isWithinJurisdiction(code, scope)))
+    );
+  }
+
+  /**
+   * Categories used by any registered framework
+   */
+  getCategories(): ClauseCategory[] {
+    return [...new Set(this.list().flatMap(definition => definition.categories))];
+  }
+}
+
+function builtInFramework(
+  id: keyof typeof FRAMEWORK_WEIGHTS,
+  name: string,
+  description: string,
+  rules: ComplianceRule[],
+  badgeClassName: string,
+  jurisdictions?: string[]
+): ComplianceFrameworkDefinition {
+  return {
+    id,
+    name,
+    description,
+    weight: FRAMEWORK_WEIGHTS[id],
+    categories: [...new Set(rules.map(rule => rule.category))],
+    rules,
+    jurisdictions,
+    badgeClassName
+  };
+}
+
+export const frameworkRegistry = new ComplianceFrameworkRegistry();
+
+[
+  builtInFramework('GDPR', 'GDPR', 'EU General Data Protection Regulation', GDPR_RULES, 'bg-blue-100 text-blue-800', ['EEA', 'UK']),
+  builtInFramework('HIPAA', 'HIPAA', 'US Health Insurance Portability and Accountability Act', HIPAA_RULES, 'bg-green-100 text-green-800', ['US']),
+  builtInFramework('SOX', 'SOX', 'US Sarbanes-Oxley Act', SOX_RULES, 'bg-purple-100 text-purple-800', ['US']),
+  builtInFramework('CCPA', 'CCPA', 'California Consumer Privacy Act', CCPA_RULES, 'bg-orange-100 text-orange-800', ['US-CA']),
+  builtInFramework('PIPEDA', 'PIPEDA', 'Canadian Personal Information Protection and Electronic Documents Act', PIPEDA_RULES, 'bg-indigo-100 text-indigo-800', ['CA']),
+  builtInFramework('LGPD', 'LGPD', 'Brazilian Lei Geral de Proteção de Dados', LGPD_RULES, 'bg-pink-100 text-pink-800', ['BR']),
+  builtInFramework('ISO27001', 'ISO 27001', 'ISO/IEC 27001 information security management', ISO27001_RULES, 'bg-gray-100 text-gray-800'),
+  builtInFramework('SOC2', 'SOC 2', 'AICPA SOC 2 trust services criteria', SOC2_RULES, 'bg-cyan-100 text-cyan-800'),
+  builtInFramework('PCI-DSS', 'PCI-DSS', 'Payment Card Industry Data Security Standard', PCI_DSS_RULES, 'bg-red-100 text-red-800'),
+  builtInFramework('EU_AI_ACT', 'EU AI Act', 'EU Artificial Intelligence Act (Regulation 2024/1689)', EU_AI_ACT_RULES, 'bg-violet-100 text-violet-800', ['EU']),
+  builtInFramework('DORA', 'DORA', 'EU Digital Operational Resilience Act for financial ICT third-party risk', DORA_RULES, 'bg-emerald-100 text-emerald-800', ['EU']),
+  builtInFramework('NIS2', 'NIS2', 'EU Network and Information Security Directive 2', NIS2_RULES, 'bg-sky-100 text-sky-800', ['EU']),
+  builtInFramework('VCDPA', 'VCDPA', 'Virginia Consumer Data Protection Act', VCDPA_RULES, 'bg-amber-100 text-amber-800', ['US-VA']),
+  builtInFramework('CPA', 'CPA', 'Colorado Privacy Act', CPA_RULES, 'bg-lime-100 text-lime-800', ['US-CO']),
+  builtInFramework('TDPSA', 'TDPSA', 'Texas Data Privacy and Security Act', TDPSA_RULES, 'bg-rose-100 text-rose-800', ['US-TX']),
+  builtInFramework('CUSTOM', 'Custom', 'Client-specific rules', [], 'bg-yellow-100 text-yellow-800')
+].forEach(definition => frameworkRegistry.register(definition));
+
+/**
+ * Register an additional framework with the shared registry
+ */
+export function registerFramework(definition: ComplianceFrameworkDefinition): void {
+  frameworkRegistry.register(definition);
+}
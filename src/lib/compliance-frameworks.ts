@@ -1,6 +1,9 @@
-import { ComplianceRule, ComplianceFramework, RiskLevel } from '@/types/compliance';
+import { ComplianceRule, BuiltInComplianceFramework, RiskLevel } from '@/types/compliance';
 import { ClauseCategory } from '@/types/clause-library';
 
+// Fixed rather than the load time, so analyses that embed these rules are reproducible
+const BUILT_IN_RULES_DATE = new Date('2025-09-01T00:00:00.000Z');
+
 // GDPR Compliance Rules
 export const GDPR_RULES: ComplianceRule[] = [
   {
@@ -21,8 +24,8 @@ export const GDPR_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'gdpr-lawful-basis',
@@ -41,8 +44,8 @@ export const GDPR_RULES: ComplianceRule[] = [
     ],
     weight: 1.0,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'gdpr-data-retention',
@@ -61,8 +64,8 @@ export const GDPR_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'gdpr-cross-border',
@@ -82,28 +85,30 @@ export const GDPR_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'gdpr-breach-notification',
     framework: 'GDPR',
     category: 'BREACH_NOTIFICATION',
     name: 'Data Breach Notification',
-    description: 'Contract must include data breach notification requirements',
+    description: 'Contract must include data breach notification requirements, with notification within 72 hours',
     riskLevel: 'HIGH',
-    keywords: ['breach notification', 'data breach', 'security incident', '72 hours', 'supervisory authority'],
+    keywords: ['breach notification', 'data breach', 'security incident', 'supervisory authority'],
     patterns: [
       /breach notification/i,
       /data breach/i,
       /security incident/i,
-      /72 hours/i,
       /supervisory authority/i
     ],
+    thresholds: [
+      { quantity: 'duration', operator: '<=', value: 72, unit: 'hours', near: 'notif' }
+    ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -126,8 +131,8 @@ export const HIPAA_RULES: ComplianceRule[] = [
     ],
     weight: 1.0,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'hipaa-baa-requirement',
@@ -146,8 +151,8 @@ export const HIPAA_RULES: ComplianceRule[] = [
     ],
     weight: 1.0,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'hipaa-minimum-necessary',
@@ -165,8 +170,30 @@ export const HIPAA_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'hipaa-breach-notification',
+    framework: 'HIPAA',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Breach Notification',
+    description: 'Contract must require the business associate to report breaches of unsecured PHI without unreasonable delay and no later than 60 days after discovery',
+    riskLevel: 'HIGH',
+    keywords: ['breach of unsecured', 'breach notification', 'discovery of a breach', 'unsecured PHI', 'unsecured protected health information'],
+    patterns: [
+      /breach of unsecured/i,
+      /breach notification/i,
+      /discovery of (a|the|any) breach/i,
+      /unsecured (PHI|protected health information)/i
+    ],
+    thresholds: [
+      { quantity: 'duration', operator: '<=', value: 60, unit: 'days', near: 'breach' }
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -189,8 +216,8 @@ export const SOX_RULES: ComplianceRule[] = [
     ],
     weight: 1.0,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'sox-audit-requirements',
@@ -209,8 +236,8 @@ export const SOX_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'sox-documentation',
@@ -229,8 +256,8 @@ export const SOX_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -254,8 +281,8 @@ export const CCPA_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'ccpa-disclosure',
@@ -274,8 +301,8 @@ export const CCPA_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -298,8 +325,8 @@ export const ISO27001_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'iso27001-risk-assessment',
@@ -317,8 +344,27 @@ export const ISO27001_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'iso27001-incident-management',
+    framework: 'ISO27001',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Information Security Incident Management',
+    description: 'Contract must require information security incidents to be reported, assessed and responded to (Annex A 5.24-5.28)',
+    riskLevel: 'HIGH',
+    keywords: ['security incident', 'incident management', 'incident response', 'security event', 'lessons learned'],
+    patterns: [
+      /(information )?security incidents?/i,
+      /incident (management|response)/i,
+      /(information )?security events?/i,
+      /lessons learned/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -329,7 +375,7 @@ export const SOC2_RULES: ComplianceRule[] = [
     framework: 'SOC2',
     category: 'SECURITY_REQUIREMENTS',
     name: 'System Availability',
-    description: 'Contract must include system availability and uptime requirements',
+    description: 'Contract must include system availability and uptime requirements, with an uptime commitment of at least 99.5%',
     riskLevel: 'MEDIUM',
     keywords: ['availability', 'uptime', 'system reliability', 'service level', 'SLA'],
     patterns: [
@@ -339,10 +385,13 @@ export const SOC2_RULES: ComplianceRule[] = [
       /service level/i,
       /SLA/i
     ],
+    thresholds: [
+      { quantity: 'percentage', operator: '>=', value: 99.5, unit: 'percent' }
+    ],
     weight: 0.6,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'soc2-confidentiality',
@@ -361,8 +410,218 @@ export const SOC2_RULES: ComplianceRule[] = [
     ],
     weight: 0.8,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// PIPEDA Compliance Rules
+export const PIPEDA_RULES: ComplianceRule[] = [
+  {
+    id: 'pipeda-meaningful-consent',
+    framework: 'PIPEDA',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Meaningful Consent',
+    description: 'Contract must require knowledge and meaningful consent for the collection, use and disclosure of personal information',
+    riskLevel: 'CRITICAL',
+    keywords: ['meaningful consent', 'express consent', 'implied consent', 'knowledge and consent', 'withdraw consent'],
+    patterns: [
+      /meaningful consent/i,
+      /(express|implied) consent/i,
+      /knowledge and consent/i,
+      /withdraw(al of)? (their |his or her )?consent/i
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'pipeda-accountability-officer',
+    framework: 'PIPEDA',
+    category: 'AUDIT_COMPLIANCE',
+    name: 'Accountability and Privacy Officer',
+    description: 'Contract must designate an individual accountable for compliance with PIPEDA fair information principles',
+    riskLevel: 'HIGH',
+    keywords: ['privacy officer', 'chief privacy officer', 'designated individual', 'accountable for compliance', 'fair information principles'],
+    patterns: [
+      /(chief )?privacy officer/i,
+      /designated individual/i,
+      /accountable for (compliance|the protection of personal information)/i,
+      /fair information principles/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'pipeda-breach-reporting',
+    framework: 'PIPEDA',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Breach of Security Safeguards Reporting',
+    description: 'Contract must require reporting breaches posing a real risk of significant harm to the Privacy Commissioner and affected individuals as soon as feasible, and keeping breach records for 24 months',
+    riskLevel: 'CRITICAL',
+    keywords: ['breach of security safeguards', 'real risk of significant harm', 'privacy commissioner', 'as soon as feasible', 'breach record'],
+    patterns: [
+      /breach(es)? of security safeguards/i,
+      /real risk of significant harm/i,
+      /(office of the )?privacy commissioner( of canada)?/i,
+      /as soon as feasible/i,
+      /breach records?/i
+    ],
+    thresholds: [
+      { quantity: 'duration', operator: '>=', value: 24, unit: 'months', near: 'record' }
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'pipeda-cross-border-processing',
+    framework: 'PIPEDA',
+    category: 'CROSS_BORDER_TRANSFER',
+    name: 'Transfers for Processing',
+    description: 'Contract must ensure a comparable level of protection by contractual means when personal information is transferred to a third party for processing, including outside Canada',
+    riskLevel: 'HIGH',
+    keywords: ['comparable level of protection', 'transfer for processing', 'outside canada', 'third party processing', 'contractual means'],
+    patterns: [
+      /comparable level of protection/i,
+      /transfer(red)? (to a third party )?for processing/i,
+      /outside (of )?canada/i,
+      /contractual (means|protections)/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'pipeda-individual-access',
+    framework: 'PIPEDA',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Individual Access and Challenging Compliance',
+    description: 'Contract must support individual access to and correction of personal information, and a process for challenging compliance',
+    riskLevel: 'HIGH',
+    keywords: ['individual access', 'right of access', 'correction of personal information', 'challenging compliance', 'privacy complaint'],
+    patterns: [
+      /individual access/i,
+      /right of access/i,
+      /(correction|amendment) of (their |his or her )?personal information/i,
+      /challeng(e|ing) compliance/i,
+      /privacy complaints?/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// LGPD Compliance Rules
+export const LGPD_RULES: ComplianceRule[] = [
+  {
+    id: 'lgpd-legal-basis-consent',
+    framework: 'LGPD',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Legal Basis and Consent',
+    description: 'Contract must specify a legal basis for processing under LGPD Art. 7, with free, informed and unambiguous consent where consent is relied on',
+    riskLevel: 'CRITICAL',
+    keywords: ['legal basis', 'free, informed and unambiguous', 'specific consent', 'consentimento', 'base legal'],
+    patterns: [
+      /legal basis/i,
+      /free,? informed and unambiguous/i,
+      /specific (and highlighted )?consent/i,
+      /consentimento/i,
+      /base legal/i
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'lgpd-encarregado',
+    framework: 'LGPD',
+    category: 'DATA_PROTECTION',
+    name: 'Data Protection Officer (Encarregado)',
+    description: 'Contract must identify the encarregado (data protection officer) responsible for communication with data subjects and the ANPD',
+    riskLevel: 'HIGH',
+    keywords: ['encarregado', 'data protection officer', 'DPO', 'person in charge of data processing'],
+    patterns: [
+      /encarregado/i,
+      /data protection officer/i,
+      /\bDPO\b/,
+      /person in charge of (the )?(personal )?data processing/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'lgpd-anpd-breach-reporting',
+    framework: 'LGPD',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Security Incident Reporting to ANPD',
+    description: 'Contract must require reporting security incidents that may cause relevant risk or damage to the ANPD and affected data subjects within a reasonable time (three business days under CD/ANPD Resolution 15/2024)',
+    riskLevel: 'CRITICAL',
+    keywords: ['ANPD', 'national data protection authority', 'security incident', 'relevant risk or damage', 'incidente de segurança'],
+    patterns: [
+      /\bANPD\b/,
+      /national data protection authority/i,
+      /relevant (risk|damage)/i,
+      /incidente de segurança/i,
+      /(three|3)( \(3\))? business days/i
+    ],
+    thresholds: [
+      { quantity: 'duration', operator: '<=', value: 3, unit: 'business days', near: 'incident' }
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'lgpd-international-transfer',
+    framework: 'LGPD',
+    category: 'CROSS_BORDER_TRANSFER',
+    name: 'International Data Transfer',
+    description: 'Contract must restrict international transfers to the mechanisms of LGPD Art. 33, such as adequacy decisions or ANPD standard contractual clauses',
+    riskLevel: 'HIGH',
+    keywords: ['international transfer', 'transferência internacional', 'standard contractual clauses', 'adequate level of protection', 'outside brazil'],
+    patterns: [
+      /international (data )?transfers?/i,
+      /transferência internacional/i,
+      /standard contractual clauses/i,
+      /adequate (level of )?(data )?protection/i,
+      /outside (of )?brazil/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'lgpd-data-subject-rights',
+    framework: 'LGPD',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Data Subject (Titular) Rights',
+    description: 'Contract must support the rights of Art. 18: confirmation and access, correction, anonymization, blocking or deletion, portability and information about sharing',
+    riskLevel: 'HIGH',
+    keywords: ['titular', 'data subject rights', 'confirmation of the existence of processing', 'anonymization, blocking or deletion', 'portability'],
+    patterns: [
+      /titular(es)? d(e|os) dados/i,
+      /data subject rights/i,
+      /confirmation of (the )?existence of processing/i,
+      /anonymi[sz]ation,? blocking or (deletion|elimination)/i,
+      /(data )?portability/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -385,8 +644,8 @@ export const PCI_DSS_RULES: ComplianceRule[] = [
     ],
     weight: 1.0,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   },
   {
     id: 'pci-dss-encryption',
@@ -405,8 +664,518 @@ export const PCI_DSS_RULES: ComplianceRule[] = [
     ],
     weight: 0.9,
     isActive: true,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// EU AI Act Compliance Rules
+export const EU_AI_ACT_RULES: ComplianceRule[] = [
+  {
+    id: 'ai-act-risk-classification',
+    framework: 'EU_AI_ACT',
+    category: 'AI_GOVERNANCE',
+    name: 'AI System Risk Classification',
+    description: 'Contract must state the AI Act risk classification of the AI system and exclude prohibited AI practices',
+    riskLevel: 'HIGH',
+    keywords: ['high-risk AI system', 'risk classification', 'prohibited AI practices', 'Annex III', 'general-purpose AI'],
+    patterns: [
+      /high-risk AI systems?/i,
+      /risk classification/i,
+      /prohibited (AI )?practices/i,
+      /Annex III/i,
+      /general-purpose AI( model)?/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'ai-act-human-oversight',
+    framework: 'EU_AI_ACT',
+    category: 'AI_GOVERNANCE',
+    name: 'Human Oversight',
+    description: 'Contract must provide for effective human oversight, including the ability to intervene in or stop the AI system',
+    riskLevel: 'HIGH',
+    keywords: ['human oversight', 'human-in-the-loop', 'human review', 'stop button', 'override the output'],
+    patterns: [
+      /human oversight/i,
+      /human[- ]in[- ]the[- ]loop/i,
+      /human review/i,
+      /(override|reverse) the output/i,
+      /interrupt the (AI )?system/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'ai-act-data-governance',
+    framework: 'EU_AI_ACT',
+    category: 'AI_GOVERNANCE',
+    name: 'Data Governance and Technical Documentation',
+    description: 'Contract must cover training data governance, bias examination, technical documentation and automatic logging',
+    riskLevel: 'HIGH',
+    keywords: ['training data', 'data governance', 'bias', 'technical documentation', 'record-keeping'],
+    patterns: [
+      /training,? validation and testing data/i,
+      /training data/i,
+      /data governance/i,
+      /(possible )?bias(es)?\b/i,
+      /technical documentation/i,
+      /(automatic )?(logging|record-keeping)/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'ai-act-transparency',
+    framework: 'EU_AI_ACT',
+    category: 'AI_GOVERNANCE',
+    name: 'Transparency and Instructions for Use',
+    description: 'Contract must require instructions for use and disclosure when people interact with an AI system or AI-generated content',
+    riskLevel: 'MEDIUM',
+    keywords: ['instructions for use', 'AI-generated', 'deep fake', 'interacting with an AI system', 'transparency obligations'],
+    patterns: [
+      /instructions for use/i,
+      /AI[- ]generated/i,
+      /deep ?fakes?/i,
+      /interacting with an AI system/i,
+      /transparency obligations/i
+    ],
+    weight: 0.7,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'ai-act-serious-incidents',
+    framework: 'EU_AI_ACT',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Serious Incident Reporting',
+    description: 'Contract must require post-market monitoring and reporting of serious incidents to market surveillance authorities',
+    riskLevel: 'HIGH',
+    keywords: ['serious incident', 'post-market monitoring', 'market surveillance authority', 'corrective action'],
+    patterns: [
+      /serious incidents?/i,
+      /post-market monitoring/i,
+      /market surveillance authorit(y|ies)/i,
+      /corrective actions?/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// DORA Compliance Rules
+export const DORA_RULES: ComplianceRule[] = [
+  {
+    id: 'dora-ict-service-description',
+    framework: 'DORA',
+    category: 'OPERATIONAL_RESILIENCE',
+    name: 'ICT Service Description and Service Levels',
+    description: 'Contract must describe all ICT services and functions, the locations where data is processed and precise quantitative service levels',
+    riskLevel: 'HIGH',
+    keywords: ['ICT services', 'service levels', 'locations where data', 'ICT third-party service provider', 'critical or important functions'],
+    patterns: [
+      /ICT services?/i,
+      /service levels?/i,
+      /locations? (where|at which) (the )?data (is|will be) (processed|stored)/i,
+      /ICT third-party service providers?/i,
+      /critical or important functions?/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'dora-incident-assistance',
+    framework: 'DORA',
+    category: 'BREACH_NOTIFICATION',
+    name: 'ICT Incident Assistance',
+    description: 'Contract must oblige the ICT provider to assist the financial entity when an ICT-related incident occurs',
+    riskLevel: 'CRITICAL',
+    keywords: ['ICT-related incident', 'major ICT-related incident', 'incident assistance', 'incident report'],
+    patterns: [
+      /(major )?ICT[- ]related incidents?/i,
+      /assist(ance)? .{0,40}incidents?/i,
+      /incident reports?/i
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'dora-audit-access',
+    framework: 'DORA',
+    category: 'AUDIT_COMPLIANCE',
+    name: 'Access, Inspection and Audit Rights',
+    description: 'Contract must grant the financial entity and competent authorities unrestricted rights of access, inspection and audit',
+    riskLevel: 'HIGH',
+    keywords: ['rights of access, inspection and audit', 'competent authority', 'audit rights', 'on-site inspection'],
+    patterns: [
+      /access,? inspection and audit/i,
+      /competent authorit(y|ies)/i,
+      /audit rights/i,
+      /on-site inspections?/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'dora-exit-strategy',
+    framework: 'DORA',
+    category: 'OPERATIONAL_RESILIENCE',
+    name: 'Exit Strategy and Transition Period',
+    description: 'Contract must include termination rights, exit strategies and a mandatory transition period for critical or important functions',
+    riskLevel: 'HIGH',
+    keywords: ['exit strategy', 'exit plan', 'transition period', 'termination rights', 'orderly transfer'],
+    patterns: [
+      /exit (strategy|strategies|plans?)/i,
+      /transition period/i,
+      /termination rights/i,
+      /orderly (transfer|transition)/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'dora-subcontracting',
+    framework: 'DORA',
+    category: 'THIRD_PARTY_SHARING',
+    name: 'ICT Subcontracting Conditions',
+    description: 'Contract must state whether subcontracting of critical or important functions is permitted and under which conditions',
+    riskLevel: 'MEDIUM',
+    keywords: ['subcontracting', 'subcontractor', 'chain of ICT subcontractors', 'prior approval'],
+    patterns: [
+      /subcontract(ing|ors?)/i,
+      /chain of (ICT )?subcontractors/i,
+      /prior (written )?approval/i
+    ],
+    weight: 0.7,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'dora-resilience-testing',
+    framework: 'DORA',
+    category: 'OPERATIONAL_RESILIENCE',
+    name: 'Resilience Testing and Business Continuity',
+    description: 'Contract must require participation in digital operational resilience testing, including TLPT, and tested business continuity plans',
+    riskLevel: 'MEDIUM',
+    keywords: ['threat-led penetration testing', 'TLPT', 'resilience testing', 'business continuity plan', 'security awareness'],
+    patterns: [
+      /threat[- ]led penetration testing/i,
+      /\bTLPT\b/,
+      /(digital operational )?resilience testing/i,
+      /business continuity (plans?|policy)/i
+    ],
+    weight: 0.7,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// NIS2 Compliance Rules
+export const NIS2_RULES: ComplianceRule[] = [
+  {
+    id: 'nis2-incident-reporting',
+    framework: 'NIS2',
+    category: 'BREACH_NOTIFICATION',
+    name: 'Significant Incident Reporting',
+    description: 'Contract must support reporting significant incidents to the CSIRT or competent authority: early warning within 24 hours, notification within 72 hours and a final report within one month',
+    riskLevel: 'CRITICAL',
+    keywords: ['significant incident', 'early warning', 'CSIRT', 'incident notification', 'final report'],
+    patterns: [
+      /significant incidents?/i,
+      /early warning/i,
+      /\bCSIRTs?\b/,
+      /incident notification/i,
+      /final report/i
+    ],
+    thresholds: [
+      { quantity: 'duration', operator: '<=', value: 24, unit: 'hours', near: 'early warning' }
+    ],
+    weight: 1.0,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'nis2-supply-chain-security',
+    framework: 'NIS2',
+    category: 'SUPPLY_CHAIN_SECURITY',
+    name: 'Supply Chain Security',
+    description: 'Contract must address supply chain security, secure development and vulnerability handling and disclosure by the supplier',
+    riskLevel: 'HIGH',
+    keywords: ['supply chain security', 'secure development', 'vulnerability handling', 'vulnerability disclosure', 'secure-by-design'],
+    patterns: [
+      /supply chain security/i,
+      /secure (software )?development/i,
+      /vulnerability (handling|disclosure|management)/i,
+      /secure[- ]by[- ]design/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'nis2-risk-management-measures',
+    framework: 'NIS2',
+    category: 'SECURITY_REQUIREMENTS',
+    name: 'Cybersecurity Risk-Management Measures',
+    description: 'Contract must require appropriate cybersecurity risk-management measures such as multi-factor authentication, encryption and business continuity',
+    riskLevel: 'HIGH',
+    keywords: ['cybersecurity risk-management', 'multi-factor authentication', 'cyber hygiene', 'crisis management', 'encryption'],
+    patterns: [
+      /cybersecurity risk[- ]management/i,
+      /multi[- ]factor authentication/i,
+      /cyber hygiene/i,
+      /crisis management/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// Virginia CDPA Compliance Rules
+export const VCDPA_RULES: ComplianceRule[] = [
+  {
+    id: 'vcdpa-processor-contract',
+    framework: 'VCDPA',
+    category: 'DATA_PROTECTION',
+    name: 'Controller-Processor Contract Terms',
+    description: 'Contract must set processing instructions, a duty of confidentiality, deletion or return of data, and assessment rights as required by the Virginia Consumer Data Protection Act',
+    riskLevel: 'HIGH',
+    keywords: ['instructions for processing', 'duty of confidentiality', 'delete or return', 'reasonable assessments', 'subcontractor'],
+    patterns: [
+      /instructions for processing/i,
+      /duty of confidentiality/i,
+      /delete or return/i,
+      /(reasonable )?assessments? by the controller/i,
+      /written contract with (the|any) subcontractor/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'vcdpa-consumer-rights',
+    framework: 'VCDPA',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Consumer Rights and Appeals',
+    description: 'Contract must support consumer rights under the Virginia Consumer Data Protection Act: access, correction, deletion, portability, opting out of targeted advertising, sale and profiling, and appeals',
+    riskLevel: 'HIGH',
+    keywords: ['opt out', 'targeted advertising', 'sale of personal data', 'profiling', 'appeal'],
+    patterns: [
+      /opt[- ]out/i,
+      /targeted advertising/i,
+      /sale of personal data/i,
+      /profiling in furtherance of/i,
+      /appeal (process|a refusal)/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'vcdpa-sensitive-data',
+    framework: 'VCDPA',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Sensitive Data Consent',
+    description: 'Contract must require consumer consent before processing sensitive data under the Virginia Consumer Data Protection Act, and COPPA-compliant processing for a known child',
+    riskLevel: 'HIGH',
+    keywords: ['sensitive data', 'consumer consent', 'known child', 'COPPA'],
+    patterns: [
+      /sensitive (personal )?data/i,
+      /consumer.{0,10}consent/i,
+      /known child/i,
+      /\bCOPPA\b/
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// Colorado Privacy Act Compliance Rules
+export const CPA_RULES: ComplianceRule[] = [
+  {
+    id: 'cpa-processor-contract',
+    framework: 'CPA',
+    category: 'DATA_PROTECTION',
+    name: 'Controller-Processor Contract Terms',
+    description: 'Contract must set processing instructions, a duty of confidentiality, deletion or return of data, and assessment rights as required by the Colorado Privacy Act',
+    riskLevel: 'HIGH',
+    keywords: ['instructions for processing', 'duty of confidentiality', 'delete or return', 'reasonable assessments', 'subcontractor'],
+    patterns: [
+      /instructions for processing/i,
+      /duty of confidentiality/i,
+      /delete or return/i,
+      /(reasonable )?assessments? by the controller/i,
+      /written contract with (the|any) subcontractor/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'cpa-consumer-rights',
+    framework: 'CPA',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Consumer Rights and Appeals',
+    description: 'Contract must support consumer rights under the Colorado Privacy Act: access, correction, deletion, portability, opting out of targeted advertising, sale and profiling, and appeals',
+    riskLevel: 'HIGH',
+    keywords: ['opt out', 'targeted advertising', 'sale of personal data', 'profiling', 'appeal'],
+    patterns: [
+      /opt[- ]out/i,
+      /targeted advertising/i,
+      /sale of personal data/i,
+      /profiling in furtherance of/i,
+      /appeal (process|a refusal)/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'cpa-sensitive-data',
+    framework: 'CPA',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Sensitive Data Consent',
+    description: 'Contract must require consumer consent before processing sensitive data under the Colorado Privacy Act, and COPPA-compliant processing for a known child',
+    riskLevel: 'HIGH',
+    keywords: ['sensitive data', 'consumer consent', 'known child', 'COPPA'],
+    patterns: [
+      /sensitive (personal )?data/i,
+      /consumer.{0,10}consent/i,
+      /known child/i,
+      /\bCOPPA\b/
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'cpa-universal-opt-out',
+    framework: 'CPA',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Universal Opt-Out Mechanism',
+    description: 'Contract must honor universal opt-out mechanisms such as Global Privacy Control for targeted advertising and sale',
+    riskLevel: 'MEDIUM',
+    keywords: ['universal opt-out mechanism', 'global privacy control', 'GPC'],
+    patterns: [
+      /universal opt[- ]out mechanisms?/i,
+      /global privacy control/i,
+      /\bGPC\b/
+    ],
+    weight: 0.7,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  }
+];
+
+// Texas DPSA Compliance Rules
+export const TDPSA_RULES: ComplianceRule[] = [
+  {
+    id: 'tdpsa-processor-contract',
+    framework: 'TDPSA',
+    category: 'DATA_PROTECTION',
+    name: 'Controller-Processor Contract Terms',
+    description: 'Contract must set processing instructions, a duty of confidentiality, deletion or return of data, and assessment rights as required by the Texas Data Privacy and Security Act',
+    riskLevel: 'HIGH',
+    keywords: ['instructions for processing', 'duty of confidentiality', 'delete or return', 'reasonable assessments', 'subcontractor'],
+    patterns: [
+      /instructions for processing/i,
+      /duty of confidentiality/i,
+      /delete or return/i,
+      /(reasonable )?assessments? by the controller/i,
+      /written contract with (the|any) subcontractor/i
+    ],
+    weight: 0.9,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'tdpsa-consumer-rights',
+    framework: 'TDPSA',
+    category: 'CONSUMER_RIGHTS',
+    name: 'Consumer Rights and Appeals',
+    description: 'Contract must support consumer rights under the Texas Data Privacy and Security Act: access, correction, deletion, portability, opting out of targeted advertising, sale and profiling, and appeals',
+    riskLevel: 'HIGH',
+    keywords: ['opt out', 'targeted advertising', 'sale of personal data', 'profiling', 'appeal'],
+    patterns: [
+      /opt[- ]out/i,
+      /targeted advertising/i,
+      /sale of personal data/i,
+      /profiling in furtherance of/i,
+      /appeal (process|a refusal)/i
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'tdpsa-sensitive-data',
+    framework: 'TDPSA',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Sensitive Data Consent',
+    description: 'Contract must require consumer consent before processing sensitive data under the Texas Data Privacy and Security Act, and COPPA-compliant processing for a known child',
+    riskLevel: 'HIGH',
+    keywords: ['sensitive data', 'consumer consent', 'known child', 'COPPA'],
+    patterns: [
+      /sensitive (personal )?data/i,
+      /consumer.{0,10}consent/i,
+      /known child/i,
+      /\bCOPPA\b/
+    ],
+    weight: 0.8,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
+  },
+  {
+    id: 'tdpsa-sensitive-data-sale-notice',
+    framework: 'TDPSA',
+    category: 'CONSENT_MANAGEMENT',
+    name: 'Sensitive Data Sale Notice',
+    description: 'Where sensitive personal data is sold, contract must require the Texas notice "We may sell your sensitive personal data."',
+    riskLevel: 'MEDIUM',
+    keywords: ['we may sell your sensitive personal data', 'sale notice', 'biometric data'],
+    patterns: [
+      /we may sell your (sensitive|biometric) personal data/i,
+      /sale notice/i
+    ],
+    weight: 0.7,
+    isActive: true,
+    createdAt: BUILT_IN_RULES_DATE,
+    updatedAt: BUILT_IN_RULES_DATE
   }
 ];
 
@@ -416,9 +1185,17 @@ export const ALL_COMPLIANCE_RULES: ComplianceRule[] = [
   ...HIPAA_RULES,
   ...SOX_RULES,
   ...CCPA_RULES,
+  ...PIPEDA_RULES,
+  ...LGPD_RULES,
   ...ISO27001_RULES,
   ...SOC2_RULES,
-  ...PCI_DSS_RULES
+  ...PCI_DSS_RULES,
+  ...EU_AI_ACT_RULES,
+  ...DORA_RULES,
+  ...NIS2_RULES,
+  ...VCDPA_RULES,
+  ...CPA_RULES,
+  ...TDPSA_RULES
 ];
 
 // Risk level weights for scoring
@@ -429,8 +1206,16 @@ export const RISK_LEVEL_WEIGHTS: Record<RiskLevel, number> = {
   'CRITICAL': 1.0
 };
 
+// Minimum score for each risk level; anything below HIGH is CRITICAL
+export const DEFAULT_RISK_THRESHOLDS: Record<RiskLevel, number> = {
+  'LOW': 90,
+  'MEDIUM': 70,
+  'HIGH': 50,
+  'CRITICAL': 0
+};
+
 // Framework priority weights
-export const FRAMEWORK_WEIGHTS: Record<ComplianceFramework, number> = {
+export const FRAMEWORK_WEIGHTS: Record<BuiltInComplianceFramework, number> = {
   'GDPR': 0.9,
   'HIPAA': 0.9,
   'SOX': 0.8,
@@ -440,5 +1225,11 @@ export const FRAMEWORK_WEIGHTS: Record<ComplianceFramework, number> = {
   'ISO27001': 0.6,
   'SOC2': 0.6,
   'PCI-DSS': 0.8,
+  'EU_AI_ACT': 0.8,
+  'DORA': 0.8,
+  'NIS2': 0.7,
+  'VCDPA': 0.6,
+  'CPA': 0.6,
+  'TDPSA': 0.6,
   'CUSTOM': 0.5
 };
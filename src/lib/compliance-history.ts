@@ -0,0 +1,192 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  BatchAnalysisCheckpoint,
+  ComplianceAnalysisRecord,
+  ContractComplianceAnalysis,
+  PortfolioContract
+} from '@/types/compliance';
+import { buildHistory, carryForwardDetectionDates, diffAnalyses } from './compliance-analysis-diff';
+import { fromStoredJson, toStoredJson } from './compliance-serialization';
+
+type ComplianceAnalysisRow = Tables<'compliance_analyses'>;
+
+// Contracts per page of the user's history
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Stores compliance analyses per contract version in Supabase and works out what changed between versions
+ */
+export class ComplianceHistoryStore {
+  /**
+   * Save an analysis as the next version of a contract, diffed against the previous version.
+   * The database numbers the version, so concurrent saves of the same contract don't collide.
+   * The contract text is kept so the portfolio can be re-analyzed when rules change.
+   */
+  async saveAnalysis(
+    userId: string,
+    contractKey: string,
+    analysis: ContractComplianceAnalysis,
+    contractText?: string
+  ): Promise<ComplianceAnalysisRecord> {
+    const { data: latest, error: latestError } = await supabase
+      .from('compliance_analyses')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('contract_key', contractKey)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (latestError) throw latestError;
+    const previous = latest?.[0] ? toRecord(latest[0]) : undefined;
+    // Diff before saving so persisting violations are stored with their first detection date
+    const diff = previous && diffAnalyses(previous.analysis, analysis, userId);
+    const stored = diff ? carryForwardDetectionDates(analysis, diff) : analysis;
+
+    const { data, error } = await supabase
+      .from('compliance_analyses')
+      .insert({
+        user_id: userId,
+        contract_key: contractKey,
+        document_name: stored.documentName,
+        analysis: toStoredJson(stored),
+        contract_text: contractText ?? null,
+        overall_score: stored.overallComplianceScore,
+        risk_level: stored.overallRiskLevel
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { ...toRecord(data), analysis: stored, diff };
+  }
+
+  /**
+   * Every version of one contract, oldest first
+   */
+  async getContractHistory(userId: string, contractKey: string): Promise<ComplianceAnalysisRecord[]> {
+    const { data, error } = await supabase
+      .from('compliance_analyses')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('contract_key', contractKey)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return buildHistory((data || []).map(toRecord));
+  }
+
+  /**
+   * Every version of a page of the contracts the user has analyzed, oldest first within each
+   * contract. Contracts are paged in key order: pass the last contract key of a page as `after`
+   * to get the next one.
+   */
+  async getHistory(
+    userId: string,
+    page: { after?: string; contracts?: number } = {}
+  ): Promise<ComplianceAnalysisRecord[]> {
+    let contractsQuery = supabase.rpc('latest_compliance_analyses', { _user_id: userId });
+    if (page.after !== undefined) contractsQuery = contractsQuery.gt('contract_key', page.after);
+
+    const { data: contracts, error: contractsError } = await contractsQuery
+      .select('contract_key')
+      .order('contract_key', { ascending: true })
+      .limit(page.contracts ?? HISTORY_PAGE_SIZE);
+
+    if (contractsError) throw contractsError;
+    if (!contracts || contracts.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('compliance_analyses')
+      .select('*')
+      .eq('user_id', userId)
+      .in('contract_key', contracts.map(contract => contract.contract_key))
+      .order('contract_key', { ascending: true })
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return buildHistory((data || []).map(toRecord));
+  }
+
+  /**
+   * The latest version of each contract the user has analyzed, as a portfolio to re-analyze.
+   * The database picks the latest versions. Contracts whose latest version was saved without its
+   * text are left out.
+   */
+  async getPortfolio(userId: string): Promise<PortfolioContract[]> {
+    const { data, error } = await supabase
+      .rpc('latest_compliance_analyses', { _user_id: userId })
+      .not('contract_text', 'is', null)
+      .order('contract_key', { ascending: true });
+
+    if (error) throw error;
+    return (data || [])
+      .filter(row => row.contract_text)
+      .map(row => {
+        const analysis = fromStoredJson<ContractComplianceAnalysis>(row.analysis);
+        return {
+          contractKey: row.contract_key,
+          documentName: row.document_name,
+          text: row.contract_text!,
+          frameworks: analysis.frameworks.map(score => score.framework),
+          jurisdiction: analysis.jurisdiction,
+          clientId: analysis.clientId
+        };
+      });
+  }
+
+  /**
+   * The user's paused portfolio re-check, if any
+   */
+  async getBatchCheckpoint(userId: string): Promise<BatchAnalysisCheckpoint | undefined> {
+    const { data, error } = await supabase
+      .from('compliance_batch_checkpoints')
+      .select('checkpoint')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromStoredJson<BatchAnalysisCheckpoint>(data.checkpoint) : undefined;
+  }
+
+  /**
+   * Keep the progress of the user's portfolio re-check, replacing any earlier one
+   */
+  async saveBatchCheckpoint(userId: string, checkpoint: BatchAnalysisCheckpoint): Promise<void> {
+    const { error } = await supabase
+      .from('compliance_batch_checkpoints')
+      .upsert(
+        {
+          user_id: userId,
+          job_id: checkpoint.jobId,
+          checkpoint: toStoredJson(checkpoint)
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) throw error;
+  }
+
+  /**
+   * Forget the user's portfolio re-check once it completes or can no longer be resumed
+   */
+  async clearBatchCheckpoint(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('compliance_batch_checkpoints')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+}
+
+function toRecord(row: ComplianceAnalysisRow): ComplianceAnalysisRecord {
+  return {
+    id: row.id,
+    contractKey: row.contract_key,
+    version: row.version,
+    analysis: fromStoredJson<ContractComplianceAnalysis>(row.analysis),
+    analyzedBy: row.user_id,
+    createdAt: new Date(row.created_at)
+  };
+}
@@ -0,0 +1,215 @@
+import { ClauseCategory } from '@/types/clause-library';
+import {
+  ComplianceRule,
+  ContractClause,
+  RuleMatch,
+  MatchContradiction
+} from '@/types/compliance';
+
+// Words before a match that are inspected for negation ("shall not be required to notify of any ...")
+const NEGATION_LOOKBEHIND_WORDS = 12;
+const NEGATION_LOOKAHEAD_WORDS = 6;
+// Characters either side of a match that are inspected for disclaimers
+const DISCLAIMER_RADIUS = 200;
+
+const NEGATION_BEFORE = /\b(not|never|neither|nor|no)\b|n't\b|\bin no event\b|\bunder no circumstances\b/i;
+const NEGATION_AFTER = /^[\s,]*(is|are|shall|will|does|do|need)\s+not\b|^[\s,]*(is|are)\s+(excluded|waived)\b|^[\s,]*(shall|will) not apply\b/i;
+
+// Phrases that contain negation words but strengthen rather than negate an obligation
+const NEGATION_FALSE_POSITIVES = /\b(no|not) (later|less|more|fewer|greater) than\b|\bnot only\b|\bno (undue )?delay\b/gi;
+
+// Negation doesn't carry across coordinated clauses: "shall not disclose data and shall notify any breach"
+const NEGATION_SCOPE_BREAK = /;|\b(and|but|while|whereas)\b/gi;
+
+const CARVE_OUT = /\b(except|excepting|unless|notwithstanding|other than|save (for|as|where)|provided,? however)\b/i;
+const OVERRIDING_CARVE_OUT = /\bnotwithstanding (anything|the foregoing|any other)\b/i;
+// Carve-outs that are standard drafting and don't hollow out the obligation
+const BENIGN_CARVE_OUT = /^\W*(\w+\s+){0,3}(required|permitted|compelled) (to do so )?by (applicable |union |member state |federal |state )?(law|regulation|court order)|^\W*(as )?(otherwise )?(provided|set out|required|specified) (in|by|under)\b/i;
+
+// Rules that restrict an activity (transfers, subcontracting) are satisfied by prohibiting it except
+// under conditions: "shall not transfer personal data unless standard contractual clauses are in place"
+const PROHIBITIVE_CATEGORIES: ClauseCategory[] = ['CROSS_BORDER_TRANSFER', 'THIRD_PARTY_SHARING'];
+const PROHIBITION_CONDITION = /\b(unless|except|other than|save (for|as|where)|without (\S+\s+){0,3}(approval|consent|authori[sz]ation)|only (if|where|when|with|after))\b/i;
+
+// Clause numbering at the start of a line ("4.", "4.2.", "(b)."), which doesn't end a sentence
+const LINE_NUMBERING = /^\s*(\d+(\.\d+)*|[ivxlc]+|\(?[a-z]\))$/i;
+
+const DISCLAIMER = /\b(disclaims?|makes no (representations?|warrant(y|ies)|guarantees?)|no (warranty|guarantee|liability)|without (any )?(liability|responsibility)|(is|are|shall be) not (liable|responsible)|at its (sole )?discretion|for informational purposes only|not (legally )?binding)\b/i;
+
+/**
+ * Find matches for a rule in each clause, with absolute offsets into the contract text.
+ * Each match is checked for negation, carve-outs and nearby disclaimers.
+ */
+export function findRuleMatches(clauses: ContractClause[], rule: ComplianceRule): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  const seen = new Set<string>();
+  const prohibitive = PROHIBITIVE_CATEGORIES.includes(rule.category);
+
+  const addMatch = (clause: ContractClause, index: number, matchedText: string) => {
+    const start = clause.start + index;
+    const key = `${start}:${matchedText.length}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    matches.push({
+      clause,
+      start,
+      end: start + matchedText.length,
+      matchedText,
+      contradiction: detectContradiction(clause, index, index + matchedText.length, prohibitive)
+    });
+  };
+
+  for (const clause of clauses) {
+    for (const pattern of rule.patterns) {
+      const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+      for (const match of clause.text.matchAll(new RegExp(pattern.source, flags))) {
+        if (match[0]) addMatch(clause, match.index ?? 0, match[0]);
+      }
+    }
+
+    // Also check for keyword matches
+    const clauseText = clause.text.toLowerCase();
+    for (const keyword of rule.keywords) {
+      const needle = keyword.toLowerCase();
+      if (!needle) continue;
+      let index = clauseText.indexOf(needle);
+      while (index !== -1) {
+        addMatch(clause, index, clause.text.slice(index, index + needle.length));
+        index = clauseText.indexOf(needle, index + needle.length);
+      }
+    }
+  }
+
+  // A heading only names the topic, so it takes the verdict of a contradicted mention in its clause body
+  for (const match of matches) {
+    if (match.contradiction || match.start >= match.clause.bodyStart) continue;
+    match.contradiction = matches.find(other =>
+      other.clause === match.clause && other.start >= other.clause.bodyStart && other.contradiction
+    )?.contradiction;
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether the language around a match negates, carves out or disclaims it.
+ * Offsets are relative to the clause text; the returned contradiction uses absolute offsets.
+ * For a prohibitive rule, a negated provision with a condition is a conditional prohibition and
+ * satisfies the rule.
+ */
+export function detectContradiction(
+  clause: ContractClause,
+  matchStart: number,
+  matchEnd: number,
+  prohibitive = false
+): MatchContradiction | undefined {
+  const text = clause.text;
+  const { start: sentenceStart, end: sentenceEnd } = findSentenceBounds(clause, matchStart, matchEnd);
+
+  const toContradiction = (kind: MatchContradiction['kind'], index: number, trigger: string): MatchContradiction => ({
+    kind,
+    trigger,
+    start: clause.start + index,
+    end: clause.start + index + trigger.length
+  });
+
+  // Negation before the match, within the same coordinated clause
+  const before = text.slice(sentenceStart, matchStart);
+  const scopeStart = lastIndexOfPattern(before, NEGATION_SCOPE_BREAK);
+  const scoped = maskFalsePositives(before.slice(scopeStart));
+  const lookbehind = lastWords(scoped, NEGATION_LOOKBEHIND_WORDS);
+  const negation = lookbehind.match(NEGATION_BEFORE);
+  let conditionalProhibition = false;
+  if (negation && negation.index !== undefined) {
+    const index = sentenceStart + scopeStart + (scoped.length - lookbehind.length) + negation.index;
+    conditionalProhibition = prohibitive && PROHIBITION_CONDITION.test(text.slice(index, sentenceEnd));
+    if (!conditionalProhibition) {
+      return toContradiction('NEGATION', index, negation[0]);
+    }
+  }
+
+  // Negation after the match: "breach notification is not required"
+  const after = text.slice(matchEnd, sentenceEnd);
+  const lookahead = firstWords(after, NEGATION_LOOKAHEAD_WORDS);
+  const trailingNegation = lookahead.match(NEGATION_AFTER);
+  if (trailingNegation && trailingNegation.index !== undefined) {
+    return toContradiction('NEGATION', matchEnd + trailingNegation.index, trailingNegation[0].trim());
+  }
+
+  // Carve-outs anywhere in the sentence; in a conditional prohibition the carve-out is the condition
+  const sentence = text.slice(sentenceStart, sentenceEnd);
+  const carveOutPattern = new RegExp(CARVE_OUT.source, 'gi');
+  const carveOuts = conditionalProhibition ? [] : sentence.matchAll(carveOutPattern);
+  for (const carveOut of carveOuts) {
+    const index = carveOut.index ?? 0;
+    const following = sentence.slice(index + carveOut[0].length);
+    const overriding = OVERRIDING_CARVE_OUT.test(sentence.slice(index));
+    if (overriding || !BENIGN_CARVE_OUT.test(following)) {
+      return toContradiction('CARVE_OUT', sentenceStart + index, carveOut[0]);
+    }
+  }
+
+  // Disclaimers near the match, possibly in a neighbouring sentence
+  const nearbyStart = Math.max(0, matchStart - DISCLAIMER_RADIUS);
+  const nearby = text.slice(nearbyStart, Math.min(text.length, matchEnd + DISCLAIMER_RADIUS));
+  const disclaimer = nearby.match(DISCLAIMER);
+  if (disclaimer && disclaimer.index !== undefined) {
+    return toContradiction('DISCLAIMER', nearbyStart + disclaimer.index, disclaimer[0]);
+  }
+
+  return undefined;
+}
+
+// The heading line is a sentence of its own; the body splits at sentence ends and blank lines
+function findSentenceBounds(clause: ContractClause, matchStart: number, matchEnd: number): { start: number; end: number } {
+  const text = clause.text;
+  const headingEnd = clause.bodyStart - clause.start;
+  if (matchStart < headingEnd) {
+    return { start: 0, end: headingEnd };
+  }
+
+  const boundary = /[.!?](\s|$)|\n\s*\n/g;
+  boundary.lastIndex = headingEnd;
+  let start = headingEnd;
+  let end = text.length;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    if (match[0].startsWith('.') && LINE_NUMBERING.test(text.slice(text.lastIndexOf('\n', match.index - 1) + 1, match.index))) {
+      continue;
+    }
+    const boundaryEnd = match.index + match[0].length;
+    if (boundaryEnd <= matchStart) {
+      start = boundaryEnd;
+    } else if (match.index >= matchEnd) {
+      end = match.index + 1;
+      break;
+    }
+  }
+
+  return { start, end };
+}
+
+function lastIndexOfPattern(text: string, pattern: RegExp): number {
+  let lastEnd = 0;
+  for (const match of text.matchAll(pattern)) {
+    lastEnd = (match.index ?? 0) + match[0].length;
+  }
+  return lastEnd;
+}
+
+// Replace false-positive phrases with spaces so offsets are preserved
+function maskFalsePositives(text: string): string {
+  return text.replace(NEGATION_FALSE_POSITIVES, phrase => ' '.repeat(phrase.length));
+}
+
+function lastWords(text: string, count: number): string {
+  const words = text.match(/\S+\s*/g) ?? [];
+  const tail = words.slice(-count).join('');
+  return text.slice(text.length - tail.length);
+}
+
+function firstWords(text: string, count: number): string {
+  const words = text.match(/\s*\S+/g) ?? [];
+  return words.slice(0, count).join('');
+}
@@ -0,0 +1,72 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { NotificationChannel, NotificationDelivery } from '@/types/compliance';
+import type { NotificationTransport } from './compliance-notifications';
+
+type NotificationDeliveryRow = Tables<'compliance_notification_deliveries'>;
+
+// Stands in for the dispatcher's emailEndpoint: the relay sends email digests to the configured recipients
+export const EMAIL_NOTIFICATION_ROUTE = 'compliance-notifications';
+
+/**
+ * Transport for the browser, which can't reach Slack or webhooks directly: requests go through
+ * the compliance-notifications edge function. Only the channel, the body and the delivery are
+ * sent; the function delivers them to the targets saved in the user's configuration for `clientId`,
+ * signs webhook calls with the stored secret and logs each attempt.
+ */
+export function createRelayNotificationTransport(clientId?: string): NotificationTransport {
+  return async (_url, init, channel, delivery) => {
+    const { data, error } = await supabase.functions.invoke('compliance-notifications', {
+      body: {
+        channel,
+        clientId: clientId?.trim() || undefined,
+        deliveryId: delivery.id,
+        eventIds: delivery.eventIds,
+        body: init.body
+      }
+    });
+
+    // The function refused the request, e.g. for a channel that isn't configured, which a retry won't change
+    if (error instanceof FunctionsHttpError && error.context.status < 500) {
+      return { ok: false, status: error.context.status };
+    }
+    if (error) throw error;
+    return { ok: data.ok, status: data.status };
+  };
+}
+
+/**
+ * Reads the log of compliance notification deliveries, which the compliance-notifications
+ * function writes as it relays them
+ */
+export class NotificationDeliveryStore {
+  /**
+   * The user's most recent deliveries, newest first
+   */
+  async list(userId: string, limit = 50): Promise<NotificationDelivery[]> {
+    const { data, error } = await supabase
+      .from('compliance_notification_deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('sent_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toDelivery);
+  }
+}
+
+function toDelivery(row: NotificationDeliveryRow): NotificationDelivery {
+  return {
+    id: row.delivery_id,
+    channel: row.channel as NotificationChannel,
+    target: row.target,
+    eventIds: row.event_ids,
+    status: row.status as NotificationDelivery['status'],
+    attempts: row.attempts,
+    statusCode: row.status_code ?? undefined,
+    error: row.error ?? undefined,
+    sentAt: new Date(row.sent_at)
+  };
+}
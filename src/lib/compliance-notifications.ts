@@ -0,0 +1,397 @@
+import {
+  ComplianceAnalysisDiff,
+  ComplianceConfiguration,
+  ComplianceNotificationEvent,
+  ComplianceViolation,
+  ContractComplianceAnalysis,
+  NotificationChannel,
+  NotificationDelivery,
+  RiskLevel
+} from '@/types/compliance';
+import { sha256 } from './sha256';
+
+type NotificationSettings = ComplianceConfiguration['notificationSettings'];
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const ID_HASH_LENGTH = 16;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+// Slack limits messages to 50 blocks; long violation lists are truncated well before that
+const MAX_SLACK_VIOLATIONS = 10;
+
+export const SIGNATURE_HEADER = 'X-Compliance-Signature';
+export const TIMESTAMP_HEADER = 'X-Compliance-Timestamp';
+export const DELIVERY_HEADER = 'X-Compliance-Delivery';
+
+/**
+ * Minimal HTTP client used to deliver notifications; `fetch` satisfies it. `channel` and `delivery`
+ * let a transport that doesn't call URLs itself, such as the edge function relay, route and log the request.
+ */
+export type NotificationTransport = (
+  url: string,
+  init: { method: 'POST'; headers: Record<string, string>; body: string },
+  channel: NotificationChannel,
+  delivery: { id: string; eventIds: string[] }
+) => Promise<{ ok: boolean; status: number }>;
+
+export interface NotificationDispatcherOptions {
+  transport?: NotificationTransport;
+  emailEndpoint?: string; // HTTP endpoint that sends email digests, e.g. the compliance-notifications function
+  emailHeaders?: Record<string, string>;
+  webhookSecret?: string; // HMAC key for signing webhook payloads; the edge function signs them in the app
+  maxAttempts?: number;
+  retryDelayMs?: number; // doubled after each failed attempt
+  sleep?: (ms: number) => Promise<void>;
+  onDelivery?: (delivery: NotificationDelivery) => void | Promise<void>;
+}
+
+export interface EmailDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Events worth notifying about for a new analysis: the risk level rising to `minimumRiskLevel` or
+ * beyond, and CRITICAL violations that were not in the previous analysis. Without a diff, the
+ * analysis is the contract's first and all of its critical violations are new.
+ */
+export function detectNotificationEvents(
+  analysis: ContractComplianceAnalysis,
+  diff?: ComplianceAnalysisDiff,
+  minimumRiskLevel: RiskLevel = 'HIGH'
+): ComplianceNotificationEvent[] {
+  const events: ComplianceNotificationEvent[] = [];
+  const rank = (level: RiskLevel) => RISK_LEVEL_ORDER.indexOf(level);
+  const previousRiskLevel = diff?.previousRiskLevel;
+
+  // An analysis that isn't scored has no risk level to cross the threshold with
+  const crossedThreshold = analysis.overallRiskLevel !== null &&
+    rank(analysis.overallRiskLevel) >= rank(minimumRiskLevel) &&
+    (!previousRiskLevel || rank(analysis.overallRiskLevel) > rank(previousRiskLevel));
+  if (crossedThreshold) {
+    events.push(createEvent(analysis, 'RISK_THRESHOLD_CROSSED', [], previousRiskLevel,
+      previousRiskLevel
+        ? `${analysis.documentName} risk rose from ${previousRiskLevel} to ${analysis.overallRiskLevel} (score ${analysis.overallComplianceScore})`
+        : `${analysis.documentName} was analyzed at ${analysis.overallRiskLevel} risk (score ${analysis.overallComplianceScore})`
+    ));
+  }
+
+  const newCritical = (diff ? diff.newViolations : analysis.frameworks.flatMap(score => score.violations))
+    .filter(violation => violation.severity === 'CRITICAL');
+  if (newCritical.length > 0) {
+    events.push(createEvent(analysis, 'NEW_CRITICAL_VIOLATIONS', newCritical, previousRiskLevel,
+      `${analysis.documentName} has ${newCritical.length} new critical violation${newCritical.length === 1 ? '' : 's'}`
+    ));
+  }
+
+  return events;
+}
+
+function createEvent(
+  analysis: ContractComplianceAnalysis,
+  trigger: ComplianceNotificationEvent['trigger'],
+  violations: ComplianceViolation[],
+  previousRiskLevel: RiskLevel | undefined,
+  summary: string
+): ComplianceNotificationEvent {
+  return {
+    id: sha256(`${analysis.contractId}|${trigger}|${analysis.analyzedAt.toISOString()}`).slice(0, ID_HASH_LENGTH),
+    trigger,
+    contractId: analysis.contractId,
+    documentName: analysis.documentName,
+    clientId: analysis.clientId,
+    overallComplianceScore: analysis.overallComplianceScore,
+    riskLevel: analysis.overallRiskLevel,
+    previousRiskLevel,
+    violations,
+    summary,
+    occurredAt: analysis.analyzedAt
+  };
+}
+
+/**
+ * JSON body sent to webhooks. Violations are reduced to what a receiver needs to act on them.
+ */
+export function formatWebhookPayload(deliveryId: string, events: ComplianceNotificationEvent[]): string {
+  return JSON.stringify({
+    id: deliveryId,
+    type: 'compliance.notification',
+    events: events.map(event => ({
+      ...event,
+      occurredAt: event.occurredAt.toISOString(),
+      violations: event.violations.map(violation => ({
+        id: violation.id,
+        ruleId: violation.ruleId,
+        framework: violation.rule.framework,
+        severity: violation.severity,
+        violationType: violation.violationType,
+        description: violation.description,
+        clauseHeading: violation.location?.clauseHeading,
+        suggestedAction: violation.suggestedAction
+      }))
+    }))
+  });
+}
+
+/**
+ * Slack incoming-webhook message for one event, with a plain-text fallback
+ */
+export function formatSlackMessage(event: ComplianceNotificationEvent): { text: string; blocks: unknown[] } {
+  const icon = event.trigger === 'NEW_CRITICAL_VIOLATIONS' ? ':rotating_light:' : ':warning:';
+  const blocks: unknown[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `${icon} *${escapeSlack(event.summary)}*` }
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Document*\n${escapeSlack(event.documentName)}` },
+        { type: 'mrkdwn', text: `*Risk level*\n${event.previousRiskLevel ? `${event.previousRiskLevel} → ` : ''}${event.riskLevel ?? 'not scored'}` },
+        { type: 'mrkdwn', text: `*Compliance score*\n${event.overallComplianceScore ?? 'not scored'}` },
+        ...(event.clientId ? [{ type: 'mrkdwn', text: `*Client*\n${escapeSlack(event.clientId)}` }] : [])
+      ]
+    }
+  ];
+
+  if (event.violations.length > 0) {
+    const lines = event.violations.slice(0, MAX_SLACK_VIOLATIONS).map(violation =>
+      `• *${violation.rule.framework}* ${escapeSlack(violation.description)}`
+    );
+    if (event.violations.length > MAX_SLACK_VIOLATIONS) {
+      lines.push(`…and ${event.violations.length - MAX_SLACK_VIOLATIONS} more`);
+    }
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } });
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `Analyzed ${event.occurredAt.toISOString()}` }]
+  });
+
+  return { text: event.summary, blocks };
+}
+
+/**
+ * One email covering every event, grouped by contract
+ */
+export function formatEmailDigest(events: ComplianceNotificationEvent[]): EmailDigest {
+  const byContract = new Map<string, ComplianceNotificationEvent[]>();
+  events.forEach(event => {
+    byContract.set(event.contractId, [...(byContract.get(event.contractId) || []), event]);
+  });
+
+  const subject = `Compliance alert: ${events.length} notification${events.length === 1 ? '' : 's'} for ${byContract.size} contract${byContract.size === 1 ? '' : 's'}`;
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+
+  byContract.forEach(contractEvents => {
+    const { documentName, riskLevel, overallComplianceScore } = contractEvents[0];
+    const violations = contractEvents.flatMap(event => event.violations);
+    const scoreText = overallComplianceScore === null ? 'not scored' : `${riskLevel}, score ${overallComplianceScore}`;
+
+    textSections.push([
+      `${documentName} (${scoreText})`,
+      ...contractEvents.map(event => `- ${event.summary}`),
+      ...violations.map(violation => `  * [${violation.rule.framework}] ${violation.description}: ${violation.suggestedAction}`)
+    ].join('\n'));
+
+    htmlSections.push([
+      `<h3>${escapeHtml(documentName)} (${scoreText})</h3>`,
+      `<ul>${contractEvents.map(event => `<li>${escapeHtml(event.summary)}</li>`).join('')}</ul>`,
+      violations.length > 0
+        ? `<ul>${violations.map(violation =>
+            `<li><strong>${escapeHtml(violation.rule.framework)}</strong> ${escapeHtml(violation.description)}: ${escapeHtml(violation.suggestedAction)}</li>`
+          ).join('')}</ul>`
+        : ''
+    ].join(''));
+  });
+
+  return {
+    subject,
+    text: textSections.join('\n\n'),
+    html: `<h2>${escapeHtml(subject)}</h2>${htmlSections.join('')}`
+  };
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` as `sha256=<hex>`, sent in the X-Compliance-Signature header
+ */
+export async function signWebhookPayload(body: string, secret: string, timestamp: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Check a received webhook's signature, rejecting timestamps more than five minutes from `now` (seconds)
+ */
+export async function verifyWebhookSignature(
+  body: string,
+  secret: string,
+  timestamp: number,
+  signature: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await signWebhookPayload(body, secret, timestamp);
+  if (expected.length !== signature.length) return false;
+  // Compare every character so timing doesn't reveal how much of the signature matched
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Sends compliance notifications to the channels enabled in a configuration's notification settings.
+ * Failed requests are retried with exponential backoff and every delivery is kept in a log.
+ */
+export class ComplianceNotificationDispatcher {
+  private transport: NotificationTransport;
+  private emailEndpoint?: string;
+  private emailHeaders: Record<string, string>;
+  private webhookSecret?: string;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  private onDelivery?: (delivery: NotificationDelivery) => void | Promise<void>;
+  private deliveries: NotificationDelivery[] = [];
+
+  constructor(options: NotificationDispatcherOptions = {}) {
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+    this.emailEndpoint = options.emailEndpoint;
+    this.emailHeaders = options.emailHeaders ?? {};
+    this.webhookSecret = options.webhookSecret;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.onDelivery = options.onDelivery;
+  }
+
+  /**
+   * Send events to every enabled channel: one signed webhook call, one Slack message per event
+   * and one email digest. Channels without a target are skipped.
+   */
+  async dispatch(events: ComplianceNotificationEvent[], settings: NotificationSettings): Promise<NotificationDelivery[]> {
+    if (events.length === 0) return [];
+    const deliveries: NotificationDelivery[] = [];
+    const eventIds = events.map(event => event.id);
+
+    if (settings.webhook) {
+      const deliveryId = this.createDeliveryId('WEBHOOK', settings.webhook, eventIds);
+      const body = formatWebhookPayload(deliveryId, events);
+      deliveries.push(await this.deliver(deliveryId, 'WEBHOOK', settings.webhook, settings.webhook, body, eventIds, async () => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json', [DELIVERY_HEADER]: deliveryId };
+        if (this.webhookSecret) {
+          // Signed on each attempt so retries carry a fresh timestamp
+          const timestamp = Math.floor(Date.now() / 1000);
+          headers[TIMESTAMP_HEADER] = String(timestamp);
+          headers[SIGNATURE_HEADER] = await signWebhookPayload(body, this.webhookSecret, timestamp);
+        }
+        return headers;
+      }));
+    }
+
+    if (settings.slack && settings.slackWebhookUrl) {
+      for (const event of events) {
+        const deliveryId = this.createDeliveryId('SLACK', settings.slackWebhookUrl, [event.id]);
+        deliveries.push(await this.deliver(
+          deliveryId, 'SLACK', 'Slack', settings.slackWebhookUrl, JSON.stringify(formatSlackMessage(event)), [event.id],
+          async () => ({ 'Content-Type': 'application/json' })
+        ));
+      }
+    }
+
+    const recipients = settings.emailRecipients?.filter(recipient => recipient.trim()) ?? [];
+    if (settings.email && recipients.length > 0 && this.emailEndpoint) {
+      const target = recipients.join(', ');
+      const deliveryId = this.createDeliveryId('EMAIL', target, eventIds);
+      const body = JSON.stringify({ to: recipients, ...formatEmailDigest(events) });
+      deliveries.push(await this.deliver(deliveryId, 'EMAIL', target, this.emailEndpoint, body, eventIds,
+        async () => ({ 'Content-Type': 'application/json', ...this.emailHeaders })
+      ));
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Every delivery made by this dispatcher, oldest first
+   */
+  getDeliveryLog(): NotificationDelivery[] {
+    return [...this.deliveries];
+  }
+
+  private async deliver(
+    id: string,
+    channel: NotificationChannel,
+    target: string,
+    url: string,
+    body: string,
+    eventIds: string[],
+    buildHeaders: () => Promise<Record<string, string>>
+  ): Promise<NotificationDelivery> {
+    let attempts = 0;
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    while (attempts < this.maxAttempts) {
+      attempts++;
+      let retryable = true;
+      try {
+        const response = await this.transport(url, { method: 'POST', headers: await buildHeaders(), body }, channel, { id, eventIds });
+        statusCode = response.status;
+        if (response.ok) {
+          error = undefined;
+          break;
+        }
+        error = `HTTP ${response.status}`;
+        retryable = isRetryableStatus(response.status);
+      } catch (requestError) {
+        statusCode = undefined;
+        error = requestError instanceof Error ? requestError.message : String(requestError);
+      }
+
+      if (!retryable) break;
+      if (attempts < this.maxAttempts) {
+        await this.sleep(this.retryDelayMs * 2 ** (attempts - 1));
+      }
+    }
+
+    const delivery: NotificationDelivery = {
+      id,
+      channel,
+      target,
+      eventIds,
+      status: error ? 'FAILED' : 'DELIVERED',
+      attempts,
+      statusCode,
+      error,
+      sentAt: new Date()
+    };
+    this.deliveries.push(delivery);
+    await this.onDelivery?.(delivery);
+    return delivery;
+  }
+
+  private createDeliveryId(channel: NotificationChannel, target: string, eventIds: string[]): string {
+    return sha256(`${channel}|${target}|${eventIds.join(',')}`).slice(0, ID_HASH_LENGTH);
+  }
+}
+
+// Timeouts, rate limits and server errors may succeed later; other client errors won't
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(text: string): string {
+  return escapeSlack(text).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
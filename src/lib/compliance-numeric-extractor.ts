@@ -0,0 +1,219 @@
+import {
+  ComparisonOperator,
+  DurationUnit,
+  ExtractedQuantity,
+  NumericConstraint
+} from '@/types/compliance';
+
+// Default distance (in words) between a value and the phrase a constraint is anchored to
+export const NUMERIC_NEAR_WORDS = 30;
+
+// Business days are converted at 7/5 calendar days so "3 business days" is never read as shorter than it can be
+const HOURS_PER_UNIT: Record<DurationUnit, number> = {
+  'hours': 1,
+  'business days': 24 * 7 / 5,
+  'days': 24,
+  'weeks': 24 * 7,
+  'months': 24 * 30,
+  'years': 24 * 365
+};
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  k: 1000,
+  million: 1000000,
+  m: 1000000,
+  mm: 1000000,
+  billion: 1000000000,
+  bn: 1000000000
+};
+
+const CURRENCIES: Record<string, string> = {
+  'US$': 'USD', '$': 'USD', 'USD': 'USD', 'DOLLARS': 'USD',
+  'C$': 'CAD', 'CA$': 'CAD', 'CAD': 'CAD',
+  'A$': 'AUD', 'AUD': 'AUD',
+  'R$': 'BRL', 'BRL': 'BRL', 'REAIS': 'BRL',
+  '€': 'EUR', 'EUR': 'EUR', 'EUROS': 'EUR',
+  '£': 'GBP', 'GBP': 'GBP', 'POUNDS': 'GBP'
+};
+
+// Longest words first so "seventeen" isn't read as "seven"
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL_NUMBERS), ...Object.keys(TENS), 'hundred', 'thousand']
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+const WORD_NUMBER = `${NUMBER_WORD}(?:(?:[\\s-]+|\\s+and\\s+)${NUMBER_WORD})*`;
+const DIGITS = `\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?`;
+// "seventy-two (72)", "72 (seventy-two)", "72" or "seventy-two"
+const NUMBER = `(?:${WORD_NUMBER}\\s*\\(\\s*(?:${DIGITS})\\s*\\)|(?:${DIGITS})\\s*\\(\\s*${WORD_NUMBER}\\s*\\)|${DIGITS}|${WORD_NUMBER})`;
+
+const DURATION_PATTERN = new RegExp(
+  `\\b(${NUMBER}|an?)[\\s-]*(business |calendar |working )?(hours?|hrs?|days?|weeks?|months?|years?)\\b`,
+  'gi'
+);
+const PERCENTAGE_PATTERN = new RegExp(`\\b(${NUMBER})\\s*(%|per ?cent\\b)`, 'gi');
+const MONEY_PREFIX_PATTERN = new RegExp(
+  `(US\\$|CA?\\$|A\\$|R\\$|\\$|€|£|\\b(?:USD|CAD|AUD|BRL|EUR|GBP)\\b)\\s?(${DIGITS})(?:\\s*(thousand|million|billion|k|mm|m|bn)\\b)?`,
+  'gi'
+);
+const MONEY_SUFFIX_PATTERN = new RegExp(
+  `\\b(${DIGITS})(?:\\s*(thousand|million|billion))?\\s*(USD|CAD|AUD|BRL|EUR|GBP|dollars|euros|pounds|reais)\\b`,
+  'gi'
+);
+
+/**
+ * Extract durations, percentages and monetary amounts from text.
+ * Offsets are relative to `offset`, so passing a clause's start gives absolute contract offsets.
+ */
+export function extractQuantities(text: string, offset = 0): ExtractedQuantity[] {
+  const quantities: ExtractedQuantity[] = [];
+
+  const add = (kind: ExtractedQuantity['kind'], match: RegExpMatchArray, value: number, unit: string, normalizedValue: number) => {
+    if (!Number.isFinite(value)) return;
+    const start = offset + (match.index ?? 0);
+    quantities.push({ kind, value, unit, normalizedValue, text: match[0], start, end: start + match[0].length });
+  };
+
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const value = /^an?$/i.test(match[1]) ? 1 : parseNumber(match[1]);
+    const unit = toDurationUnit(match[3], match[2]);
+    add('duration', match, value, unit, value * HOURS_PER_UNIT[unit]);
+  }
+
+  for (const match of text.matchAll(PERCENTAGE_PATTERN)) {
+    const value = parseNumber(match[1]);
+    add('percentage', match, value, 'percent', value);
+  }
+
+  for (const match of text.matchAll(MONEY_PREFIX_PATTERN)) {
+    const value = parseNumber(match[2]) * (match[3] ? SCALES[match[3].toLowerCase()] : 1);
+    add('money', match, value, CURRENCIES[match[1].toUpperCase()], value);
+  }
+
+  for (const match of text.matchAll(MONEY_SUFFIX_PATTERN)) {
+    const value = parseNumber(match[1]) * (match[2] ? SCALES[match[2].toLowerCase()] : 1);
+    add('money', match, value, CURRENCIES[match[3].toUpperCase()], value);
+  }
+
+  // Keep the first of any overlapping values, e.g. "$5 million" matched by both money patterns
+  const sorted = quantities.sort((a, b) => a.start - b.start || b.end - a.end);
+  return sorted.filter((quantity, index) => index === 0 || quantity.start >= sorted[index - 1].end);
+}
+
+/**
+ * Check a numeric constraint against the values in a piece of text.
+ * Only values of the constrained kind (and, for money, currency) close to `near` count.
+ */
+export function checkNumericConstraint(
+  text: string,
+  offset: number,
+  constraint: NumericConstraint
+): { satisfied: boolean; found: ExtractedQuantity[]; passing: ExtractedQuantity[] } {
+  const anchors = constraint.near ? findPhrase(text, constraint.near) : [];
+  const found = extractQuantities(text, offset).filter(quantity =>
+    quantity.kind === constraint.quantity &&
+    (!constraint.near || anchors.some(anchor => wordsBetween(text, anchor, {
+      start: quantity.start - offset,
+      end: quantity.end - offset
+    }) <= NUMERIC_NEAR_WORDS))
+  );
+
+  const required = normalizeConstraintValue(constraint);
+  const passing = found.filter(quantity =>
+    (constraint.quantity !== 'money' || quantity.unit === constraint.unit) &&
+    compareValues(quantity.normalizedValue, constraint.operator, required)
+  );
+
+  return { satisfied: passing.length > 0, found, passing };
+}
+
+/**
+ * The constraint's value in the same units as ExtractedQuantity.normalizedValue
+ */
+export function normalizeConstraintValue(constraint: NumericConstraint): number {
+  return constraint.quantity === 'duration'
+    ? constraint.value * HOURS_PER_UNIT[constraint.unit as DurationUnit]
+    : constraint.value;
+}
+
+export function compareValues(actual: number, operator: ComparisonOperator, required: number): boolean {
+  switch (operator) {
+    case '<': return actual < required;
+    case '<=': return actual <= required;
+    case '=': return actual === required;
+    case '>=': return actual >= required;
+    case '>': return actual > required;
+  }
+}
+
+/**
+ * Format the required value, e.g. "≤ 72 hours", "≥ 99.9%" or "≤ 1,000,000 USD"
+ */
+export function formatConstraint(constraint: NumericConstraint): string {
+  const operator = { '<': '<', '<=': '≤', '=': '=', '>=': '≥', '>': '>' }[constraint.operator];
+  const value = constraint.value.toLocaleString('en-US');
+  if (constraint.quantity === 'percentage') return `${operator} ${value}%`;
+  return `${operator} ${value} ${constraint.unit}`;
+}
+
+function parseNumber(text: string): number {
+  // "seventy-two (72)" and "72 (seventy-two)" - the digits are authoritative
+  const digits = text.match(new RegExp(DIGITS));
+  if (digits) return parseFloat(digits[0].replace(/,/g, ''));
+  return parseWordNumber(text);
+}
+
+function parseWordNumber(text: string): number {
+  let total = 0;
+  let current = 0;
+
+  for (const word of text.toLowerCase().split(/[\s-]+/)) {
+    if (word === 'and') continue;
+    if (word in SMALL_NUMBERS) current += SMALL_NUMBERS[word];
+    else if (word in TENS) current += TENS[word];
+    else if (word === 'hundred') current = (current || 1) * 100;
+    else if (word === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else return NaN;
+  }
+
+  return total + current;
+}
+
+function toDurationUnit(unit: string, qualifier?: string): DurationUnit {
+  const normalized = unit.toLowerCase().replace(/^hrs?$/, 'hours');
+  const plural = (normalized.endsWith('s') ? normalized : `${normalized}s`) as DurationUnit;
+  if (plural === 'days' && qualifier && /business|working/i.test(qualifier)) return 'business days';
+  return plural;
+}
+
+function findPhrase(text: string, phrase: string): { start: number; end: number }[] {
+  const haystack = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  const spans: { start: number; end: number }[] = [];
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    spans.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+
+  return spans;
+}
+
+function wordsBetween(text: string, a: { start: number; end: number }, b: { start: number; end: number }): number {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  if (second.start <= first.end) return 0;
+  return text.slice(first.end, second.start).split(/\s+/).filter(Boolean).length;
+}
@@ -0,0 +1,184 @@
+import {
+  ComplianceFramework,
+  ComplianceRegressionReport,
+  DetectionMetrics,
+  DetectionMismatch,
+  DetectionRegression,
+  FrameworkDetectionMetrics,
+  LabelledContract,
+  RuleDetectionMetrics
+} from '@/types/compliance';
+import { ComplianceAnalyzer } from './compliance-analyzer';
+import { frameworkRegistry } from './compliance-framework-registry';
+
+// Fixed so corpus runs are reproducible
+const CORPUS_ANALYZED_AT = new Date('2025-01-01T00:00:00.000Z');
+
+type Counts = Pick<DetectionMetrics, 'truePositives' | 'falsePositives' | 'falseNegatives'>;
+
+/**
+ * Analyze every labelled contract and score detection per rule and per framework.
+ * A rule counts as detected on a contract when it raised any violation there. Rules that were
+ * evaluated but not listed in `expectedViolations` are expected to pass.
+ */
+export function evaluateCorpus(
+  samples: LabelledContract[],
+  analyzer: ComplianceAnalyzer = new ComplianceAnalyzer()
+): ComplianceRegressionReport {
+  const counts = new Map<string, Counts>();
+  const ruleFrameworks = new Map<string, ComplianceFramework>(
+    frameworkRegistry.getRules().map(rule => [rule.id, rule.framework])
+  );
+  const mismatches: DetectionMismatch[] = [];
+
+  for (const sample of samples) {
+    const analysis = analyzer.analyzeContract(
+      sample.text,
+      sample.name,
+      sample.frameworks,
+      sample.jurisdiction,
+      sample.clientId,
+      CORPUS_ANALYZED_AT
+    );
+
+    const evaluated = new Set<string>();
+    const detected = new Set<string>();
+    analysis.frameworks.forEach(score => {
+      score.evidence?.forEach(entry => {
+        evaluated.add(entry.ruleId);
+        ruleFrameworks.set(entry.ruleId, score.framework);
+      });
+      score.violations.forEach(violation => detected.add(violation.ruleId));
+    });
+
+    const expected = new Set(sample.expectedViolations);
+    for (const ruleId of new Set([...evaluated, ...expected, ...detected])) {
+      const ruleCounts = counts.get(ruleId) ?? { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+      if (expected.has(ruleId) && detected.has(ruleId)) {
+        ruleCounts.truePositives++;
+      } else if (detected.has(ruleId)) {
+        ruleCounts.falsePositives++;
+        mismatches.push({ sample: sample.name, ruleId, kind: 'FALSE_POSITIVE' });
+      } else if (expected.has(ruleId)) {
+        ruleCounts.falseNegatives++;
+        mismatches.push({ sample: sample.name, ruleId, kind: 'FALSE_NEGATIVE' });
+      }
+      counts.set(ruleId, ruleCounts);
+    }
+  }
+
+  const rules: RuleDetectionMetrics[] = [...counts.entries()]
+    .map(([ruleId, ruleCounts]) => ({
+      ruleId,
+      framework: ruleFrameworks.get(ruleId) ?? 'CUSTOM',
+      ...toMetrics(ruleCounts)
+    }))
+    .sort((a, b) => a.framework.localeCompare(b.framework) || a.ruleId.localeCompare(b.ruleId));
+
+  const frameworks: FrameworkDetectionMetrics[] = [...new Set(rules.map(rule => rule.framework))].map(framework => {
+    const frameworkRules = rules.filter(rule => rule.framework === framework);
+    return {
+      framework,
+      ...toMetrics({
+        truePositives: sum(frameworkRules, 'truePositives'),
+        falsePositives: sum(frameworkRules, 'falsePositives'),
+        falseNegatives: sum(frameworkRules, 'falseNegatives')
+      })
+    };
+  });
+
+  return { samples: samples.length, rules, frameworks, mismatches };
+}
+
+/**
+ * Precision or recall that dropped below the baseline by more than `tolerance`.
+ * Rules and frameworks missing from either report are not compared.
+ */
+export function findRegressions(
+  current: Pick<ComplianceRegressionReport, 'rules' | 'frameworks'>,
+  baseline: Pick<ComplianceRegressionReport, 'rules' | 'frameworks'>,
+  tolerance = 0
+): DetectionRegression[] {
+  const regressions: DetectionRegression[] = [];
+
+  const compare = (scope: DetectionRegression['scope'], id: string, now: DetectionMetrics, before: DetectionMetrics) => {
+    for (const metric of ['precision', 'recall'] as const) {
+      // A rule that never fired, or was never expected to, loses nothing on that metric
+      const baselineValue = before[metric] ?? 1;
+      const currentValue = now[metric] ?? 1;
+      if (baselineValue - currentValue > tolerance) {
+        regressions.push({ scope, id, metric, baseline: baselineValue, current: currentValue });
+      }
+    }
+  };
+
+  current.rules.forEach(rule => {
+    const before = baseline.rules.find(entry => entry.ruleId === rule.ruleId);
+    if (before) compare('RULE', rule.ruleId, rule, before);
+  });
+  current.frameworks.forEach(framework => {
+    const before = baseline.frameworks.find(entry => entry.framework === framework.framework);
+    if (before) compare('FRAMEWORK', framework.framework, framework, before);
+  });
+
+  return regressions;
+}
+
+/**
+ * Plain-text tables of the report, for the console
+ */
+export function formatReport(report: ComplianceRegressionReport): string {
+  const header = ['', 'TP', 'FP', 'FN', 'Precision', 'Recall'];
+  const row = (label: string, metrics: DetectionMetrics) => [
+    label,
+    String(metrics.truePositives),
+    String(metrics.falsePositives),
+    String(metrics.falseNegatives),
+    formatRatio(metrics.precision),
+    formatRatio(metrics.recall)
+  ];
+
+  const sections = [
+    `${report.samples} labelled contracts`,
+    formatTable([['Framework', ...header.slice(1)], ...report.frameworks.map(framework => row(framework.framework, framework))]),
+    formatTable([['Rule', ...header.slice(1)], ...report.rules.map(rule => row(rule.ruleId, rule))])
+  ];
+
+  if (report.mismatches.length > 0) {
+    sections.push(['Mismatches:', ...report.mismatches.map(mismatch =>
+      `  ${mismatch.kind === 'FALSE_POSITIVE' ? 'unexpected' : 'missed    '} ${mismatch.ruleId} in ${mismatch.sample}`
+    )].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+function toMetrics(counts: Counts): DetectionMetrics {
+  const { truePositives, falsePositives, falseNegatives } = counts;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives > 0 ? round(truePositives / (truePositives + falsePositives)) : null,
+    recall: truePositives + falseNegatives > 0 ? round(truePositives / (truePositives + falseNegatives)) : null
+  };
+}
+
+function sum(rules: RuleDetectionMetrics[], key: keyof Counts): number {
+  return rules.reduce((total, rule) => total + rule[key], 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  '))
+    .join('\n');
+}
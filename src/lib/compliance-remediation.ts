@@ -0,0 +1,169 @@
+import {
+  ComplianceViolation,
+  ContractClause,
+  ContractComplianceAnalysis,
+  RemediationPlan,
+  RemediationResult
+} from '@/types/compliance';
+import { ClauseTemplate } from '@/types/clause-library';
+import { ComplianceAnalyzer } from './compliance-analyzer';
+import { findClauseAt, segmentContract } from './contract-segmenter';
+
+const SIGNATURE_BLOCK = /^[ \t]*(in witness whereof|signatures?\b|signed\b|executed\b)/im;
+const NUMBERED_HEADING = /^(\d+)(\.\d+)*\.?\s/;
+const KEYWORD_HEADING = /^(article|section|clause)\s+(\d+)/i;
+
+/**
+ * Work out where a template fixes a violation. A flagged provision (insufficient, contradicted,
+ * prohibited or outside a limit) has the sentence at its location rewritten; a missing provision
+ * gets a new clause after the last numbered clause, or before the signature block.
+ */
+export function planRemediation(
+  contractText: string,
+  violation: ComplianceViolation,
+  template: ClauseTemplate
+): RemediationPlan {
+  const clauses = segmentContract(contractText);
+  const flaggedClause = violation.location && findClauseAt(clauses, violation.location.start);
+
+  if (flaggedClause) {
+    const { start, end } = findSentence(contractText, flaggedClause, violation.location!.start);
+    return {
+      violationId: violation.id,
+      ruleId: violation.ruleId,
+      templateId: template.id,
+      action: 'REPLACE',
+      start,
+      end,
+      originalText: contractText.slice(start, end),
+      replacementText: template.content,
+      clauseHeading: flaggedClause.heading
+    };
+  }
+
+  const { offset, heading } = findInsertionPoint(contractText, clauses, template.title);
+  // Replace the whitespace around the insertion point so the new clause sits one blank line from its neighbours
+  const start = contractText.slice(0, offset).trimEnd().length;
+  const following = contractText.slice(offset);
+  const end = offset + following.length - following.trimStart().length;
+
+  return {
+    violationId: violation.id,
+    ruleId: violation.ruleId,
+    templateId: template.id,
+    action: 'INSERT',
+    start,
+    end,
+    originalText: contractText.slice(start, end),
+    replacementText: `${start > 0 ? '\n\n' : ''}${heading}\n${template.content}${end < contractText.length ? '\n\n' : '\n'}`,
+    clauseHeading: heading
+  };
+}
+
+export function applyRemediation(contractText: string, plan: RemediationPlan): string {
+  return contractText.slice(0, plan.start) + plan.replacementText + contractText.slice(plan.end);
+}
+
+/**
+ * Fix a violation with a template and re-analyze the contract with the same frameworks,
+ * jurisdictions and client, to confirm the rule is now satisfied
+ */
+export function remediateViolation(
+  analyzer: ComplianceAnalyzer,
+  analysis: ContractComplianceAnalysis,
+  contractText: string,
+  violation: ComplianceViolation,
+  template: ClauseTemplate,
+  analyzedAt: Date = new Date()
+): RemediationResult {
+  const plan = planRemediation(contractText, violation, template);
+  const remediatedText = applyRemediation(contractText, plan);
+  const selected = analysis.applicableJurisdictions
+    .filter(applicable => applicable.source === 'SELECTED')
+    .map(applicable => applicable.code);
+
+  const reanalysis = analyzer.analyzeContract(
+    remediatedText,
+    analysis.documentName,
+    analysis.frameworks.map(score => score.framework),
+    selected.length > 0 ? selected : analysis.jurisdiction,
+    analysis.clientId,
+    analyzedAt
+  );
+
+  const previouslyViolated = new Set(analysis.frameworks.flatMap(score => score.violations.map(v => v.ruleId)));
+  const violations = reanalysis.frameworks.flatMap(score => score.violations);
+
+  return {
+    plan,
+    contractText: remediatedText,
+    analysis: reanalysis,
+    resolved: !violations.some(v => v.ruleId === violation.ruleId),
+    introducedViolations: violations.filter(v => !previouslyViolated.has(v.ruleId))
+  };
+}
+
+/**
+ * The sentence around an offset, kept inside the clause body
+ */
+function findSentence(contractText: string, clause: ContractClause, offset: number): { start: number; end: number } {
+  const body = contractText.slice(clause.bodyStart, clause.end);
+  const position = Math.max(0, offset - clause.bodyStart);
+
+  let start = 0;
+  for (const boundary of body.slice(0, position).matchAll(/[.!?]\s+|\n\s*/g)) {
+    start = (boundary.index ?? 0) + boundary[0].length;
+  }
+
+  const next = body.slice(position).search(/[.!?](\s|$)|\n/);
+  const end = next === -1 ? body.length : position + next + (/[.!?]/.test(body[position + next]) ? 1 : 0);
+
+  return { start: clause.bodyStart + start, end: clause.bodyStart + end };
+}
+
+/**
+ * Where a new clause goes and the heading it gets, following the contract's numbering
+ */
+function findInsertionPoint(
+  contractText: string,
+  clauses: ContractClause[],
+  title: string
+): { offset: number; heading: string } {
+  const numbered = clauses
+    .map(clause => ({ clause, number: getClauseNumber(clause.heading) }))
+    .filter((entry): entry is { clause: ContractClause; number: number } => entry.number !== undefined);
+
+  if (numbered.length > 0) {
+    const highest = Math.max(...numbered.map(entry => entry.number));
+    // Sub-clauses such as 5.1 and 5.2 belong to the last top-level clause
+    const last = numbered.filter(entry => entry.number === highest).pop()!;
+    const keyword = last.clause.heading.match(KEYWORD_HEADING)?.[1];
+
+    return {
+      offset: findSignatureBlock(contractText, last.clause.bodyStart, last.clause.end) ?? last.clause.end,
+      heading: keyword ? `${keyword} ${highest + 1}. ${title}` : `${highest + 1}. ${title}`
+    };
+  }
+
+  const signature = clauses
+    .map(clause => findSignatureBlock(contractText, clause.start, clause.end))
+    .find(offset => offset !== undefined);
+  return { offset: signature ?? contractText.length, heading: title.toUpperCase() };
+}
+
+/**
+ * Where a signature block starts between two offsets, including one run on from the last clause
+ * without a blank line or heading of its own
+ */
+function findSignatureBlock(contractText: string, start: number, end: number): number | undefined {
+  const index = contractText.slice(start, end).search(SIGNATURE_BLOCK);
+  return index === -1 ? undefined : start + index;
+}
+
+function getClauseNumber(heading: string): number | undefined {
+  const match = heading.match(KEYWORD_HEADING);
+  if (match) return Number(match[2]);
+
+  const numbered = heading.match(NUMBERED_HEADING);
+  return numbered ? Number(numbered[1]) : undefined;
+}
@@ -0,0 +1,423 @@
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  ComplianceRule,
+  ComplianceFramework,
+  ContractClause,
+  RuleCondition,
+  RuleDefinition,
+  RuleDefinitionBody,
+  RulePack,
+  RuleValidationIssue,
+  NumericConstraint,
+  ThresholdFinding
+} from '@/types/compliance';
+import { ClauseCategory } from '@/types/clause-library';
+import { frameworkRegistry } from './compliance-framework-registry';
+import { checkNumericConstraint, formatConstraint } from './compliance-numeric-extractor';
+
+export type RulePackFormat = 'json' | 'yaml';
+
+export class RuleValidationError extends Error {
+  issues: RuleValidationIssue[];
+
+  constructor(issues: RuleValidationIssue[]) {
+    super(`Invalid compliance rule: ${issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')}`);
+    this.name = 'RuleValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ConditionResult {
+  satisfied: boolean;
+  evidence: { start: number; end: number }[]; // absolute offsets of the text that satisfied the condition
+  failures: string[]; // human-readable descriptions of unmet conditions
+  thresholds?: ThresholdFinding[]; // numeric conditions that were not met, with the values found
+}
+
+const DURATION_UNITS = ['hours', 'business days', 'days', 'weeks', 'months', 'years'];
+
+// Recursive schemas need an explicit type; the cast also keeps required keys required without strictNullChecks
+const conditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({ phrase: z.string().min(1), caseSensitive: z.boolean().optional() }).strict(),
+    z.object({
+      regex: z.string().min(1),
+      flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are allowed').optional()
+    }).strict().superRefine((condition, ctx) => {
+      try {
+        new RegExp(condition.regex, condition.flags);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['regex'],
+          message: error instanceof Error ? error.message : 'Invalid regular expression'
+        });
+      }
+    }),
+    z.object({
+      near: z.object({
+        a: z.string().min(1),
+        b: z.string().min(1),
+        within: z.number().int().positive()
+      }).strict()
+    }).strict(),
+    z.object({
+      numeric: z.object({
+        quantity: z.enum(['duration', 'percentage', 'money']),
+        operator: z.enum(['<', '<=', '=', '>=', '>']),
+        value: z.number().nonnegative(),
+        unit: z.string().min(1),
+        near: z.string().min(1).optional()
+      }).strict().superRefine((numeric, ctx) => {
+        const valid = numeric.quantity === 'duration' ? DURATION_UNITS.includes(numeric.unit)
+          : numeric.quantity === 'percentage' ? numeric.unit === 'percent'
+          : /^[A-Z]{3}$/.test(numeric.unit);
+        if (!valid) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['unit'],
+            message: numeric.quantity === 'duration' ? `Use one of: ${DURATION_UNITS.join(', ')}`
+              : numeric.quantity === 'percentage' ? 'Use "percent"'
+              : 'Use an ISO currency code such as USD'
+          });
+        }
+      })
+    }).strict(),
+    z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ not: conditionSchema }).strict()
+  ])
+) as z.ZodType<RuleCondition>;
+
+const ruleDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-_]*$/, 'Use lowercase letters, digits, dashes and underscores'),
+  framework: z.string().refine(
+    framework => frameworkRegistry.has(framework),
+    framework => ({ message: `Unknown framework "${framework}"` })
+  ),
+  category: z.string().regex(/^[A-Z][A-Z_]*$/, 'Use an upper-case clause category such as DATA_PROTECTION'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']),
+  weight: z.number().min(0).max(1),
+  jurisdiction: z.string().min(1).optional(),
+  clientId: z.string().min(1).optional(),
+  isActive: z.boolean().optional(),
+  effectiveFrom: z.string().date('Use an ISO date such as 2025-06-01').optional(),
+  overridesRuleId: z.string().min(1).optional(),
+  requires: conditionSchema.optional(),
+  forbids: z.array(conditionSchema).optional()
+}).strict().refine(
+  rule => rule.requires !== undefined || (rule.forbids?.length ?? 0) > 0,
+  { message: 'A rule needs a "requires" condition or at least one "forbids" condition' }
+);
+
+const rulePackSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  rules: z.array(ruleDefinitionSchema)
+}).strict().superRefine((pack, ctx) => {
+  const seen = new Set<string>();
+  pack.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+function toIssues(error: z.ZodError): RuleValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+/**
+ * Validate a rule definition, returning an empty array when it is valid
+ */
+export function validateRuleDefinition(input: unknown): RuleValidationIssue[] {
+  const result = ruleDefinitionSchema.safeParse(input);
+  return result.success ? [] : toIssues(result.error);
+}
+
+/**
+ * Validate a single condition, e.g. while it is being edited
+ */
+export function validateRuleCondition(input: unknown): RuleValidationIssue[] {
+  const result = conditionSchema.safeParse(input);
+  return result.success ? [] : toIssues(result.error);
+}
+
+/**
+ * Compile a declarative rule into a ComplianceRule the analyzer can run.
+ * Phrases and regexes that must be present become keywords and patterns, so
+ * violations can still be located in the contract text.
+ */
+export function compileRuleDefinition(input: unknown): ComplianceRule {
+  const result = ruleDefinitionSchema.safeParse(input);
+  if (!result.success) {
+    throw new RuleValidationError(toIssues(result.error));
+  }
+
+  const definition = result.data as RuleDefinition;
+  const keywords: string[] = [];
+  const patterns: RegExp[] = [];
+  if (definition.requires) {
+    collectAnchors(definition.requires, keywords, patterns);
+  }
+
+  return {
+    id: definition.id,
+    framework: definition.framework as ComplianceFramework,
+    category: definition.category as ClauseCategory,
+    name: definition.name,
+    description: definition.description,
+    riskLevel: definition.riskLevel,
+    keywords: [...new Set(keywords)],
+    patterns,
+    definition: {
+      requires: definition.requires,
+      forbids: definition.forbids
+    },
+    weight: definition.weight,
+    jurisdiction: definition.jurisdiction,
+    clientId: definition.clientId,
+    isActive: definition.isActive ?? true,
+    effectiveFrom: definition.effectiveFrom ? new Date(definition.effectiveFrom) : undefined,
+    overridesRuleId: definition.overridesRuleId,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Convert a ComplianceRule back into its declarative form.
+ * Rules defined with keywords and RegExp patterns become an "any" condition,
+ * combined with their numeric thresholds.
+ */
+export function toRuleDefinition(rule: ComplianceRule): RuleDefinition {
+  const anchors: RuleCondition[] = [
+    ...rule.keywords.filter(Boolean).map(keyword => ({ phrase: keyword })),
+    ...rule.patterns.map(pattern => ({ regex: pattern.source, flags: pattern.flags.replace(/[gy]/g, '') }))
+  ];
+  const thresholds: RuleCondition[] = (rule.thresholds ?? []).map(numeric => ({ numeric }));
+  const requires: RuleCondition | undefined = anchors.length === 0 ? undefined
+    : thresholds.length > 0 ? { all: [{ any: anchors }, ...thresholds] }
+    : { any: anchors };
+  const body: RuleDefinitionBody = rule.definition ?? (requires ? { requires } : {});
+
+  return {
+    id: rule.id,
+    framework: rule.framework,
+    category: rule.category,
+    name: rule.name,
+    description: rule.description,
+    riskLevel: rule.riskLevel,
+    weight: rule.weight,
+    ...(rule.jurisdiction ? { jurisdiction: rule.jurisdiction } : {}),
+    ...(rule.clientId ? { clientId: rule.clientId } : {}),
+    isActive: rule.isActive,
+    ...(rule.effectiveFrom ? { effectiveFrom: rule.effectiveFrom.toISOString().slice(0, 10) } : {}),
+    ...(rule.overridesRuleId ? { overridesRuleId: rule.overridesRuleId } : {}),
+    ...(body.requires ? { requires: body.requires } : {}),
+    ...(body.forbids?.length ? { forbids: body.forbids } : {})
+  };
+}
+
+/**
+ * Parse and validate a rule pack from JSON or YAML text
+ */
+export function parseRulePack(text: string, format: RulePackFormat): RulePack {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new RuleValidationError([{
+      path: '',
+      message: `Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`
+    }]);
+  }
+
+  const result = rulePackSchema.safeParse(raw);
+  if (!result.success) {
+    throw new RuleValidationError(toIssues(result.error));
+  }
+
+  return result.data as RulePack;
+}
+
+/**
+ * Parse a rule pack and compile every rule in it
+ */
+export function importRulePack(text: string, format: RulePackFormat): { pack: RulePack; rules: ComplianceRule[] } {
+  const pack = parseRulePack(text, format);
+  return { pack, rules: pack.rules.map(rule => compileRuleDefinition(rule)) };
+}
+
+/**
+ * Serialize rules as a rule pack
+ */
+export function exportRulePack(
+  rules: ComplianceRule[],
+  meta: Omit<RulePack, 'rules'>,
+  format: RulePackFormat
+): string {
+  const pack: RulePack = { ...meta, rules: rules.map(toRuleDefinition) };
+  return format === 'yaml' ? stringifyYaml(pack) : JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Evaluate a condition against a single clause
+ */
+export function evaluateCondition(condition: RuleCondition, clause: ContractClause): ConditionResult {
+  if ('phrase' in condition) {
+    const evidence = findPhrase(clause, condition.phrase, condition.caseSensitive);
+    return result(evidence.length > 0, evidence, `phrase "${condition.phrase}"`);
+  }
+
+  if ('regex' in condition) {
+    const evidence = [...clause.text.matchAll(new RegExp(condition.regex, `${condition.flags ?? 'i'}g`))]
+      .filter(match => match[0])
+      .map(match => span(clause, match.index ?? 0, match[0].length));
+    return result(evidence.length > 0, evidence, `pattern /${condition.regex}/`);
+  }
+
+  if ('near' in condition) {
+    return evaluateNear(condition.near, clause);
+  }
+
+  if ('numeric' in condition) {
+    return evaluateNumeric(condition.numeric, clause);
+  }
+
+  if ('all' in condition) {
+    const results = condition.all.map(child => evaluateCondition(child, clause));
+    const satisfied = results.every(child => child.satisfied);
+    return {
+      satisfied,
+      evidence: satisfied ? results.flatMap(child => child.evidence) : [],
+      failures: results.flatMap(child => child.failures),
+      thresholds: results.flatMap(child => child.thresholds ?? [])
+    };
+  }
+
+  if ('any' in condition) {
+    const results = condition.any.map(child => evaluateCondition(child, clause));
+    const satisfied = results.some(child => child.satisfied);
+    return {
+      satisfied,
+      evidence: results.filter(child => child.satisfied).flatMap(child => child.evidence),
+      failures: satisfied ? [] : [`one of: ${condition.any.map(describeCondition).join(' / ')}`],
+      thresholds: satisfied ? [] : results.flatMap(child => child.thresholds ?? [])
+    };
+  }
+
+  const inner = evaluateCondition(condition.not, clause);
+  return {
+    satisfied: !inner.satisfied,
+    evidence: [],
+    failures: inner.satisfied ? [`must not contain ${describeCondition(condition.not)}`] : []
+  };
+}
+
+/**
+ * Human-readable description of a condition
+ */
+export function describeCondition(condition: RuleCondition): string {
+  if ('phrase' in condition) return `"${condition.phrase}"`;
+  if ('regex' in condition) return `/${condition.regex}/`;
+  if ('near' in condition) return `"${condition.near.a}" within ${condition.near.within} words of "${condition.near.b}"`;
+  if ('numeric' in condition) return describeNumeric(condition.numeric);
+  if ('all' in condition) return condition.all.map(describeCondition).join(' AND ');
+  if ('any' in condition) return `(${condition.any.map(describeCondition).join(' OR ')})`;
+  return `NOT ${describeCondition(condition.not)}`;
+}
+
+function evaluateNear(near: { a: string; b: string; within: number }, clause: ContractClause): ConditionResult {
+  const aMatches = findPhrase(clause, near.a);
+  const bMatches = findPhrase(clause, near.b);
+
+  for (const a of aMatches) {
+    for (const b of bMatches) {
+      if (wordDistance(clause, a, b) <= near.within) {
+        return {
+          satisfied: true,
+          evidence: [{ start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) }],
+          failures: []
+        };
+      }
+    }
+  }
+
+  return result(false, [], `"${near.a}" within ${near.within} words of "${near.b}"`);
+}
+
+function evaluateNumeric(numeric: NumericConstraint, clause: ContractClause): ConditionResult {
+  const check = checkNumericConstraint(clause.text, clause.start, numeric);
+
+  if (check.satisfied) {
+    return { satisfied: true, evidence: check.passing.map(({ start, end }) => ({ start, end })), failures: [] };
+  }
+
+  const found = check.found.length > 0 ? ` (found ${check.found.map(quantity => quantity.text).join(', ')})` : '';
+  return {
+    satisfied: false,
+    evidence: [],
+    failures: [`${describeNumeric(numeric)}${found}`],
+    thresholds: [{ constraint: numeric, required: formatConstraint(numeric), found: check.found }]
+  };
+}
+
+function describeNumeric(numeric: NumericConstraint): string {
+  return `${numeric.near ? `${numeric.near} ` : ''}${numeric.quantity} ${formatConstraint(numeric)}`;
+}
+
+function findPhrase(clause: ContractClause, phrase: string, caseSensitive = false): { start: number; end: number }[] {
+  const haystack = caseSensitive ? clause.text : clause.text.toLowerCase();
+  const needle = caseSensitive ? phrase : phrase.toLowerCase();
+  const spans: { start: number; end: number }[] = [];
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    spans.push(span(clause, index, needle.length));
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+
+  return spans;
+}
+
+function wordDistance(clause: ContractClause, a: { start: number; end: number }, b: { start: number; end: number }): number {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  if (second.start <= first.end) return 0;
+  const between = clause.text.slice(first.end - clause.start, second.start - clause.start);
+  return between.split(/\s+/).filter(Boolean).length;
+}
+
+function span(clause: ContractClause, index: number, length: number): { start: number; end: number } {
+  return { start: clause.start + index, end: clause.start + index + length };
+}
+
+function result(satisfied: boolean, evidence: { start: number; end: number }[], description: string): ConditionResult {
+  return { satisfied, evidence, failures: satisfied ? [] : [description] };
+}
+
+// Positive phrases and regexes, used to locate the rule in the contract text
+function collectAnchors(condition: RuleCondition, keywords: string[], patterns: RegExp[]): void {
+  if ('phrase' in condition) {
+    keywords.push(condition.phrase);
+  } else if ('regex' in condition) {
+    patterns.push(new RegExp(condition.regex, condition.flags ?? 'i'));
+  } else if ('near' in condition) {
+    keywords.push(condition.near.a, condition.near.b);
+  } else if ('numeric' in condition) {
+    if (condition.numeric.near) keywords.push(condition.numeric.near);
+  } else if ('all' in condition) {
+    condition.all.forEach(child => collectAnchors(child, keywords, patterns));
+  } else if ('any' in condition) {
+    condition.any.forEach(child => collectAnchors(child, keywords, patterns));
+  }
+  // Conditions under "not" describe what must be absent, so they are never anchors
+}
@@ -0,0 +1,118 @@
+import {
+  BatchContractFailure,
+  ContractComplianceAnalysis,
+  ContractRuleImpact,
+  PortfolioContract,
+  RuleChange,
+  RuleChangeImpactReport
+} from '@/types/compliance';
+import { ComplianceAnalyzer } from './compliance-analyzer';
+import { analyzePortfolioContract } from './compliance-batch';
+import { diffAnalyses } from './compliance-analysis-diff';
+import { getRuleVersion } from './compliance-serialization';
+
+/**
+ * Add a rule, record a new version of one or override a built-in rule, as `addCustomRule`,
+ * `updateRule` and `overrideRule` do. Returns the id of the rule added or changed.
+ */
+export function applyRuleChange(analyzer: ComplianceAnalyzer, change: RuleChange): string {
+  switch (change.type) {
+    case 'ADD':
+      analyzer.addCustomRule(change.rule);
+      return change.rule.id;
+    case 'UPDATE':
+      if (!analyzer.updateRule(change.ruleId, change.updates)) {
+        throw new Error(`Rule ${change.ruleId} not found`);
+      }
+      return change.ruleId;
+    case 'OVERRIDE':
+      return analyzer.overrideRule(change.ruleId, change.changes).id;
+  }
+}
+
+/**
+ * Which contracts a rule change would affect, before it is applied. Each contract is analyzed with
+ * and without the change when it takes effect (or now, for a change already in effect), and is
+ * reported when the rule starts or stops being violated or the contract's risk level changes.
+ */
+export function analyzeRuleChangeImpact(
+  analyzer: ComplianceAnalyzer,
+  change: RuleChange,
+  contracts: PortfolioContract[],
+  now: Date = new Date()
+): RuleChangeImpactReport {
+  // Pin an update's effective date so the preview and the report agree on it
+  const effectiveFrom = change.type === 'ADD' ? change.rule.effectiveFrom
+    : change.type === 'OVERRIDE' ? change.changes.effectiveFrom
+    : change.updates.effectiveFrom ?? now;
+  const evaluatedAt = effectiveFrom && effectiveFrom.getTime() > now.getTime() ? effectiveFrom : now;
+
+  const preview = analyzer.clone();
+  const ruleId = applyRuleChange(preview, change.type === 'UPDATE'
+    ? { ...change, updates: { ...change.updates, effectiveFrom } }
+    : change);
+
+  const changed = preview.getRulesInEffect(evaluatedAt).find(rule => rule.id === ruleId)!;
+  // An override takes over from its built-in rule, so a violation of either counts
+  const ruleIds = [ruleId, ...(changed.overridesRuleId ? [changed.overridesRuleId] : [])];
+  const previous = ruleIds
+    .map(id => analyzer.getRulesInEffect(evaluatedAt).find(rule => rule.id === id))
+    .find(rule => rule !== undefined);
+
+  const affectedContracts: ContractRuleImpact[] = [];
+  const failures: BatchContractFailure[] = [];
+
+  for (const contract of contracts) {
+    let before: ContractComplianceAnalysis;
+    let after: ContractComplianceAnalysis;
+    try {
+      before = analyzePortfolioContract(analyzer, contract, evaluatedAt);
+      after = analyzePortfolioContract(preview, contract, evaluatedAt);
+    } catch (error) {
+      failures.push({
+        contractKey: contract.contractKey,
+        documentName: contract.documentName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      continue;
+    }
+
+    const ruleViolatedBefore = isRuleViolated(before, ruleIds);
+    const ruleViolatedAfter = isRuleViolated(after, ruleIds);
+    if (ruleViolatedBefore === ruleViolatedAfter && before.overallRiskLevel === after.overallRiskLevel) continue;
+
+    affectedContracts.push({
+      contractKey: contract.contractKey,
+      documentName: contract.documentName,
+      clientId: contract.clientId,
+      ruleViolatedBefore,
+      ruleViolatedAfter,
+      scoreBefore: before.overallComplianceScore,
+      scoreAfter: after.overallComplianceScore,
+      riskLevelBefore: before.overallRiskLevel,
+      riskLevelAfter: after.overallRiskLevel,
+      analysis: after,
+      diff: diffAnalyses(before, after)
+    });
+  }
+
+  affectedContracts.sort((a, b) => (a.diff.scoreChange ?? 0) - (b.diff.scoreChange ?? 0));
+
+  return {
+    ruleId,
+    ruleName: changed.name,
+    changeType: change.type,
+    previousVersion: previous && getRuleVersion(previous),
+    newVersion: getRuleVersion(changed),
+    effectiveFrom,
+    evaluatedAt,
+    contractsEvaluated: contracts.length - failures.length,
+    affectedContracts,
+    affectedClients: [...new Set(affectedContracts.flatMap(impact => impact.clientId ? [impact.clientId] : []))].sort(),
+    failures
+  };
+}
+
+function isRuleViolated(analysis: ContractComplianceAnalysis, ruleIds: string[]): boolean {
+  return analysis.frameworks.some(score => score.violations.some(violation => ruleIds.includes(violation.ruleId)));
+}
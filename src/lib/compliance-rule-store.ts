@@ -0,0 +1,261 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  ComplianceRule,
+  RuleAuditAction,
+  RuleAuditEntry,
+  RuleFieldChange,
+  SkippedStoredRule,
+  StoredComplianceRule
+} from '@/types/compliance';
+import { ComplianceAnalyzer, createRuleOverride } from './compliance-analyzer';
+import { frameworkRegistry } from './compliance-framework-registry';
+import { RuleValidationError, toRuleDefinition, validateRuleDefinition } from './compliance-rule-dsl';
+import { fromStoredJson, toStoredJson } from './compliance-serialization';
+
+type ComplianceRuleRow = Tables<'compliance_rules'>;
+type ComplianceRuleAuditRow = Tables<'compliance_rule_audit'>;
+
+// client_id of rules that apply to every client
+const ALL_CLIENTS = '';
+
+// Actions whose snapshot is a new version of the rule
+const VERSION_ACTIONS: RuleAuditAction[] = ['CREATE', 'OVERRIDE', 'UPDATE'];
+
+/**
+ * Stores custom rules and overrides of built-in rules in Supabase, private to a user or shared
+ * with their firm. Rules are soft-deleted, built-in rules can only be overridden by a copy, and
+ * a trigger records every change in an append-only audit trail, with a field-by-field diff.
+ */
+export class ComplianceRuleStore {
+  /**
+   * Store a new custom rule. Built-in rule ids are reserved; use `override` to change a built-in rule.
+   */
+  async create(userId: string, rule: ComplianceRule, teamId?: string): Promise<StoredComplianceRule> {
+    if (isBuiltInRule(rule.id)) {
+      throw new Error(`Rule ${rule.id} is built in; override it with a copy instead`);
+    }
+    return this.insert(userId, rule, teamId);
+  }
+
+  /**
+   * Store an edited copy of a built-in rule that replaces it wherever the copy applies
+   */
+  async override(
+    userId: string,
+    builtInRuleId: string,
+    changes: Partial<ComplianceRule>,
+    teamId?: string
+  ): Promise<StoredComplianceRule> {
+    const builtIn = frameworkRegistry.getRules().find(rule => rule.id === builtInRuleId);
+    if (!builtIn) {
+      throw new Error(`Built-in rule ${builtInRuleId} not found`);
+    }
+    return this.insert(userId, createRuleOverride(builtIn, changes), teamId, builtIn);
+  }
+
+  /**
+   * Record a new version of a stored rule, in effect from `updates.effectiveFrom` or from now
+   */
+  async update(storedRuleId: string, updates: Partial<ComplianceRule>): Promise<StoredComplianceRule> {
+    const current = await this.get(storedRuleId);
+    if (current.deletedAt) {
+      throw new Error(`Rule ${current.rule.id} is deleted; restore it before changing it`);
+    }
+
+    const updatedAt = new Date();
+    const rule: ComplianceRule = {
+      ...current.rule,
+      ...updates,
+      id: current.rule.id,
+      overridesRuleId: current.rule.overridesRuleId,
+      effectiveFrom: updates.effectiveFrom ?? updatedAt,
+      updatedAt
+    };
+    validateRule(rule);
+
+    const { data, error } = await supabase
+      .from('compliance_rules')
+      .update({ rule: toStoredJson(rule), client_id: rule.clientId || ALL_CLIENTS })
+      .eq('id', storedRuleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toStoredRule(data);
+  }
+
+  /**
+   * Soft-delete a rule. It stays in storage with its audit trail and can be restored.
+   */
+  async delete(userId: string, storedRuleId: string): Promise<StoredComplianceRule> {
+    return this.setDeleted(storedRuleId, { deleted_at: new Date().toISOString(), deleted_by: userId });
+  }
+
+  async restore(storedRuleId: string): Promise<StoredComplianceRule> {
+    return this.setDeleted(storedRuleId, { deleted_at: null, deleted_by: null });
+  }
+
+  async get(storedRuleId: string): Promise<StoredComplianceRule> {
+    const { data, error } = await supabase
+      .from('compliance_rules')
+      .select('*')
+      .eq('id', storedRuleId)
+      .single();
+
+    if (error) throw error;
+    return toStoredRule(data);
+  }
+
+  /**
+   * Rules the user can see: their private rules and their firms' rules
+   */
+  async list(filters: { teamId?: string; clientId?: string; includeDeleted?: boolean } = {}): Promise<StoredComplianceRule[]> {
+    let query = supabase.from('compliance_rules').select('*');
+    if (filters.teamId) query = query.eq('team_id', filters.teamId);
+    if (filters.clientId !== undefined) query = query.in('client_id', [ALL_CLIENTS, filters.clientId]);
+    if (!filters.includeDeleted) query = query.is('deleted_at', null);
+
+    const { data, error } = await query.order('rule_id', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(toStoredRule);
+  }
+
+  /**
+   * Every change to a rule, oldest first
+   */
+  async getAuditTrail(storedRuleId: string): Promise<RuleAuditEntry[]> {
+    const { data, error } = await supabase
+      .from('compliance_rule_audit')
+      .select('*')
+      .eq('rule_row_id', storedRuleId)
+      .order('changed_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toAuditEntry);
+  }
+
+  /**
+   * Load the stored rules into an analyzer with all of their versions, and remove deleted ones.
+   * Safe to call again to pick up changes. A rule the analyzer can't take, e.g. an invalid one or
+   * one stored under a built-in rule's id, is skipped and returned rather than failing the load.
+   */
+  async loadInto(analyzer: ComplianceAnalyzer): Promise<SkippedStoredRule[]> {
+    const stored = await this.list({ includeDeleted: true });
+    const active = stored.filter(entry => !entry.deletedAt);
+
+    const { data, error } = active.length === 0 ? { data: [], error: null } : await supabase
+      .from('compliance_rule_audit')
+      .select('*')
+      .in('rule_row_id', active.map(entry => entry.id))
+      .in('action', VERSION_ACTIONS)
+      .order('changed_at', { ascending: true });
+
+    if (error) throw error;
+    const audit = (data || []).map(toAuditEntry);
+    const skipped: SkippedStoredRule[] = [];
+    const load = (entry: StoredComplianceRule, apply: () => void) => {
+      try {
+        apply();
+      } catch (loadError) {
+        skipped.push({
+          storedRuleId: entry.id,
+          ruleId: entry.rule.id,
+          reason: loadError instanceof Error ? loadError.message : String(loadError)
+        });
+      }
+    };
+
+    stored
+      .filter(entry => entry.deletedAt && analyzer.getRuleVersions(entry.rule.id).length > 0)
+      .forEach(entry => load(entry, () => analyzer.deleteRule(entry.rule.id)));
+    active.forEach(entry => load(entry, () => {
+      validateRule(entry.rule);
+      const versions = audit.filter(item => item.storedRuleId === entry.id).map(item => item.snapshot);
+      analyzer.restoreRuleVersions(entry.rule.id, versions.length > 0 ? versions : [entry.rule]);
+    }));
+    return skipped;
+  }
+
+  private async insert(
+    userId: string,
+    rule: ComplianceRule,
+    teamId: string | undefined,
+    builtIn?: ComplianceRule
+  ): Promise<StoredComplianceRule> {
+    if (rule.overridesRuleId && !isBuiltInRule(rule.overridesRuleId)) {
+      throw new Error(`Rule ${rule.id} overrides ${rule.overridesRuleId}, which is not a built-in rule`);
+    }
+    validateRule(rule);
+
+    const { data, error } = await supabase
+      .from('compliance_rules')
+      .insert({
+        user_id: userId,
+        team_id: teamId ?? null,
+        rule_id: rule.id,
+        client_id: rule.clientId || ALL_CLIENTS,
+        overrides_rule_id: rule.overridesRuleId ?? null,
+        // An override's audit diff is against the built-in rule it replaces
+        overridden_rule: builtIn ? toStoredJson(builtIn) : null,
+        rule: toStoredJson(rule)
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toStoredRule(data);
+  }
+
+  private async setDeleted(
+    storedRuleId: string,
+    fields: { deleted_at: string | null; deleted_by: string | null }
+  ): Promise<StoredComplianceRule> {
+    const { data, error } = await supabase
+      .from('compliance_rules')
+      .update(fields)
+      .eq('id', storedRuleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toStoredRule(data);
+  }
+}
+
+function isBuiltInRule(ruleId: string): boolean {
+  return frameworkRegistry.getRules().some(rule => rule.id === ruleId);
+}
+
+function validateRule(rule: ComplianceRule): void {
+  const issues = validateRuleDefinition(toRuleDefinition(rule));
+  if (issues.length > 0) {
+    throw new RuleValidationError(issues);
+  }
+}
+
+function toStoredRule(row: ComplianceRuleRow): StoredComplianceRule {
+  return {
+    id: row.id,
+    rule: fromStoredJson<ComplianceRule>(row.rule),
+    teamId: row.team_id ?? undefined,
+    createdBy: row.user_id,
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+    deletedBy: row.deleted_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+function toAuditEntry(row: ComplianceRuleAuditRow): RuleAuditEntry {
+  return {
+    id: row.id,
+    storedRuleId: row.rule_row_id,
+    ruleId: row.rule_id,
+    action: row.action as RuleAuditAction,
+    changes: row.changes as unknown as RuleFieldChange[],
+    snapshot: fromStoredJson<ComplianceRule>(row.snapshot),
+    changedBy: row.changed_by,
+    changedAt: new Date(row.changed_at)
+  };
+}
@@ -0,0 +1,172 @@
+import {
+  ComplianceScore,
+  ComplianceViolation,
+  ContractComplianceAnalysis,
+  FrameworkScoreSimulation,
+  OverallScoreExplanation,
+  RiskLevel,
+  RuleScoreContribution,
+  ScoreExplanation,
+  ScoreSimulation
+} from '@/types/compliance';
+import { DEFAULT_RISK_THRESHOLDS, RISK_LEVEL_WEIGHTS } from './compliance-frameworks';
+import { frameworkRegistry } from './compliance-framework-registry';
+
+/**
+ * Break a framework score into its steps: 100 less the share of rules violated, less a severity
+ * penalty per violation, times the framework weight. `rulesEvaluated` must be above zero.
+ */
+export function explainFrameworkScore(
+  violations: ComplianceViolation[],
+  rulesEvaluated: number,
+  frameworkWeight: number
+): ScoreExplanation {
+  // Base score (100 - percentage of violations)
+  const baseScore = Math.max(0, 100 - (violations.length / rulesEvaluated) * 100);
+
+  // Adjust for violation severity
+  const penalties = violations.map(violation => ({
+    violationId: violation.id,
+    ruleId: violation.ruleId,
+    severity: violation.severity,
+    ratioPoints: 100 / rulesEvaluated,
+    severityPoints: RISK_LEVEL_WEIGHTS[violation.severity] * 10
+  }));
+  const severityPenalty = penalties.reduce((penalty, entry) => penalty + entry.severityPoints, 0);
+  const unweightedScore = Math.max(0, baseScore - severityPenalty);
+
+  // Apply framework weight
+  const weightedScore = unweightedScore * frameworkWeight;
+
+  const rules = new Map<string, RuleScoreContribution>();
+  violations.forEach((violation, index) => {
+    const contribution = rules.get(violation.ruleId) ?? {
+      ruleId: violation.ruleId,
+      ruleName: violation.rule.name,
+      violations: 0,
+      points: 0
+    };
+    contribution.violations++;
+    contribution.points += penalties[index].ratioPoints + penalties[index].severityPoints;
+    rules.set(violation.ruleId, contribution);
+  });
+
+  return {
+    rulesEvaluated,
+    baseScore,
+    severityPenalty,
+    unweightedScore,
+    frameworkWeight,
+    weightedScore,
+    score: Math.round(weightedScore),
+    penalties,
+    rules: [...rules.values()].sort((a, b) => b.points - a.points)
+  };
+}
+
+/**
+ * Weighted average of the framework scores. Frameworks with no rules evaluated are not scored and
+ * are left out; with none scored, neither is the contract.
+ */
+export function explainOverallScore(frameworkScores: ComplianceScore[]): OverallScoreExplanation {
+  const evaluatedScores = frameworkScores.filter(
+    (score): score is ComplianceScore & { overallScore: number } => score.rulesEvaluated > 0 && score.overallScore !== null
+  );
+  const weights = evaluatedScores.map(getFrameworkWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totalScore = evaluatedScores.reduce((sum, score, index) => sum + (score.overallScore * weights[index]), 0);
+
+  return {
+    frameworks: evaluatedScores.map((score, index) => ({
+      framework: score.framework,
+      score: score.overallScore,
+      weight: weights[index],
+      contribution: (score.overallScore * weights[index]) / totalWeight
+    })),
+    totalWeight,
+    score: evaluatedScores.length === 0 ? null : Math.round(totalScore / totalWeight)
+  };
+}
+
+/**
+ * A score as shown to users, e.g. "85%", or "Not scored"
+ */
+export function formatScore(score: number | null): string {
+  return score === null ? 'Not scored' : `${score}%`;
+}
+
+/**
+ * A risk level as shown to users, e.g. "HIGH", or "NOT SCORED"
+ */
+export function formatRiskLevel(riskLevel: RiskLevel | null): string {
+  return riskLevel ?? 'NOT SCORED';
+}
+
+/**
+ * Determine risk level based on score and the minimum score for each level. There is no risk level
+ * without a score.
+ */
+export function determineRiskLevel(score: number, riskThresholds: Record<RiskLevel, number>): RiskLevel;
+export function determineRiskLevel(score: number | null, riskThresholds: Record<RiskLevel, number>): RiskLevel | null;
+export function determineRiskLevel(score: number | null, riskThresholds: Record<RiskLevel, number>): RiskLevel | null {
+  if (score === null) return null;
+  if (score >= riskThresholds.LOW) return 'LOW';
+  if (score >= riskThresholds.MEDIUM) return 'MEDIUM';
+  if (score >= riskThresholds.HIGH) return 'HIGH';
+  return 'CRITICAL';
+}
+
+/**
+ * Re-score an analysis as if the given violations were fixed and nothing else changed.
+ * Pass the client's risk thresholds so the simulated risk levels match a real re-analysis.
+ */
+export function simulateFixes(
+  analysis: ContractComplianceAnalysis,
+  fixedViolationIds: string[],
+  riskThresholds: Record<RiskLevel, number> = DEFAULT_RISK_THRESHOLDS
+): ScoreSimulation {
+  const fixed = new Set(fixedViolationIds);
+
+  const simulatedScores = analysis.frameworks.map(score => {
+    if (score.rulesEvaluated === 0) return score;
+
+    const explanation = explainFrameworkScore(
+      score.violations.filter(violation => !fixed.has(violation.id)),
+      score.rulesEvaluated,
+      getFrameworkWeight(score)
+    );
+    return {
+      ...score,
+      overallScore: explanation.score,
+      riskLevel: determineRiskLevel(explanation.weightedScore, riskThresholds),
+      explanation
+    };
+  });
+
+  const frameworks: FrameworkScoreSimulation[] = analysis.frameworks
+    .map((score, index) => ({
+      framework: score.framework,
+      currentScore: score.overallScore,
+      simulatedScore: simulatedScores[index].overallScore,
+      simulatedRiskLevel: simulatedScores[index].riskLevel
+    }));
+
+  const simulatedScore = explainOverallScore(simulatedScores).score;
+
+  return {
+    fixedViolationIds: analysis.frameworks
+      .flatMap(score => score.violations)
+      .filter(violation => fixed.has(violation.id))
+      .map(violation => violation.id),
+    frameworks,
+    currentScore: analysis.overallComplianceScore,
+    simulatedScore,
+    currentRiskLevel: analysis.overallRiskLevel,
+    simulatedRiskLevel: determineRiskLevel(simulatedScore, riskThresholds)
+  };
+}
+
+// Analyses saved before explanations were recorded fall back to the registry's current weight
+function getFrameworkWeight(score: ComplianceScore): number {
+  return score.explanation?.frameworkWeight ?? frameworkRegistry.getWeight(score.framework);
+}
@@ -0,0 +1,69 @@
+import type { Json } from '@/integrations/supabase/types';
+import { ComplianceRule } from '@/types/compliance';
+import { sha256 } from './sha256';
+
+// Fields restored to Date objects when compliance and clause library data is read back from JSON
+const DATE_FIELDS = new Set([
+  'analyzedAt',
+  'lastUpdated',
+  'detectedAt',
+  'firstDetectedAt',
+  'resolvedAt',
+  'createdAt',
+  'updatedAt',
+  'effectiveFrom',
+  'lastModified',
+  'submittedAt',
+  'approvedAt',
+  'rejectedAt',
+  'usedAt'
+]);
+
+// Hex characters of the SHA-256 kept in rule versions
+const RULE_VERSION_LENGTH = 12;
+
+/**
+ * Convert compliance data (analyses, rules, configurations) and clause library data to JSON for storage.
+ * Rule patterns are kept as source and flags.
+ */
+export function toStoredJson(value: unknown): Json {
+  return JSON.parse(JSON.stringify(value, (_key, item) =>
+    item instanceof RegExp ? { source: item.source, flags: item.flags } : item
+  ));
+}
+
+/**
+ * Restore data stored with toStoredJson, including dates and rule patterns
+ */
+export function fromStoredJson<T>(json: Json): T {
+  return JSON.parse(JSON.stringify(json), (key, value) => {
+    if (DATE_FIELDS.has(key) && typeof value === 'string') return new Date(value);
+    if (key === 'patterns' && Array.isArray(value)) {
+      return value.map((pattern: { source: string; flags: string }) => new RegExp(pattern.source, pattern.flags));
+    }
+    return value;
+  });
+}
+
+/**
+ * Version of a rule: a hash of its stored form with keys sorted, ignoring timestamps, the effective date
+ * and whether it is active. Any change to what the rule checks gives a new version.
+ */
+export function getRuleVersion(rule: ComplianceRule): string {
+  const { createdAt, updatedAt, isActive, effectiveFrom, ...definition } = rule;
+  return sha256(canonicalJson(toStoredJson(definition))).slice(0, RULE_VERSION_LENGTH);
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+export function canonicalJson(value: Json): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
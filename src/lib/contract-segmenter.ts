@@ -0,0 +1,119 @@
+import { ContractClause } from '@/types/compliance';
+
+// Lines that open a new clause. A heading line is short and does not read like a sentence.
+const HEADING_PATTERNS: RegExp[] = [
+  /^(article|section|clause|schedule|annex|exhibit|appendix|part)\s+[\dIVXLC]+[A-Za-z]?(\.\d+)*\b/i,
+  /^\d+(\.\d+)*\.?\s+[A-Z]/,
+  /^#{1,6}\s+\S/,
+  /^[A-Z][A-Z0-9 ,&'()/-]{3,}$/
+];
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 10;
+
+/**
+ * Split contract text into clauses with absolute character offsets.
+ * Clauses start at heading lines ("Article 1: ...", "2.1 Data Retention", "TERMINATION").
+ * Documents without recognisable headings are split into paragraphs instead.
+ */
+export function segmentContract(contractText: string): ContractClause[] {
+  const lines = splitLines(contractText);
+  const headingLines = lines.filter(line => isHeading(line.text));
+
+  if (headingLines.length === 0) {
+    return segmentByParagraphs(contractText);
+  }
+
+  const clauses: ContractClause[] = [];
+  const firstHeadingStart = headingLines[0].start;
+
+  if (contractText.slice(0, firstHeadingStart).trim()) {
+    clauses.push(createClause(contractText, clauses.length, 'Preamble', 0, firstHeadingStart, false));
+  }
+
+  headingLines.forEach((line, i) => {
+    const end = i + 1 < headingLines.length ? headingLines[i + 1].start : contractText.length;
+    clauses.push(createClause(contractText, clauses.length, line.text.trim().replace(/^#+\s*/, ''), line.start, end, true));
+  });
+
+  return clauses;
+}
+
+/**
+ * Find the clause containing a character offset
+ */
+export function findClauseAt(clauses: ContractClause[], offset: number): ContractClause | undefined {
+  return clauses.find(clause => offset >= clause.start && offset < clause.end);
+}
+
+function segmentByParagraphs(contractText: string): ContractClause[] {
+  const clauses: ContractClause[] = [];
+  const separator = /\n\s*\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const pushParagraph = (end: number) => {
+    if (contractText.slice(start, end).trim()) {
+      clauses.push(createClause(contractText, clauses.length, `Paragraph ${clauses.length + 1}`, start, end, false));
+    }
+  };
+
+  while ((match = separator.exec(contractText)) !== null) {
+    pushParagraph(match.index);
+    start = match.index + match[0].length;
+  }
+  pushParagraph(contractText.length);
+
+  return clauses;
+}
+
+function createClause(
+  contractText: string,
+  index: number,
+  heading: string,
+  start: number,
+  end: number,
+  startsWithHeading: boolean
+): ContractClause {
+  // Trim surrounding whitespace so offsets point at real text
+  const raw = contractText.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trailing = raw.length - raw.trimEnd().length;
+  const clauseStart = start + leading;
+  const clauseEnd = Math.max(clauseStart, end - trailing);
+  const text = contractText.slice(clauseStart, clauseEnd);
+  const headingEnd = text.indexOf('\n');
+
+  return {
+    id: `clause-${index + 1}`,
+    index,
+    heading,
+    text,
+    start: clauseStart,
+    bodyStart: !startsWithHeading ? clauseStart : headingEnd === -1 ? clauseEnd : clauseStart + headingEnd + 1,
+    end: clauseEnd
+  };
+}
+
+function splitLines(text: string): { text: string; start: number }[] {
+  const lines: { text: string; start: number }[] = [];
+  let start = 0;
+
+  for (const line of text.split('\n')) {
+    const leading = line.length - line.trimStart().length;
+    lines.push({ text: line.trim(), start: start + leading });
+    start += line.length + 1;
+  }
+
+  return lines;
+}
+
+function isHeading(line: string): boolean {
+  if (!line || line.length > MAX_HEADING_LENGTH) return false;
+  if (line.split(/\s+/).length > MAX_HEADING_WORDS) return false;
+  if (/[;,]$/.test(line)) return false;
+  // Sentences end with a full stop; short headings such as "Section 4." may too
+  if (/\.$/.test(line) && line.split(/\s+/).length > 3) return false;
+
+  return HEADING_PATTERNS.some(pattern => pattern.test(line));
+}
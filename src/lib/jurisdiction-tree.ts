@@ -0,0 +1,288 @@
+import {
+  DetectedJurisdiction,
+  Jurisdiction,
+  JurisdictionDetection
+} from '@/types/compliance';
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  // Blocs
+  { code: 'GLOBAL', name: 'Global', level: 'GLOBAL', aliases: [] },
+  { code: 'EEA', name: 'European Economic Area', level: 'BLOC', parent: 'GLOBAL', aliases: ['European Economic Area', 'EEA'] },
+  { code: 'EU', name: 'European Union', level: 'BLOC', parent: 'EEA', aliases: ['European Union', 'EU', 'E.U.', 'European'] },
+  // Countries
+  { code: 'AT', name: 'Austria', level: 'COUNTRY', parent: 'EU', aliases: ['Austria', 'Austrian'] },
+  { code: 'BE', name: 'Belgium', level: 'COUNTRY', parent: 'EU', aliases: ['Belgium', 'Belgian'] },
+  { code: 'BG', name: 'Bulgaria', level: 'COUNTRY', parent: 'EU', aliases: ['Bulgaria', 'Bulgarian'] },
+  { code: 'HR', name: 'Croatia', level: 'COUNTRY', parent: 'EU', aliases: ['Croatia', 'Croatian'] },
+  { code: 'CY', name: 'Cyprus', level: 'COUNTRY', parent: 'EU', aliases: ['Cyprus', 'Cypriot'] },
+  { code: 'CZ', name: 'Czechia', level: 'COUNTRY', parent: 'EU', aliases: ['Czechia', 'Czech Republic'] },
+  { code: 'DK', name: 'Denmark', level: 'COUNTRY', parent: 'EU', aliases: ['Denmark', 'Danish'] },
+  { code: 'EE', name: 'Estonia', level: 'COUNTRY', parent: 'EU', aliases: ['Estonia', 'Estonian'] },
+  { code: 'FI', name: 'Finland', level: 'COUNTRY', parent: 'EU', aliases: ['Finland', 'Finnish'] },
+  { code: 'FR', name: 'France', level: 'COUNTRY', parent: 'EU', aliases: ['France', 'French'] },
+  { code: 'DE', name: 'Germany', level: 'COUNTRY', parent: 'EU', aliases: ['Germany', 'German'] },
+  { code: 'GR', name: 'Greece', level: 'COUNTRY', parent: 'EU', aliases: ['Greece', 'Greek'] },
+  { code: 'HU', name: 'Hungary', level: 'COUNTRY', parent: 'EU', aliases: ['Hungary', 'Hungarian'] },
+  { code: 'IE', name: 'Ireland', level: 'COUNTRY', parent: 'EU', aliases: ['Ireland', 'Irish'] },
+  { code: 'IT', name: 'Italy', level: 'COUNTRY', parent: 'EU', aliases: ['Italy', 'Italian'] },
+  { code: 'LV', name: 'Latvia', level: 'COUNTRY', parent: 'EU', aliases: ['Latvia', 'Latvian'] },
+  { code: 'LT', name: 'Lithuania', level: 'COUNTRY', parent: 'EU', aliases: ['Lithuania', 'Lithuanian'] },
+  { code: 'LU', name: 'Luxembourg', level: 'COUNTRY', parent: 'EU', aliases: ['Luxembourg', 'Luxembourgish'] },
+  { code: 'MT', name: 'Malta', level: 'COUNTRY', parent: 'EU', aliases: ['Malta', 'Maltese'] },
+  { code: 'NL', name: 'Netherlands', level: 'COUNTRY', parent: 'EU', aliases: ['Netherlands', 'Dutch'] },
+  { code: 'PL', name: 'Poland', level: 'COUNTRY', parent: 'EU', aliases: ['Poland', 'Polish'] },
+  { code: 'PT', name: 'Portugal', level: 'COUNTRY', parent: 'EU', aliases: ['Portugal', 'Portuguese'] },
+  { code: 'RO', name: 'Romania', level: 'COUNTRY', parent: 'EU', aliases: ['Romania', 'Romanian'] },
+  { code: 'SK', name: 'Slovakia', level: 'COUNTRY', parent: 'EU', aliases: ['Slovakia', 'Slovak'] },
+  { code: 'SI', name: 'Slovenia', level: 'COUNTRY', parent: 'EU', aliases: ['Slovenia', 'Slovenian'] },
+  { code: 'ES', name: 'Spain', level: 'COUNTRY', parent: 'EU', aliases: ['Spain', 'Spanish'] },
+  { code: 'SE', name: 'Sweden', level: 'COUNTRY', parent: 'EU', aliases: ['Sweden', 'Swedish'] },
+  { code: 'IS', name: 'Iceland', level: 'COUNTRY', parent: 'EEA', aliases: ['Iceland', 'Icelandic'] },
+  { code: 'LI', name: 'Liechtenstein', level: 'COUNTRY', parent: 'EEA', aliases: ['Liechtenstein'] },
+  { code: 'NO', name: 'Norway', level: 'COUNTRY', parent: 'EEA', aliases: ['Norway', 'Norwegian'] },
+  { code: 'US', name: 'United States', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['United States of America', 'United States', 'USA', 'U.S.A.', 'U.S.', 'US'] },
+  { code: 'CA', name: 'Canada', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Canada', 'Canadian'] },
+  { code: 'BR', name: 'Brazil', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Brazil', 'Brasil', 'Brazilian'] },
+  { code: 'UK', name: 'United Kingdom', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['United Kingdom', 'England and Wales', 'England', 'Scotland', 'Northern Ireland', 'Great Britain', 'UK', 'U.K.', 'British', 'English'] },
+  { code: 'CH', name: 'Switzerland', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Switzerland', 'Swiss'] },
+  { code: 'AU', name: 'Australia', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Australia', 'Australian'] },
+  { code: 'SG', name: 'Singapore', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Singapore'] },
+  { code: 'JP', name: 'Japan', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Japan', 'Japanese'] },
+  { code: 'IN', name: 'India', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['India'] },
+  { code: 'MX', name: 'Mexico', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['Mexico', 'Mexican'] },
+  { code: 'CN', name: 'China', level: 'COUNTRY', parent: 'GLOBAL', aliases: ['People\'s Republic of China', 'China', 'Chinese'] },
+  // US states
+  { code: 'US-AL', name: 'Alabama', level: 'REGION', parent: 'US', aliases: ['Alabama'] },
+  { code: 'US-AK', name: 'Alaska', level: 'REGION', parent: 'US', aliases: ['Alaska'] },
+  { code: 'US-AZ', name: 'Arizona', level: 'REGION', parent: 'US', aliases: ['Arizona'] },
+  { code: 'US-AR', name: 'Arkansas', level: 'REGION', parent: 'US', aliases: ['Arkansas'] },
+  { code: 'US-CA', name: 'California', level: 'REGION', parent: 'US', aliases: ['California', 'Californian'] },
+  { code: 'US-CO', name: 'Colorado', level: 'REGION', parent: 'US', aliases: ['Colorado'] },
+  { code: 'US-CT', name: 'Connecticut', level: 'REGION', parent: 'US', aliases: ['Connecticut'] },
+  { code: 'US-DE', name: 'Delaware', level: 'REGION', parent: 'US', aliases: ['Delaware'] },
+  { code: 'US-DC', name: 'District of Columbia', level: 'REGION', parent: 'US', aliases: ['District of Columbia', 'Washington, D.C.', 'Washington DC'] },
+  { code: 'US-FL', name: 'Florida', level: 'REGION', parent: 'US', aliases: ['Florida'] },
+  { code: 'US-GA', name: 'Georgia', level: 'REGION', parent: 'US', aliases: ['Georgia'] },
+  { code: 'US-HI', name: 'Hawaii', level: 'REGION', parent: 'US', aliases: ['Hawaii'] },
+  { code: 'US-ID', name: 'Idaho', level: 'REGION', parent: 'US', aliases: ['Idaho'] },
+  { code: 'US-IL', name: 'Illinois', level: 'REGION', parent: 'US', aliases: ['Illinois'] },
+  { code: 'US-IN', name: 'Indiana', level: 'REGION', parent: 'US', aliases: ['Indiana'] },
+  { code: 'US-IA', name: 'Iowa', level: 'REGION', parent: 'US', aliases: ['Iowa'] },
+  { code: 'US-KS', name: 'Kansas', level: 'REGION', parent: 'US', aliases: ['Kansas'] },
+  { code: 'US-KY', name: 'Kentucky', level: 'REGION', parent: 'US', aliases: ['Kentucky'] },
+  { code: 'US-LA', name: 'Louisiana', level: 'REGION', parent: 'US', aliases: ['Louisiana'] },
+  { code: 'US-ME', name: 'Maine', level: 'REGION', parent: 'US', aliases: ['Maine'] },
+  { code: 'US-MD', name: 'Maryland', level: 'REGION', parent: 'US', aliases: ['Maryland'] },
+  { code: 'US-MA', name: 'Massachusetts', level: 'REGION', parent: 'US', aliases: ['Massachusetts'] },
+  { code: 'US-MI', name: 'Michigan', level: 'REGION', parent: 'US', aliases: ['Michigan'] },
+  { code: 'US-MN', name: 'Minnesota', level: 'REGION', parent: 'US', aliases: ['Minnesota'] },
+  { code: 'US-MS', name: 'Mississippi', level: 'REGION', parent: 'US', aliases: ['Mississippi'] },
+  { code: 'US-MO', name: 'Missouri', level: 'REGION', parent: 'US', aliases: ['Missouri'] },
+  { code: 'US-MT', name: 'Montana', level: 'REGION', parent: 'US', aliases: ['Montana'] },
+  { code: 'US-NE', name: 'Nebraska', level: 'REGION', parent: 'US', aliases: ['Nebraska'] },
+  { code: 'US-NV', name: 'Nevada', level: 'REGION', parent: 'US', aliases: ['Nevada'] },
+  { code: 'US-NH', name: 'New Hampshire', level: 'REGION', parent: 'US', aliases: ['New Hampshire'] },
+  { code: 'US-NJ', name: 'New Jersey', level: 'REGION', parent: 'US', aliases: ['New Jersey'] },
+  { code: 'US-NM', name: 'New Mexico', level: 'REGION', parent: 'US', aliases: ['New Mexico'] },
+  { code: 'US-NY', name: 'New York', level: 'REGION', parent: 'US', aliases: ['State of New York', 'New York'] },
+  { code: 'US-NC', name: 'North Carolina', level: 'REGION', parent: 'US', aliases: ['North Carolina'] },
+  { code: 'US-ND', name: 'North Dakota', level: 'REGION', parent: 'US', aliases: ['North Dakota'] },
+  { code: 'US-OH', name: 'Ohio', level: 'REGION', parent: 'US', aliases: ['Ohio'] },
+  { code: 'US-OK', name: 'Oklahoma', level: 'REGION', parent: 'US', aliases: ['Oklahoma'] },
+  { code: 'US-OR', name: 'Oregon', level: 'REGION', parent: 'US', aliases: ['Oregon'] },
+  { code: 'US-PA', name: 'Pennsylvania', level: 'REGION', parent: 'US', aliases: ['Pennsylvania'] },
+  { code: 'US-RI', name: 'Rhode Island', level: 'REGION', parent: 'US', aliases: ['Rhode Island'] },
+  { code: 'US-SC', name: 'South Carolina', level: 'REGION', parent: 'US', aliases: ['South Carolina'] },
+  { code: 'US-SD', name: 'South Dakota', level: 'REGION', parent: 'US', aliases: ['South Dakota'] },
+  { code: 'US-TN', name: 'Tennessee', level: 'REGION', parent: 'US', aliases: ['Tennessee'] },
+  { code: 'US-TX', name: 'Texas', level: 'REGION', parent: 'US', aliases: ['Texas'] },
+  { code: 'US-UT', name: 'Utah', level: 'REGION', parent: 'US', aliases: ['Utah'] },
+  { code: 'US-VT', name: 'Vermont', level: 'REGION', parent: 'US', aliases: ['Vermont'] },
+  { code: 'US-VA', name: 'Virginia', level: 'REGION', parent: 'US', aliases: ['Virginia'] },
+  { code: 'US-WA', name: 'Washington', level: 'REGION', parent: 'US', aliases: ['Washington'] },
+  { code: 'US-WV', name: 'West Virginia', level: 'REGION', parent: 'US', aliases: ['West Virginia'] },
+  { code: 'US-WI', name: 'Wisconsin', level: 'REGION', parent: 'US', aliases: ['Wisconsin'] },
+  { code: 'US-WY', name: 'Wyoming', level: 'REGION', parent: 'US', aliases: ['Wyoming'] },
+  // Canadian provinces
+  { code: 'CA-AB', name: 'Alberta', level: 'REGION', parent: 'CA', aliases: ['Alberta'] },
+  { code: 'CA-BC', name: 'British Columbia', level: 'REGION', parent: 'CA', aliases: ['British Columbia'] },
+  { code: 'CA-MB', name: 'Manitoba', level: 'REGION', parent: 'CA', aliases: ['Manitoba'] },
+  { code: 'CA-NB', name: 'New Brunswick', level: 'REGION', parent: 'CA', aliases: ['New Brunswick'] },
+  { code: 'CA-NL', name: 'Newfoundland and Labrador', level: 'REGION', parent: 'CA', aliases: ['Newfoundland and Labrador'] },
+  { code: 'CA-NS', name: 'Nova Scotia', level: 'REGION', parent: 'CA', aliases: ['Nova Scotia'] },
+  { code: 'CA-ON', name: 'Ontario', level: 'REGION', parent: 'CA', aliases: ['Ontario'] },
+  { code: 'CA-PE', name: 'Prince Edward Island', level: 'REGION', parent: 'CA', aliases: ['Prince Edward Island'] },
+  { code: 'CA-QC', name: 'Quebec', level: 'REGION', parent: 'CA', aliases: ['Quebec', 'Québec'] },
+  { code: 'CA-SK', name: 'Saskatchewan', level: 'REGION', parent: 'CA', aliases: ['Saskatchewan'] }
+];
+
+const JURISDICTIONS_BY_CODE = new Map(JURISDICTIONS.map(jurisdiction => [jurisdiction.code, jurisdiction]));
+
+// Phrases that introduce the governing law; the first jurisdiction named after them is taken
+const GOVERNING_LAW_TRIGGER = /\b(governed by|governing law|construed (in accordance with|under)|subject to the laws of)\b/gi;
+const GOVERNING_LAW_WINDOW = 200;
+// "New York law shall govern"
+const GOVERNS_AFTER = /^\s+laws?\b[^.;]{0,40}\bgovern/i;
+
+// Words around a place name that suggest personal data is held, processed or collected there
+const DATA_CONTEXT = /\b(personal (data|information)|data subjects?|residents?|consumers?|patients?|citizens?|stored?|storage|hosted|hosting|processed|processing|data cent(er|re)s?|servers?|transferred|transfers?)\b/i;
+const DATA_CONTEXT_RADIUS = 80;
+
+// Upper-case aliases ("US", "EU") must match exactly so that "us" and "eu" in prose are ignored
+const ALIAS_PATTERNS: { alias: string; code: string; pattern: RegExp }[] = JURISDICTIONS
+  .flatMap(jurisdiction => jurisdiction.aliases.map(alias => ({ alias, code: jurisdiction.code })))
+  .sort((a, b) => b.alias.length - a.alias.length)
+  .map(({ alias, code }) => ({
+    alias,
+    code,
+    pattern: new RegExp(
+      `(?<![\\w.])${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w])`,
+      alias === alias.toUpperCase() ? 'g' : 'gi'
+    )
+  }));
+
+export function getJurisdiction(code: string): Jurisdiction | undefined {
+  return JURISDICTIONS_BY_CODE.get(code);
+}
+
+/**
+ * The jurisdiction and everything above it, e.g. US-NY -> US -> GLOBAL.
+ * Unknown codes are returned on their own.
+ */
+export function getJurisdictionPath(code: string): string[] {
+  const path: string[] = [];
+  let current: string | undefined = code;
+
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = JURISDICTIONS_BY_CODE.get(current)?.parent;
+  }
+
+  return path;
+}
+
+/**
+ * Jurisdictions in tree order with their depth, for indented select lists
+ */
+export function getJurisdictionOptions(): { code: string; name: string; depth: number }[] {
+  const options: { code: string; name: string; depth: number }[] = [];
+  const visit = (code: string, depth: number) => {
+    const jurisdiction = JURISDICTIONS_BY_CODE.get(code);
+    options.push({ code, name: jurisdiction.name, depth });
+    JURISDICTIONS
+      .filter(child => child.parent === code)
+      .forEach(child => visit(child.code, depth + 1));
+  };
+
+  visit('GLOBAL', 0);
+  return options;
+}
+
+/**
+ * Whether `code` is `ancestor` or lies inside it (DE is within EU, US-NY is within US)
+ */
+export function isWithinJurisdiction(code: string, ancestor: string): boolean {
+  return ancestor === 'GLOBAL' || getJurisdictionPath(code).includes(ancestor);
+}
+
+/**
+ * Whether something tagged for `scope` applies to a contract covering `jurisdictions`.
+ * An untagged scope applies everywhere.
+ */
+export function appliesToJurisdictions(scope: string | undefined, jurisdictions: string[]): boolean {
+  return !scope || jurisdictions.some(code => isWithinJurisdiction(code, scope));
+}
+
+/**
+ * Detect the governing law and the places where data is located or processed
+ */
+export function detectJurisdictions(contractText: string): JurisdictionDetection {
+  const mentions = findJurisdictionMentions(contractText);
+  let governingLaw: DetectedJurisdiction | undefined;
+
+  for (const trigger of contractText.matchAll(GOVERNING_LAW_TRIGGER)) {
+    const windowStart = (trigger.index ?? 0) + trigger[0].length;
+    const windowEnd = findWindowEnd(contractText, windowStart, GOVERNING_LAW_WINDOW);
+    const mention = mentions.find(candidate => candidate.start >= windowStart && candidate.end <= windowEnd);
+    if (mention) {
+      governingLaw = toDetected(mention, 'GOVERNING_LAW');
+      break;
+    }
+  }
+
+  if (!governingLaw) {
+    const mention = mentions.find(candidate => GOVERNS_AFTER.test(contractText.slice(candidate.end)));
+    if (mention) governingLaw = toDetected(mention, 'GOVERNING_LAW');
+  }
+
+  const dataLocations: DetectedJurisdiction[] = [];
+  for (const mention of mentions) {
+    if (governingLaw?.evidence?.start === mention.start) continue;
+    if (dataLocations.some(location => location.code === mention.code)) continue;
+
+    const context = contractText.slice(
+      Math.max(0, mention.start - DATA_CONTEXT_RADIUS),
+      Math.min(contractText.length, mention.end + DATA_CONTEXT_RADIUS)
+    );
+    if (DATA_CONTEXT.test(context)) {
+      dataLocations.push(toDetected(mention, 'DATA_LOCATION'));
+    }
+  }
+
+  return { governingLaw, dataLocations };
+}
+
+/**
+ * Combine the selected jurisdictions with those detected in the contract, without duplicates
+ */
+export function resolveApplicableJurisdictions(
+  selected: string[],
+  detection: JurisdictionDetection
+): DetectedJurisdiction[] {
+  const applicable: DetectedJurisdiction[] = [];
+  const add = (jurisdiction: DetectedJurisdiction) => {
+    if (!applicable.some(existing => existing.code === jurisdiction.code)) {
+      applicable.push(jurisdiction);
+    }
+  };
+
+  selected.forEach(code => add({ code, name: getJurisdiction(code)?.name ?? code, source: 'SELECTED' }));
+  if (detection.governingLaw) add(detection.governingLaw);
+  detection.dataLocations.forEach(add);
+
+  return applicable;
+}
+
+function findJurisdictionMentions(text: string): { code: string; start: number; end: number; text: string }[] {
+  const mentions: { code: string; start: number; end: number; text: string }[] = [];
+
+  // Longest aliases first, so "West Virginia" and "British Columbia" win over "Virginia" and "British"
+  for (const { code, pattern } of ALIAS_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (mentions.some(mention => start < mention.end && end > mention.start)) continue;
+      mentions.push({ code, start, end, text: match[0] });
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function findWindowEnd(text: string, start: number, length: number): number {
+  const window = text.slice(start, start + length);
+  const stop = window.search(/[;]|\n\s*\n|\.(\s|$)/);
+  return start + (stop === -1 ? window.length : stop);
+}
+
+function toDetected(
+  mention: { code: string; start: number; end: number; text: string },
+  source: DetectedJurisdiction['source']
+): DetectedJurisdiction {
+  return {
+    code: mention.code,
+    name: getJurisdiction(mention.code)?.name ?? mention.code,
+    source,
+    evidence: { start: mention.start, end: mention.end, text: mention.text }
+  };
+}
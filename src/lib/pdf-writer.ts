@@ -0,0 +1,201 @@
+// Helvetica advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Helvetica-Bold has no width table here; scaling the regular widths keeps wrapped lines inside the margin
+const BOLD_WIDTH_FACTOR = 1.1;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_SPACING = 1.35;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  createdAt?: Date;
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+  bold: boolean;
+  x: number;
+  y: number;
+}
+
+/**
+ * Builds text-only PDF documents (US Letter, Helvetica) with word wrapping and page breaks.
+ * Output is plain ASCII, so the returned string is also the file's bytes, and the same content
+ * always produces the same file.
+ */
+export class PdfWriter {
+  private pages: PdfLine[][] = [[]];
+  private cursorY = PAGE_HEIGHT - MARGIN;
+
+  heading(text: string, size = 14): this {
+    return this.text(text, { size, bold: true, spaceBefore: size * 0.6 });
+  }
+
+  /**
+   * Add a paragraph, wrapped to the page width
+   */
+  text(text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_SPACING;
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - indent;
+
+    this.cursorY -= options.spaceBefore ?? 0;
+    for (const line of wrapText(text, size, bold, maxWidth)) {
+      if (this.cursorY - lineHeight < MARGIN) {
+        this.pages.push([]);
+        this.cursorY = PAGE_HEIGHT - MARGIN;
+      }
+      this.cursorY -= lineHeight;
+      this.pages[this.pages.length - 1].push({ text: line, size, bold, x: MARGIN + indent, y: this.cursorY });
+    }
+    return this;
+  }
+
+  space(points = 6): this {
+    this.cursorY -= points;
+    return this;
+  }
+
+  /**
+   * Serialize the document. Page numbers are added to each page's footer.
+   */
+  build(info: PdfDocumentInfo): string {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info; pages and their content streams follow
+    const firstPageId = 6;
+
+    this.pages.forEach((lines, index) => {
+      const pageId = firstPageId + index * 2;
+      const footer: PdfLine = {
+        text: `Page ${index + 1} of ${this.pages.length}`,
+        size: 8,
+        bold: false,
+        x: MARGIN,
+        y: MARGIN / 2
+      };
+      const content = [...lines, footer].map(line =>
+        `BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf ${formatNumber(line.x)} ${formatNumber(line.y)} Td (${encodeText(line.text)}) Tj ET`
+      ).join('\n');
+
+      pageIds.push(pageId);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${encodeText(info.title)}) /Producer (Day Break)` +
+      (info.createdAt ? ` /CreationDate (${formatPdfDate(info.createdAt)})` : '') + ' >>';
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return output;
+  }
+}
+
+/**
+ * Split text into lines no wider than `maxWidth` points. Words longer than a line are broken.
+ */
+function wrapText(text: string, size: number, bold: boolean, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = word;
+      while (measureText(line, size, bold) > maxWidth) {
+        let fit = line.length - 1;
+        while (fit > 1 && measureText(line.slice(0, fit), size, bold) > maxWidth) fit--;
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function measureText(text: string, size: number, bold: boolean): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (width / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+/**
+ * Escape text for a PDF string literal. Non-ASCII characters are written as WinAnsi octal
+ * escapes; characters WinAnsi can't represent become "?".
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else {
+      const winAnsi = WIN_ANSI_EXTRAS[char] ?? (code >= 0xa0 && code <= 0xff ? code : undefined);
+      encoded += winAnsi === undefined ? (char === '\t' ? ' ' : '?') : `\\${winAnsi.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return encoded;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
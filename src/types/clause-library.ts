@@ -34,6 +34,9 @@ export type ClauseCategory =
   | 'ENTIRE_AGREEMENT'
   | 'NOTICES'
   | 'COUNTERPARTS'
+  | 'AI_GOVERNANCE'
+  | 'OPERATIONAL_RESILIENCE'
+  | 'SUPPLY_CHAIN_SECURITY'
   | 'CUSTOM';
 
 export type ClauseStatus = 'DRAFT' | 'APPROVED' | 'DEPRECATED' | 'ARCHIVED';
@@ -51,6 +54,7 @@ export interface ClauseTemplate {
   status: ClauseStatus;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   complianceFrameworks: string[];
+  complianceRuleIds?: string[]; // compliance rules this clause satisfies; offered as fixes for their violations
   jurisdiction: string;
   language: string;
   author: string;
@@ -60,12 +64,20 @@ export interface ClauseTemplate {
   isPublic: boolean;
   firmId?: string;
   clientId?: string;
+  upstream?: {
+    templateId: string; // clause in the upstream library this one was forked from
+    syncedContent: string; // the upstream clause's content when it was last pulled
+  };
   metadata: {
     wordCount: number;
     complexity: 'SIMPLE' | 'MODERATE' | 'COMPLEX';
     legalPrecedent?: string;
     courtCases?: string[];
     regulatoryReferences?: string[];
+    harvestedFrom?: {
+      contractName: string;
+      heading: string; // heading of the contract section the clause was taken from
+    };
   };
 }
 
@@ -74,12 +86,47 @@ export interface ClauseVersion {
   version: string;
   content: string;
   changes: string;
-  author: string;
+  author: string; // user id
   createdAt: Date;
-  isActive: boolean;
-  approvalStatus: 'PENDING' | 'APPROVED' | 'REJECTED';
+  isActive: boolean; // the approved version whose content the template currently uses
+  approvalStatus: ClauseVersionStatus;
+  approver?: string; // user id of a member of the library's firm, assigned when the version is submitted for review
+  submittedAt?: Date;
   approvedBy?: string;
   approvedAt?: Date;
+  rejectedBy?: string;
+  rejectedAt?: Date;
+  restoredFrom?: string; // version number this version was restored from
+  comments: ClauseVersionComment[];
+}
+
+// DRAFT while being written, PENDING while in review
+export type ClauseVersionStatus = 'DRAFT' | 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type ClauseVersionAction = 'COMMENT' | 'SUBMIT' | 'APPROVE' | 'REJECT' | 'RESTORE';
+
+export interface ClauseVersionComment {
+  id: string;
+  author: string;
+  action: ClauseVersionAction;
+  comment: string;
+  createdAt: Date;
+}
+
+/**
+ * A member of the firm that owns a library, who can be assigned to review its clause versions
+ */
+export interface FirmMember {
+  userId: string;
+  name: string;
+}
+
+/**
+ * A firm (team) the user belongs to, which can own libraries
+ */
+export interface Firm {
+  id: string;
+  name: string;
 }
 
 export interface ClauseSuggestion {
@@ -122,6 +169,22 @@ export interface ClauseLibrary {
     autoTagging: boolean;
     versionControl: boolean;
   };
+  upstream?: {
+    libraryId: string; // public library this one was forked from
+    syncedAt: Date;
+  };
+}
+
+/**
+ * What pulling upstream changes into a forked library did
+ */
+export interface ClauseLibrarySyncResult {
+  libraryId: string;
+  upstreamLibraryId: string;
+  added: ClauseTemplate[]; // clauses new upstream, copied into the fork
+  updated: ClauseTemplate[]; // clauses unchanged in the fork, updated to the upstream content
+  drafted: { template: ClauseTemplate; version: ClauseVersion }[]; // clauses changed on both sides; the upstream content is a draft to review
+  syncedAt: Date;
 }
 
 export interface ClauseSearchFilters {
@@ -150,6 +213,7 @@ export interface ClauseComparison {
   improvements: string[];
   concerns: string[];
   recommendation: 'ACCEPT' | 'REJECT' | 'MODIFY';
+  redline: RedlineSegment[];
   createdAt: Date;
 }
 
@@ -160,11 +224,21 @@ export interface ClauseDifference {
   position: {
     start: number;
     end: number;
-  };
+  }; // in the original clause; an addition's start and end are where it is inserted
+  suggestedPosition: {
+    start: number;
+    end: number;
+  }; // in the suggested clause; a deletion's start and end are where the text was
   impact: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
   description: string;
 }
 
+// A run of text in a redline; a moved sentence appears struck out where it was and underlined where it went
+export interface RedlineSegment {
+  type: 'UNCHANGED' | 'INSERTED' | 'DELETED' | 'MOVED_FROM' | 'MOVED_TO';
+  text: string;
+}
+
 export interface ClauseUsage {
   id: string;
   clauseId: string;
@@ -205,6 +279,31 @@ export interface SmartSuggestionRequest {
   maxSuggestions?: number;
 }
 
+/**
+ * A clause found in a contract by harvesting
+ */
+export interface HarvestedClause {
+  heading: string;
+  content: string;
+  start: number; // character offsets of the content in the contract text
+  end: number;
+  category: ClauseCategory;
+  categoryConfidence: number; // 0-1
+  complianceFrameworks: string[];
+  complianceRuleIds: string[]; // compliance rules the clause satisfies
+  wordCount: number;
+  complexity: 'SIMPLE' | 'MODERATE' | 'COMPLEX';
+  duplicateOf?: { templateId: string; title: string; similarity: number }; // library clause it nearly repeats; not staged
+  template?: ClauseTemplate; // the DRAFT template staged for review
+}
+
+export interface ClauseHarvestResult {
+  libraryId: string;
+  contractName: string;
+  clauses: HarvestedClause[];
+  staged: ClauseTemplate[];
+}
+
 export interface ClauseTemplateMatch {
   template: ClauseTemplate;
   similarity: number;
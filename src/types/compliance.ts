@@ -1,6 +1,6 @@
 import type { ClauseCategory } from './clause-library';
 
-export type ComplianceFramework = 
+export type BuiltInComplianceFramework = 
   | 'GDPR' 
   | 'HIPAA' 
   | 'SOX' 
@@ -10,10 +10,133 @@ export type ComplianceFramework =
   | 'ISO27001' 
   | 'SOC2' 
   | 'PCI-DSS' 
+  | 'EU_AI_ACT'
+  | 'DORA'
+  | 'NIS2'
+  | 'VCDPA'
+  | 'CPA'
+  | 'TDPSA'
   | 'CUSTOM';
 
+// Further frameworks can be registered at runtime (see compliance-framework-registry.ts)
+export type ComplianceFramework = BuiltInComplianceFramework | (string & Record<never, never>);
+
 export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 
+export interface ComplianceFrameworkDefinition {
+  id: ComplianceFramework;
+  name: string;
+  description: string;
+  weight: number; // 0-1, relative importance in the overall score
+  categories: ClauseCategory[];
+  rules: ComplianceRule[];
+  jurisdictions?: string[]; // where the framework applies; omitted for standards that apply anywhere
+  badgeClassName?: string;
+}
+
+export type JurisdictionLevel = 'GLOBAL' | 'BLOC' | 'COUNTRY' | 'REGION';
+
+// A node in the jurisdiction tree: region/state -> country -> bloc -> GLOBAL
+export interface Jurisdiction {
+  code: string; // e.g. 'US-NY', 'DE', 'EU'
+  name: string;
+  level: JurisdictionLevel;
+  parent?: string;
+  aliases: string[]; // names and adjectives used to detect the jurisdiction in contract text
+}
+
+export type JurisdictionSource = 'SELECTED' | 'GOVERNING_LAW' | 'DATA_LOCATION';
+
+export interface DetectedJurisdiction {
+  code: string;
+  name: string;
+  source: JurisdictionSource;
+  evidence?: {
+    start: number;
+    end: number;
+    text: string;
+  };
+}
+
+export interface JurisdictionDetection {
+  governingLaw?: DetectedJurisdiction;
+  dataLocations: DetectedJurisdiction[];
+}
+
+export type ComparisonOperator = '<' | '<=' | '=' | '>=' | '>';
+
+export type DurationUnit = 'hours' | 'business days' | 'days' | 'weeks' | 'months' | 'years';
+
+export type QuantityKind = 'duration' | 'percentage' | 'money';
+
+// A value found in contract text, e.g. "seventy-two (72) hours" or "$5 million"
+export interface ExtractedQuantity {
+  kind: QuantityKind;
+  value: number; // as written, e.g. 30 for "30 days"
+  unit: string; // DurationUnit, 'percent' or an ISO currency code
+  normalizedValue: number; // hours for durations, percent for percentages, currency units for money
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A required numeric limit, e.g. breach notification within 72 hours
+export interface NumericConstraint {
+  quantity: QuantityKind;
+  operator: ComparisonOperator;
+  value: number;
+  unit: string; // DurationUnit for durations, 'percent' for percentages, ISO currency code for money
+  near?: string; // only consider values close to this phrase
+}
+
+export interface ThresholdFinding {
+  constraint: NumericConstraint;
+  required: string; // e.g. "≤ 72 hours"
+  found: ExtractedQuantity[]; // values that fail the constraint; empty when none is stated
+}
+
+// Declarative rule conditions, evaluated per clause
+export type RuleCondition =
+  | { phrase: string; caseSensitive?: boolean }
+  | { regex: string; flags?: string }
+  | { near: { a: string; b: string; within: number } } // within N words
+  | { numeric: NumericConstraint }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface RuleDefinitionBody {
+  requires?: RuleCondition; // must hold in at least one clause
+  forbids?: RuleCondition[]; // each must hold in no clause
+}
+
+export interface RuleDefinition extends RuleDefinitionBody {
+  id: string;
+  framework: ComplianceFramework;
+  category: ClauseCategory;
+  name: string;
+  description: string;
+  riskLevel: RiskLevel;
+  weight: number;
+  jurisdiction?: string;
+  clientId?: string;
+  isActive?: boolean;
+  effectiveFrom?: string; // ISO date, e.g. "2025-06-01"
+  overridesRuleId?: string;
+}
+
+export interface RulePack {
+  name: string;
+  version: string;
+  description?: string;
+  rules: RuleDefinition[];
+}
+
+export interface RuleValidationIssue {
+  path: string; // e.g. "rules.2.requires.all.0.regex"
+  message: string;
+}
+
 export interface ComplianceRule {
   id: string;
   framework: ComplianceFramework;
@@ -23,35 +146,149 @@ export interface ComplianceRule {
   riskLevel: RiskLevel;
   keywords: string[];
   patterns: RegExp[];
+  definition?: RuleDefinitionBody; // declarative conditions, when compiled from a rule pack
+  thresholds?: NumericConstraint[]; // numeric limits checked in the clauses that match the rule
   weight: number; // 0-1, how much this rule contributes to overall risk
   jurisdiction?: string;
   clientId?: string;
   isActive: boolean;
+  effectiveFrom?: Date; // when this version of the rule comes into force; absent means it always applies
+  overridesRuleId?: string; // built-in rule this copy replaces
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ContractClause {
+  id: string;
+  index: number;
+  heading: string;
+  text: string;
+  start: number; // character offset in the contract text
+  bodyStart: number; // offset where the text after the heading line begins
+  end: number;
+}
+
+export type ContradictionKind = 'NEGATION' | 'CARVE_OUT' | 'DISCLAIMER';
+
+export interface MatchContradiction {
+  kind: ContradictionKind;
+  trigger: string; // e.g. "not", "unless", "disclaims"
+  start: number;
+  end: number;
+}
+
+export interface RuleMatch {
+  clause: ContractClause;
+  start: number;
+  end: number;
+  matchedText: string;
+  contradiction?: MatchContradiction;
+}
+
+export interface ViolationLocation {
+  clauseId: string;
+  clauseHeading: string;
+  start: number;
+  end: number;
+  matchedText: string;
+}
+
+export type QualityIndicator = 'OBLIGATION' | 'TIMEFRAME' | 'RESPONSIBLE_PARTY' | 'CROSS_REFERENCE';
+
+export interface QualityIndicatorResult {
+  indicator: QualityIndicator;
+  label: string;
+  present: boolean;
+  weight: number;
+  evidence?: string; // text that satisfied the indicator
+}
+
+export interface ImplementationQuality {
+  score: number; // 0-1, sum of the weights of present indicators
+  windowStart: number;
+  windowEnd: number;
+  indicators: QualityIndicatorResult[];
+}
+
+export type ViolationType = 'MISSING' | 'INSUFFICIENT' | 'CONTRADICTED' | 'FORBIDDEN' | 'THRESHOLD';
+
 export interface ComplianceViolation {
   id: string;
   ruleId: string;
   rule: ComplianceRule;
-  clauseId: string;
+  violationType: ViolationType;
+  clauseId: string; // 'missing' when no clause addresses the rule
+  location?: ViolationLocation;
+  contradiction?: MatchContradiction;
+  qualityBreakdown?: ImplementationQuality;
+  threshold?: ThresholdFinding;
   severity: RiskLevel;
   description: string;
   explanation: string;
   suggestedAction: string;
   detectedAt: Date;
+  firstDetectedAt?: Date; // when a violation that persists across re-analyses was first found
   isResolved: boolean;
   resolvedAt?: Date;
-  resolvedBy?: string;
+  resolvedBy?: string; // id of the user whose re-analysis no longer found the violation
+}
+
+export interface RuleEvidence {
+  ruleId: string;
+  ruleName: string;
+  ruleVersion: string; // content hash of the rule as evaluated
+  matches: ViolationLocation[]; // where the contract addresses the rule; empty when it doesn't
+}
+
+export interface ScorePenalty {
+  violationId: string;
+  ruleId: string;
+  severity: RiskLevel;
+  ratioPoints: number; // this violation's share of the violation ratio: 100 / rules evaluated
+  severityPoints: number; // severity weight x 10
+}
+
+export interface RuleScoreContribution {
+  ruleId: string;
+  ruleName: string;
+  violations: number;
+  points: number; // points lost before the framework weight is applied
+}
+
+export interface ScoreExplanation {
+  rulesEvaluated: number;
+  baseScore: number; // 100 less the violation ratio, floored at 0
+  severityPenalty: number;
+  unweightedScore: number; // base score less the severity penalty, floored at 0
+  frameworkWeight: number;
+  weightedScore: number; // unweighted score x framework weight; sets the risk level
+  score: number; // weighted score rounded
+  penalties: ScorePenalty[];
+  rules: RuleScoreContribution[]; // violated rules, largest contribution first; every other rule cost nothing
+}
+
+export interface FrameworkScoreShare {
+  framework: ComplianceFramework;
+  score: number;
+  weight: number;
+  contribution: number; // score x weight / total weight
+}
+
+export interface OverallScoreExplanation {
+  frameworks: FrameworkScoreShare[]; // frameworks with no rules evaluated are left out
+  totalWeight: number;
+  score: number | null; // weighted average of the framework scores, rounded; null when none was scored
 }
 
 export interface ComplianceScore {
   framework: ComplianceFramework;
-  overallScore: number; // 0-100
-  riskLevel: RiskLevel;
+  overallScore: number | null; // 0-100; null when the framework is not scored
+  riskLevel: RiskLevel | null; // null when the framework is not scored
   violations: ComplianceViolation[];
   recommendations: string[];
+  rulesEvaluated: number; // 0 when no active rules apply; the framework is then not scored and left out of the overall score
+  evidence?: RuleEvidence[]; // one entry per evaluated rule
+  explanation?: ScoreExplanation; // how overallScore was reached; absent when no rules were evaluated
   lastUpdated: Date;
 }
 
@@ -59,17 +296,38 @@ export interface ContractComplianceAnalysis {
   contractId: string;
   documentName: string;
   frameworks: ComplianceScore[];
-  overallRiskLevel: RiskLevel;
-  overallComplianceScore: number;
+  overallRiskLevel: RiskLevel | null; // null when no framework was scored
+  overallComplianceScore: number | null; // null when no framework was scored
   criticalIssues: ComplianceViolation[];
   mediumIssues: ComplianceViolation[];
   lowIssues: ComplianceViolation[];
   autoTags: string[];
-  jurisdiction: string;
+  jurisdiction: string; // primary jurisdiction selected for the analysis
+  applicableJurisdictions: DetectedJurisdiction[]; // selected, governing law and data locations combined
+  scoreExplanation?: OverallScoreExplanation;
   clientId?: string;
   analyzedAt: Date;
 }
 
+export interface ComplianceAnalysisDiff {
+  previousAnalyzedAt?: Date;
+  previousRiskLevel?: RiskLevel;
+  scoreChange: number | null; // current overall score minus the previous one, null when either isn't scored
+  newViolations: ComplianceViolation[];
+  persistingViolations: ComplianceViolation[];
+  resolvedViolations: ComplianceViolation[]; // violations from the previous run, marked resolved
+}
+
+export interface ComplianceAnalysisRecord {
+  id: string;
+  contractKey: string; // identifies the contract across versions
+  version: number;
+  analysis: ContractComplianceAnalysis;
+  diff?: ComplianceAnalysisDiff; // against the previous version; absent for the first
+  analyzedBy: string;
+  createdAt: Date;
+}
+
 export interface ComplianceConfiguration {
   id: string;
   clientId?: string;
@@ -84,7 +342,330 @@ export interface ComplianceConfiguration {
     email: boolean;
     slack: boolean;
     webhook?: string;
+    slackWebhookUrl?: string;
+    emailRecipients?: string[];
+    minimumRiskLevel?: RiskLevel; // risk level that raises a RISK_THRESHOLD_CROSSED event; HIGH when unset
   };
   createdAt: Date;
   updatedAt: Date;
 }
+
+export type NotificationChannel = 'EMAIL' | 'SLACK' | 'WEBHOOK';
+
+export type NotificationTrigger = 'RISK_THRESHOLD_CROSSED' | 'NEW_CRITICAL_VIOLATIONS';
+
+export interface ComplianceNotificationEvent {
+  id: string;
+  trigger: NotificationTrigger;
+  contractId: string;
+  documentName: string;
+  clientId?: string;
+  overallComplianceScore: number | null; // null when the analysis isn't scored
+  riskLevel: RiskLevel | null;
+  previousRiskLevel?: RiskLevel; // absent when there is no earlier analysis
+  violations: ComplianceViolation[]; // new CRITICAL violations that triggered the event
+  summary: string;
+  occurredAt: Date;
+}
+
+export interface NotificationDelivery {
+  id: string; // same on every retry, so receivers can ignore duplicates
+  channel: NotificationChannel;
+  target: string; // URL, or comma-separated email recipients
+  eventIds: string[];
+  status: 'DELIVERED' | 'FAILED';
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  sentAt: Date;
+}
+
+export interface EvidencePackFile {
+  path: string;
+  sha256: string; // of the file's UTF-8 bytes
+  bytes: number;
+}
+
+export interface EvidencePackManifest {
+  format: 'compliance-evidence-pack';
+  formatVersion: number;
+  contractId: string;
+  documentName: string;
+  clientId?: string;
+  frameworks: ComplianceFramework[];
+  analyzedAt: string;
+  generatedAt: string;
+  generatedBy: string;
+  files: EvidencePackFile[];
+  packHash: string; // hash of the file list, printed in the PDF report
+  report: EvidencePackFile; // the PDF report, exported alongside the bundle
+}
+
+export interface ComplianceEvidencePack {
+  manifest: EvidencePackManifest;
+  files: Record<string, string>; // path to file contents
+  pdf: string;
+}
+
+export interface LabelledContract {
+  name: string;
+  text: string;
+  frameworks: ComplianceFramework[];
+  jurisdiction: string;
+  clientId?: string;
+  expectedViolations: string[]; // rule IDs; every other rule evaluated on the contract should pass
+}
+
+export interface DetectionMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null; // null when the rule never fired
+  recall: number | null; // null when no violation was expected
+}
+
+export interface RuleDetectionMetrics extends DetectionMetrics {
+  ruleId: string;
+  framework: ComplianceFramework;
+}
+
+export interface FrameworkDetectionMetrics extends DetectionMetrics {
+  framework: ComplianceFramework;
+}
+
+export interface DetectionMismatch {
+  sample: string;
+  ruleId: string;
+  kind: 'FALSE_POSITIVE' | 'FALSE_NEGATIVE';
+}
+
+export interface ComplianceRegressionReport {
+  samples: number;
+  rules: RuleDetectionMetrics[];
+  frameworks: FrameworkDetectionMetrics[];
+  mismatches: DetectionMismatch[];
+}
+
+export interface DetectionRegression {
+  scope: 'RULE' | 'FRAMEWORK';
+  id: string;
+  metric: 'precision' | 'recall';
+  baseline: number;
+  current: number;
+}
+
+export interface ComplianceControl {
+  id: string;
+  name: string;
+  description: string;
+  ruleIds: string[]; // equivalent rules in different frameworks
+}
+
+export interface FrameworkGap {
+  framework: ComplianceFramework;
+  ruleId: string;
+  violations: ComplianceViolation[];
+}
+
+export interface ComplianceObligation {
+  control: ComplianceControl;
+  frameworks: ComplianceFramework[]; // frameworks in the analysis that require the control
+  satisfiedFrameworks: ComplianceFramework[];
+  gaps: FrameworkGap[];
+  sharedViolationType?: ViolationType; // set when every gap is the same single kind of violation
+  status: 'MET' | 'PARTIAL' | 'UNMET';
+}
+
+export interface ObligationSummary {
+  obligations: ComplianceObligation[];
+  unmappedViolations: ComplianceViolation[]; // violations of rules that belong to no control
+}
+
+export interface RemediationPlan {
+  violationId: string;
+  ruleId: string;
+  templateId: string;
+  action: 'INSERT' | 'REPLACE'; // a new clause for a missing provision, or a rewrite of the flagged sentence
+  start: number;
+  end: number; // equal to start for an insertion
+  originalText: string;
+  replacementText: string;
+  clauseHeading: string; // clause rewritten, or heading of the inserted clause
+}
+
+export interface RemediationResult {
+  plan: RemediationPlan;
+  contractText: string;
+  analysis: ContractComplianceAnalysis; // the contract re-analyzed after the fix
+  resolved: boolean; // the rule raises no violation in the re-analysis
+  introducedViolations: ComplianceViolation[]; // violations of rules that passed before the fix
+}
+
+// Scores and risk levels are null for frameworks and contracts that are not scored
+export interface FrameworkScoreSimulation {
+  framework: ComplianceFramework;
+  currentScore: number | null;
+  simulatedScore: number | null;
+  simulatedRiskLevel: RiskLevel | null;
+}
+
+export interface ScoreSimulation {
+  fixedViolationIds: string[];
+  frameworks: FrameworkScoreSimulation[];
+  currentScore: number | null;
+  simulatedScore: number | null;
+  currentRiskLevel: RiskLevel | null;
+  simulatedRiskLevel: RiskLevel | null;
+}
+
+export interface PortfolioContract {
+  contractKey: string; // identifies the contract in the job, e.g. toContractKey(documentName)
+  documentName: string;
+  text: string;
+  frameworks?: ComplianceFramework[]; // defaults to the client's configured frameworks
+  jurisdiction?: string | string[]; // defaults to the client's configured jurisdiction, or 'US'
+  clientId?: string;
+}
+
+export interface BatchContractResult {
+  contractKey: string;
+  analysis: ContractComplianceAnalysis;
+}
+
+export interface BatchContractFailure {
+  contractKey: string;
+  documentName: string;
+  error: string;
+}
+
+export interface BatchAnalysisCheckpoint {
+  jobId: string;
+  analyzedAt: Date; // shared by every analysis in the job, including after a resume
+  results: BatchContractResult[];
+  failures: BatchContractFailure[]; // retried when the job resumes
+}
+
+export interface BatchAnalysisProgress {
+  total: number;
+  analyzed: number;
+  failed: number;
+  currentContract?: string; // document name of the contract just processed
+}
+
+export interface PortfolioContractScore {
+  contractKey: string;
+  documentName: string;
+  clientId?: string;
+  score: number;
+  riskLevel: RiskLevel;
+  criticalIssues: number;
+}
+
+export interface RuleViolationFrequency {
+  ruleId: string;
+  ruleName: string;
+  framework: ComplianceFramework;
+  contracts: number; // contracts with at least one violation of the rule
+  violations: number;
+}
+
+export interface ComplianceHeatmapCell {
+  framework: ComplianceFramework;
+  contracts: number;
+  averageScore: number;
+  worstRiskLevel: RiskLevel;
+  violations: number;
+}
+
+export interface ClientComplianceHeatmap {
+  clientId?: string; // undefined for contracts without a client
+  contracts: number;
+  averageScore: number | null; // over the client's scored contracts; null when none is scored
+  cells: ComplianceHeatmapCell[]; // one per framework analyzed for the client's contracts
+}
+
+export interface PortfolioSummary {
+  contracts: number;
+  notScored: number; // contracts with no framework scored, left out of the scores and risk distribution
+  averageScore: number | null; // null when no contract is scored
+  riskDistribution: Record<RiskLevel, number>;
+  worstContracts: PortfolioContractScore[]; // scored contracts only, lowest score first
+  mostViolatedRules: RuleViolationFrequency[]; // most contracts affected first
+  clientHeatmaps: ClientComplianceHeatmap[];
+}
+
+export interface BatchAnalysisResult {
+  status: 'COMPLETED' | 'CANCELLED';
+  checkpoint: BatchAnalysisCheckpoint; // pass back to resume a cancelled job
+  summary: PortfolioSummary;
+}
+
+export type RuleChange =
+  | { type: 'ADD'; rule: ComplianceRule }
+  | { type: 'UPDATE'; ruleId: string; updates: Partial<ComplianceRule> }
+  | { type: 'OVERRIDE'; ruleId: string; changes: Partial<ComplianceRule> }; // ruleId is the built-in rule
+
+export interface ContractRuleImpact {
+  contractKey: string;
+  documentName: string;
+  clientId?: string;
+  ruleViolatedBefore: boolean;
+  ruleViolatedAfter: boolean;
+  scoreBefore: number | null; // null when the contract isn't scored
+  scoreAfter: number | null;
+  riskLevelBefore: RiskLevel | null;
+  riskLevelAfter: RiskLevel | null;
+  analysis: ContractComplianceAnalysis; // with the change applied
+  diff: ComplianceAnalysisDiff; // against the analysis without the change
+}
+
+export interface RuleChangeImpactReport {
+  ruleId: string;
+  ruleName: string;
+  changeType: RuleChange['type'];
+  previousVersion?: string; // the overridden built-in rule's version for an override; absent for a new rule
+  newVersion: string;
+  effectiveFrom?: Date;
+  evaluatedAt: Date;
+  contractsEvaluated: number;
+  affectedContracts: ContractRuleImpact[]; // the rule's outcome or the risk level flips; largest score drop first
+  affectedClients: string[];
+  failures: BatchContractFailure[];
+}
+
+export type RuleAuditAction = 'CREATE' | 'OVERRIDE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+export interface RuleFieldChange {
+  field: keyof ComplianceRule;
+  before?: unknown; // stored form, absent when the field was not set
+  after?: unknown;
+}
+
+export interface StoredComplianceRule {
+  id: string; // storage id; rule.id is the rule's own id
+  rule: ComplianceRule;
+  teamId?: string; // firm the rule is shared with; absent for a private rule
+  createdBy: string;
+  deletedAt?: Date;
+  deletedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A stored rule that could not be loaded into the analyzer
+export interface SkippedStoredRule {
+  storedRuleId: string;
+  ruleId: string;
+  reason: string;
+}
+
+export interface RuleAuditEntry {
+  id: string;
+  storedRuleId: string;
+  ruleId: string;
+  action: RuleAuditAction;
+  changes: RuleFieldChange[];
+  snapshot: ComplianceRule; // the rule after the change
+  changedBy: string;
+  changedAt: Date;
+}
@@ -0,0 +1,258 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RELAY_TIMEOUT_MS = 10000;
+const DEFAULT_CLIENT_ID = '';
+
+interface NotificationSettings {
+  email?: boolean;
+  slack?: boolean;
+  webhook?: string;
+  slackWebhookUrl?: string;
+  emailRecipients?: string[];
+}
+
+// Sends compliance notifications on behalf of the browser, which can't call Slack or
+// customer webhooks directly because of CORS and has no email provider.
+//   POST /compliance-notifications  { channel, clientId?, deliveryId, eventIds?, body }
+// The caller only supplies the payload. Webhook and Slack URLs and email recipients come from the
+// caller's saved configuration for the client (or their default configuration), and webhook calls
+// are signed with the secret stored for it; channels that aren't configured, and webhooks without
+// a secret, are rejected with a 4xx status so the caller doesn't retry. Each attempt is logged in
+// compliance_notification_deliveries, which only this function writes.
+// Responds with { ok, status } describing the upstream response, so the caller can retry.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new RequestError('Authorization header required', 401);
+    }
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new RequestError('Invalid authorization', 401);
+    }
+
+    const { channel, clientId, deliveryId, eventIds, body } = await req.json().catch(() => ({}));
+    if (!['WEBHOOK', 'SLACK', 'EMAIL'].includes(channel) || typeof deliveryId !== 'string' || !deliveryId || typeof body !== 'string') {
+      throw new RequestError('Channel, delivery id and body are required');
+    }
+
+    // The client's own configuration, falling back to the default one as the analyzer does
+    const clientIds = [...new Set([typeof clientId === 'string' ? clientId.trim() : DEFAULT_CLIENT_ID, DEFAULT_CLIENT_ID])];
+    const { data: configurations, error: configurationError } = await supabase
+      .from('compliance_configurations')
+      .select('client_id, configuration')
+      .eq('user_id', user.id)
+      .in('client_id', clientIds);
+
+    if (configurationError) throw configurationError;
+    const configuration = clientIds
+      .map(id => configurations?.find(row => row.client_id === id))
+      .find(Boolean);
+    if (!configuration) {
+      throw new RequestError('No compliance configuration saved', 422);
+    }
+    const settings: NotificationSettings = configuration.configuration?.notificationSettings ?? {};
+
+    let target: string;
+    let send: () => Promise<Response>;
+    if (channel === 'EMAIL') {
+      const email = emailRequest(settings, body);
+      target = email.to.join(', ');
+      send = () => sendEmail(email);
+    } else if (channel === 'SLACK') {
+      if (!settings.slack || !settings.slackWebhookUrl) {
+        throw new RequestError('Slack notifications are not configured', 422);
+      }
+      target = 'Slack';
+      const url = httpsUrl(settings.slackWebhookUrl);
+      send = () => relay(url, { 'Content-Type': 'application/json' }, body);
+    } else {
+      if (!settings.webhook) {
+        throw new RequestError('Webhook notifications are not configured', 422);
+      }
+      const { data: secret, error: secretError } = await supabase
+        .from('compliance_notification_secrets')
+        .select('webhook_secret')
+        .eq('user_id', user.id)
+        .eq('client_id', configuration.client_id)
+        .maybeSingle();
+
+      if (secretError) throw secretError;
+      // Unsigned calls can't be told apart from forged ones, so they aren't sent
+      if (!secret?.webhook_secret) {
+        throw new RequestError('Webhook notifications need a signing secret', 422);
+      }
+      target = settings.webhook;
+      const url = httpsUrl(settings.webhook);
+      send = async () => relay(url, await webhookHeaders(body, deliveryId, secret.webhook_secret), body);
+    }
+
+    const delivery = { userId: user.id, deliveryId, channel, target, eventIds: Array.isArray(eventIds) ? eventIds.map(String) : [] };
+    let upstream: Response;
+    try {
+      upstream = await send();
+    } catch (error) {
+      await recordDelivery(supabase, delivery, { error: error.message || 'Request failed' });
+      throw error;
+    }
+    await recordDelivery(supabase, delivery, {
+      statusCode: upstream.status,
+      error: upstream.ok ? undefined : `HTTP ${upstream.status}`
+    });
+
+    console.log(`Notification ${channel} for ${user.id} returned ${upstream.status}`);
+
+    return new Response(JSON.stringify({ ok: upstream.ok, status: upstream.status }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in compliance-notifications function:', error);
+    return new Response(JSON.stringify({
+      error: error.message || 'Notification failed'
+    }), {
+      status: error instanceof RequestError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// A request that can't succeed as sent, e.g. for a channel that isn't configured. Answered with a
+// 4xx status, which callers don't retry.
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+// Log an attempt to deliver a notification. Retries update the delivery's entry, so it ends up
+// with the outcome of the last attempt. A failure to log doesn't fail the delivery.
+async function recordDelivery(
+  supabase: ReturnType<typeof createClient>,
+  delivery: { userId: string; deliveryId: string; channel: string; target: string; eventIds: string[] },
+  outcome: { statusCode?: number; error?: string }
+) {
+  try {
+    const { data: logged, error } = await supabase
+      .from('compliance_notification_deliveries')
+      .select('id, attempts')
+      .eq('user_id', delivery.userId)
+      .eq('delivery_id', delivery.deliveryId)
+      .maybeSingle();
+
+    if (error) throw error;
+    const entry = {
+      channel: delivery.channel,
+      target: delivery.target,
+      event_ids: delivery.eventIds,
+      status: outcome.error ? 'FAILED' : 'DELIVERED',
+      status_code: outcome.statusCode ?? null,
+      error: outcome.error ?? null,
+      sent_at: new Date().toISOString(),
+    };
+    const { error: saveError } = logged
+      ? await supabase
+        .from('compliance_notification_deliveries')
+        .update({ ...entry, attempts: logged.attempts + 1 })
+        .eq('id', logged.id)
+      : await supabase
+        .from('compliance_notification_deliveries')
+        .insert({ ...entry, user_id: delivery.userId, delivery_id: delivery.deliveryId, attempts: 1 });
+
+    if (saveError) throw saveError;
+  } catch (error) {
+    console.error('Error logging notification delivery:', error);
+  }
+}
+
+function httpsUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new RequestError('Notification URL is not valid', 422);
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new RequestError('Notifications can only be sent to HTTPS URLs', 422);
+  }
+  return parsed.toString();
+}
+
+async function relay(url: string, headers: Record<string, string>, body: string) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), RELAY_TIMEOUT_MS);
+  try {
+    return await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Same headers and signature as ComplianceNotificationDispatcher (src/lib/compliance-notifications.ts):
+// X-Compliance-Signature is sha256=<HMAC-SHA256 of "<timestamp>.<body>">
+async function webhookHeaders(body: string, deliveryId: string, secret: string) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return {
+    'Content-Type': 'application/json',
+    'X-Compliance-Delivery': deliveryId,
+    'X-Compliance-Timestamp': String(timestamp),
+    'X-Compliance-Signature': `sha256=${Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')}`,
+  };
+}
+
+// The email to send: the digest in the body, to the configured recipients
+function emailRequest(settings: NotificationSettings, body: string) {
+  const to = (settings.emailRecipients ?? []).filter(recipient => recipient.trim());
+  if (!settings.email || to.length === 0) {
+    throw new RequestError('Email notifications are not configured', 422);
+  }
+  // Any recipients in the body are ignored; the digest goes to the configured ones
+  let digest: { subject?: string; text?: string; html?: string };
+  try {
+    digest = JSON.parse(body);
+  } catch {
+    throw new RequestError('Email body must be JSON');
+  }
+  if (!digest.subject) {
+    throw new RequestError('Subject is required');
+  }
+  return { to, subject: digest.subject, text: digest.text, html: digest.html };
+}
+
+async function sendEmail(email: { to: string[]; subject: string; text?: string; html?: string }) {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('NOTIFICATION_FROM_EMAIL');
+  if (!resendApiKey || !from) {
+    throw new RequestError('Email provider not configured', 422);
+  }
+
+  return await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from, ...email }),
+  });
+}
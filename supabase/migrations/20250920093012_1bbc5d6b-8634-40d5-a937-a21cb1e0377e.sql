@@ -0,0 +1,114 @@
+-- Create compliance_analyses table to keep every compliance analysis of a contract
+CREATE TABLE public.compliance_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  contract_key TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0), -- numbered on insert by assign_compliance_analysis_version
+  document_name TEXT NOT NULL,
+  analysis JSONB NOT NULL,
+  contract_text TEXT, -- the analyzed text, so the portfolio can be re-analyzed when rules change
+  overall_score INTEGER CHECK (overall_score >= 0 AND overall_score <= 100), -- NULL when no framework was scored
+  risk_level TEXT CHECK (risk_level IN ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((overall_score IS NULL) = (risk_level IS NULL)),
+  UNIQUE (user_id, contract_key, version)
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Analyses are a history, so they can be added and removed but not edited
+CREATE POLICY "Users can view their own compliance analyses" 
+ON public.compliance_analyses 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own compliance analyses" 
+ON public.compliance_analyses 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own compliance analyses" 
+ON public.compliance_analyses 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_compliance_analyses_contract 
+ON public.compliance_analyses (user_id, contract_key, version DESC);
+
+-- Number each analysis as the next version of its contract. The lock serializes concurrent saves
+-- of the same contract, so two saves can't both take the same version.
+CREATE OR REPLACE FUNCTION public.assign_compliance_analysis_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text || ':' || NEW.contract_key));
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM compliance_analyses
+  WHERE user_id = NEW.user_id AND contract_key = NEW.contract_key;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_compliance_analysis_version
+BEFORE INSERT ON public.compliance_analyses
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_compliance_analysis_version();
+
+-- The latest version of each of a user's contracts, e.g. the portfolio to re-analyze when rules change
+CREATE OR REPLACE FUNCTION public.latest_compliance_analyses(_user_id uuid)
+RETURNS SETOF public.compliance_analyses
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (contract_key) *
+  FROM compliance_analyses
+  WHERE user_id = _user_id
+  ORDER BY contract_key, version DESC;
+$$;
+
+-- Create compliance_batch_checkpoints table to keep a paused portfolio re-check, so it can be
+-- resumed in a later session
+CREATE TABLE public.compliance_batch_checkpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE, -- one re-check in progress per user
+  job_id TEXT NOT NULL,
+  checkpoint JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_batch_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own compliance batch checkpoints" 
+ON public.compliance_batch_checkpoints 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own compliance batch checkpoints" 
+ON public.compliance_batch_checkpoints 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own compliance batch checkpoints" 
+ON public.compliance_batch_checkpoints 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own compliance batch checkpoints" 
+ON public.compliance_batch_checkpoints 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_compliance_batch_checkpoints_updated_at
+BEFORE UPDATE ON public.compliance_batch_checkpoints
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
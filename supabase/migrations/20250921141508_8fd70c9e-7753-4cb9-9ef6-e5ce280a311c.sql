@@ -0,0 +1,40 @@
+-- Create compliance_configurations table for per-client compliance settings
+CREATE TABLE public.compliance_configurations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  client_id TEXT NOT NULL DEFAULT '', -- '' is the default configuration
+  configuration JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, client_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_configurations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own compliance configurations" 
+ON public.compliance_configurations 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own compliance configurations" 
+ON public.compliance_configurations 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own compliance configurations" 
+ON public.compliance_configurations 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own compliance configurations" 
+ON public.compliance_configurations 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_compliance_configurations_updated_at
+BEFORE UPDATE ON public.compliance_configurations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,108 @@
+-- Create compliance_notification_deliveries table to log webhook, Slack and email notifications
+CREATE TABLE public.compliance_notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  delivery_id TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('EMAIL', 'SLACK', 'WEBHOOK')),
+  target TEXT NOT NULL,
+  event_ids TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL CHECK (status IN ('DELIVERED', 'FAILED')),
+  attempts INTEGER NOT NULL CHECK (attempts > 0),
+  status_code INTEGER,
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, delivery_id) -- retries of a delivery update its entry
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Users can only read the delivery log. The compliance-notifications function (service role)
+-- writes it as it sends, so entries record what was actually delivered.
+CREATE POLICY "Users can view their own compliance notification deliveries" 
+ON public.compliance_notification_deliveries 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_compliance_notification_deliveries_sent 
+ON public.compliance_notification_deliveries (user_id, sent_at DESC);
+
+-- Create compliance_notification_secrets table for webhook signing secrets. It has RLS and no
+-- policies, so only the compliance-notifications function (service role) can read it.
+CREATE TABLE public.compliance_notification_secrets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  client_id TEXT NOT NULL DEFAULT '', -- matches compliance_configurations.client_id
+  webhook_secret TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, client_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_notification_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_compliance_notification_secrets_updated_at
+BEFORE UPDATE ON public.compliance_notification_secrets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set or, with an empty secret, remove the caller's webhook signing secret for a client. Write-only:
+-- nothing lets a client read the secret back.
+CREATE OR REPLACE FUNCTION public.set_compliance_webhook_secret(_client_id text, _secret text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(_secret, '') = '' THEN
+    IF EXISTS (
+      SELECT 1 FROM compliance_configurations
+      WHERE user_id = auth.uid() AND client_id = coalesce(_client_id, '')
+        AND coalesce(configuration -> 'notificationSettings' ->> 'webhook', '') <> ''
+    ) THEN
+      RAISE EXCEPTION 'Remove the webhook before its signing secret';
+    END IF;
+
+    DELETE FROM compliance_notification_secrets
+    WHERE user_id = auth.uid() AND client_id = coalesce(_client_id, '');
+  ELSE
+    INSERT INTO compliance_notification_secrets (user_id, client_id, webhook_secret)
+    VALUES (auth.uid(), coalesce(_client_id, ''), _secret)
+    ON CONFLICT (user_id, client_id) DO UPDATE SET webhook_secret = EXCLUDED.webhook_secret;
+  END IF;
+END;
+$$;
+
+-- Webhook notifications are only sent signed, so a configuration can only enable them once a
+-- signing secret is stored for its client
+CREATE OR REPLACE FUNCTION public.require_compliance_webhook_secret()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(NEW.configuration -> 'notificationSettings' ->> 'webhook', '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM compliance_notification_secrets
+      WHERE user_id = NEW.user_id AND client_id = NEW.client_id
+    ) THEN
+    RAISE EXCEPTION 'Set a signing secret before enabling webhook notifications';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_compliance_webhook_secret
+BEFORE INSERT OR UPDATE ON public.compliance_configurations
+FOR EACH ROW
+EXECUTE FUNCTION public.require_compliance_webhook_secret();
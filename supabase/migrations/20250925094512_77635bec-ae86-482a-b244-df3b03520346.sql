@@ -0,0 +1,271 @@
+-- Create compliance_rules table for custom rules and overrides of built-in rules, shared within a firm (team)
+CREATE TABLE public.compliance_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id TEXT NOT NULL,
+  user_id UUID NOT NULL, -- who created the rule
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE, -- firm sharing the rule; NULL keeps it private
+  client_id TEXT NOT NULL DEFAULT '', -- '' applies to every client
+  overrides_rule_id TEXT, -- built-in rule this copy replaces
+  overridden_rule JSONB, -- the built-in rule as it was when overridden; an override's audit diff is against it
+  rule JSONB NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (rule ->> 'id' = rule_id),
+  CHECK ((rule ->> 'overridesRuleId') IS NOT DISTINCT FROM overrides_rule_id),
+  CHECK (rule_id <> overrides_rule_id) -- an override has an id of its own
+);
+
+-- Rule ids are unique within a firm, or within a user's private rules
+CREATE UNIQUE INDEX idx_compliance_rules_team_rule 
+ON public.compliance_rules (team_id, rule_id) 
+WHERE team_id IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_compliance_rules_user_rule 
+ON public.compliance_rules (user_id, rule_id) 
+WHERE team_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.compliance_rules ENABLE ROW LEVEL SECURITY;
+
+-- Firm members share their firm's rules. There is no delete policy: rules are soft-deleted
+CREATE POLICY "Users can view their own and their teams' compliance rules" 
+ON public.compliance_rules 
+FOR SELECT 
+USING (
+  auth.uid() = user_id OR 
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE POLICY "Users can create compliance rules for themselves or their teams" 
+ON public.compliance_rules 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id AND 
+  (team_id IS NULL OR public.is_user_team_member(auth.uid(), team_id))
+);
+
+-- guard_compliance_rule below keeps updates to the rule itself and its deletion
+CREATE POLICY "Users can update their own and their teams' compliance rules" 
+ON public.compliance_rules 
+FOR UPDATE 
+USING (
+  (team_id IS NULL AND auth.uid() = user_id) OR 
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+)
+WITH CHECK (
+  (team_id IS NULL AND auth.uid() = user_id) OR 
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+-- Ids of the built-in rules (src/lib/compliance-frameworks.ts). They are reserved: a stored rule
+-- changes a built-in rule by overriding it with a copy. New built-in rules are added here too.
+CREATE TABLE public.compliance_built_in_rules (
+  rule_id TEXT NOT NULL PRIMARY KEY
+);
+
+-- Only the guard below reads the list
+ALTER TABLE public.compliance_built_in_rules ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.compliance_built_in_rules (rule_id) VALUES
+  ('gdpr-data-subject-rights'),
+  ('gdpr-lawful-basis'),
+  ('gdpr-data-retention'),
+  ('gdpr-cross-border'),
+  ('gdpr-breach-notification'),
+  ('hipaa-phi-protection'),
+  ('hipaa-baa-requirement'),
+  ('hipaa-minimum-necessary'),
+  ('hipaa-breach-notification'),
+  ('sox-financial-reporting'),
+  ('sox-audit-requirements'),
+  ('sox-documentation'),
+  ('ccpa-consumer-rights'),
+  ('ccpa-disclosure'),
+  ('pipeda-meaningful-consent'),
+  ('pipeda-accountability-officer'),
+  ('pipeda-breach-reporting'),
+  ('pipeda-cross-border-processing'),
+  ('pipeda-individual-access'),
+  ('lgpd-legal-basis-consent'),
+  ('lgpd-encarregado'),
+  ('lgpd-anpd-breach-reporting'),
+  ('lgpd-international-transfer'),
+  ('lgpd-data-subject-rights'),
+  ('iso27001-security-policy'),
+  ('iso27001-risk-assessment'),
+  ('iso27001-incident-management'),
+  ('soc2-availability'),
+  ('soc2-confidentiality'),
+  ('pci-dss-card-data'),
+  ('pci-dss-encryption'),
+  ('ai-act-risk-classification'),
+  ('ai-act-human-oversight'),
+  ('ai-act-data-governance'),
+  ('ai-act-transparency'),
+  ('ai-act-serious-incidents'),
+  ('dora-ict-service-description'),
+  ('dora-incident-assistance'),
+  ('dora-audit-access'),
+  ('dora-exit-strategy'),
+  ('dora-subcontracting'),
+  ('dora-resilience-testing'),
+  ('nis2-incident-reporting'),
+  ('nis2-supply-chain-security'),
+  ('nis2-risk-management-measures'),
+  ('vcdpa-processor-contract'),
+  ('vcdpa-consumer-rights'),
+  ('vcdpa-sensitive-data'),
+  ('cpa-processor-contract'),
+  ('cpa-consumer-rights'),
+  ('cpa-sensitive-data'),
+  ('cpa-universal-opt-out'),
+  ('tdpsa-processor-contract'),
+  ('tdpsa-consumer-rights'),
+  ('tdpsa-sensitive-data'),
+  ('tdpsa-sensitive-data-sale-notice');
+
+-- Stored rules cannot take a built-in rule's id or override anything but a built-in rule. Who
+-- created a rule, its firm, its id and the built-in rule it overrides are fixed once stored; firm
+-- members can only change the rule itself and delete or restore it.
+CREATE OR REPLACE FUNCTION public.guard_compliance_rule()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.user_id, NEW.team_id, NEW.rule_id, NEW.overrides_rule_id, NEW.overridden_rule)
+    IS DISTINCT FROM (OLD.user_id, OLD.team_id, OLD.rule_id, OLD.overrides_rule_id, OLD.overridden_rule) THEN
+    RAISE EXCEPTION 'A rule''s creator, firm, id and overridden rule cannot be changed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM compliance_built_in_rules WHERE rule_id = NEW.rule_id) THEN
+    RAISE EXCEPTION 'Rule % is built in; override it with a copy instead', NEW.rule_id;
+  END IF;
+
+  IF NEW.overrides_rule_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM compliance_built_in_rules WHERE rule_id = NEW.overrides_rule_id) THEN
+    RAISE EXCEPTION 'Rule % overrides %, which is not a built-in rule', NEW.rule_id, NEW.overrides_rule_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_compliance_rules
+BEFORE INSERT OR UPDATE ON public.compliance_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_compliance_rule();
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_compliance_rules_updated_at
+BEFORE UPDATE ON public.compliance_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create compliance_rule_audit table: one entry per change, with who, when, a field diff and the rule afterwards.
+-- Entries are written by a trigger on compliance_rules and outlive the rule row.
+CREATE TABLE public.compliance_rule_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_row_id UUID NOT NULL, -- compliance_rules.id
+  rule_id TEXT NOT NULL,
+  team_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('CREATE', 'OVERRIDE', 'UPDATE', 'DELETE', 'RESTORE')),
+  changes JSONB NOT NULL DEFAULT '[]',
+  snapshot JSONB NOT NULL,
+  user_id UUID NOT NULL, -- who created the rule
+  changed_by UUID NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.compliance_rule_audit ENABLE ROW LEVEL SECURITY;
+
+-- The audit trail is append-only and only the trigger below writes to it
+CREATE POLICY "Users can view the audit trail of their own and their teams' rules" 
+ON public.compliance_rule_audit 
+FOR SELECT 
+USING (
+  auth.uid() = user_id OR 
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE INDEX idx_compliance_rule_audit_rule 
+ON public.compliance_rule_audit (rule_row_id, changed_at);
+
+-- Field-by-field differences between two versions of a rule, ignoring timestamps
+CREATE OR REPLACE FUNCTION public.diff_compliance_rules(_before jsonb, _after jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object('field', field, 'before', _before -> field, 'after', _after -> field))
+      ORDER BY field
+    ),
+    '[]'::jsonb
+  )
+  FROM (
+    SELECT jsonb_object_keys(coalesce(_before, '{}'::jsonb))
+    UNION
+    SELECT jsonb_object_keys(coalesce(_after, '{}'::jsonb))
+  ) AS fields(field)
+  WHERE field NOT IN ('createdAt', 'updatedAt')
+    AND (_before -> field) IS DISTINCT FROM (_after -> field);
+$$;
+
+-- Record every change to a rule in the audit trail
+CREATE OR REPLACE FUNCTION public.audit_compliance_rule_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _action text;
+  _row public.compliance_rules;
+  _changes jsonb := '[]'::jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _row := NEW;
+    _action := CASE WHEN NEW.overrides_rule_id IS NULL THEN 'CREATE' ELSE 'OVERRIDE' END;
+    _changes := public.diff_compliance_rules(NEW.overridden_rule, NEW.rule);
+  ELSIF TG_OP = 'DELETE' THEN
+    _row := OLD;
+    _action := 'DELETE';
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    _row := NEW;
+    _action := 'DELETE';
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    _row := NEW;
+    _action := 'RESTORE';
+  ELSE
+    _row := NEW;
+    _action := 'UPDATE';
+    _changes := public.diff_compliance_rules(OLD.rule, NEW.rule);
+  END IF;
+
+  INSERT INTO compliance_rule_audit (rule_row_id, rule_id, team_id, action, changes, snapshot, user_id, changed_by)
+  VALUES (
+    _row.id,
+    _row.rule_id,
+    _row.team_id,
+    _action,
+    _changes,
+    _row.rule,
+    _row.user_id,
+    coalesce(auth.uid(), CASE WHEN _action = 'DELETE' THEN _row.deleted_by END, _row.user_id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_compliance_rules
+AFTER INSERT OR UPDATE OR DELETE ON public.compliance_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_compliance_rule_change();
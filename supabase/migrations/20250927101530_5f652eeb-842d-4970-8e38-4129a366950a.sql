@@ -0,0 +1,469 @@
+-- Create clause_libraries table: private to a user or owned by a firm (team), and readable by every firm when public
+CREATE TABLE public.clause_libraries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL, -- who created the library
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE, -- firm owning the library; NULL keeps it private
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  is_personal BOOLEAN NOT NULL DEFAULT false CHECK (NOT is_personal OR team_id IS NULL), -- the user's own "My Clauses" library
+  settings JSONB NOT NULL,
+  upstream_library_id UUID REFERENCES public.clause_libraries(id) ON DELETE SET NULL, -- public library this one was forked from
+  upstream_synced_at TIMESTAMP WITH TIME ZONE, -- when upstream changes were last pulled
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_clause_libraries_team ON public.clause_libraries (team_id);
+CREATE INDEX idx_clause_libraries_upstream ON public.clause_libraries (upstream_library_id);
+-- Each user has one personal library, however many sessions create it at once
+CREATE UNIQUE INDEX idx_clause_libraries_personal ON public.clause_libraries (user_id) WHERE is_personal;
+
+-- Whether a user can change a library and its clauses: their own private library or one of their firm's
+CREATE OR REPLACE FUNCTION public.can_edit_clause_library(_user_id uuid, _library_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM clause_libraries
+    WHERE id = _library_id AND (
+      (team_id IS NULL AND user_id = _user_id) OR
+      (team_id IS NOT NULL AND public.is_user_team_member(_user_id, team_id))
+    )
+  );
+$$;
+
+-- Enable RLS
+ALTER TABLE public.clause_libraries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own, their teams' and public clause libraries"
+ON public.clause_libraries
+FOR SELECT
+USING (
+  is_public OR
+  auth.uid() = user_id OR
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE POLICY "Users can create clause libraries for themselves or their teams"
+ON public.clause_libraries
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  (team_id IS NULL OR public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE POLICY "Users can update their own and their teams' clause libraries"
+ON public.clause_libraries
+FOR UPDATE
+USING (public.can_edit_clause_library(auth.uid(), id))
+WITH CHECK (
+  (team_id IS NULL AND auth.uid() = user_id) OR
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE POLICY "Users can delete their own and their teams' clause libraries"
+ON public.clause_libraries
+FOR DELETE
+USING (public.can_edit_clause_library(auth.uid(), id));
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_clause_libraries_updated_at
+BEFORE UPDATE ON public.clause_libraries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create clause_templates table; a forked clause keeps a link to the clause it was copied from
+CREATE TABLE public.clause_templates (
+  id UUID NOT NULL PRIMARY KEY, -- assigned by the clause library engine
+  library_id UUID NOT NULL REFERENCES public.clause_libraries(id) ON DELETE CASCADE,
+  template JSONB NOT NULL, -- the template without its versions
+  upstream_template_id UUID REFERENCES public.clause_templates(id) ON DELETE SET NULL,
+  upstream_content TEXT, -- the upstream clause's content when it was last pulled
+  created_by UUID, -- who stored the clause, set by the database
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (id, library_id) -- lets versions reference a clause within its own library
+);
+
+CREATE INDEX idx_clause_templates_library ON public.clause_templates (library_id);
+
+-- Enable RLS
+ALTER TABLE public.clause_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the clauses of libraries they can see"
+ON public.clause_templates
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.clause_libraries WHERE clause_libraries.id = library_id)
+);
+
+CREATE POLICY "Users can add clauses to libraries they can edit"
+ON public.clause_templates
+FOR INSERT
+WITH CHECK (public.can_edit_clause_library(auth.uid(), library_id));
+
+CREATE POLICY "Users can update clauses in libraries they can edit"
+ON public.clause_templates
+FOR UPDATE
+USING (public.can_edit_clause_library(auth.uid(), library_id))
+WITH CHECK (public.can_edit_clause_library(auth.uid(), library_id));
+
+CREATE POLICY "Users can delete clauses from libraries they can edit"
+ON public.clause_templates
+FOR DELETE
+USING (public.can_edit_clause_library(auth.uid(), library_id));
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_clause_templates_updated_at
+BEFORE UPDATE ON public.clause_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create clause_versions table: drafts, versions in review and approved versions of each clause
+CREATE TABLE public.clause_versions (
+  id UUID NOT NULL PRIMARY KEY, -- assigned by the clause library engine
+  template_id UUID NOT NULL,
+  library_id UUID NOT NULL REFERENCES public.clause_libraries(id) ON DELETE CASCADE,
+  version JSONB NOT NULL,
+  created_by UUID, -- who stored the version, set by the database
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  FOREIGN KEY (template_id, library_id) REFERENCES public.clause_templates(id, library_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_clause_versions_template ON public.clause_versions (template_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.clause_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the clause versions of libraries they can see"
+ON public.clause_versions
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.clause_libraries WHERE clause_libraries.id = library_id)
+);
+
+CREATE POLICY "Users can add clause versions to libraries they can edit"
+ON public.clause_versions
+FOR INSERT
+WITH CHECK (public.can_edit_clause_library(auth.uid(), library_id));
+
+CREATE POLICY "Users can update clause versions in libraries they can edit"
+ON public.clause_versions
+FOR UPDATE
+USING (public.can_edit_clause_library(auth.uid(), library_id))
+WITH CHECK (public.can_edit_clause_library(auth.uid(), library_id));
+
+-- Add trigger for timestamps
+CREATE TRIGGER update_clause_versions_updated_at
+BEFORE UPDATE ON public.clause_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a library's clause versions have to be approved by a reviewer before they go live
+CREATE OR REPLACE FUNCTION public.clause_library_requires_approval(_library_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((settings->>'requireApproval')::boolean, true)
+  FROM clause_libraries
+  WHERE id = _library_id;
+$$;
+
+-- In libraries that require approval, only the review functions can approve a clause or change its
+-- live content. New clauses start as drafts and stay in their library. Records who stored each
+-- clause, so no one can review a clause they added themselves.
+CREATE OR REPLACE FUNCTION public.guard_clause_template_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+  ELSE
+    NEW.created_by := OLD.created_by;
+  END IF;
+
+  IF current_setting('clause_library.reviewing', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.library_id <> OLD.library_id AND (
+    public.clause_library_requires_approval(OLD.library_id) OR
+    public.clause_library_requires_approval(NEW.library_id)
+  ) THEN
+    RAISE EXCEPTION 'Clauses cannot be moved into or out of a library that requires approval';
+  END IF;
+  IF NOT public.clause_library_requires_approval(NEW.library_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.template->>'status' IS DISTINCT FROM 'DRAFT' THEN
+    RAISE EXCEPTION 'New clauses in a library that requires approval start as drafts';
+  END IF;
+  IF TG_OP = 'UPDATE' AND (
+    NEW.template->>'content' IS DISTINCT FROM OLD.template->>'content' OR
+    NEW.template->>'status' IS DISTINCT FROM OLD.template->>'status'
+  ) THEN
+    RAISE EXCEPTION 'Clause content and status changes have to be approved by a reviewer';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- In libraries that require approval, only review_clause_version can approve, reject or activate a
+-- version. Editors can add drafts, submit them, edit their own and comment on reviewed ones.
+CREATE OR REPLACE FUNCTION public.guard_clause_version_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+  ELSE
+    NEW.created_by := OLD.created_by;
+  END IF;
+
+  IF current_setting('clause_library.reviewing', true) = 'on' OR
+     NOT public.clause_library_requires_approval(NEW.library_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.template_id <> OLD.template_id OR
+       NEW.version->>'author' IS DISTINCT FROM OLD.version->>'author' THEN
+      RAISE EXCEPTION 'Clause versions cannot move to another clause or author';
+    END IF;
+    IF NEW.version->>'content' IS DISTINCT FROM OLD.version->>'content' AND
+       OLD.created_by IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author of a version can edit it';
+    END IF;
+
+    -- Comments on a version leave its review as it was
+    IF NEW.version->>'approvalStatus' = OLD.version->>'approvalStatus' AND
+       NEW.version->'isActive' IS NOT DISTINCT FROM OLD.version->'isActive' AND
+       NEW.version->>'content' = OLD.version->>'content' AND
+       NEW.version->'approvedBy' IS NOT DISTINCT FROM OLD.version->'approvedBy' AND
+       NEW.version->'rejectedBy' IS NOT DISTINCT FROM OLD.version->'rejectedBy' THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.version->>'approvalStatus' = 'APPROVED' THEN
+      RAISE EXCEPTION 'Approved clause versions cannot be changed';
+    END IF;
+  END IF;
+
+  IF NEW.version->>'approvalStatus' IN ('DRAFT', 'PENDING') AND
+     NOT COALESCE((NEW.version->>'isActive')::boolean, false) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Clause versions have to be approved or rejected by their assigned reviewer';
+END;
+$$;
+
+-- Only the firm's owner can stop a firm library requiring approval, so editors cannot turn the review
+-- workflow off to approve their own versions
+CREATE OR REPLACE FUNCTION public.guard_clause_library_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.team_id IS NOT NULL AND
+     COALESCE((OLD.settings->>'requireApproval')::boolean, true) AND
+     NOT COALESCE((NEW.settings->>'requireApproval')::boolean, true) AND
+     NOT EXISTS (SELECT 1 FROM teams WHERE id = NEW.team_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the firm''s owner can stop requiring approval for its library';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_clause_libraries_approval
+BEFORE UPDATE ON public.clause_libraries
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_clause_library_approval();
+
+CREATE TRIGGER guard_clause_templates_review
+BEFORE INSERT OR UPDATE ON public.clause_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_clause_template_review();
+
+CREATE TRIGGER guard_clause_versions_review
+BEFORE INSERT OR UPDATE ON public.clause_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_clause_version_review();
+
+-- Fields of a version that a review changes, and of a clause that approving a version changes.
+-- Everything else in a review has to match what is stored.
+CREATE OR REPLACE FUNCTION public.clause_review_unchanged(_stored jsonb, _reviewed jsonb, _reviewed_fields text[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((_stored - _reviewed_fields) = (_reviewed - _reviewed_fields), _stored IS NULL AND _reviewed IS NULL);
+$$;
+
+-- Store a review of a clause version made in the clause library engine: the version approved or
+-- rejected by the caller, and for an approval the clause with the version's content. The caller
+-- has to be the version's assigned reviewer, or, for a staged draft clause, any other member of the
+-- library's firm accepting it; never whoever wrote or stored the version. Approving makes the
+-- version the only active one.
+CREATE OR REPLACE FUNCTION public.review_clause_version(_version jsonb, _template jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reviewer text := auth.uid()::text;
+  _stored clause_versions%ROWTYPE;
+  _stored_template clause_templates%ROWTYPE;
+  _status text := _version->>'approvalStatus';
+BEGIN
+  SELECT * INTO _stored FROM clause_versions WHERE id = (_version->>'id')::uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Clause version not found';
+  END IF;
+  SELECT * INTO _stored_template FROM clause_templates WHERE id = _stored.template_id FOR UPDATE;
+
+  IF NOT public.can_edit_clause_library(auth.uid(), _stored.library_id) THEN
+    RAISE EXCEPTION 'Only members of the library''s firm can review its clause versions';
+  END IF;
+  IF _stored.version->>'author' = _reviewer OR _stored.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'A version cannot be approved by its author';
+  END IF;
+  IF NOT (
+    (_stored.version->>'approvalStatus' = 'PENDING' AND _stored.version->>'approver' = _reviewer) OR
+    (_stored_template.template->>'status' = 'DRAFT' AND _stored.version->>'approvalStatus' IN ('DRAFT', 'PENDING'))
+  ) THEN
+    RAISE EXCEPTION 'Version % is not awaiting review by you', _stored.version->>'version';
+  END IF;
+
+  IF _status NOT IN ('APPROVED', 'REJECTED') OR
+     NOT public.clause_review_unchanged(_stored.version, _version, ARRAY[
+       'approvalStatus', 'isActive', 'approver', 'submittedAt', 'approvedBy', 'approvedAt',
+       'rejectedBy', 'rejectedAt', 'comments'
+     ]) OR
+     NOT COALESCE((_version->'comments') @> (_stored.version->'comments'), false) OR
+     _version->>'approver' IS DISTINCT FROM _reviewer OR
+     (_status = 'APPROVED' AND (
+       _version->>'approvedBy' IS DISTINCT FROM _reviewer OR
+       NOT COALESCE((_version->>'isActive')::boolean, false)
+     )) OR
+     (_status = 'REJECTED' AND (
+       _version->>'rejectedBy' IS DISTINCT FROM _reviewer OR
+       COALESCE((_version->>'isActive')::boolean, false)
+     )) THEN
+    RAISE EXCEPTION 'The review does not match version %', _stored.version->>'version';
+  END IF;
+
+  -- Approving changes the clause's content, word count, status (a draft clause becomes approved)
+  -- and modification date, and nothing else
+  IF _status = 'APPROVED' AND (
+    _template->>'content' IS DISTINCT FROM _version->>'content' OR
+    NOT public.clause_review_unchanged(_stored_template.template, _template, ARRAY['content', 'status', 'metadata', 'lastModified']) OR
+    NOT public.clause_review_unchanged(_stored_template.template->'metadata', _template->'metadata', ARRAY['wordCount']) OR
+    _template->>'status' IS DISTINCT FROM (
+      CASE WHEN _stored_template.template->>'status' = 'DRAFT' THEN 'APPROVED' ELSE _stored_template.template->>'status' END
+    )
+  ) THEN
+    RAISE EXCEPTION 'The approved clause does not match version %', _stored.version->>'version';
+  END IF;
+
+  PERFORM set_config('clause_library.reviewing', 'on', true);
+
+  UPDATE clause_versions SET version = _version WHERE id = _stored.id;
+  IF _status = 'APPROVED' THEN
+    UPDATE clause_versions
+    SET version = jsonb_set(version, '{isActive}', 'false'::jsonb)
+    WHERE template_id = _stored.template_id AND id <> _stored.id AND (version->>'isActive')::boolean;
+
+    UPDATE clause_templates SET template = _template WHERE id = _stored.template_id;
+  END IF;
+
+  PERFORM set_config('clause_library.reviewing', 'off', true);
+END;
+$$;
+
+-- Accept a staged draft clause in a library without version control, which has no version to
+-- review: another member of the library's firm approves the clause as it is
+CREATE OR REPLACE FUNCTION public.accept_clause_draft(_template jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stored clause_templates%ROWTYPE;
+BEGIN
+  SELECT * INTO _stored FROM clause_templates WHERE id = (_template->>'id')::uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Clause template not found';
+  END IF;
+
+  IF NOT public.can_edit_clause_library(auth.uid(), _stored.library_id) THEN
+    RAISE EXCEPTION 'Only members of the library''s firm can accept its clauses';
+  END IF;
+  IF _stored.template->>'author' = auth.uid()::text OR _stored.created_by = auth.uid() THEN
+    RAISE EXCEPTION '% cannot be accepted by its author', _stored.template->>'title';
+  END IF;
+  IF _stored.template->>'status' IS DISTINCT FROM 'DRAFT' OR
+     EXISTS (SELECT 1 FROM clause_versions WHERE template_id = _stored.id) THEN
+    RAISE EXCEPTION '% is not a draft without versions', _stored.template->>'title';
+  END IF;
+  IF _template->>'status' IS DISTINCT FROM 'APPROVED' OR
+     NOT public.clause_review_unchanged(_stored.template, _template, ARRAY['status', 'lastModified']) THEN
+    RAISE EXCEPTION 'The accepted clause does not match %', _stored.template->>'title';
+  END IF;
+
+  PERFORM set_config('clause_library.reviewing', 'on', true);
+  UPDATE clause_templates SET template = _template WHERE id = _stored.id;
+  PERFORM set_config('clause_library.reviewing', 'off', true);
+END;
+$$;
+
+-- Create clause_usage table. Usage names the contract a clause went into, so it stays within the
+-- firm that used the clause, even when the clause is from another firm's public library.
+CREATE TABLE public.clause_usage (
+  id UUID NOT NULL PRIMARY KEY, -- assigned by the clause library engine
+  template_id UUID NOT NULL REFERENCES public.clause_templates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE, -- firm that used the clause
+  usage JSONB NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_clause_usage_template ON public.clause_usage (template_id, used_at);
+
+-- Enable RLS
+ALTER TABLE public.clause_usage ENABLE ROW LEVEL SECURITY;
+
+-- Usage is append-only
+CREATE POLICY "Users can view their own and their teams' clause usage"
+ON public.clause_usage
+FOR SELECT
+USING (
+  auth.uid() = user_id OR
+  (team_id IS NOT NULL AND public.is_user_team_member(auth.uid(), team_id))
+);
+
+CREATE POLICY "Users can record their own use of clauses they can see"
+ON public.clause_usage
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  (team_id IS NULL OR public.is_user_team_member(auth.uid(), team_id)) AND
+  EXISTS (SELECT 1 FROM public.clause_templates WHERE clause_templates.id = template_id)
+);